@@ -44,13 +44,26 @@ import {
   Terminal,
   Search,
   Download,
-  ExternalLink
+  ExternalLink,
+  Plug,
+  Send
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { User as UserType } from "@shared/schema";
 import { EnrichmentTestButton } from "./EnrichmentTestButton";
 import { UserManagement } from "./UserManagement";
+import { EnrichmentJobsPanel } from "./EnrichmentJobsPanel";
+import { TrafficQualityPanel } from "./TrafficQualityPanel";
+import { EnrichmentUsagePanel } from "./EnrichmentUsagePanel";
+import { IntegrationsSettings } from "./IntegrationsSettings";
+import { LeadScoreBadge } from "./LeadScoreBadge";
+import { LeadScoringPanel } from "./LeadScoringPanel";
+import { UrlRulesPanel } from "./UrlRulesPanel";
+import { CampaignsPanel } from "./CampaignsPanel";
+import { SegmentsPanel } from "./SegmentsPanel";
+import { SequencesPanel } from "./SequencesPanel";
+import { MailchimpAudienceSettings } from "./MailchimpAudienceSettings";
 
 interface AdminDashboardProps {
   user: UserType;
@@ -58,6 +71,28 @@ interface AdminDashboardProps {
   onCidChange: (cid: string) => void;
 }
 
+// Response of /api/admin/system-health
+interface SystemHealth {
+  enrichmentCache?: {
+    since: string;
+    hits: number;
+    misses: number;
+    hitRate: number;
+    freshEntries: number;
+  };
+  integrations?: {
+    audienceAcuity?: {
+      connected: boolean;
+      circuitBreaker?: {
+        state: 'closed' | 'open' | 'half_open';
+        nextProbeAt: string | null;
+        lastFailure: { message: string } | null;
+      };
+    };
+    [name: string]: any;
+  };
+}
+
 const businessIcon = Home;
 const businessLabel = "Real Estate";
 
@@ -93,6 +128,7 @@ const formatUrl = (url: string, maxLength: number = 50): { display: string; full
 
 export default function AdminDashboard({ user, selectedCid, onCidChange }: AdminDashboardProps) {
   const [timePeriod, setTimePeriod] = useState<string>("30d");
+  const [captureSort, setCaptureSort] = useState<string>("recent");
   const [activeTab, setActiveTab] = useState("overview");
   const [newAccountDialog, setNewAccountDialog] = useState(false);
   const [customDateRange, setCustomDateRange] = useState<{
@@ -197,10 +233,11 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
   });
 
   // Fetch system health and integrations
-  const { data: systemHealth } = useQuery({
+  const { data: systemHealth } = useQuery<SystemHealth>({
     queryKey: ["/api/admin/system-health"],
     retry: false,
   });
+  const circuitBreaker = systemHealth?.integrations?.audienceAcuity?.circuitBreaker;
 
   // Fetch enhanced sync status for all services
   const { data: enhancedSyncStatus = {} } = useQuery<any>({
@@ -235,12 +272,13 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
 
   // Fetch recent email captures for all accounts or specific account
   const { data: recentCaptures = [] } = useQuery({
-    queryKey: ["/api/recent-captures", selectedCid, timePeriod, customDateRange.from, customDateRange.to],
+    queryKey: ["/api/recent-captures", selectedCid, timePeriod, customDateRange.from, customDateRange.to, captureSort],
     queryFn: async () => {
       try {
         const params = new URLSearchParams();
         if (selectedCid !== 'all') params.append('cid', selectedCid);
         params.append('timePeriod', timePeriod);
+        if (captureSort !== 'recent') params.append('sort', captureSort);
         if (timePeriod === 'custom' && customDateRange.from && customDateRange.to) {
           params.append('fromDate', customDateRange.from.toISOString());
           params.append('toDate', customDateRange.to.toISOString());
@@ -517,6 +555,13 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
             zip: formData.get('returnZip') as string || '',
             country: 'US'
           }
+        },
+        emailSelection: {
+          optInOnly: formData.get('emailOptInOnly') === 'true',
+          maxQualityLevel: formData.get('emailMaxQualityLevel') && formData.get('emailMaxQualityLevel') !== 'any'
+            ? parseInt(formData.get('emailMaxQualityLevel') as string)
+            : null,
+          order: formData.get('emailOrder') === 'newest' ? 'newest' : 'quality',
         }
       }
     };
@@ -1493,7 +1538,7 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
 
       {/* Main Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="overview" className="flex items-center space-x-2">
             <Eye className="h-4 w-4" />
             <span>Overview</span>
@@ -1510,6 +1555,14 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
             <Activity className="h-4 w-4" />
             <span>System Monitor</span>
           </TabsTrigger>
+          <TabsTrigger value="campaigns" className="flex items-center space-x-2">
+            <Send className="h-4 w-4" />
+            <span>Campaigns</span>
+          </TabsTrigger>
+          <TabsTrigger value="integrations" className="flex items-center space-x-2">
+            <Plug className="h-4 w-4" />
+            <span>Integrations</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -1521,9 +1574,24 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>Recent Identity Captures</span>
-                <Badge variant="outline" className="text-blue-600 border-blue-200">
-                  Website Traffic
-                </Badge>
+                <div className="flex items-center gap-2">
+                  <Select value={captureSort} onValueChange={setCaptureSort}>
+                    <SelectTrigger className="w-44 h-8 text-sm font-normal">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="recent">Most Recent</SelectItem>
+                      <SelectItem value="leadScore">Top Lead Score</SelectItem>
+                      <SelectItem value="sellerScore">Top Seller Score</SelectItem>
+                      <SelectItem value="buyerScore">Top Buyer Score</SelectItem>
+                      <SelectItem value="refinanceScore">Top Refinance Score</SelectItem>
+                      <SelectItem value="intentScore">Top Intent Score</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Badge variant="outline" className="text-blue-600 border-blue-200">
+                    Website Traffic
+                  </Badge>
+                </div>
               </CardTitle>
             </CardHeader>
             <CardContent className="p-0">
@@ -1544,6 +1612,9 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
                         <th className="text-left py-4 px-6 font-semibold text-gray-900 text-xs uppercase tracking-wider">
                           Last Visit Date
                         </th>
+                        <th className="text-left py-4 px-6 font-semibold text-gray-900 text-xs uppercase tracking-wider">
+                          Lead Score
+                        </th>
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
@@ -1572,6 +1643,9 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
                               </span>
                             ) : <span className="text-gray-400 italic">N/A</span>}
                           </td>
+                          <td className="py-4 px-6">
+                            <LeadScoreBadge identityId={capture.id} score={capture.leadScore} />
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -1655,6 +1729,8 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
                             <div><span className="font-medium">Mortgage Loan Type:</span> {lookupResults.profile.mortgageLoanType || 'N/A'}</div>
                             <div><span className="font-medium">Mortgage Amount:</span> {lookupResults.profile.mortgageAmount ? `$${Math.floor(lookupResults.profile.mortgageAmount).toLocaleString()}` : 'N/A'}</div>
                             <div><span className="font-medium">Mortgage Age:</span> {lookupResults.profile.mortgageAge ? `${lookupResults.profile.mortgageAge} years` : 'N/A'}</div>
+                            <div><span className="font-medium">Estimated Equity:</span> {lookupResults.profile.estimatedEquity ? `$${Math.floor(lookupResults.profile.estimatedEquity).toLocaleString()}${lookupResults.profile.equityPercent ? ` (${parseFloat(lookupResults.profile.equityPercent).toFixed(1)}%)` : ''}` : 'N/A'}</div>
+                            <div><span className="font-medium">Loan-to-Value:</span> {lookupResults.profile.loanToValue ? `${parseFloat(lookupResults.profile.loanToValue).toFixed(1)}%` : 'N/A'}</div>
                           </div>
                         </div>
                         
@@ -2016,6 +2092,61 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
                     </div>
                   </div>
 
+                  {/* Email Selection Section */}
+                  <div className="border-t pt-6">
+                    <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                      <Mail className="h-5 w-5 mr-2 text-blue-600" />
+                      Email Selection
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <Label htmlFor="view-email-opt-in">Opt-in</Label>
+                        <Select name="emailOptInOnly" defaultValue={selectedAccount.settings?.emailSelection?.optInOnly ? 'true' : 'false'}>
+                          <SelectTrigger id="view-email-opt-in">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="false">Any email</SelectItem>
+                            <SelectItem value="true">Opted-in emails only</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="view-email-quality">Minimum Quality</Label>
+                        <Select name="emailMaxQualityLevel" defaultValue={selectedAccount.settings?.emailSelection?.maxQualityLevel?.toString() ?? 'any'}>
+                          <SelectTrigger id="view-email-quality">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="any">Any quality</SelectItem>
+                            <SelectItem value="0">Level 0 (best)</SelectItem>
+                            <SelectItem value="1">Level 1 or better</SelectItem>
+                            <SelectItem value="2">Level 2 or better</SelectItem>
+                            <SelectItem value="3">Level 3 or better</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="view-email-order">Prefer</Label>
+                        <Select name="emailOrder" defaultValue={selectedAccount.settings?.emailSelection?.order || 'quality'}>
+                          <SelectTrigger id="view-email-order">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="quality">Best quality first</SelectItem>
+                            <SelectItem value="newest">Newest first</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      Chooses which of the provider's email candidates is synced to Mailchimp. Contacts with no qualifying email are skipped.
+                    </p>
+                  </div>
+
+                  {/* Mailchimp Audience Section - saved on its own, not with the form */}
+                  <MailchimpAudienceSettings cid={selectedAccount.cid} />
+
                   <div className="flex justify-end space-x-2">
                     <Button variant="outline" onClick={() => setViewAccountDialog(false)}>
                       Close
@@ -2231,6 +2362,16 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
                           <CheckCircle className="h-3 w-3 mr-1" />
                           Connected
                         </Badge>
+                      ) : circuitBreaker?.state ? (
+                        <Badge
+                          className="bg-red-100 text-red-800"
+                          title={circuitBreaker.lastFailure?.message}
+                        >
+                          <AlertCircle className="h-3 w-3 mr-1" />
+                          {circuitBreaker.state === 'half_open' ? 'Probing' : 'Paused'}
+                          {circuitBreaker.nextProbeAt &&
+                            ` · retry ${format(new Date(circuitBreaker.nextProbeAt), 'h:mm a')}`}
+                        </Badge>
                       ) : (
                         <Badge className="bg-red-100 text-red-800">
                           <AlertCircle className="h-3 w-3 mr-1" />
@@ -2285,6 +2426,12 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
                         </Badge>
                       )}
                     </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm">Enrichment Cache</span>
+                      <Badge className="bg-blue-100 text-blue-800" title={`${systemHealth?.enrichmentCache?.hits || 0} hits / ${systemHealth?.enrichmentCache?.misses || 0} misses since ${systemHealth?.enrichmentCache?.since ? new Date(systemHealth.enrichmentCache.since).toLocaleString() : 'startup'}`}>
+                        {systemHealth?.enrichmentCache?.hitRate ?? 0}% hit rate · {systemHealth?.enrichmentCache?.freshEntries ?? 0} cached
+                      </Badge>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -2481,6 +2628,35 @@ export default function AdminDashboard({ user, selectedCid, onCidChange }: Admin
               )}
             </CardContent>
           </Card>
+
+          {/* Enrichment Job Queue */}
+          <EnrichmentJobsPanel />
+
+          {/* Enrichment Usage & Caps */}
+          <EnrichmentUsagePanel />
+
+          {/* Pixel Traffic Quality */}
+          <TrafficQualityPanel />
+
+          {/* Lead Scoring Weights */}
+          <LeadScoringPanel />
+
+          {/* URL Rules and Visit Intent */}
+          <UrlRulesPanel />
+        </TabsContent>
+
+        {/* Campaigns Tab */}
+        <TabsContent value="campaigns" className="space-y-6">
+          <SegmentsPanel />
+
+          <CampaignsPanel />
+
+          <SequencesPanel />
+        </TabsContent>
+
+        {/* Integrations Tab */}
+        <TabsContent value="integrations" className="space-y-6">
+          <IntegrationsSettings />
         </TabsContent>
 
       </Tabs>
@@ -5,27 +5,90 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
-import { Download, Search, Filter } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Search, Filter, ArrowUp, ArrowDown, ArrowUpDown } from "lucide-react";
 import { BUSINESS_TYPE_FIELDS } from "@shared/schema";
-import type { RealEstateEnrichmentData } from "@shared/schema";
+import type { LeadScoreType, RealEstateEnrichmentData, Segment } from "@shared/schema";
+import { LeadScoreBadge, scoreColor } from "./LeadScoreBadge";
 
 interface BusinessDataTableProps {
   cid?: string;
 }
 
+type ScoreField = 'leadScore' | 'sellerScore' | 'buyerScore' | 'refinanceScore' | 'intentScore';
+
+// Score column -> the API's minimum-score filter parameter
+const SCORE_FILTERS: Record<ScoreField, string> = {
+  leadScore: 'minLeadScore',
+  sellerScore: 'minSellerScore',
+  buyerScore: 'minBuyerScore',
+  refinanceScore: 'minRefinanceScore',
+  intentScore: 'minIntentScore',
+};
+
+// Which breakdown a score column's badge opens on
+const SCORE_TYPES: Partial<Record<ScoreField, LeadScoreType>> = {
+  sellerScore: 'seller',
+  buyerScore: 'buyer',
+  refinanceScore: 'refinance',
+};
+
+const isScoreField = (key: string): key is ScoreField => key in SCORE_FILTERS;
+
 export default function BusinessDataTable({ cid }: BusinessDataTableProps) {
   const [searchTerm, setSearchTerm] = useState("");
-  const [visibleFields, setVisibleFields] = useState<string[]>(
-    BUSINESS_TYPE_FIELDS.real_estate.slice(0, 8).map(field => field.key)
-  );
+  const [visibleFields, setVisibleFields] = useState<string[]>([
+    ...BUSINESS_TYPE_FIELDS.real_estate.slice(0, 8).map(field => field.key),
+    'leadScore',
+    'sellerScore',
+    'buyerScore',
+    'refinanceScore',
+    'intentScore',
+  ]);
+  const [sort, setSort] = useState<{ field: ScoreField; order: 'asc' | 'desc' } | null>(null);
+  const [minScoreField, setMinScoreField] = useState<ScoreField>('leadScore');
+  const [minScore, setMinScore] = useState("");
+  const [minEquityPercent, setMinEquityPercent] = useState("");
+  const [minIncome, setMinIncome] = useState("");
+  const [segmentId, setSegmentId] = useState("all");
+
+  const { data: segments = [] } = useQuery<Segment[]>({
+    queryKey: ['/api/segments', cid],
+    queryFn: async () => {
+      const res = await fetch(`/api/segments${cid ? `?cid=${encodeURIComponent(cid)}` : ''}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      return res.json();
+    },
+  });
+
+  // A segment from another account can't apply once the account changes
+  const activeSegmentId = segments.some(segment => String(segment.id) === segmentId) ? segmentId : "all";
 
   const { data: businessData, isLoading } = useQuery<RealEstateEnrichmentData[]>({
-    queryKey: ['/api/business-data-export', cid],
+    queryKey: ['/api/business-data-export', cid, activeSegmentId, sort?.field, sort?.order, minScoreField, minScore, minEquityPercent, minIncome],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (cid) {
         params.append('cid', cid);
       }
+      if (activeSegmentId !== 'all') {
+        params.append('segmentId', activeSegmentId);
+      }
+      if (sort) {
+        params.append('sort', sort.field);
+        params.append('order', sort.order);
+      }
+      if (minScore.trim() !== '') {
+        params.append(SCORE_FILTERS[minScoreField], minScore.trim());
+      }
+      if (minEquityPercent.trim() !== '') {
+        params.append('minEquityPercent', minEquityPercent.trim());
+      }
+      if (minIncome.trim() !== '') {
+        params.append('minIncome', minIncome.trim());
+      }
       
       const res = await fetch(`/api/business-data-export?${params.toString()}`, {
         credentials: "include",
@@ -56,7 +119,7 @@ export default function BusinessDataTable({ cid }: BusinessDataTableProps) {
           .filter(field => visibleFields.includes(field.key))
           .map(field => {
             const value = row[field.key as keyof RealEstateEnrichmentData];
-            return `"${value || ''}"`;
+            return `"${value ?? ''}"`;
           })
           .join(',')
       )
@@ -115,7 +178,26 @@ export default function BusinessDataTable({ cid }: BusinessDataTableProps) {
     };
   };
 
-  const formatValue = (field: string, value: any) => {
+  // Highest first on the first click, then lowest first, then back to the default order
+  const toggleSort = (field: ScoreField) => {
+    if (sort?.field !== field) {
+      setSort({ field, order: 'desc' });
+    } else {
+      setSort(sort.order === 'desc' ? { field, order: 'asc' } : null);
+    }
+  };
+
+  const formatValue = (field: string, value: any, row: any) => {
+    // Intent has no factor breakdown to open
+    if (field === 'intentScore') {
+      return value === null || value === undefined
+        ? <span className="text-gray-400 italic">Not scored</span>
+        : <Badge className={scoreColor(value)}>{value}</Badge>;
+    }
+    if (isScoreField(field)) {
+      return <LeadScoreBadge identityId={row.id} score={value} type={SCORE_TYPES[field]} />;
+    }
+
     if (!value || value === null || value === undefined || value === '') {
       return <span className="text-gray-400 italic">Data Not Available</span>;
     }
@@ -124,14 +206,23 @@ export default function BusinessDataTable({ cid }: BusinessDataTableProps) {
       // Currency fields
       case 'mortgageAmount':
       case 'householdIncome':
+      case 'householdIncomeMidpoint':
       case 'homePrice':
       case 'homeValue':
+      case 'estimatedEquity':
+      case 'estimatedLoanBalance':
+      case 'appreciationAmount':
       case 'purchasePrice':
       case 'monthlyPayment':
       case 'annualSpend':
       case 'lifetimeValue':
       case 'averageOrderValue':
         return formatCurrency(value);
+      // Percentage fields
+      case 'equityPercent':
+      case 'loanToValue':
+      case 'appreciationPercent':
+        return `${parseFloat(value).toFixed(1)}%`;
       // Date fields
       case 'birthDate':
       case 'lastVisitDate':
@@ -180,6 +271,61 @@ export default function BusinessDataTable({ cid }: BusinessDataTableProps) {
       <CardContent className="pt-6">
         <div className="space-y-4">
 
+          {/* Lead Score, Equity and Income Filters */}
+          <div className="flex items-center gap-2">
+            <Filter className="h-4 w-4 text-gray-500" />
+            <Select value={activeSegmentId} onValueChange={setSegmentId}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All identities</SelectItem>
+                {segments.map(segment => (
+                  <SelectItem key={segment.id} value={String(segment.id)}>{segment.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={minScoreField} onValueChange={(value) => setMinScoreField(value as ScoreField)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="leadScore">Lead Score</SelectItem>
+                <SelectItem value="sellerScore">Seller Score</SelectItem>
+                <SelectItem value="buyerScore">Buyer Score</SelectItem>
+                <SelectItem value="refinanceScore">Refinance Score</SelectItem>
+                <SelectItem value="intentScore">Intent Score</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="Minimum score"
+              value={minScore}
+              onChange={(e) => setMinScore(e.target.value)}
+              className="w-36"
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="Min equity %"
+              value={minEquityPercent}
+              onChange={(e) => setMinEquityPercent(e.target.value)}
+              className="w-36"
+            />
+            <Input
+              type="number"
+              min={0}
+              step={10000}
+              placeholder="Min income ($)"
+              value={minIncome}
+              onChange={(e) => setMinIncome(e.target.value)}
+              className="w-36"
+            />
+          </div>
+
           {/* Data Table */}
           <div className="rounded-md border">
             <Table>
@@ -187,7 +333,12 @@ export default function BusinessDataTable({ cid }: BusinessDataTableProps) {
                 <TableRow>
                   {fields.filter(field => visibleFields.includes(field.key)).map((field) => (
                     <TableHead key={field.key} className="font-medium">
-                      {field.label}
+                      {isScoreField(field.key) ? (
+                        <button type="button" className="flex items-center gap-1" onClick={() => toggleSort(field.key as ScoreField)}>
+                          {field.label}
+                          {sort?.field !== field.key ? <ArrowUpDown className="h-3 w-3 text-gray-400" /> : sort.order === 'desc' ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />}
+                        </button>
+                      ) : field.label}
                     </TableHead>
                   ))}
                 </TableRow>
@@ -204,7 +355,7 @@ export default function BusinessDataTable({ cid }: BusinessDataTableProps) {
                     <TableRow key={index}>
                       {fields.filter(field => visibleFields.includes(field.key)).map((field) => (
                         <TableCell key={field.key} className="py-2">
-                          {formatValue(field.key, row[field.key as keyof RealEstateEnrichmentData])}
+                          {formatValue(field.key, row[field.key as keyof RealEstateEnrichmentData], row)}
                         </TableCell>
                       ))}
                     </TableRow>
@@ -0,0 +1,342 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Send, Plus, Users, CalendarClock, Undo2 } from 'lucide-react';
+import type { Campaign, CampaignChannelConfig, Segment } from '@shared/schema';
+
+// Audience filters offered in the form - the API accepts the same listing parameters
+const FILTER_FIELDS: Array<{ key: string; label: string; placeholder: string }> = [
+  { key: 'minLeadScore', label: 'Min lead score', placeholder: '0-100' },
+  { key: 'minIntentScore', label: 'Min intent score', placeholder: '0-100' },
+  { key: 'minEquityPercent', label: 'Min equity %', placeholder: 'e.g. 40' },
+  { key: 'minIncome', label: 'Min income ($)', placeholder: 'e.g. 100000' },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  scheduled: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+};
+
+const NO_SEGMENT = '__none__';
+
+const EMPTY_FORM = {
+  name: '',
+  type: 'email',
+  segmentId: NO_SEGMENT,
+  mailchimpTag: '',
+  cardId: '',
+  message: '',
+  scheduledAt: '',
+  filters: {} as Record<string, string>,
+};
+
+/**
+ * Create, schedule and follow Mailchimp and Handwrytten campaigns
+ */
+export function CampaignsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cid, setCid] = useState<string>('');
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: accounts = [] } = useQuery<any[]>({
+    queryKey: ['/api/cid-accounts'],
+  });
+
+  const { data: segments = [] } = useQuery<Segment[]>({
+    queryKey: [`/api/segments?cid=${encodeURIComponent(cid)}`],
+    enabled: !!cid,
+  });
+
+  const { data: campaigns = [], isLoading } = useQuery<Campaign[]>({
+    queryKey: ['/api/campaigns'],
+    refetchInterval: 30000, // Stats fill in while campaigns run
+  });
+
+  useEffect(() => {
+    if (!cid && accounts.length > 0) {
+      setCid(accounts[0].cid);
+    }
+  }, [accounts, cid]);
+
+  const invalidateCampaigns = () => queryClient.invalidateQueries({ queryKey: ['/api/campaigns'] });
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const channelConfig: CampaignChannelConfig = form.type === 'email'
+        ? { mailchimpTag: form.mailchimpTag.trim() }
+        : { cardId: form.cardId.trim() || undefined, message: form.message.trim() || undefined };
+      const filters = Object.fromEntries(Object.entries(form.filters).filter(([, value]) => value.trim() !== ''));
+
+      const created = await (await apiRequest('POST', '/api/campaigns', {
+        name: form.name.trim(),
+        type: form.type,
+        cid,
+        segmentId: form.segmentId === NO_SEGMENT ? null : parseInt(form.segmentId),
+        audience: { filters },
+        channelConfig,
+      })).json();
+
+      if (form.scheduledAt) {
+        await apiRequest('POST', `/api/campaigns/${created.id}/schedule`, { scheduledAt: new Date(form.scheduledAt).toISOString() });
+      }
+      return created;
+    },
+    onSuccess: () => {
+      toast({ title: 'Campaign Created', description: form.scheduledAt ? 'The campaign is scheduled' : 'Saved as a draft' });
+      setForm(EMPTY_FORM);
+      invalidateCampaigns();
+    },
+    onError: onError('Create Failed'),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (campaignId: number) => {
+      const result = await apiRequest('GET', `/api/campaigns/${campaignId}/audience-preview`);
+      return await result.json();
+    },
+    onSuccess: (result: { count: number }) => {
+      toast({ title: 'Audience Preview', description: `${result.count.toLocaleString()} identities would receive this campaign now` });
+    },
+    onError: onError('Preview Failed'),
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (campaignId: number) => {
+      const result = await apiRequest('POST', `/api/campaigns/${campaignId}/schedule`, {});
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Campaign Scheduled', description: 'It starts on the next scheduler run' });
+      invalidateCampaigns();
+    },
+    onError: onError('Schedule Failed'),
+  });
+
+  const unscheduleMutation = useMutation({
+    mutationFn: async (campaignId: number) => {
+      const result = await apiRequest('POST', `/api/campaigns/${campaignId}/unschedule`, {});
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Campaign Unscheduled', description: 'Moved back to draft' });
+      invalidateCampaigns();
+    },
+    onError: onError('Unschedule Failed'),
+  });
+
+  const createCampaign = () => {
+    if (!form.name.trim() || !cid) {
+      toast({ title: 'Missing Details', description: 'A campaign needs a name and an account', variant: 'destructive' });
+      return;
+    }
+    if (form.type === 'email' && !form.mailchimpTag.trim()) {
+      toast({ title: 'Missing Tag', description: 'Email campaigns need the Mailchimp tag your automation sends to', variant: 'destructive' });
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const rate = (value: string | null) => (value === null ? '—' : `${parseFloat(value).toFixed(1)}%`);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Plus className="h-5 w-5 mr-2 text-blue-600" />
+            New Campaign
+          </CardTitle>
+          <CardDescription>
+            Recipients are chosen when the campaign starts from the account's enriched identities, or a segment's, that match the filters.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Name</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Spring seller outreach" />
+            </div>
+            <div className="space-y-1">
+              <Label>Account</Label>
+              <Select value={cid} onValueChange={(value) => { setCid(value); setForm({ ...form, segmentId: NO_SEGMENT }); }}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account: any) => (
+                    <SelectItem key={account.cid} value={account.cid}>{account.accountName || account.cid}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Channel</Label>
+              <Select value={form.type} onValueChange={(type) => setForm({ ...form, type })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="email">Email (Mailchimp tag)</SelectItem>
+                  <SelectItem value="handwritten">Handwritten card (Handwrytten)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Segment</Label>
+            <Select value={form.segmentId} onValueChange={(segmentId) => setForm({ ...form, segmentId })}>
+              <SelectTrigger className="md:w-1/3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SEGMENT}>All enriched identities</SelectItem>
+                {segments.map(segment => (
+                  <SelectItem key={segment.id} value={String(segment.id)}>{segment.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {form.type === 'email' ? (
+            <div className="space-y-1">
+              <Label>Mailchimp tag</Label>
+              <Input value={form.mailchimpTag} onChange={(e) => setForm({ ...form, mailchimpTag: e.target.value })} placeholder="spring-sellers" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <Label>Card ID</Label>
+                <Input value={form.cardId} onChange={(e) => setForm({ ...form, cardId: e.target.value })} placeholder="Account default" />
+              </div>
+              <div className="space-y-1 md:col-span-3">
+                <Label>Message</Label>
+                <Textarea
+                  value={form.message}
+                  onChange={(e) => setForm({ ...form, message: e.target.value })}
+                  placeholder="Hi {firstName}, ... (leave blank for the account's template)"
+                  rows={3}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {FILTER_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label>{field.label}</Label>
+                <Input
+                  type="number"
+                  value={form.filters[field.key] || ''}
+                  placeholder={field.placeholder}
+                  onChange={(e) => setForm({ ...form, filters: { ...form.filters, [field.key]: e.target.value } })}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label>Send at</Label>
+              <Input type="datetime-local" value={form.scheduledAt} onChange={(e) => setForm({ ...form, scheduledAt: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button disabled={createMutation.isPending} onClick={createCampaign}>
+              <Send className="h-4 w-4 mr-1" />
+              {form.scheduledAt ? 'Create & Schedule' : 'Save Draft'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Campaigns</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-sm text-gray-500">Loading campaigns...</div>
+          ) : campaigns.length === 0 ? (
+            <div className="text-sm text-gray-500">No campaigns yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Scheduled</TableHead>
+                  <TableHead className="text-right">Recipients</TableHead>
+                  <TableHead className="text-right">Sent</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Opens</TableHead>
+                  <TableHead className="text-right">Clicks</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map(campaign => (
+                  <TableRow key={campaign.id}>
+                    <TableCell className="font-medium">
+                      {campaign.name}
+                      {campaign.lastError && <div className="text-xs text-red-600">{campaign.lastError}</div>}
+                    </TableCell>
+                    <TableCell>{campaign.type === 'email' ? 'Mailchimp' : 'Handwrytten'}</TableCell>
+                    <TableCell className="text-sm">{campaign.cid || '—'}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[campaign.status || 'draft']}>{(campaign.status || 'draft').replace('_', ' ')}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {campaign.scheduledAt ? format(new Date(campaign.scheduledAt), 'MMM d, h:mm a') : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{campaign.recipients ?? 0}</TableCell>
+                    <TableCell className="text-right">{campaign.sentCount ?? 0}</TableCell>
+                    <TableCell className="text-right">{campaign.failedCount ?? 0}</TableCell>
+                    <TableCell className="text-right">{rate(campaign.openRate)}</TableCell>
+                    <TableCell className="text-right">{rate(campaign.responseRate)}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        {(campaign.status === 'draft' || campaign.status === 'scheduled') && (
+                          <Button variant="ghost" size="sm" title="Preview audience" onClick={() => previewMutation.mutate(campaign.id)}>
+                            <Users className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {campaign.status === 'draft' && (
+                          <Button variant="ghost" size="sm" title="Send now" onClick={() => scheduleMutation.mutate(campaign.id)}>
+                            <CalendarClock className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {campaign.status === 'scheduled' && (
+                          <Button variant="ghost" size="sm" title="Back to draft" onClick={() => unscheduleMutation.mutate(campaign.id)}>
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
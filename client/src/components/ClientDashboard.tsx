@@ -14,6 +14,8 @@ import { Mail, TrendingUp, BarChart, Plus, Download, Clock, Calendar as Calendar
 import type { User, Campaign } from "@shared/schema";
 import BusinessDataTable from "./BusinessDataTable";
 import EmailLookup from "./EmailLookup";
+import { EnrichmentUsageCard } from "./EnrichmentUsagePanel";
+import { LeadScoreBadge } from "./LeadScoreBadge";
 
 interface ClientDashboardProps {
   user: User;
@@ -23,6 +25,7 @@ interface ClientDashboardProps {
 export default function ClientDashboard({ user, selectedCid }: ClientDashboardProps) {
   const { toast } = useToast();
   const [timePeriod, setTimePeriod] = useState<string>("30d");
+  const [captureSort, setCaptureSort] = useState<string>("recent");
   const [customDateRange, setCustomDateRange] = useState<{
     from: Date | undefined;
     to: Date | undefined;
@@ -62,10 +65,11 @@ export default function ClientDashboard({ user, selectedCid }: ClientDashboardPr
 
   // Fetch recent identity captures for selected CID
   const { data: recentCaptures } = useQuery<any[]>({
-    queryKey: ['/api/recent-captures', selectedCid],
+    queryKey: ['/api/recent-captures', selectedCid, captureSort],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (selectedCid !== 'all') params.append('cid', selectedCid);
+      if (captureSort !== 'recent') params.append('sort', captureSort);
       
       const res = await fetch(`/api/recent-captures?${params.toString()}`, {
         credentials: "include",
@@ -265,6 +269,9 @@ export default function ClientDashboard({ user, selectedCid }: ClientDashboardPr
         </Card>
       </div>
 
+      {/* Enrichment usage against the CID's caps */}
+      <EnrichmentUsageCard cid={selectedCid !== 'all' ? selectedCid : undefined} />
+
       {/* Sync Button */}
       <div className="flex justify-center">
         <Button 
@@ -291,9 +298,24 @@ export default function ClientDashboard({ user, selectedCid }: ClientDashboardPr
         <CardHeader className="bg-gray-50 border-b">
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg font-semibold">Recent Identity Captures</CardTitle>
-            <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-              Website Traffic
-            </Badge>
+            <div className="flex items-center gap-2">
+              <Select value={captureSort} onValueChange={setCaptureSort}>
+                <SelectTrigger className="w-44 h-8 text-sm font-normal">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="recent">Most Recent</SelectItem>
+                  <SelectItem value="leadScore">Top Lead Score</SelectItem>
+                  <SelectItem value="sellerScore">Top Seller Score</SelectItem>
+                  <SelectItem value="buyerScore">Top Buyer Score</SelectItem>
+                  <SelectItem value="refinanceScore">Top Refinance Score</SelectItem>
+                  <SelectItem value="intentScore">Top Intent Score</SelectItem>
+                </SelectContent>
+              </Select>
+              <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                Website Traffic
+              </Badge>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="p-0">
@@ -314,6 +336,9 @@ export default function ClientDashboard({ user, selectedCid }: ClientDashboardPr
                     <th className="text-left py-4 px-6 font-semibold text-gray-900 text-xs uppercase tracking-wider">
                       Last Visit Date
                     </th>
+                    <th className="text-left py-4 px-6 font-semibold text-gray-900 text-xs uppercase tracking-wider">
+                      Lead Score
+                    </th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
@@ -342,6 +367,9 @@ export default function ClientDashboard({ user, selectedCid }: ClientDashboardPr
                           </span>
                         ) : <span className="text-gray-400 italic">N/A</span>}
                       </td>
+                      <td className="py-4 px-6">
+                        <LeadScoreBadge identityId={capture.id} score={capture.leadScore} />
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Search, Mail, User, MapPin, DollarSign, Calendar, Phone } from "lucide-react";
 import { BUSINESS_TYPE_FIELDS } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
@@ -128,14 +129,23 @@ export default function EmailLookup({}: EmailLookupProps) {
       // Currency fields
       case 'mortgageAmount':
       case 'householdIncome':
+      case 'householdIncomeMidpoint':
       case 'homePrice':
       case 'homeValue':
+      case 'estimatedEquity':
+      case 'estimatedLoanBalance':
+      case 'appreciationAmount':
       case 'purchasePrice':
       case 'monthlyPayment':
       case 'annualSpend':
       case 'lifetimeValue':
       case 'averageOrderValue':
         return formatCurrency(value);
+      // Percentage fields
+      case 'equityPercent':
+      case 'loanToValue':
+      case 'appreciationPercent':
+        return `${parseFloat(value).toFixed(1)}%`;
       // Date fields
       case 'birthDate':
       case 'lastVisitDate':
@@ -274,6 +284,52 @@ export default function EmailLookup({}: EmailLookupProps) {
                       </div>
                     ))}
                 </div>
+
+                {/* Every email the provider returned for this identity */}
+                {searchResult.emailCandidates?.length > 0 && (
+                  <div className="mt-6">
+                    <h4 className="text-sm font-medium text-gray-900 mb-2 flex items-center gap-2">
+                      <Mail className="h-4 w-4" />
+                      Email Candidates ({searchResult.emailCandidates.length})
+                    </h4>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Email</TableHead>
+                          <TableHead>Quality</TableHead>
+                          <TableHead>Rank</TableHead>
+                          <TableHead>Opt-in</TableHead>
+                          <TableHead>Updated</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {searchResult.emailCandidates.map((candidate: any) => (
+                          <TableRow key={candidate.id}>
+                            <TableCell className="text-sm">
+                              <div className="flex items-center gap-2">
+                                <span className="break-all">{candidate.email}</span>
+                                {candidate.email === searchResult.selectedEmail && (
+                                  <Badge className="bg-blue-100 text-blue-800">Selected</Badge>
+                                )}
+                                {candidate.isMatch && (
+                                  <Badge variant="outline">Matched</Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-sm">{candidate.qualityLevel ?? 'N/A'}</TableCell>
+                            <TableCell className="text-sm">{candidate.rankOrder ?? 'N/A'}</TableCell>
+                            <TableCell className="text-sm">
+                              {candidate.optIn === null ? 'Unknown' : candidate.optIn ? 'Yes' : 'No'}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {candidate.updateDate ? new Date(candidate.updateDate).toLocaleDateString() : 'N/A'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Layers, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import type { EnrichmentJob } from '@shared/schema';
+
+interface EnrichmentJobsResponse {
+  jobs: EnrichmentJob[];
+  counts: Record<string, number>;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-yellow-100 text-yellow-800',
+  dead: 'bg-red-100 text-red-800',
+};
+
+export function EnrichmentJobsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [cidFilter, setCidFilter] = useState<string>('all');
+
+  const { data: cidAccounts = [] } = useQuery<any[]>({
+    queryKey: ['/api/cid-accounts'],
+  });
+
+  const { data, isLoading, refetch } = useQuery<EnrichmentJobsResponse>({
+    queryKey: ['/api/admin/enrichment-jobs', statusFilter, cidFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.append('status', statusFilter);
+      if (cidFilter !== 'all') params.append('cid', cidFilter);
+
+      const res = await fetch(`/api/admin/enrichment-jobs?${params.toString()}`, {
+        credentials: 'include',
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      return await res.json();
+    },
+    refetchInterval: 15000, // Refresh every 15 seconds while jobs drain
+  });
+
+  const jobs = data?.jobs || [];
+  const counts = data?.counts || {};
+  const selectedCid = cidFilter !== 'all' ? cidFilter : undefined;
+
+  const invalidateJobs = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/enrichment-jobs'] });
+  };
+
+  const retryJobMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const result = await apiRequest('POST', `/api/admin/enrichment-jobs/${jobId}/retry`);
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Job Requeued', description: 'The enrichment job will run on the next worker poll' });
+      invalidateJobs();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Retry Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const retryAllMutation = useMutation({
+    mutationFn: async (status: 'failed' | 'dead') => {
+      const result = await apiRequest('POST', '/api/admin/enrichment-jobs/retry', { status, cid: selectedCid });
+      return await result.json();
+    },
+    onSuccess: (result) => {
+      toast({ title: 'Jobs Requeued', description: `${result.retried} enrichment jobs requeued` });
+      invalidateJobs();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Retry Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (status: 'succeeded' | 'dead') => {
+      const params = new URLSearchParams({ status });
+      if (selectedCid) params.append('cid', selectedCid);
+      const result = await apiRequest('DELETE', `/api/admin/enrichment-jobs?${params.toString()}`);
+      return await result.json();
+    },
+    onSuccess: (result, status) => {
+      toast({ title: 'Jobs Purged', description: `${result.purged} ${status} jobs removed` });
+      invalidateJobs();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Purge Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center">
+              <Layers className="h-5 w-5 mr-2 text-indigo-600" />
+              Enrichment Queue
+            </CardTitle>
+            <CardDescription>Durable enrichment jobs queued by pixel, webhook and sync captures</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {['queued', 'running', 'succeeded', 'failed', 'dead'].map((status) => (
+            <div key={status} className="rounded-lg border p-3 text-center">
+              <div className="text-2xl font-bold">{counts[status] || 0}</div>
+              <Badge className={STATUS_STYLES[status]}>{status}</Badge>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="queued">Queued</SelectItem>
+              <SelectItem value="running">Running</SelectItem>
+              <SelectItem value="succeeded">Succeeded</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="dead">Dead</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={cidFilter} onValueChange={setCidFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Account" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Accounts</SelectItem>
+              {cidAccounts.map((account: any) => (
+                <SelectItem key={account.cid} value={account.cid}>
+                  {account.accountName} ({account.cid})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex-1" />
+          <Button variant="outline" size="sm" disabled={retryAllMutation.isPending || !counts.dead} onClick={() => retryAllMutation.mutate('dead')}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Retry Dead
+          </Button>
+          <Button variant="outline" size="sm" disabled={purgeMutation.isPending || !counts.succeeded} onClick={() => purgeMutation.mutate('succeeded')}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Purge Succeeded
+          </Button>
+          <Button variant="outline" size="sm" disabled={purgeMutation.isPending || !counts.dead} onClick={() => purgeMutation.mutate('dead')}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Purge Dead
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading enrichment jobs...</div>
+        ) : jobs.length === 0 ? (
+          <div className="text-sm text-gray-500">No enrichment jobs match the current filters</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>CID</TableHead>
+                  <TableHead>MD5</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Next Run / Updated</TableHead>
+                  <TableHead>Last Error</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell className="font-mono text-xs">#{job.id}</TableCell>
+                    <TableCell className="text-xs">{job.cid}</TableCell>
+                    <TableCell className="font-mono text-xs">{job.hashedEmail.substring(0, 8)}...</TableCell>
+                    <TableCell className="text-xs">{job.source || '-'}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[job.status] || STATUS_STYLES.queued}>{job.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">{job.attempts}/{job.maxAttempts}</TableCell>
+                    <TableCell className="text-xs text-gray-600">
+                      {job.status === 'failed' || job.status === 'queued'
+                        ? format(new Date(job.runAt), 'MMM d, h:mm:ss a')
+                        : job.updatedAt ? format(new Date(job.updatedAt), 'MMM d, h:mm:ss a') : '-'}
+                    </TableCell>
+                    <TableCell className="text-xs text-red-600 max-w-xs truncate" title={job.lastError || ''}>
+                      {job.lastError || '-'}
+                    </TableCell>
+                    <TableCell>
+                      {(job.status === 'failed' || job.status === 'dead') && (
+                        <Button variant="ghost" size="sm" disabled={retryJobMutation.isPending} onClick={() => retryJobMutation.mutate(job.id)}>
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Gauge, Edit, Save, X } from 'lucide-react';
+
+interface PeriodUsage {
+  used: number;
+  cap: number | null;
+  remaining: number | null;
+  percent: number | null;
+  cost: number;
+  resetsAt: string;
+}
+
+interface EnrichmentUsage {
+  cid: string;
+  accountName?: string | null;
+  onCapReached: 'defer' | 'refuse';
+  alertThresholds: number[];
+  daily: PeriodUsage;
+  monthly: PeriodUsage;
+}
+
+interface BudgetForm {
+  dailyCap: string;
+  monthlyCap: string;
+  onCapReached: 'defer' | 'refuse';
+  alertThresholds: string;
+}
+
+function usageColor(percent: number | null): string {
+  if (percent === null) return 'bg-gray-100 text-gray-600';
+  if (percent >= 100) return 'bg-red-100 text-red-800';
+  if (percent >= 80) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-green-100 text-green-800';
+}
+
+function formatUsage(period: PeriodUsage): string {
+  return period.cap === null ? `${period.used.toLocaleString()} / unlimited` : `${period.used.toLocaleString()} / ${period.cap.toLocaleString()}`;
+}
+
+// Blank input means no cap
+function parseCap(value: string): number | null {
+  return value.trim() === '' ? null : parseInt(value, 10);
+}
+
+/**
+ * Admin view of enrichment usage against each CID's daily and monthly caps, with inline cap editing
+ */
+export function EnrichmentUsagePanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingCid, setEditingCid] = useState<string | null>(null);
+  const [form, setForm] = useState<BudgetForm>({ dailyCap: '', monthlyCap: '', onCapReached: 'defer', alertThresholds: '' });
+
+  const { data, isLoading } = useQuery<{ accounts: EnrichmentUsage[] }>({
+    queryKey: ['/api/admin/enrichment-usage'],
+    refetchInterval: 60000, // Refresh every minute
+  });
+
+  const updateBudgetMutation = useMutation({
+    mutationFn: async ({ cid, budget }: { cid: string; budget: Record<string, any> }) => {
+      const result = await apiRequest('PUT', `/api/cid-accounts/${encodeURIComponent(cid)}/enrichment-budget`, budget);
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Enrichment Budget Updated', description: 'New caps apply to the next enrichment call' });
+      setEditingCid(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/enrichment-usage'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Update Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const startEditing = (account: EnrichmentUsage) => {
+    setEditingCid(account.cid);
+    setForm({
+      dailyCap: account.daily.cap === null ? '' : String(account.daily.cap),
+      monthlyCap: account.monthly.cap === null ? '' : String(account.monthly.cap),
+      onCapReached: account.onCapReached,
+      alertThresholds: account.alertThresholds.join(', '),
+    });
+  };
+
+  const saveBudget = (cid: string) => {
+    updateBudgetMutation.mutate({
+      cid,
+      budget: {
+        dailyCap: parseCap(form.dailyCap),
+        monthlyCap: parseCap(form.monthlyCap),
+        onCapReached: form.onCapReached,
+        alertThresholds: form.alertThresholds.split(',').map(value => parseFloat(value.trim())).filter(value => !isNaN(value)),
+      },
+    });
+  };
+
+  const accounts = data?.accounts || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <Gauge className="h-5 w-5 mr-2 text-blue-600" />
+          Enrichment Usage & Caps
+        </CardTitle>
+        <CardDescription>Provider calls per CID this UTC day and month - blank caps are unlimited</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading enrichment usage...</div>
+        ) : accounts.length === 0 ? (
+          <div className="text-sm text-gray-500">No accounts found</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead>Today</TableHead>
+                <TableHead>This Month</TableHead>
+                <TableHead className="text-right">Month Cost</TableHead>
+                <TableHead>At Cap</TableHead>
+                <TableHead>Alerts (%)</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accounts.map((account) => (
+                <TableRow key={account.cid}>
+                  <TableCell>
+                    <div className="font-medium text-sm">{account.accountName || account.cid}</div>
+                    <div className="text-xs text-gray-500 font-mono">{account.cid}</div>
+                  </TableCell>
+                  {editingCid === account.cid ? (
+                    <>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={form.dailyCap}
+                          onChange={(e) => setForm({ ...form, dailyCap: e.target.value })}
+                          placeholder="Unlimited"
+                          className="h-8 w-28 text-xs"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={form.monthlyCap}
+                          onChange={(e) => setForm({ ...form, monthlyCap: e.target.value })}
+                          placeholder="Unlimited"
+                          className="h-8 w-28 text-xs"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right text-sm">${account.monthly.cost.toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Select value={form.onCapReached} onValueChange={(value) => setForm({ ...form, onCapReached: value as 'defer' | 'refuse' })}>
+                          <SelectTrigger className="h-8 w-28 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="defer">Defer</SelectItem>
+                            <SelectItem value="refuse">Refuse</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={form.alertThresholds}
+                          onChange={(e) => setForm({ ...form, alertThresholds: e.target.value })}
+                          placeholder="80, 100"
+                          className="h-8 w-24 text-xs"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Button variant="ghost" size="sm" disabled={updateBudgetMutation.isPending} onClick={() => saveBudget(account.cid)}>
+                            <Save className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setEditingCid(null)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </>
+                  ) : (
+                    <>
+                      <TableCell>
+                        <Badge className={usageColor(account.daily.percent)}>{formatUsage(account.daily)}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={usageColor(account.monthly.percent)}>{formatUsage(account.monthly)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right text-sm">${account.monthly.cost.toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs capitalize">{account.onCapReached}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-600">{account.alertThresholds.join(', ') || 'None'}</TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(account)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                      </TableCell>
+                    </>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Client-facing usage against the CID's enrichment caps
+ */
+export function EnrichmentUsageCard({ cid }: { cid?: string }) {
+  const { data: usage } = useQuery<EnrichmentUsage>({
+    queryKey: ['/api/enrichment-usage', cid],
+    queryFn: async () => {
+      const params = cid ? `?cid=${encodeURIComponent(cid)}` : '';
+      const response = await fetch(`/api/enrichment-usage${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch enrichment usage');
+      return response.json();
+    },
+    refetchInterval: 60000,
+  });
+
+  // Nothing to show against when neither period is capped
+  if (!usage || (usage.daily.cap === null && usage.monthly.cap === null)) {
+    return null;
+  }
+
+  const periods: Array<[string, PeriodUsage]> = [['Today', usage.daily], ['This Month', usage.monthly]];
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center">
+          <Gauge className="h-5 w-5 mr-2 text-blue-600" />
+          Enrichment Usage
+        </CardTitle>
+        <CardDescription>
+          {usage.onCapReached === 'defer'
+            ? 'Identities found after a cap is reached are enriched once it resets'
+            : 'Identities found after a cap is reached are not enriched'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {periods.filter(([, period]) => period.cap !== null).map(([label, period]) => (
+          <div key={label}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-gray-600">{label}</span>
+              <span className="font-medium">{formatUsage(period)}</span>
+            </div>
+            <Progress value={Math.min(period.percent ?? 0, 100)} />
+            <div className="text-xs text-gray-500 mt-1">Resets {format(new Date(period.resetsAt), 'MMM d, h:mm a')}</div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,561 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { AlertCircle, CheckCircle, Edit, Key, LayoutTemplate, Loader2, RefreshCw, Save, TestTube, X } from 'lucide-react';
+
+type TemplateSource = 'cid' | 'account_level' | 'default' | 'environment' | 'built_in';
+
+interface ResolvedTemplate {
+  templateId: number;
+  source: TemplateSource;
+}
+
+interface TokenStatus {
+  authMethod: 'oauth' | 'bearer' | null;
+  hasToken: boolean;
+  manual: boolean;
+  expiresAt: string | null;
+  expiresInMinutes: number | null;
+  lastRefreshAttemptAt: string | null;
+  lastRefreshAt: string | null;
+  lastRefreshError: string | null;
+  consecutiveFailures: number;
+  credentialSource: 'database' | 'environment' | null;
+}
+
+interface CircuitBreakerStatus {
+  state: 'closed' | 'open' | 'half_open';
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt: string | null;
+  nextProbeAt: string | null;
+  cooldownSeconds: number;
+  lastFailure: { kind: string; message: string; at: string } | null;
+  lastSuccessAt: string | null;
+  timesOpened: number;
+}
+
+interface AudienceAcuityIntegration {
+  credentials: {
+    configured: boolean;
+    source: 'database' | 'environment' | null;
+    clientIdPreview: string | null;
+    storedInDatabase: boolean;
+    environmentAvailable: boolean;
+    encryptionConfigured: boolean;
+    updatedAt: string | null;
+    updatedBy: string | null;
+    loadError: string | null;
+  };
+  templates: {
+    defaultTemplateId: number | null;
+    accountLevelTemplates: Record<string, number>;
+  };
+  effectiveDefaultTemplate: ResolvedTemplate;
+  token: TokenStatus;
+  circuitBreaker: CircuitBreakerStatus;
+  accounts: Array<{
+    cid: string;
+    accountName: string | null;
+    accountLevel: string | null;
+    templateOverride: number | null;
+    effectiveTemplate: ResolvedTemplate;
+  }>;
+}
+
+interface TestResult {
+  success: boolean;
+  error?: string;
+  details?: any;
+}
+
+const INTEGRATION_QUERY_KEY = ['/api/admin/integrations/audience-acuity'];
+
+const ACCOUNT_LEVELS: Array<[string, string]> = [
+  ['identity_resolution', 'Identity Resolution'],
+  ['intent_flow_accelerator', 'Intent Flow Accelerator'],
+  ['handwritten_connect', 'Handwritten Connect'],
+];
+
+const CIRCUIT_STATE_BADGES: Record<CircuitBreakerStatus['state'], [string, string]> = {
+  closed: ['Closed', 'bg-green-100 text-green-800'],
+  open: ['Open - lookups paused', 'bg-red-100 text-red-800'],
+  half_open: ['Half-open - probing', 'bg-yellow-100 text-yellow-800'],
+};
+
+const TEMPLATE_SOURCE_LABELS: Record<TemplateSource, string> = {
+  cid: 'CID override',
+  account_level: 'Account level',
+  default: 'Integration default',
+  environment: 'Environment',
+  built_in: 'Built-in',
+};
+
+function formatTime(value: string | null): string {
+  return value ? format(new Date(value), 'MMM d, h:mm a') : 'Never';
+}
+
+// Blank input means no template at that level
+function parseTemplateId(value: string): number | null {
+  return value.trim() === '' ? null : parseInt(value, 10);
+}
+
+/**
+ * Admin settings for the Audience Acuity integration: encrypted credentials, templates per account
+ * level and CID, connection testing and OAuth token status
+ */
+export function IntegrationsSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [credentialsForm, setCredentialsForm] = useState({ clientId: '', clientSecret: '' });
+  const [templateForm, setTemplateForm] = useState<Record<string, string> | null>(null);
+  const [editingCid, setEditingCid] = useState<string | null>(null);
+  const [cidTemplate, setCidTemplate] = useState('');
+  const [testCid, setTestCid] = useState('default');
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  const { data, isLoading } = useQuery<AudienceAcuityIntegration>({
+    queryKey: INTEGRATION_QUERY_KEY,
+    refetchInterval: 60000, // Keep token status current
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const saveCredentialsMutation = useMutation({
+    mutationFn: async () => {
+      const result = await apiRequest('PUT', '/api/admin/integrations/audience-acuity/credentials', credentialsForm);
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Credentials Saved', description: 'Audience Acuity lookups now use the stored credentials' });
+      setCredentialsForm({ clientId: '', clientSecret: '' });
+      queryClient.invalidateQueries({ queryKey: INTEGRATION_QUERY_KEY });
+    },
+    onError: onError('Save Failed'),
+  });
+
+  const removeCredentialsMutation = useMutation({
+    mutationFn: async () => {
+      const result = await apiRequest('DELETE', '/api/admin/integrations/audience-acuity/credentials');
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Stored Credentials Removed', description: 'Lookups fall back to the environment credentials, if set' });
+      queryClient.invalidateQueries({ queryKey: INTEGRATION_QUERY_KEY });
+    },
+    onError: onError('Remove Failed'),
+  });
+
+  const saveTemplatesMutation = useMutation({
+    mutationFn: async (form: Record<string, string>) => {
+      const accountLevelTemplates = Object.fromEntries(
+        ACCOUNT_LEVELS
+          .map(([level]) => [level, parseTemplateId(form[level] || '')])
+          .filter(([, templateId]) => templateId !== null)
+      );
+      const result = await apiRequest('PUT', '/api/admin/integrations/audience-acuity/templates', {
+        defaultTemplateId: parseTemplateId(form.default || ''),
+        accountLevelTemplates,
+      });
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Templates Updated', description: 'New templates apply to the next lookup' });
+      setTemplateForm(null);
+      queryClient.invalidateQueries({ queryKey: INTEGRATION_QUERY_KEY });
+    },
+    onError: onError('Update Failed'),
+  });
+
+  const saveCidTemplateMutation = useMutation({
+    mutationFn: async ({ cid, templateId }: { cid: string; templateId: number | null }) => {
+      const result = await apiRequest('PUT', `/api/cid-accounts/${encodeURIComponent(cid)}/audience-acuity-template`, { templateId });
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'CID Template Updated' });
+      setEditingCid(null);
+      queryClient.invalidateQueries({ queryKey: INTEGRATION_QUERY_KEY });
+    },
+    onError: onError('Update Failed'),
+  });
+
+  const testConnectionMutation = useMutation({
+    mutationFn: async () => {
+      const result = await apiRequest('POST', '/api/admin/integrations/audience-acuity/test', testCid === 'default' ? {} : { cid: testCid });
+      return await result.json();
+    },
+    onSuccess: (result: TestResult) => {
+      setTestResult(result);
+      queryClient.invalidateQueries({ queryKey: INTEGRATION_QUERY_KEY });
+    },
+    onError: onError('Connection Test Failed'),
+  });
+
+  const resetCircuitMutation = useMutation({
+    mutationFn: async () => {
+      const result = await apiRequest('POST', '/api/admin/integrations/audience-acuity/circuit/reset');
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Circuit Reset', description: 'Audience Acuity lookups resume immediately' });
+      queryClient.invalidateQueries({ queryKey: INTEGRATION_QUERY_KEY });
+    },
+    onError: onError('Reset Failed'),
+  });
+
+  const refreshTokenMutation = useMutation({
+    mutationFn: async () => {
+      const result = await apiRequest('POST', '/api/admin/integrations/audience-acuity/token/refresh');
+      return await result.json();
+    },
+    onSuccess: (result: { success: boolean; token: TokenStatus }) => {
+      toast(result.success
+        ? { title: 'Token Refreshed', description: `OAuth token expires in ${result.token.expiresInMinutes} minutes` }
+        : { title: 'Token Refresh Failed', description: result.token.lastRefreshError || 'See server logs for details', variant: 'destructive' });
+      queryClient.invalidateQueries({ queryKey: INTEGRATION_QUERY_KEY });
+    },
+    onError: onError('Token Refresh Failed'),
+  });
+
+  if (isLoading || !data) {
+    return <div className="text-sm text-gray-500">Loading integration settings...</div>;
+  }
+
+  const { credentials, templates, token, circuitBreaker } = data;
+  const [circuitLabel, circuitClass] = CIRCUIT_STATE_BADGES[circuitBreaker.state];
+
+  const startEditingTemplates = () => {
+    setTemplateForm({
+      default: templates.defaultTemplateId === null ? '' : String(templates.defaultTemplateId),
+      ...Object.fromEntries(ACCOUNT_LEVELS.map(([level]) => [level, templates.accountLevelTemplates[level] ? String(templates.accountLevelTemplates[level]) : ''])),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Credentials */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Key className="h-5 w-5 mr-2 text-blue-600" />
+            Audience Acuity Credentials
+          </CardTitle>
+          <CardDescription>Stored credentials are encrypted and take precedence over the environment variables</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {credentials.configured ? (
+              <Badge className="bg-green-100 text-green-800">
+                <CheckCircle className="h-3 w-3 mr-1" />
+                Configured ({credentials.source === 'database' ? 'stored' : 'environment'})
+              </Badge>
+            ) : (
+              <Badge className="bg-red-100 text-red-800">
+                <AlertCircle className="h-3 w-3 mr-1" />
+                Not configured
+              </Badge>
+            )}
+            {credentials.clientIdPreview && <span className="font-mono text-gray-600">Client ID {credentials.clientIdPreview}</span>}
+            {credentials.storedInDatabase && (
+              <span className="text-gray-500">Updated {formatTime(credentials.updatedAt)}{credentials.updatedBy ? ` by ${credentials.updatedBy}` : ''}</span>
+            )}
+          </div>
+
+          {credentials.loadError && (
+            <div className="text-sm text-red-600">Stored credentials could not be read: {credentials.loadError}</div>
+          )}
+          {!credentials.encryptionConfigured && (
+            <div className="text-sm text-yellow-700">Set CREDENTIALS_ENCRYPTION_KEY on the server to store credentials here.</div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="aa-client-id">Client ID</Label>
+              <Input
+                id="aa-client-id"
+                value={credentialsForm.clientId}
+                onChange={(e) => setCredentialsForm({ ...credentialsForm, clientId: e.target.value })}
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="aa-client-secret">Client Secret</Label>
+              <Input
+                id="aa-client-secret"
+                type="password"
+                value={credentialsForm.clientSecret}
+                onChange={(e) => setCredentialsForm({ ...credentialsForm, clientSecret: e.target.value })}
+                autoComplete="new-password"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              disabled={!credentials.encryptionConfigured || !credentialsForm.clientId || !credentialsForm.clientSecret || saveCredentialsMutation.isPending}
+              onClick={() => saveCredentialsMutation.mutate()}
+            >
+              <Save className="h-4 w-4 mr-1" />
+              Save Credentials
+            </Button>
+            {credentials.storedInDatabase && (
+              <Button variant="outline" size="sm" disabled={removeCredentialsMutation.isPending} onClick={() => removeCredentialsMutation.mutate()}>
+                <X className="h-4 w-4 mr-1" />
+                Remove Stored Credentials
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Token status and connection test */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <RefreshCw className="h-5 w-5 mr-2 text-blue-600" />
+            Token Status
+          </CardTitle>
+          <CardDescription>OAuth token used for Audience Acuity lookups on this server</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-gray-500">Auth Method</div>
+              <div className="font-medium">
+                {token.authMethod === 'oauth' ? 'OAuth' : token.authMethod === 'bearer' ? 'Custom Bearer (fallback)' : 'Not yet authenticated'}
+                {token.manual && <Badge variant="outline" className="ml-2 text-xs">Manual</Badge>}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-500">Expires</div>
+              <div className="font-medium">
+                {token.expiresAt ? `${formatTime(token.expiresAt)} (${token.expiresInMinutes} min)` : 'No token'}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-500">Last Refresh</div>
+              <div className="font-medium">{formatTime(token.lastRefreshAt)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Consecutive Failures</div>
+              <div className={`font-medium ${token.consecutiveFailures > 0 ? 'text-red-600' : ''}`}>{token.consecutiveFailures}</div>
+            </div>
+          </div>
+
+          {token.lastRefreshError && (
+            <div className="text-sm text-red-600 break-all">
+              Last refresh error ({formatTime(token.lastRefreshAttemptAt)}): {token.lastRefreshError}
+            </div>
+          )}
+
+          <div className="rounded-md border p-3 space-y-1 text-sm">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Circuit Breaker</span>
+                <Badge className={circuitClass}>{circuitLabel}</Badge>
+                <span className="text-gray-500">
+                  {circuitBreaker.consecutiveFailures}/{circuitBreaker.failureThreshold} failures · opened {circuitBreaker.timesOpened} time{circuitBreaker.timesOpened === 1 ? '' : 's'}
+                </span>
+              </div>
+              {circuitBreaker.state !== 'closed' && (
+                <Button variant="outline" size="sm" disabled={resetCircuitMutation.isPending} onClick={() => resetCircuitMutation.mutate()}>
+                  Reset
+                </Button>
+              )}
+            </div>
+            {circuitBreaker.nextProbeAt && <div className="text-gray-600">Next probe {formatTime(circuitBreaker.nextProbeAt)} (cooldown {circuitBreaker.cooldownSeconds}s)</div>}
+            {circuitBreaker.lastFailure && (
+              <div className="text-gray-600 break-all">
+                Last failure ({circuitBreaker.lastFailure.kind}, {formatTime(circuitBreaker.lastFailure.at)}): {circuitBreaker.lastFailure.message}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" disabled={!credentials.configured || refreshTokenMutation.isPending} onClick={() => refreshTokenMutation.mutate()}>
+              {refreshTokenMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+              Refresh Token
+            </Button>
+            <Select value={testCid} onValueChange={setTestCid}>
+              <SelectTrigger className="h-9 w-64 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Default template</SelectItem>
+                {data.accounts.map((account) => (
+                  <SelectItem key={account.cid} value={account.cid}>
+                    {account.accountName || account.cid} (template {account.effectiveTemplate.templateId})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" disabled={!credentials.configured || testConnectionMutation.isPending} onClick={() => testConnectionMutation.mutate()}>
+              {testConnectionMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <TestTube className="h-4 w-4 mr-1" />}
+              Test Connection
+            </Button>
+          </div>
+
+          {testResult && (
+            <div className={`rounded-md border p-3 text-sm ${testResult.success ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+              <div className="font-medium">
+                {testResult.success ? testResult.details?.message || 'Connection successful' : testResult.error || 'Connection failed'}
+              </div>
+              {testResult.details?.template && <div className="text-gray-600">Template {testResult.details.template}</div>}
+              {testResult.details?.status && <div className="text-gray-600">HTTP {testResult.details.status}</div>}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Templates */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <LayoutTemplate className="h-5 w-5 mr-2 text-blue-600" />
+            Templates
+          </CardTitle>
+          <CardDescription>
+            Lookups use the CID override, then the account level template, then the default
+            (currently {data.effectiveDefaultTemplate.templateId}, {TEMPLATE_SOURCE_LABELS[data.effectiveDefaultTemplate.source].toLowerCase()})
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {templateForm ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {[['default', 'Default'], ...ACCOUNT_LEVELS].map(([key, label]) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`aa-template-${key}`}>{label}</Label>
+                    <Input
+                      id={`aa-template-${key}`}
+                      type="number"
+                      min={1}
+                      value={templateForm[key] || ''}
+                      onChange={(e) => setTemplateForm({ ...templateForm, [key]: e.target.value })}
+                      placeholder={key === 'default' ? String(data.effectiveDefaultTemplate.templateId) : 'Use default'}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button size="sm" disabled={saveTemplatesMutation.isPending} onClick={() => saveTemplatesMutation.mutate(templateForm)}>
+                  <Save className="h-4 w-4 mr-1" />
+                  Save Templates
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setTemplateForm(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-start justify-between">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm flex-1">
+                <div>
+                  <div className="text-gray-500">Default</div>
+                  <div className="font-medium">{templates.defaultTemplateId ?? `${data.effectiveDefaultTemplate.templateId} (${TEMPLATE_SOURCE_LABELS[data.effectiveDefaultTemplate.source].toLowerCase()})`}</div>
+                </div>
+                {ACCOUNT_LEVELS.map(([level, label]) => (
+                  <div key={level}>
+                    <div className="text-gray-500">{label}</div>
+                    <div className="font-medium">{templates.accountLevelTemplates[level] ?? 'Default'}</div>
+                  </div>
+                ))}
+              </div>
+              <Button variant="ghost" size="sm" onClick={startEditingTemplates}>
+                <Edit className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead>Account Level</TableHead>
+                <TableHead>CID Override</TableHead>
+                <TableHead>Effective Template</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.accounts.map((account) => (
+                <TableRow key={account.cid}>
+                  <TableCell>
+                    <div className="font-medium text-sm">{account.accountName || account.cid}</div>
+                    <div className="text-xs text-gray-500 font-mono">{account.cid}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {ACCOUNT_LEVELS.find(([level]) => level === account.accountLevel)?.[1] || account.accountLevel || '-'}
+                  </TableCell>
+                  {editingCid === account.cid ? (
+                    <>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={cidTemplate}
+                          onChange={(e) => setCidTemplate(e.target.value)}
+                          placeholder="None"
+                          className="h-8 w-32 text-xs"
+                        />
+                      </TableCell>
+                      <TableCell></TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={saveCidTemplateMutation.isPending}
+                            onClick={() => saveCidTemplateMutation.mutate({ cid: account.cid, templateId: parseTemplateId(cidTemplate) })}
+                          >
+                            <Save className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setEditingCid(null)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </>
+                  ) : (
+                    <>
+                      <TableCell className="text-sm">{account.templateOverride ?? 'None'}</TableCell>
+                      <TableCell>
+                        <span className="text-sm font-medium mr-2">{account.effectiveTemplate.templateId}</span>
+                        <Badge variant="outline" className="text-xs">{TEMPLATE_SOURCE_LABELS[account.effectiveTemplate.source]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditingCid(account.cid);
+                            setCidTemplate(account.templateOverride === null ? '' : String(account.templateOverride));
+                          }}
+                        >
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                      </TableCell>
+                    </>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { LeadScoreBreakdown, LeadScoreType } from '@shared/schema';
+
+interface LeadScoreResponse {
+  identityId: number;
+  leadScore: number | null;
+  scoredAt: string;
+  scores: LeadScoreBreakdown | null;
+}
+
+interface LeadScoreBadgeProps {
+  identityId: number;
+  score: number | null | undefined;
+  type?: LeadScoreType; // Open the breakdown on this score; defaults to the highest
+}
+
+const SCORE_LABELS: Record<LeadScoreType, string> = {
+  seller: 'Seller',
+  buyer: 'Buyer',
+  refinance: 'Refinance',
+};
+
+export function scoreColor(score: number): string {
+  if (score >= 70) return 'bg-green-100 text-green-800';
+  if (score >= 40) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-gray-100 text-gray-700';
+}
+
+/**
+ * A lead score that opens the factors behind it
+ */
+export function LeadScoreBadge({ identityId, score, type }: LeadScoreBadgeProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data, isLoading } = useQuery<LeadScoreResponse>({
+    queryKey: [`/api/identities/${identityId}/lead-score`],
+    enabled: open,
+  });
+
+  if (score === null || score === undefined) {
+    return <span className="text-gray-400 italic">Not scored</span>;
+  }
+
+  const scores = data?.scores;
+  const types = (Object.keys(SCORE_LABELS) as LeadScoreType[])
+    .sort((a, b) => (a === type ? -1 : b === type ? 1 : (scores?.[b].score ?? 0) - (scores?.[a].score ?? 0)));
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className="cursor-pointer">
+          <Badge className={scoreColor(score)}>{score}</Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96" align="start">
+        {isLoading || !scores ? (
+          <div className="text-sm text-gray-500">{isLoading ? 'Loading score factors...' : 'No score breakdown available'}</div>
+        ) : (
+          <div className="space-y-4">
+            {types.map(scoreType => (
+              <div key={scoreType}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium">{SCORE_LABELS[scoreType]} score</span>
+                  <Badge className={scoreColor(scores[scoreType].score)}>{scores[scoreType].score}</Badge>
+                </div>
+                <div className="space-y-0.5">
+                  {scores[scoreType].factors.filter(factor => factor.weight > 0).map(factor => (
+                    <div key={factor.key} className="flex items-center justify-between text-xs text-gray-600">
+                      <span>
+                        {factor.label}
+                        {factor.value !== null && factor.value !== '' && <span className="text-gray-400"> ({factor.value})</span>}
+                      </span>
+                      <span className={factor.points > 0 ? 'text-gray-900 font-medium' : 'text-gray-400'}>+{factor.points}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {data?.scoredAt && <div className="text-xs text-gray-400">Scored {new Date(data.scoredAt).toLocaleString()}</div>}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
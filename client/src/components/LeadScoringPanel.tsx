@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Target, Save, RefreshCw, RotateCcw } from 'lucide-react';
+import type { LeadScoreType } from '@shared/schema';
+
+interface LeadScoringFactor {
+  key: string;
+  label: string;
+  defaultWeight: number;
+}
+
+interface LeadScoringResponse {
+  cid: string;
+  weights: Record<LeadScoreType, Record<string, number>>;
+  factors: Record<LeadScoreType, LeadScoringFactor[]>;
+}
+
+const SCORE_TYPES: Array<{ type: LeadScoreType; label: string }> = [
+  { type: 'seller', label: 'Seller' },
+  { type: 'buyer', label: 'Buyer' },
+  { type: 'refinance', label: 'Refinance' },
+];
+
+/**
+ * Admin editor for a CID's seller, buyer and refinance factor weights
+ */
+export function LeadScoringPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cid, setCid] = useState<string>('');
+  const [form, setForm] = useState<Record<LeadScoreType, Record<string, string>> | null>(null);
+
+  const { data: accounts = [] } = useQuery<any[]>({
+    queryKey: ['/api/cid-accounts'],
+  });
+
+  const { data, isLoading } = useQuery<LeadScoringResponse>({
+    queryKey: [`/api/cid-accounts/${encodeURIComponent(cid)}/lead-scoring`],
+    enabled: !!cid,
+  });
+
+  useEffect(() => {
+    if (!cid && accounts.length > 0) {
+      setCid(accounts[0].cid);
+    }
+  }, [accounts, cid]);
+
+  useEffect(() => {
+    if (data) {
+      setForm(Object.fromEntries(SCORE_TYPES.map(({ type }) => [
+        type,
+        Object.fromEntries(Object.entries(data.weights[type]).map(([key, weight]) => [key, String(weight)])),
+      ])) as Record<LeadScoreType, Record<string, string>>);
+    }
+  }, [data]);
+
+  const saveWeightsMutation = useMutation({
+    mutationFn: async (weights: Record<LeadScoreType, Record<string, number>>) => {
+      const result = await apiRequest('PUT', `/api/cid-accounts/${encodeURIComponent(cid)}/lead-scoring`, { weights });
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Lead Scoring Updated', description: `Identities in ${cid} are being rescored` });
+      queryClient.invalidateQueries({ queryKey: [`/api/cid-accounts/${encodeURIComponent(cid)}/lead-scoring`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recent-captures'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/business-data-export'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Update Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const recomputeMutation = useMutation({
+    mutationFn: async () => {
+      const result = await apiRequest('POST', '/api/admin/lead-scores/recompute', { cid });
+      return await result.json();
+    },
+    onSuccess: (result: { scored: number }) => {
+      toast({ title: 'Lead Scores Recomputed', description: `Scored ${result.scored} identities` });
+      queryClient.invalidateQueries({ queryKey: ['/api/recent-captures'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/business-data-export'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Recompute Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const setWeight = (type: LeadScoreType, key: string, value: string) => {
+    if (!form) return;
+    setForm({ ...form, [type]: { ...form[type], [key]: value } });
+  };
+
+  const resetDefaults = () => {
+    if (!data) return;
+    setForm(Object.fromEntries(SCORE_TYPES.map(({ type }) => [
+      type,
+      Object.fromEntries(data.factors[type].map(factor => [factor.key, String(factor.defaultWeight)])),
+    ])) as Record<LeadScoreType, Record<string, string>>);
+  };
+
+  const saveWeights = () => {
+    if (!form) return;
+    const weights = Object.fromEntries(SCORE_TYPES.map(({ type }) => [
+      type,
+      Object.fromEntries(Object.entries(form[type]).map(([key, value]) => [key, value.trim() === '' ? 0 : parseFloat(value)])),
+    ])) as Record<LeadScoreType, Record<string, number>>;
+
+    const invalid = Object.values(weights).some(factors => Object.values(factors).some(weight => isNaN(weight) || weight < 0 || weight > 100));
+    if (invalid) {
+      toast({ title: 'Invalid Weights', description: 'Weights must be numbers between 0 and 100', variant: 'destructive' });
+      return;
+    }
+    saveWeightsMutation.mutate(weights);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center">
+              <Target className="h-5 w-5 mr-2 text-green-600" />
+              Lead Scoring
+            </CardTitle>
+            <CardDescription>Relative factor weights per score - 0 turns a factor off</CardDescription>
+          </div>
+          <Select value={cid} onValueChange={setCid}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account: any) => (
+                <SelectItem key={account.cid} value={account.cid}>{account.accountName || account.cid}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!cid ? (
+          <div className="text-sm text-gray-500">No accounts found</div>
+        ) : isLoading || !data || !form ? (
+          <div className="text-sm text-gray-500">Loading lead scoring weights...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              {SCORE_TYPES.map(({ type, label }) => (
+                <Table key={type}>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{label} Factor</TableHead>
+                      <TableHead className="w-24">Weight</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.factors[type].map(factor => (
+                      <TableRow key={factor.key}>
+                        <TableCell className="text-sm">{factor.label}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={form[type][factor.key] ?? ''}
+                            onChange={(e) => setWeight(type, factor.key, e.target.value)}
+                            className="h-8 w-20 text-xs"
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ))}
+            </div>
+            <div className="flex items-center justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={resetDefaults}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Defaults
+              </Button>
+              <Button variant="outline" size="sm" disabled={recomputeMutation.isPending} onClick={() => recomputeMutation.mutate()}>
+                <RefreshCw className={`h-4 w-4 mr-1 ${recomputeMutation.isPending ? 'animate-spin' : ''}`} />
+                Rescore Now
+              </Button>
+              <Button size="sm" disabled={saveWeightsMutation.isPending} onClick={saveWeights}>
+                <Save className="h-4 w-4 mr-1" />
+                Save Weights
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Mail, Save } from 'lucide-react';
+import type { MailchimpMergeFieldMapping, MailchimpMergeSource } from '@shared/schema';
+
+interface MailchimpAccountConfig {
+  listId: string | null;
+  hasApiKey: boolean;
+  defaultListId: string | null;
+  configured: boolean;
+  mergeFields: Record<MailchimpMergeSource, string | null>;
+  sources: Record<MailchimpMergeSource, { label: string; defaultTag: string; type: 'text' | 'number' }>;
+}
+
+interface MailchimpSaveResult extends MailchimpAccountConfig {
+  createdMergeFields: string[];
+  resyncQueued: number;
+  setupError: string | null;
+}
+
+// Tag typed in the editor and whether the field is sent at all
+type MappingRow = { tag: string; enabled: boolean };
+
+/**
+ * Mailchimp audience, API key and merge field mapping for one CID, shown in the account dialog
+ */
+export function MailchimpAudienceSettings({ cid }: { cid: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [listId, setListId] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [mapping, setMapping] = useState<Partial<Record<MailchimpMergeSource, MappingRow>>>({});
+
+  const configKey = `/api/cid-accounts/${encodeURIComponent(cid)}/mailchimp`;
+
+  const { data: config } = useQuery<MailchimpAccountConfig>({
+    queryKey: [configKey],
+    enabled: !!cid,
+  });
+
+  useEffect(() => {
+    if (!config) return;
+    setListId(config.listId || '');
+    setApiKey('');
+    setMapping(Object.fromEntries(
+      (Object.keys(config.sources) as MailchimpMergeSource[]).map(source => [
+        source,
+        { tag: config.mergeFields[source] || config.sources[source].defaultTag, enabled: config.mergeFields[source] !== null },
+      ])
+    ));
+  }, [config]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const result = await apiRequest('PUT', configKey, body);
+      return await result.json() as MailchimpSaveResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [configKey] });
+      const created = result.createdMergeFields.length > 0 ? `Created ${result.createdMergeFields.join(', ')}. ` : '';
+      const resync = result.resyncQueued > 0 ? `${result.resyncQueued} contacts will be re-sent on the next sync.` : '';
+      if (result.setupError) {
+        toast({ title: 'Saved, but Mailchimp Setup Failed', description: result.setupError, variant: 'destructive' });
+      } else {
+        toast({ title: 'Mailchimp Settings Saved', description: `${created}${resync}` || undefined });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: 'Save Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const setRow = (source: MailchimpMergeSource, updates: Partial<MappingRow>) =>
+    setMapping({ ...mapping, [source]: { ...mapping[source]!, ...updates } });
+
+  const save = () => {
+    const mergeFields: MailchimpMergeFieldMapping = Object.fromEntries(
+      (Object.entries(mapping) as [MailchimpMergeSource, MappingRow][]).map(([source, row]) => [
+        source,
+        row.enabled ? row.tag.trim().toUpperCase() : null,
+      ])
+    );
+    saveMutation.mutate({
+      listId: listId.trim() || null,
+      ...(apiKey.trim() ? { apiKey: apiKey.trim() } : {}),
+      mergeFields,
+    });
+  };
+
+  if (!config) return null;
+
+  return (
+    <div className="border-t pt-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+        <Mail className="h-5 w-5 mr-2 text-blue-600" />
+        Mailchimp Audience
+        <Badge className={`ml-3 ${config.configured ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>
+          {config.configured ? (config.listId ? 'Own audience' : 'Shared audience') : 'Not configured'}
+        </Badge>
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="mailchimp-list-id">Audience ID</Label>
+          <Input
+            id="mailchimp-list-id"
+            value={listId}
+            onChange={(e) => setListId(e.target.value)}
+            placeholder={config.defaultListId ? `Shared audience (${config.defaultListId})` : 'e.g. a1b2c3d4e5'}
+          />
+        </div>
+        <div>
+          <Label htmlFor="mailchimp-api-key">API Key</Label>
+          <div className="flex gap-2">
+            <Input
+              id="mailchimp-api-key"
+              type="password"
+              autoComplete="off"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder={config.hasApiKey ? 'Stored - leave blank to keep' : 'Shared API key'}
+            />
+            {config.hasApiKey && (
+              <Button type="button" variant="outline" disabled={saveMutation.isPending} onClick={() => saveMutation.mutate({ apiKey: null })}>
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Leave both blank to sync into the shared audience. An account with its own API key needs its own audience ID.
+      </p>
+
+      <Table className="mt-4">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Send</TableHead>
+            <TableHead>Identity Field</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Merge Tag</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {(Object.keys(config.sources) as MailchimpMergeSource[]).map(source => mapping[source] && (
+            <TableRow key={source}>
+              <TableCell>
+                <Checkbox checked={mapping[source]!.enabled} onCheckedChange={(checked) => setRow(source, { enabled: checked === true })} />
+              </TableCell>
+              <TableCell>{config.sources[source].label}</TableCell>
+              <TableCell className="text-sm text-gray-500">{config.sources[source].type}</TableCell>
+              <TableCell>
+                <Input
+                  className="w-36 font-mono"
+                  maxLength={10}
+                  disabled={!mapping[source]!.enabled}
+                  value={mapping[source]!.tag}
+                  onChange={(e) => setRow(source, { tag: e.target.value.toUpperCase() })}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <div className="flex items-center justify-between mt-2">
+        <p className="text-xs text-gray-500">
+          Missing merge fields are created in the audience when you save. Changing the audience or mapping re-sends every contact.
+        </p>
+        <Button type="button" variant="outline" disabled={saveMutation.isPending} onClick={save}>
+          <Save className="h-4 w-4 mr-1" />
+          {saveMutation.isPending ? 'Saving...' : 'Save Mailchimp Settings'}
+        </Button>
+      </div>
+    </div>
+  );
+}
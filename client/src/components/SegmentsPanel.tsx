@@ -0,0 +1,556 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Users, Plus, Trash2, Pencil, RefreshCw, Save, FolderPlus, Eye } from 'lucide-react';
+import { SEGMENT_FIELDS, SEGMENT_OPERATORS, SEGMENT_LIMITS } from '@shared/schema';
+import type { Segment, SegmentGroup, SegmentOperator, SegmentRule } from '@shared/schema';
+
+type Channel = 'mailchimp' | 'handwrytten';
+type GroupMode = 'all' | 'any' | 'none' | 'not_all';
+
+// Editable copy of a rule tree - values are kept as strings until saved
+type DraftRule =
+  | { type: 'group'; mode: GroupMode; rules: DraftRule[] }
+  | { type: 'condition'; field: string; op: SegmentOperator; value: string }
+  | { type: 'visit'; category: string; urlContains: string; withinDays: string; minCount: string };
+
+type DraftGroup = Extract<DraftRule, { type: 'group' }>;
+
+const GROUP_MODES: Array<{ mode: GroupMode; label: string }> = [
+  { mode: 'all', label: 'All of' },
+  { mode: 'any', label: 'Any of' },
+  { mode: 'none', label: 'None of' },
+  { mode: 'not_all', label: 'Not all of' },
+];
+
+const OPERATOR_LABELS: Record<SegmentOperator, string> = {
+  eq: 'is',
+  neq: 'is not',
+  in: 'is one of',
+  not_in: 'is not one of',
+  contains: 'contains',
+  starts_with: 'starts with',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  between: 'between',
+  is_set: 'is set',
+  is_not_set: 'is not set',
+};
+
+const CHANNELS: Array<{ channel: Channel; label: string }> = [
+  { channel: 'mailchimp', label: 'Mailchimp sync' },
+  { channel: 'handwrytten', label: 'Handwrytten sync' },
+];
+
+const ANY_CATEGORY = '__any__';
+const NO_SEGMENT = '__none__';
+
+const emptyGroup = (): DraftGroup => ({ type: 'group', mode: 'all', rules: [] });
+const newCondition = (): DraftRule => ({ type: 'condition', field: 'zip', op: 'in', value: '' });
+const newVisit = (): DraftRule => ({ type: 'visit', category: 'listing_detail', urlContains: '', withinDays: '14', minCount: '' });
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+function toRule(draft: DraftRule): SegmentRule {
+  if (draft.type === 'group') {
+    return {
+      type: 'group',
+      combinator: draft.mode === 'all' || draft.mode === 'not_all' ? 'and' : 'or',
+      ...(draft.mode === 'none' || draft.mode === 'not_all' ? { negate: true } : {}),
+      rules: draft.rules.map(toRule),
+    };
+  }
+
+  if (draft.type === 'visit') {
+    return {
+      type: 'visit',
+      ...(draft.category ? { category: draft.category } : {}),
+      ...(draft.urlContains.trim() ? { urlContains: draft.urlContains.trim() } : {}),
+      ...(draft.withinDays.trim() ? { withinDays: Number(draft.withinDays) } : {}),
+      ...(draft.minCount.trim() ? { minCount: Number(draft.minCount) } : {}),
+    };
+  }
+
+  const type = SEGMENT_FIELDS[draft.field]?.type;
+  const parse = (value: string) => (type === 'number' ? Number(value) : value);
+  if (type === 'boolean') return { type: 'condition', field: draft.field, op: 'eq', value: draft.value !== 'false' };
+  if (draft.op === 'is_set' || draft.op === 'is_not_set') return { type: 'condition', field: draft.field, op: draft.op };
+  if (draft.op === 'in' || draft.op === 'not_in' || draft.op === 'between') {
+    return { type: 'condition', field: draft.field, op: draft.op, value: splitList(draft.value).map(parse) };
+  }
+  return { type: 'condition', field: draft.field, op: draft.op, value: parse(draft.value.trim()) };
+}
+
+function toDraft(rule: SegmentRule): DraftRule {
+  if (rule.type === 'group') {
+    const mode: GroupMode = rule.combinator === 'and' ? (rule.negate ? 'not_all' : 'all') : (rule.negate ? 'none' : 'any');
+    return { type: 'group', mode, rules: rule.rules.map(toDraft) };
+  }
+  if (rule.type === 'visit') {
+    return {
+      type: 'visit',
+      category: rule.category || '',
+      urlContains: rule.urlContains || '',
+      withinDays: rule.withinDays === undefined ? '' : String(rule.withinDays),
+      minCount: rule.minCount === undefined ? '' : String(rule.minCount),
+    };
+  }
+  const value = Array.isArray(rule.value) ? rule.value.join(', ') : rule.value === undefined ? '' : String(rule.value);
+  return { type: 'condition', field: rule.field, op: rule.op, value };
+}
+
+interface GroupEditorProps {
+  group: DraftGroup;
+  depth: number;
+  categories: string[];
+  onChange: (group: DraftGroup) => void;
+  onRemove?: () => void;
+}
+
+function GroupEditor({ group, depth, categories, onChange, onRemove }: GroupEditorProps) {
+  const setRule = (index: number, rule: DraftRule) =>
+    onChange({ ...group, rules: group.rules.map((current, i) => (i === index ? rule : current)) });
+  const removeRule = (index: number) => onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  const addRule = (rule: DraftRule) => onChange({ ...group, rules: [...group.rules, rule] });
+
+  return (
+    <div className={depth > 1 ? 'border-l-2 border-blue-200 pl-4 space-y-2' : 'space-y-2'}>
+      <div className="flex items-center gap-2">
+        <Select value={group.mode} onValueChange={(mode) => onChange({ ...group, mode: mode as GroupMode })}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GROUP_MODES.map(({ mode, label }) => (
+              <SelectItem key={mode} value={mode}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-gray-500">these rules</span>
+        {onRemove && (
+          <Button variant="ghost" size="sm" onClick={onRemove}>
+            <Trash2 className="h-4 w-4 text-red-600" />
+          </Button>
+        )}
+      </div>
+
+      {group.rules.map((rule, index) => {
+        if (rule.type === 'group') {
+          return (
+            <GroupEditor
+              key={index}
+              group={rule}
+              depth={depth + 1}
+              categories={categories}
+              onChange={(updated) => setRule(index, updated)}
+              onRemove={() => removeRule(index)}
+            />
+          );
+        }
+
+        if (rule.type === 'visit') {
+          return (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <span className="text-sm w-28">Visited</span>
+              <Select value={rule.category || ANY_CATEGORY} onValueChange={(category) => setRule(index, { ...rule, category: category === ANY_CATEGORY ? '' : category })}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_CATEGORY}>any page</SelectItem>
+                  {categories.map(category => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input className="w-40" placeholder="URL contains" value={rule.urlContains} onChange={(e) => setRule(index, { ...rule, urlContains: e.target.value })} />
+              <Input className="w-28" type="number" placeholder="Within days" value={rule.withinDays} onChange={(e) => setRule(index, { ...rule, withinDays: e.target.value })} />
+              <Input className="w-28" type="number" placeholder="Min visits" value={rule.minCount} onChange={(e) => setRule(index, { ...rule, minCount: e.target.value })} />
+              <Button variant="ghost" size="sm" onClick={() => removeRule(index)}>
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+          );
+        }
+
+        const type = SEGMENT_FIELDS[rule.field]?.type || 'string';
+        const operators = SEGMENT_OPERATORS[type];
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Select
+              value={rule.field}
+              onValueChange={(field) => {
+                const fieldType = SEGMENT_FIELDS[field].type;
+                const op = SEGMENT_OPERATORS[fieldType].includes(rule.op) ? rule.op : SEGMENT_OPERATORS[fieldType][0];
+                setRule(index, { ...rule, field, op, value: fieldType === 'boolean' ? 'true' : rule.value });
+              }}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SEGMENT_FIELDS).map(([field, definition]) => (
+                  <SelectItem key={field} value={field}>{definition.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {type === 'boolean' ? (
+              <Select value={rule.value === 'false' ? 'false' : 'true'} onValueChange={(value) => setRule(index, { ...rule, value })}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="true">is true</SelectItem>
+                  <SelectItem value="false">is false</SelectItem>
+                </SelectContent>
+              </Select>
+            ) : (
+              <>
+                <Select value={rule.op} onValueChange={(op) => setRule(index, { ...rule, op: op as SegmentOperator })}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operators.map(op => (
+                      <SelectItem key={op} value={op}>{OPERATOR_LABELS[op]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {rule.op !== 'is_set' && rule.op !== 'is_not_set' && (
+                  <Input
+                    className="w-56"
+                    value={rule.value}
+                    onChange={(e) => setRule(index, { ...rule, value: e.target.value })}
+                    placeholder={rule.op === 'between' ? 'min, max' : rule.op === 'in' || rule.op === 'not_in' ? 'Comma separated' : 'Value'}
+                  />
+                )}
+              </>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => removeRule(index)}>
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => addRule(newCondition())}>
+          <Plus className="h-4 w-4 mr-1" />
+          Condition
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => addRule(newVisit())}>
+          <Eye className="h-4 w-4 mr-1" />
+          Page visit
+        </Button>
+        {depth < SEGMENT_LIMITS.maxDepth && (
+          <Button variant="outline" size="sm" onClick={() => addRule(emptyGroup())}>
+            <FolderPlus className="h-4 w-4 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Build saved audience segments for an account and choose which segment each outreach sync is limited to
+ */
+export function SegmentsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cid, setCid] = useState<string>('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [root, setRoot] = useState<DraftGroup>(emptyGroup());
+  const [previewCount, setPreviewCount] = useState<number | null>(null);
+  const [syncSegments, setSyncSegments] = useState<Record<Channel, string>>({ mailchimp: NO_SEGMENT, handwrytten: NO_SEGMENT });
+
+  const segmentsKey = `/api/segments?cid=${encodeURIComponent(cid)}`;
+  const syncKey = `/api/cid-accounts/${encodeURIComponent(cid)}/sync-segments`;
+
+  const { data: accounts = [] } = useQuery<any[]>({
+    queryKey: ['/api/cid-accounts'],
+  });
+
+  const { data: segments = [] } = useQuery<Segment[]>({
+    queryKey: [segmentsKey],
+    enabled: !!cid,
+  });
+
+  const { data: urlRules } = useQuery<{ categories: string[]; rules: Array<{ category: string }> }>({
+    queryKey: [`/api/cid-accounts/${encodeURIComponent(cid)}/url-rules`],
+    enabled: !!cid,
+  });
+
+  const { data: savedSyncSegments } = useQuery<Record<Channel, number | null>>({
+    queryKey: [syncKey],
+    enabled: !!cid,
+  });
+
+  useEffect(() => {
+    if (!cid && accounts.length > 0) {
+      setCid(accounts[0].cid);
+    }
+  }, [accounts, cid]);
+
+  useEffect(() => {
+    if (savedSyncSegments) {
+      setSyncSegments({
+        mailchimp: savedSyncSegments.mailchimp ? String(savedSyncSegments.mailchimp) : NO_SEGMENT,
+        handwrytten: savedSyncSegments.handwrytten ? String(savedSyncSegments.handwrytten) : NO_SEGMENT,
+      });
+    }
+  }, [savedSyncSegments]);
+
+  // Categories from the account's URL rules, including custom ones
+  const categories = Array.from(new Set([
+    ...(urlRules?.categories || []),
+    ...(urlRules?.rules || []).map(rule => rule.category),
+  ]));
+
+  const resetEditor = () => {
+    setEditingId(null);
+    setName('');
+    setDescription('');
+    setRoot(emptyGroup());
+    setPreviewCount(null);
+  };
+
+  const selectAccount = (value: string) => {
+    setCid(value);
+    resetEditor();
+  };
+
+  const editSegment = (segment: Segment) => {
+    setEditingId(segment.id);
+    setName(segment.name);
+    setDescription(segment.description || '');
+    setRoot(toDraft(segment.definition as SegmentGroup) as DraftGroup);
+    setPreviewCount(segment.lastCount);
+  };
+
+  const invalidateSegments = () => {
+    queryClient.invalidateQueries({ queryKey: [segmentsKey] });
+    queryClient.invalidateQueries({ queryKey: ['/api/segments'] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const result = await apiRequest('POST', '/api/segments/preview', { cid, definition: toRule(root) });
+      return await result.json();
+    },
+    onSuccess: (result: { count: number }) => setPreviewCount(result.count),
+    onError: onError('Preview Failed'),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { cid, name: name.trim(), description: description.trim() || null, definition: toRule(root) };
+      const result = editingId
+        ? await apiRequest('PUT', `/api/segments/${editingId}`, body)
+        : await apiRequest('POST', '/api/segments', body);
+      return await result.json();
+    },
+    onSuccess: (segment: Segment) => {
+      toast({ title: editingId ? 'Segment Updated' : 'Segment Created', description: `${segment.name} matches ${(segment.lastCount ?? 0).toLocaleString()} identities` });
+      resetEditor();
+      invalidateSegments();
+    },
+    onError: onError('Save Failed'),
+  });
+
+  const countMutation = useMutation({
+    mutationFn: async (segmentId: number) => {
+      const result = await apiRequest('POST', `/api/segments/${segmentId}/count`, {});
+      return await result.json();
+    },
+    onSuccess: invalidateSegments,
+    onError: onError('Count Failed'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (segmentId: number) => {
+      const result = await apiRequest('DELETE', `/api/segments/${segmentId}`);
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Segment Deleted' });
+      resetEditor();
+      invalidateSegments();
+      queryClient.invalidateQueries({ queryKey: [syncKey] });
+    },
+    onError: onError('Delete Failed'),
+  });
+
+  const saveSyncMutation = useMutation({
+    mutationFn: async () => {
+      const body = Object.fromEntries(CHANNELS.map(({ channel }) => [
+        channel,
+        syncSegments[channel] === NO_SEGMENT ? null : parseInt(syncSegments[channel]),
+      ]));
+      const result = await apiRequest('PUT', syncKey, body);
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Sync Segments Updated', description: 'The next syncs only send members of the chosen segments' });
+      queryClient.invalidateQueries({ queryKey: [syncKey] });
+    },
+    onError: onError('Update Failed'),
+  });
+
+  const saveSegment = () => {
+    if (!name.trim()) {
+      toast({ title: 'Missing Name', description: 'Give the segment a name', variant: 'destructive' });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center">
+              <Users className="h-5 w-5 mr-2 text-blue-600" />
+              Audience Segments
+            </CardTitle>
+            <CardDescription>
+              Saved audiences for campaigns, the business data export and the Mailchimp and Handwrytten syncs.
+            </CardDescription>
+          </div>
+          <Select value={cid} onValueChange={selectAccount}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account: any) => (
+                <SelectItem key={account.cid} value={account.cid}>{account.accountName || account.cid}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {segments.length === 0 ? (
+          <div className="text-sm text-gray-500">No segments for this account yet</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Members</TableHead>
+                <TableHead>Counted</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {segments.map(segment => (
+                <TableRow key={segment.id}>
+                  <TableCell>
+                    <div className="font-medium">{segment.name}</div>
+                    {segment.description && <div className="text-xs text-gray-500">{segment.description}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{segment.lastCount === null ? '—' : segment.lastCount.toLocaleString()}</TableCell>
+                  <TableCell className="text-sm">{segment.lastCountedAt ? format(new Date(segment.lastCountedAt), 'MMM d, h:mm a') : '—'}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" title="Edit" onClick={() => editSegment(segment)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Recount" onClick={() => countMutation.mutate(segment.id)}>
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Delete" onClick={() => deleteMutation.mutate(segment.id)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-4 border rounded-md p-4">
+          <div className="font-medium text-sm">{editingId ? 'Edit segment' : 'New segment'}</div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Long-time owners browsing listings" />
+            </div>
+            <div className="space-y-1">
+              <Label>Description</Label>
+              <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" />
+            </div>
+          </div>
+
+          <GroupEditor group={root} depth={1} categories={categories} onChange={setRoot} />
+
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              {previewCount !== null && `${previewCount.toLocaleString()} matching identities`}
+            </div>
+            <div className="flex gap-2">
+              {editingId && (
+                <Button variant="outline" onClick={resetEditor}>Cancel</Button>
+              )}
+              <Button variant="outline" disabled={!cid || previewMutation.isPending} onClick={() => previewMutation.mutate()}>
+                <Eye className="h-4 w-4 mr-1" />
+                Preview Count
+              </Button>
+              <Button disabled={!cid || saveMutation.isPending} onClick={saveSegment}>
+                <Save className="h-4 w-4 mr-1" />
+                {editingId ? 'Save Segment' : 'Create Segment'}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm text-gray-600">
+            Limit a sync to a segment's members. Intent triggers still apply on top.
+          </div>
+          <div className="flex flex-wrap items-end gap-4">
+            {CHANNELS.map(({ channel, label }) => (
+              <div key={channel} className="space-y-1">
+                <Label>{label}</Label>
+                <Select value={syncSegments[channel]} onValueChange={(value) => setSyncSegments({ ...syncSegments, [channel]: value })}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SEGMENT}>All qualifying contacts</SelectItem>
+                    {segments.map(segment => (
+                      <SelectItem key={segment.id} value={String(segment.id)}>{segment.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <Button variant="outline" disabled={!cid || saveSyncMutation.isPending} onClick={() => saveSyncMutation.mutate()}>
+              <Save className="h-4 w-4 mr-1" />
+              Save Sync Segments
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
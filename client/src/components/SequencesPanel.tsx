@@ -0,0 +1,487 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Workflow, Plus, Trash2, Pencil, Play, Pause, Save, ListChecks, Square } from 'lucide-react';
+import type { Segment, Sequence, SequenceEnrollment, SequenceExitConditions, SequenceStep, SequenceStepResult } from '@shared/schema';
+
+interface SequenceWithCounts extends Sequence {
+  enrollmentCounts: { total: number; active: number; completed: number; exited: number };
+}
+
+interface EnrollmentRow extends SequenceEnrollment {
+  identity: { firstName: string | null; lastName: string | null; email: string | null; city: string | null } | null;
+}
+
+// Editable copy of a step - numbers are kept as strings until saved
+interface StepRow {
+  day: string;
+  channel: SequenceStep['channel'];
+  mailchimpTag: string;
+  cardId: string;
+  message: string;
+  onlyIfNoReturnVisit: boolean;
+}
+
+const NO_SEGMENT = '__none__';
+
+const EXIT_REASONS: Record<string, string> = {
+  new_visit: 'Returned to the site',
+  unsubscribed: 'Unsubscribed',
+  manual: 'Stopped manually',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-gray-100 text-gray-700',
+  completed: 'bg-blue-100 text-blue-800',
+  exited: 'bg-yellow-100 text-yellow-800',
+};
+
+const RESULT_STYLES: Record<SequenceStepResult['status'], string> = {
+  sent: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const newStep = (day: number): StepRow => ({ day: String(day), channel: 'mailchimp', mailchimpTag: '', cardId: '', message: '', onlyIfNoReturnVisit: false });
+
+const toRows = (steps: SequenceStep[]): StepRow[] => steps.map(step => ({
+  day: String(step.day),
+  channel: step.channel,
+  mailchimpTag: step.mailchimpTag || '',
+  cardId: step.cardId || '',
+  message: step.message || '',
+  onlyIfNoReturnVisit: !!step.onlyIfNoReturnVisit,
+}));
+
+const toSteps = (rows: StepRow[]): SequenceStep[] => rows.map(row => ({
+  day: Number(row.day),
+  channel: row.channel,
+  ...(row.channel === 'mailchimp'
+    ? { mailchimpTag: row.mailchimpTag.trim() }
+    : { ...(row.cardId.trim() ? { cardId: row.cardId.trim() } : {}), ...(row.message.trim() ? { message: row.message.trim() } : {}) }),
+  ...(row.onlyIfNoReturnVisit ? { onlyIfNoReturnVisit: true } : {}),
+}));
+
+const describeStep = (step: SequenceStep) =>
+  `Day ${step.day}: ${step.channel === 'mailchimp' ? `tag "${step.mailchimpTag}"` : 'card'}${step.onlyIfNoReturnVisit ? ' if no return visit' : ''}`;
+
+/**
+ * Build drip sequences for an account and follow each enrolled identity's progress
+ */
+export function SequencesPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cid, setCid] = useState<string>('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [segmentId, setSegmentId] = useState(NO_SEGMENT);
+  const [rows, setRows] = useState<StepRow[]>([newStep(0)]);
+  const [exitConditions, setExitConditions] = useState<SequenceExitConditions>({ newVisit: false, unsubscribe: true });
+  const [viewingId, setViewingId] = useState<number | null>(null);
+  const [enrollIds, setEnrollIds] = useState('');
+
+  const sequencesKey = `/api/sequences?cid=${encodeURIComponent(cid)}`;
+  const enrollmentsKey = `/api/sequences/${viewingId}/enrollments`;
+
+  const { data: accounts = [] } = useQuery<any[]>({
+    queryKey: ['/api/cid-accounts'],
+  });
+
+  const { data: sequences = [] } = useQuery<SequenceWithCounts[]>({
+    queryKey: [sequencesKey],
+    enabled: !!cid,
+    refetchInterval: 60000,
+  });
+
+  const { data: segments = [] } = useQuery<Segment[]>({
+    queryKey: [`/api/segments?cid=${encodeURIComponent(cid)}`],
+    enabled: !!cid,
+  });
+
+  const { data: enrollments = [] } = useQuery<EnrollmentRow[]>({
+    queryKey: [enrollmentsKey],
+    enabled: viewingId !== null,
+  });
+
+  useEffect(() => {
+    if (!cid && accounts.length > 0) {
+      setCid(accounts[0].cid);
+    }
+  }, [accounts, cid]);
+
+  const resetEditor = () => {
+    setEditingId(null);
+    setName('');
+    setSegmentId(NO_SEGMENT);
+    setRows([newStep(0)]);
+    setExitConditions({ newVisit: false, unsubscribe: true });
+  };
+
+  const selectAccount = (value: string) => {
+    setCid(value);
+    setViewingId(null);
+    resetEditor();
+  };
+
+  const editSequence = (sequence: Sequence) => {
+    setEditingId(sequence.id);
+    setName(sequence.name);
+    setSegmentId(sequence.segmentId ? String(sequence.segmentId) : NO_SEGMENT);
+    setRows(toRows(sequence.steps as SequenceStep[]));
+    setExitConditions((sequence.exitConditions as SequenceExitConditions | null) || {});
+  };
+
+  const setRow = (index: number, updates: Partial<StepRow>) =>
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [sequencesKey] });
+    if (viewingId !== null) {
+      queryClient.invalidateQueries({ queryKey: [enrollmentsKey] });
+    }
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        cid,
+        name: name.trim(),
+        steps: toSteps(rows),
+        exitConditions: {
+          newVisit: !!exitConditions.newVisit,
+          unsubscribe: !!exitConditions.unsubscribe,
+          ...(exitConditions.visitCategory?.trim() ? { visitCategory: exitConditions.visitCategory.trim() } : {}),
+        },
+        segmentId: segmentId === NO_SEGMENT ? null : parseInt(segmentId),
+      };
+      const result = editingId
+        ? await apiRequest('PUT', `/api/sequences/${editingId}`, body)
+        : await apiRequest('POST', '/api/sequences', body);
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: editingId ? 'Sequence Updated' : 'Sequence Created', description: editingId ? 'Active enrollments follow the new steps' : 'Start it when the steps are ready' });
+      resetEditor();
+      invalidate();
+    },
+    onError: onError('Save Failed'),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: 'active' | 'paused' }) => {
+      const result = await apiRequest('PUT', `/api/sequences/${id}`, { status });
+      return await result.json();
+    },
+    onSuccess: invalidate,
+    onError: onError('Update Failed'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const result = await apiRequest('DELETE', `/api/sequences/${id}`);
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Sequence Deleted' });
+      setViewingId(null);
+      resetEditor();
+      invalidate();
+    },
+    onError: onError('Delete Failed'),
+  });
+
+  const enrollMutation = useMutation({
+    mutationFn: async () => {
+      const captureIds = enrollIds.split(/[\s,]+/).filter(Boolean).map(id => parseInt(id));
+      const result = await apiRequest('POST', `/api/sequences/${viewingId}/enrollments`, { captureIds });
+      return await result.json();
+    },
+    onSuccess: (result: { enrolled: number; skipped: number }) => {
+      toast({ title: 'Identities Enrolled', description: `${result.enrolled} enrolled, ${result.skipped} already enrolled or not in this account` });
+      setEnrollIds('');
+      invalidate();
+    },
+    onError: onError('Enroll Failed'),
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (enrollmentId: number) => {
+      const result = await apiRequest('POST', `/api/sequence-enrollments/${enrollmentId}/stop`, {});
+      return await result.json();
+    },
+    onSuccess: invalidate,
+    onError: onError('Stop Failed'),
+  });
+
+  const saveSequence = () => {
+    if (!name.trim()) {
+      toast({ title: 'Missing Name', description: 'Give the sequence a name', variant: 'destructive' });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const viewing = sequences.find(sequence => sequence.id === viewingId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center">
+              <Workflow className="h-5 w-5 mr-2 text-blue-600" />
+              Drip Sequences
+            </CardTitle>
+            <CardDescription>
+              Steps run the given number of days after an identity enrolls, until an exit condition stops them.
+            </CardDescription>
+          </div>
+          <Select value={cid} onValueChange={selectAccount}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account: any) => (
+                <SelectItem key={account.cid} value={account.cid}>{account.accountName || account.cid}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {sequences.length === 0 ? (
+          <div className="text-sm text-gray-500">No sequences for this account yet</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead className="text-right">Active</TableHead>
+                <TableHead className="text-right">Completed</TableHead>
+                <TableHead className="text-right">Exited</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sequences.map(sequence => (
+                <TableRow key={sequence.id}>
+                  <TableCell className="font-medium">{sequence.name}</TableCell>
+                  <TableCell>
+                    <Badge className={STATUS_STYLES[sequence.status]}>{sequence.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-gray-600">
+                    {(sequence.steps as SequenceStep[]).map((step, index) => <div key={index}>{describeStep(step)}</div>)}
+                  </TableCell>
+                  <TableCell className="text-right">{sequence.enrollmentCounts.active}</TableCell>
+                  <TableCell className="text-right">{sequence.enrollmentCounts.completed}</TableCell>
+                  <TableCell className="text-right">{sequence.enrollmentCounts.exited}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      {sequence.status === 'active' ? (
+                        <Button variant="ghost" size="sm" title="Pause" onClick={() => statusMutation.mutate({ id: sequence.id, status: 'paused' })}>
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button variant="ghost" size="sm" title="Start" onClick={() => statusMutation.mutate({ id: sequence.id, status: 'active' })}>
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" title="Enrollments" onClick={() => setViewingId(viewingId === sequence.id ? null : sequence.id)}>
+                        <ListChecks className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Edit" onClick={() => editSequence(sequence)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Delete" onClick={() => deleteMutation.mutate(sequence.id)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {viewing && (
+          <div className="space-y-3 border rounded-md p-4">
+            <div className="flex items-center justify-between">
+              <div className="font-medium text-sm">Enrollments in {viewing.name}</div>
+              <div className="flex items-center gap-2">
+                <Input className="w-64" placeholder="Identity IDs, comma separated" value={enrollIds} onChange={(e) => setEnrollIds(e.target.value)} />
+                <Button variant="outline" size="sm" disabled={!enrollIds.trim() || enrollMutation.isPending} onClick={() => enrollMutation.mutate()}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Enroll
+                </Button>
+              </div>
+            </div>
+            {enrollments.length === 0 ? (
+              <div className="text-sm text-gray-500">Nobody is enrolled yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Identity</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Progress</TableHead>
+                    <TableHead>Next step</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {enrollments.map(enrollment => (
+                    <TableRow key={enrollment.id}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {[enrollment.identity?.firstName, enrollment.identity?.lastName].filter(Boolean).join(' ') || `#${enrollment.captureId}`}
+                        </div>
+                        <div className="text-xs text-gray-500">{enrollment.identity?.email || ''}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_STYLES[enrollment.status]}>{enrollment.status}</Badge>
+                        {enrollment.exitReason && <div className="text-xs text-gray-500">{EXIT_REASONS[enrollment.exitReason] || enrollment.exitReason}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {((enrollment.history as SequenceStepResult[] | null) || []).map((result, index) => (
+                            <Badge key={index} className={RESULT_STYLES[result.status]} title={result.detail || format(new Date(result.at), 'MMM d, h:mm a')}>
+                              {result.step + 1}. {result.status}
+                            </Badge>
+                          ))}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          Step {Math.min(enrollment.currentStep, (viewing.steps as SequenceStep[]).length)} of {(viewing.steps as SequenceStep[]).length}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {enrollment.nextRunAt ? format(new Date(enrollment.nextRunAt), 'MMM d, h:mm a') : '—'}
+                      </TableCell>
+                      <TableCell>
+                        {enrollment.status === 'active' && (
+                          <Button variant="ghost" size="sm" title="Stop" onClick={() => stopMutation.mutate(enrollment.id)}>
+                            <Square className="h-4 w-4 text-red-600" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-4 border rounded-md p-4">
+          <div className="font-medium text-sm">{editingId ? 'Edit sequence' : 'New sequence'}</div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="New lead nurture" />
+            </div>
+            <div className="space-y-1">
+              <Label>Enroll segment members automatically</Label>
+              <Select value={segmentId} onValueChange={setSegmentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SEGMENT}>Manual enrollment only</SelectItem>
+                  {segments.map(segment => (
+                    <SelectItem key={segment.id} value={String(segment.id)}>{segment.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Steps</Label>
+            {rows.map((row, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <span className="text-sm">Day</span>
+                <Input className="w-20" type="number" min={0} value={row.day} onChange={(e) => setRow(index, { day: e.target.value })} />
+                <Select value={row.channel} onValueChange={(channel) => setRow(index, { channel: channel as SequenceStep['channel'] })}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mailchimp">Mailchimp tag</SelectItem>
+                    <SelectItem value="handwrytten">Handwrytten card</SelectItem>
+                  </SelectContent>
+                </Select>
+                {row.channel === 'mailchimp' ? (
+                  <Input className="w-56" placeholder="Tag" value={row.mailchimpTag} onChange={(e) => setRow(index, { mailchimpTag: e.target.value })} />
+                ) : (
+                  <>
+                    <Input className="w-28" placeholder="Card ID" value={row.cardId} onChange={(e) => setRow(index, { cardId: e.target.value })} />
+                    <Input className="w-72" placeholder="Message (blank for the account template)" value={row.message} onChange={(e) => setRow(index, { message: e.target.value })} />
+                  </>
+                )}
+                <label className="flex items-center gap-1 text-sm">
+                  <Checkbox checked={row.onlyIfNoReturnVisit} onCheckedChange={(checked) => setRow(index, { onlyIfNoReturnVisit: checked === true })} />
+                  Only if no return visit
+                </label>
+                <Button variant="ghost" size="sm" disabled={rows.length === 1} onClick={() => setRows(rows.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setRows([...rows, newStep(Number(rows[rows.length - 1]?.day || 0) + 3)])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Step
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Exit when</Label>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-1">
+                <Checkbox checked={!!exitConditions.newVisit} onCheckedChange={(checked) => setExitConditions({ ...exitConditions, newVisit: checked === true })} />
+                The identity visits again
+              </label>
+              {exitConditions.newVisit && (
+                <Input
+                  className="w-56"
+                  placeholder="Only visits in category (optional)"
+                  value={exitConditions.visitCategory || ''}
+                  onChange={(e) => setExitConditions({ ...exitConditions, visitCategory: e.target.value })}
+                />
+              )}
+              <label className="flex items-center gap-1">
+                <Checkbox checked={!!exitConditions.unsubscribe} onCheckedChange={(checked) => setExitConditions({ ...exitConditions, unsubscribe: checked === true })} />
+                They unsubscribe in Mailchimp
+              </label>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" onClick={resetEditor}>Cancel</Button>
+            )}
+            <Button disabled={!cid || saveMutation.isPending} onClick={saveSequence}>
+              <Save className="h-4 w-4 mr-1" />
+              {editingId ? 'Save Sequence' : 'Create Sequence'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { ShieldAlert, Edit, Save, X } from 'lucide-react';
+
+interface TrafficQualityAccount {
+  cid: string;
+  accountName: string | null;
+  allowedDomains: string[];
+  valid: number;
+  suspicious: number;
+  rejected: number;
+}
+
+interface TrafficQualityResponse {
+  days: number;
+  accounts: TrafficQualityAccount[];
+}
+
+export function TrafficQualityPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState('30');
+  const [editingCid, setEditingCid] = useState<string | null>(null);
+  const [domainsInput, setDomainsInput] = useState('');
+
+  const { data, isLoading } = useQuery<TrafficQualityResponse>({
+    queryKey: [`/api/admin/traffic-quality?days=${days}`],
+    refetchInterval: 60000, // Refresh every minute
+  });
+
+  const updateDomainsMutation = useMutation({
+    mutationFn: async ({ cid, allowedDomains }: { cid: string; allowedDomains: string[] }) => {
+      const result = await apiRequest('PUT', `/api/cid-accounts/${encodeURIComponent(cid)}/allowed-domains`, { allowedDomains });
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Allowed Domains Updated', description: 'Pixel hits from other domains will now be rejected' });
+      setEditingCid(null);
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/traffic-quality?days=${days}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cid-accounts'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Update Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const startEditing = (account: TrafficQualityAccount) => {
+    setEditingCid(account.cid);
+    setDomainsInput(account.allowedDomains.join(', '));
+  };
+
+  const saveDomains = (cid: string) => {
+    const allowedDomains = domainsInput.split(',').map(domain => domain.trim()).filter(Boolean);
+    updateDomainsMutation.mutate({ cid, allowedDomains });
+  };
+
+  const accounts = data?.accounts || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center">
+              <ShieldAlert className="h-5 w-5 mr-2 text-orange-600" />
+              Pixel Traffic Quality
+            </CardTitle>
+            <CardDescription>Bot and off-domain hits are tagged and never enriched</CardDescription>
+          </div>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">Last 24 hours</SelectItem>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading traffic quality...</div>
+        ) : accounts.length === 0 ? (
+          <div className="text-sm text-gray-500">No accounts found</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead>Allowed Domains</TableHead>
+                <TableHead className="text-right">Valid</TableHead>
+                <TableHead className="text-right">Suspicious</TableHead>
+                <TableHead className="text-right">Rejected</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accounts.map((account) => (
+                <TableRow key={account.cid}>
+                  <TableCell>
+                    <div className="font-medium text-sm">{account.accountName || account.cid}</div>
+                    <div className="text-xs text-gray-500 font-mono">{account.cid}</div>
+                  </TableCell>
+                  <TableCell>
+                    {editingCid === account.cid ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={domainsInput}
+                          onChange={(e) => setDomainsInput(e.target.value)}
+                          placeholder="example.com, listings.example.com"
+                          className="h-8 text-xs"
+                        />
+                        <Button variant="ghost" size="sm" disabled={updateDomainsMutation.isPending} onClick={() => saveDomains(account.cid)}>
+                          <Save className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setEditingCid(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-1 flex-wrap">
+                        {account.allowedDomains.length > 0 ? (
+                          account.allowedDomains.map(domain => (
+                            <Badge key={domain} variant="outline" className="text-xs">{domain}</Badge>
+                          ))
+                        ) : (
+                          <span className="text-xs text-gray-400">Any domain</span>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(account)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{account.valid}</TableCell>
+                  <TableCell className="text-right">
+                    <Badge className={account.suspicious > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-600'}>
+                      {account.suspicious}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Badge className={account.rejected > 0 ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-600'}>
+                      {account.rejected}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,364 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Route, Save, Plus, Trash2, RotateCcw, FlaskConical } from 'lucide-react';
+
+type Channel = 'mailchimp' | 'handwrytten';
+
+interface UrlRule {
+  match: 'prefix' | 'regex';
+  pattern: string;
+  category: string;
+  weight?: number;
+}
+
+interface IntentTrigger {
+  minIntentScore: number | null;
+  categories: string[];
+}
+
+interface UrlRulesResponse {
+  cid: string;
+  rules: UrlRule[];
+  isDefault: boolean;
+  defaultRules: UrlRule[];
+  categories: string[];
+  triggers: Record<Channel, IntentTrigger>;
+}
+
+// Editable copies - numbers are kept as strings until saved
+interface RuleRow {
+  match: 'prefix' | 'regex';
+  pattern: string;
+  category: string;
+  weight: string;
+}
+
+interface TriggerForm {
+  minIntentScore: string;
+  categories: string;
+}
+
+const CHANNELS: Array<{ channel: Channel; label: string }> = [
+  { channel: 'mailchimp', label: 'Mailchimp' },
+  { channel: 'handwrytten', label: 'Handwrytten' },
+];
+
+const toRows = (rules: UrlRule[]): RuleRow[] => rules.map(rule => ({
+  match: rule.match,
+  pattern: rule.pattern,
+  category: rule.category,
+  weight: rule.weight === undefined ? '' : String(rule.weight),
+}));
+
+const toRules = (rows: RuleRow[]): UrlRule[] => rows.map(row => ({
+  match: row.match,
+  pattern: row.pattern.trim(),
+  category: row.category.trim(),
+  ...(row.weight.trim() === '' ? {} : { weight: parseFloat(row.weight) }),
+}));
+
+/**
+ * Admin editor for a CID's URL classification rules and the intent each outreach channel requires
+ */
+export function UrlRulesPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cid, setCid] = useState<string>('');
+  const [rows, setRows] = useState<RuleRow[]>([]);
+  const [triggers, setTriggers] = useState<Record<Channel, TriggerForm> | null>(null);
+  const [testUrl, setTestUrl] = useState('');
+  const [testResult, setTestResult] = useState<{ url: string; category: string | null } | null>(null);
+
+  const rulesKey = `/api/cid-accounts/${encodeURIComponent(cid)}/url-rules`;
+
+  const { data: accounts = [] } = useQuery<any[]>({
+    queryKey: ['/api/cid-accounts'],
+  });
+
+  const { data, isLoading } = useQuery<UrlRulesResponse>({
+    queryKey: [rulesKey],
+    enabled: !!cid,
+  });
+
+  useEffect(() => {
+    if (!cid && accounts.length > 0) {
+      setCid(accounts[0].cid);
+    }
+  }, [accounts, cid]);
+
+  useEffect(() => {
+    if (data) {
+      setRows(toRows(data.rules));
+      setTriggers(Object.fromEntries(CHANNELS.map(({ channel }) => [channel, {
+        minIntentScore: data.triggers[channel].minIntentScore === null ? '' : String(data.triggers[channel].minIntentScore),
+        categories: data.triggers[channel].categories.join(', '),
+      }])) as Record<Channel, TriggerForm>);
+      setTestResult(null);
+    }
+  }, [data]);
+
+  const saveRulesMutation = useMutation({
+    mutationFn: async (rules: UrlRule[] | null) => {
+      const result = await apiRequest('PUT', rulesKey, { rules });
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'URL Rules Updated', description: `Page views in ${cid} are being reclassified` });
+      queryClient.invalidateQueries({ queryKey: [rulesKey] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recent-captures'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/business-data-export'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Update Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const saveTriggersMutation = useMutation({
+    mutationFn: async (body: Record<Channel, IntentTrigger>) => {
+      const result = await apiRequest('PUT', `/api/cid-accounts/${encodeURIComponent(cid)}/intent-triggers`, body);
+      return await result.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Intent Triggers Updated', description: 'The next syncs will use the new conditions' });
+      queryClient.invalidateQueries({ queryKey: [rulesKey] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Update Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const result = await apiRequest('POST', `${rulesKey}/test`, { url: testUrl.trim(), rules: toRules(rows) });
+      return await result.json();
+    },
+    onSuccess: (result: { url: string; category: string | null }) => setTestResult(result),
+    onError: (error: any) => {
+      toast({ title: 'Test Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateRow = (index: number, updates: Partial<RuleRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const saveRules = () => {
+    const invalid = rows.some(row => row.pattern.trim() === '' || row.category.trim() === '' || (row.weight.trim() !== '' && isNaN(parseFloat(row.weight))));
+    if (invalid) {
+      toast({ title: 'Invalid Rules', description: 'Every rule needs a pattern, a category and a numeric weight if one is set', variant: 'destructive' });
+      return;
+    }
+    saveRulesMutation.mutate(toRules(rows));
+  };
+
+  const saveTriggers = () => {
+    if (!triggers) return;
+    const body = Object.fromEntries(CHANNELS.map(({ channel }) => [channel, {
+      minIntentScore: triggers[channel].minIntentScore.trim() === '' ? null : parseInt(triggers[channel].minIntentScore),
+      categories: triggers[channel].categories.split(',').map(category => category.trim()).filter(Boolean),
+    }])) as Record<Channel, IntentTrigger>;
+
+    const invalid = Object.values(body).some(trigger => trigger.minIntentScore !== null && (isNaN(trigger.minIntentScore) || trigger.minIntentScore < 0 || trigger.minIntentScore > 100));
+    if (invalid) {
+      toast({ title: 'Invalid Trigger', description: 'Minimum intent score must be between 0 and 100', variant: 'destructive' });
+      return;
+    }
+    saveTriggersMutation.mutate(body);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center">
+              <Route className="h-5 w-5 mr-2 text-blue-600" />
+              URL Rules & Visit Intent
+            </CardTitle>
+            <CardDescription>
+              The first matching rule labels a visit. Prefix rules match the page path, regex rules the full URL.
+            </CardDescription>
+          </div>
+          <Select value={cid} onValueChange={setCid}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account: any) => (
+                <SelectItem key={account.cid} value={account.cid}>{account.accountName || account.cid}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!cid ? (
+          <div className="text-sm text-gray-500">No accounts found</div>
+        ) : isLoading || !data || !triggers ? (
+          <div className="text-sm text-gray-500">Loading URL rules...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {data.isDefault && (
+                <div className="text-xs text-gray-500">This account uses the default rules until you save its own.</div>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-28">Match</TableHead>
+                    <TableHead>Pattern</TableHead>
+                    <TableHead className="w-48">Category</TableHead>
+                    <TableHead className="w-24">Weight</TableHead>
+                    <TableHead className="w-12"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Select value={row.match} onValueChange={(value) => updateRow(index, { match: value as RuleRow['match'] })}>
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="prefix">Path prefix</SelectItem>
+                            <SelectItem value="regex">Regex</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.pattern}
+                          placeholder={row.match === 'prefix' ? '/listings/' : 'home-?value'}
+                          onChange={(e) => updateRow(index, { pattern: e.target.value })}
+                          className="h-8 text-xs font-mono"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.category}
+                          list="url-rule-categories"
+                          onChange={(e) => updateRow(index, { category: e.target.value })}
+                          className="h-8 text-xs"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={10}
+                          step={0.5}
+                          placeholder="1"
+                          value={row.weight}
+                          onChange={(e) => updateRow(index, { weight: e.target.value })}
+                          className="h-8 w-20 text-xs"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => setRows(rows.filter((_, i) => i !== index))}>
+                          <Trash2 className="h-4 w-4 text-gray-500" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <datalist id="url-rule-categories">
+                {data.categories.map(category => <option key={category} value={category} />)}
+              </datalist>
+              <div className="flex items-center justify-between">
+                <Button variant="outline" size="sm" onClick={() => setRows([...rows, { match: 'prefix', pattern: '', category: '', weight: '' }])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Rule
+                </Button>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" disabled={saveRulesMutation.isPending} onClick={() => saveRulesMutation.mutate(null)}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Use Defaults
+                  </Button>
+                  <Button size="sm" disabled={saveRulesMutation.isPending} onClick={saveRules}>
+                    <Save className="h-4 w-4 mr-1" />
+                    Save Rules
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Input
+                value={testUrl}
+                placeholder="https://example.com/listings/123-main-st"
+                onChange={(e) => setTestUrl(e.target.value)}
+                className="text-sm"
+              />
+              <Button variant="outline" size="sm" disabled={!testUrl.trim() || testMutation.isPending} onClick={() => testMutation.mutate()}>
+                <FlaskConical className="h-4 w-4 mr-1" />
+                Test URL
+              </Button>
+              {testResult && (
+                testResult.category
+                  ? <Badge className="bg-blue-100 text-blue-800">{testResult.category}</Badge>
+                  : <Badge variant="outline">No match</Badge>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Outreach triggers</div>
+              <div className="text-xs text-gray-500">
+                Contacts are only synced once they reach the minimum intent score and have visited one of the listed categories. Leave blank for no condition.
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-32">Channel</TableHead>
+                    <TableHead className="w-40">Min intent score</TableHead>
+                    <TableHead>Visited categories</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {CHANNELS.map(({ channel, label }) => (
+                    <TableRow key={channel}>
+                      <TableCell className="text-sm">{label}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={triggers[channel].minIntentScore}
+                          onChange={(e) => setTriggers({ ...triggers, [channel]: { ...triggers[channel], minIntentScore: e.target.value } })}
+                          className="h-8 w-24 text-xs"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={triggers[channel].categories}
+                          placeholder="home_valuation, contact"
+                          onChange={(e) => setTriggers({ ...triggers, [channel]: { ...triggers[channel], categories: e.target.value } })}
+                          className="h-8 text-xs"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex justify-end">
+                <Button size="sm" disabled={saveTriggersMutation.isPending} onClick={saveTriggers}>
+                  <Save className="h-4 w-4 mr-1" />
+                  Save Triggers
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+import type { RealEstateEnrichmentData } from '@shared/schema';
+
+// Fixture data for the mock enrichment provider. Identities are assembled from these lists by
+// slicing the MD5, so the same hash always resolves to the same fake person.
+
+// Hashes with a fixed answer - null means the provider reports no match
+export const MOCK_IDENTITY_OVERRIDES: Record<string, RealEstateEnrichmentData | null> = {
+  '00000000000000000000000000000000': null,
+  'ffffffffffffffffffffffffffffffff': {
+    firstName: 'Taylor',
+    lastName: 'Example',
+    address: '100 Main St',
+    city: 'Austin',
+    state: 'TX',
+    zip: '78701',
+    email: 'taylor.example@example.com',
+    bestEmail: 'taylor.example@example.com',
+    bestEmailQuality: 0,
+    householdIncome: '$150K to $174K',
+    homeOwnership: 'Homeowner',
+    homeValue: 525000,
+    homePrice: 410000,
+    mortgageAmount: 328000,
+    mortgageAge: 6,
+    mortgageLoanType: 'Conventional',
+    lengthOfResidence: 6,
+    age: 41,
+    maritalStatus: 'Married',
+    householdPersons: 4,
+    householdChildren: 2,
+  },
+};
+
+// Share of hashes (out of 16, by the first hex digit) the mock reports as unmatched
+export const MOCK_NO_MATCH_PREFIXES = ['0'];
+
+export const MOCK_FIRST_NAMES = ['James', 'Maria', 'Robert', 'Linda', 'Michael', 'Patricia', 'David', 'Jennifer', 'Daniel', 'Susan', 'Chris', 'Angela', 'Kevin', 'Laura', 'Brian', 'Nicole'];
+
+export const MOCK_LAST_NAMES = ['Smith', 'Garcia', 'Johnson', 'Martinez', 'Brown', 'Lopez', 'Davis', 'Wilson', 'Anderson', 'Thomas', 'Moore', 'Jackson', 'Martin', 'Lee', 'Harris', 'Clark'];
+
+export const MOCK_STREETS = ['Oak Ave', 'Maple Dr', 'Cedar Ln', 'Pine St', 'Elm Ct', 'Lakeview Rd', 'Sunset Blvd', 'Highland Way'];
+
+export const MOCK_LOCATIONS = [
+  { city: 'Austin', state: 'TX', zip: '78704' },
+  { city: 'Denver', state: 'CO', zip: '80205' },
+  { city: 'Phoenix', state: 'AZ', zip: '85016' },
+  { city: 'Charlotte', state: 'NC', zip: '28203' },
+  { city: 'Tampa', state: 'FL', zip: '33606' },
+  { city: 'Nashville', state: 'TN', zip: '37206' },
+  { city: 'Boise', state: 'ID', zip: '83702' },
+  { city: 'Columbus', state: 'OH', zip: '43215' },
+];
+
+export const MOCK_INCOME_BANDS = ['$50K to $74K', '$75K to $99K', '$100K to $124K', '$125K to $149K', '$150K to $174K', '$200K to $249K', '$250K+'];
+
+export const MOCK_LOAN_TYPES = ['Conventional', 'FHA', 'VA', 'Jumbo'];
+
+export const MOCK_MARITAL_STATUSES = ['Single', 'Married'];
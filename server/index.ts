@@ -4,7 +4,12 @@ import { setupVite, serveStatic, log } from "./vite";
 import { scheduledSyncService } from "./services/scheduledSyncService";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body so webhook signatures can be verified against the exact bytes sent
+  verify: (req: any, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -78,5 +83,32 @@ app.use((req, res, next) => {
     } catch (error) {
       console.error("Failed to start database monitor:", error);
     }
+
+    // Load Audience Acuity credentials and templates saved from the admin UI
+    try {
+      const { audienceAcuityConfigService } = await import('./services/audienceAcuityConfigService');
+      await audienceAcuityConfigService.load();
+    } catch (error) {
+      console.error("Failed to load Audience Acuity settings:", error);
+    }
+
+    // Parse income labels on records enriched before the numeric range columns existed
+    try {
+      const { householdIncomeService } = await import('./services/householdIncomeService');
+      householdIncomeService.backfill().catch(error => {
+        console.error("Household income backfill failed:", error);
+      });
+    } catch (error) {
+      console.error("Failed to start household income backfill:", error);
+    }
+
+    // Start the enrichment queue worker
+    try {
+      const { enrichmentQueueService } = await import('./services/enrichmentQueueService');
+      enrichmentQueueService.start();
+      log(`Enrichment queue worker started`);
+    } catch (error) {
+      console.error("Failed to start enrichment queue worker:", error);
+    }
   });
 })();
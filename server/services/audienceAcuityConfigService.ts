@@ -0,0 +1,232 @@
+import { storage } from '../storage';
+import { credentialVault } from './credentialVault';
+
+export const AUDIENCE_ACUITY_INTEGRATION = 'audience_acuity';
+export const DEFAULT_AUDIENCE_ACUITY_TEMPLATE_ID = 210723778;
+
+const RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface AudienceAcuityCredentials {
+  clientId: string;
+  clientSecret: string;
+  source: 'database' | 'environment';
+}
+
+// Stored in api_integrations.config for the audience_acuity row
+export interface AudienceAcuityTemplateConfig {
+  defaultTemplateId: number | null; // null = AUDIENCE_ACUITY_TEMPLATE_ID env var or the built-in template
+  accountLevelTemplates: Record<string, number>; // accountLevel -> template ID
+}
+
+export type TemplateSource = 'cid' | 'account_level' | 'default' | 'environment' | 'built_in';
+
+export interface ResolvedTemplate {
+  templateId: number;
+  source: TemplateSource;
+}
+
+const DEFAULT_TEMPLATE_CONFIG: AudienceAcuityTemplateConfig = {
+  defaultTemplateId: null,
+  accountLevelTemplates: {},
+};
+
+function environmentCredentials(): AudienceAcuityCredentials | null {
+  const clientId = process.env.AUDIENCE_ACUITY_KEY_ID;
+  const clientSecret = process.env.AUDIENCE_ACUITY_API_KEY;
+  return clientId && clientSecret ? { clientId, clientSecret, source: 'environment' } : null;
+}
+
+function maskValue(value: string): string {
+  return value.length <= 4 ? '***' : `${value.substring(0, 4)}***`;
+}
+
+/**
+ * Audience Acuity credentials and template selection. Credentials saved from the admin UI are stored
+ * encrypted and take precedence over the AUDIENCE_ACUITY_KEY_ID / AUDIENCE_ACUITY_API_KEY env vars.
+ * Templates resolve per CID, then per account level, then to the integration default.
+ */
+export class AudienceAcuityConfigService {
+  private credentials: AudienceAcuityCredentials | null = environmentCredentials();
+  private templates: AudienceAcuityTemplateConfig = DEFAULT_TEMPLATE_CONFIG;
+  private loadedAt = 0;
+  private loadError: string | null = null;
+  private version = 1; // Bumped whenever the active credentials change, so cached auth tokens are dropped
+
+  /**
+   * Reads the integration row. Falls back to env credentials when nothing is stored or the stored
+   * credentials cannot be decrypted.
+   */
+  async load(): Promise<void> {
+    let credentials = environmentCredentials();
+    let templates = DEFAULT_TEMPLATE_CONFIG;
+
+    try {
+      const integration = await storage.getApiIntegration(AUDIENCE_ACUITY_INTEGRATION);
+      templates = { ...DEFAULT_TEMPLATE_CONFIG, ...((integration?.config as Partial<AudienceAcuityTemplateConfig>) || {}) };
+      this.loadError = null;
+
+      if (integration?.encryptedCredentials) {
+        const stored = credentialVault.decrypt(integration.encryptedCredentials);
+        if (stored.clientId && stored.clientSecret) {
+          credentials = { clientId: stored.clientId, clientSecret: stored.clientSecret, source: 'database' };
+        }
+      }
+    } catch (error: any) {
+      this.loadError = error.message;
+      console.error(`[${new Date().toISOString()}] Failed to load Audience Acuity integration settings:`, error.message);
+    }
+
+    const firstLoad = this.loadedAt === 0;
+    const changed = this.setCredentials(credentials);
+    this.templates = templates;
+    this.loadedAt = Date.now();
+
+    if (!changed && !firstLoad) {
+      return;
+    }
+    if (!this.credentials) {
+      console.error('Missing Audience Acuity credentials: save them in Admin > Integrations or set AUDIENCE_ACUITY_KEY_ID and AUDIENCE_ACUITY_API_KEY');
+    } else {
+      console.log(`[${new Date().toISOString()}] Audience Acuity configured with Client ID: ${maskValue(this.credentials.clientId)} (${this.credentials.source})`);
+    }
+  }
+
+  getCredentialsVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Last loaded credentials, for synchronous checks such as provider selection
+   */
+  getCachedCredentials(): AudienceAcuityCredentials | null {
+    return this.credentials;
+  }
+
+  async getCredentials(): Promise<AudienceAcuityCredentials | null> {
+    await this.ensureLoaded();
+    return this.credentials;
+  }
+
+  async getTemplateConfig(): Promise<AudienceAcuityTemplateConfig> {
+    await this.ensureLoaded();
+    return this.templates;
+  }
+
+  /**
+   * Template for a CID: the CID override, then its account level, then the integration default
+   */
+  async resolveTemplate(cid?: string | null): Promise<ResolvedTemplate> {
+    await this.ensureLoaded();
+
+    const account = cid && cid !== 'default' ? await storage.getCidAccount(cid) : undefined;
+    const cidTemplate = account?.settings?.audienceAcuity?.templateId;
+    if (typeof cidTemplate === 'number') {
+      return { templateId: cidTemplate, source: 'cid' };
+    }
+
+    const levelTemplate = account?.accountLevel ? this.templates.accountLevelTemplates[account.accountLevel] : undefined;
+    if (typeof levelTemplate === 'number') {
+      return { templateId: levelTemplate, source: 'account_level' };
+    }
+
+    if (typeof this.templates.defaultTemplateId === 'number') {
+      return { templateId: this.templates.defaultTemplateId, source: 'default' };
+    }
+
+    const envTemplate = parseInt(process.env.AUDIENCE_ACUITY_TEMPLATE_ID || '');
+    if (!isNaN(envTemplate)) {
+      return { templateId: envTemplate, source: 'environment' };
+    }
+
+    return { templateId: DEFAULT_AUDIENCE_ACUITY_TEMPLATE_ID, source: 'built_in' };
+  }
+
+  async getTemplateId(cid?: string | null): Promise<number> {
+    return (await this.resolveTemplate(cid)).templateId;
+  }
+
+  async saveCredentials(clientId: string, clientSecret: string, updatedBy: string): Promise<void> {
+    await storage.upsertApiIntegration(AUDIENCE_ACUITY_INTEGRATION, {
+      encryptedCredentials: credentialVault.encrypt({ clientId, clientSecret }),
+      credentialsUpdatedAt: new Date(),
+      credentialsUpdatedBy: updatedBy,
+    });
+    await this.load();
+  }
+
+  /**
+   * Remove stored credentials - lookups fall back to the env vars, if set
+   */
+  async clearCredentials(updatedBy: string): Promise<void> {
+    await storage.upsertApiIntegration(AUDIENCE_ACUITY_INTEGRATION, {
+      encryptedCredentials: null,
+      credentialsUpdatedAt: new Date(),
+      credentialsUpdatedBy: updatedBy,
+    });
+    await this.load();
+  }
+
+  async updateTemplates(updates: Partial<AudienceAcuityTemplateConfig>): Promise<AudienceAcuityTemplateConfig> {
+    const templates = { ...(await this.getTemplateConfig()), ...updates };
+    await storage.upsertApiIntegration(AUDIENCE_ACUITY_INTEGRATION, { config: templates });
+    await this.load();
+    return this.templates;
+  }
+
+  /**
+   * Set or clear (null) a CID's template override, stored in cidAccounts.settings.audienceAcuity
+   */
+  async setCidTemplate(cid: string, templateId: number | null): Promise<any | undefined> {
+    const account = await storage.getCidAccount(cid);
+    if (!account) return undefined;
+
+    return await storage.updateCidAccountSettings(cid, {
+      audienceAcuity: { ...(account.settings?.audienceAcuity || {}), templateId },
+    });
+  }
+
+  /**
+   * Settings for the admin UI - secrets are never returned, only where they come from
+   */
+  async getSummary() {
+    await this.load();
+    const integration = await storage.getApiIntegration(AUDIENCE_ACUITY_INTEGRATION);
+    const resolved = await this.resolveTemplate();
+
+    return {
+      credentials: {
+        configured: !!this.credentials,
+        source: this.credentials?.source || null,
+        clientIdPreview: this.credentials ? maskValue(this.credentials.clientId) : null,
+        storedInDatabase: !!integration?.encryptedCredentials,
+        environmentAvailable: !!environmentCredentials(),
+        encryptionConfigured: credentialVault.isConfigured(),
+        updatedAt: integration?.credentialsUpdatedAt || null,
+        updatedBy: integration?.credentialsUpdatedBy || null,
+        loadError: this.loadError,
+      },
+      templates: this.templates,
+      effectiveDefaultTemplate: resolved,
+    };
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt > RELOAD_INTERVAL_MS) {
+      await this.load();
+    }
+  }
+
+  private setCredentials(credentials: AudienceAcuityCredentials | null): boolean {
+    const current = this.credentials;
+    const changed = current?.clientId !== credentials?.clientId
+      || current?.clientSecret !== credentials?.clientSecret
+      || current?.source !== credentials?.source;
+    this.credentials = credentials;
+    if (changed) {
+      this.version++;
+    }
+    return changed;
+  }
+}
+
+export const audienceAcuityConfigService = new AudienceAcuityConfigService();
@@ -1,197 +1,283 @@
-// Audience Acuity OAuth 2.0 configuration
-const AA_CLIENT_ID = process.env.AUDIENCE_ACUITY_KEY_ID;
-const AA_CLIENT_SECRET = process.env.AUDIENCE_ACUITY_API_KEY;
-const AA_ORIGIN = process.env.AA_ORIGIN || 'https://api.audienceacuity.com';
-const TEMPLATE_ID = 210723778;
-
-if (!AA_CLIENT_ID || !AA_CLIENT_SECRET) {
-  console.error('Missing Audience Acuity credentials: AUDIENCE_ACUITY_KEY_ID and AUDIENCE_ACUITY_API_KEY required');
-} else {
-  console.log(`[${new Date().toISOString()}] Audience Acuity configured with Client ID: ${AA_CLIENT_ID.substring(0, 4)}***`);
-}
-
-// Token cache to avoid unnecessary OAuth requests
-let tokenCache: {
-  access_token: string;
-  expires_at: number;
-} | null = null;
-
-// Track authentication method being used
-let authMethod: 'oauth' | 'bearer' | null = null;
+import type { RealEstateEnrichmentData } from '@shared/schema';
+import { audienceAcuityConfigService, type AudienceAcuityCredentials } from './audienceAcuityConfigService';
+import { audienceAcuityCircuitBreaker, CircuitOpenError } from './circuitBreaker';
 
-/**
- * Manually set OAuth token (for cases where OAuth works externally but not from this environment)
- */
-export function setManualOAuthToken(accessToken: string, expiresIn: number = 3600): void {
-  tokenCache = {
-    access_token: accessToken,
-    expires_at: Date.now() + (expiresIn * 1000)
-  };
-  authMethod = 'oauth';
-  console.log(`[${new Date().toISOString()}] Manual OAuth token set (expires in ${Math.round(expiresIn / 60)} minutes)`);
-}
+const AA_ORIGIN = process.env.AA_ORIGIN || 'https://api.audienceacuity.com';
 
-/**
- * Clear authentication cache and reset method
- */
-export function clearAuthCache(): void {
-  tokenCache = null;
-  authMethod = null;
-  console.log(`[${new Date().toISOString()}] Authentication cache cleared`);
+export interface AudienceAcuityTokenStatus {
+  authMethod: 'oauth' | 'bearer' | null;
+  hasToken: boolean;
+  manual: boolean; // Token pasted in by an admin rather than fetched
+  expiresAt: string | null;
+  expiresInMinutes: number | null;
+  lastRefreshAttemptAt: string | null;
+  lastRefreshAt: string | null;
+  lastRefreshError: string | null;
+  consecutiveFailures: number;
+  credentialSource: AudienceAcuityCredentials['source'] | null;
 }
 
 /**
- * Force OAuth token refresh - for manual sync button and scheduled sync
+ * OAuth token cache and auth method for Audience Acuity. State is dropped whenever the active
+ * credentials change, so a token fetched with old credentials is never reused.
  */
-export async function ensureValidOAuthToken(): Promise<boolean> {
-  console.log(`[${new Date().toISOString()}] Ensuring valid OAuth token for sync operation...`);
-  
-  // Check if current token is still valid (with 10 min buffer for sync operations)
-  if (authMethod === 'oauth' && tokenCache && tokenCache.expires_at > Date.now() + 600000) {
-    console.log(`[${new Date().toISOString()}] Current OAuth token is valid (expires in ${Math.round((tokenCache.expires_at - Date.now()) / 1000 / 60)} minutes)`);
-    return true;
+export class AudienceAcuityTokenManager {
+  private token: { accessToken: string; expiresAt: number; manual: boolean } | null = null;
+  private authMethod: 'oauth' | 'bearer' | null = null;
+  private credentialsVersion = 0;
+  private lastRefreshAttemptAt: Date | null = null;
+  private lastRefreshAt: Date | null = null;
+  private lastRefreshError: string | null = null;
+  private consecutiveFailures = 0;
+
+  getAuthMethod(): 'oauth' | 'bearer' | null {
+    return this.authMethod;
   }
-  
-  // Force refresh OAuth token
-  const refreshed = await refreshOAuthToken(5); // More retries for sync operations
-  if (refreshed) {
-    console.log(`[${new Date().toISOString()}] OAuth token ready for sync operations`);
-    return true;
+
+  /**
+   * Manually set OAuth token (for cases where OAuth works externally but not from this environment)
+   */
+  setManualToken(accessToken: string, expiresIn: number = 3600): void {
+    this.credentialsVersion = audienceAcuityConfigService.getCredentialsVersion();
+    this.token = {
+      accessToken,
+      expiresAt: Date.now() + (expiresIn * 1000),
+      manual: true,
+    };
+    this.authMethod = 'oauth';
+    console.log(`[${new Date().toISOString()}] Manual OAuth token set (expires in ${Math.round(expiresIn / 60)} minutes)`);
   }
-  
-  console.log(`[${new Date().toISOString()}] OAuth token refresh failed - sync will use fallback authentication`);
-  return false;
-}
 
-/**
- * Generate custom Bearer token (fallback method)
- * Uses dynamic timestamp and MD5 hash for security
- */
-async function generateCustomBearerToken(debug = false): Promise<string> {
-  const now = Date.now().toString(36);
-  const crypto = await import('crypto');
-  const stringToHash = `${now}${AA_CLIENT_SECRET}`;
-  const hash = crypto.createHash('md5').update(stringToHash).digest('hex');
-  const authHeader = `Bearer ${AA_CLIENT_ID}${now}${hash}`;
-  
-  if (debug) {
-    // Custom Bearer token authentication debug info logged internally
+  /**
+   * Clear authentication cache and reset method
+   */
+  clear(): void {
+    this.token = null;
+    this.authMethod = null;
+    console.log(`[${new Date().toISOString()}] Authentication cache cleared`);
   }
-  
-  return authHeader;
-}
 
-/**
- * Automated OAuth token refresh - tries to get fresh token with retries
- */
-async function refreshOAuthToken(retries = 3): Promise<boolean> {
-  if (!AA_CLIENT_ID || !AA_CLIENT_SECRET) {
-    console.log(`[${new Date().toISOString()}] Missing OAuth credentials - cannot refresh token`);
+  /**
+   * Force OAuth token refresh - for manual sync button and scheduled sync
+   */
+  async ensureValid(): Promise<boolean> {
+    console.log(`[${new Date().toISOString()}] Ensuring valid OAuth token for sync operation...`);
+    await this.getCredentials();
+
+    // Check if current token is still valid (with 10 min buffer for sync operations)
+    if (this.authMethod === 'oauth' && this.token && this.token.expiresAt > Date.now() + 600000) {
+      console.log(`[${new Date().toISOString()}] Current OAuth token is valid (expires in ${Math.round((this.token.expiresAt - Date.now()) / 1000 / 60)} minutes)`);
+      return true;
+    }
+
+    // Force refresh OAuth token
+    const refreshed = await this.refresh(5); // More retries for sync operations
+    if (refreshed) {
+      console.log(`[${new Date().toISOString()}] OAuth token ready for sync operations`);
+      return true;
+    }
+
+    console.log(`[${new Date().toISOString()}] OAuth token refresh failed - sync will use fallback authentication`);
     return false;
   }
 
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      console.log(`[${new Date().toISOString()}] OAuth token refresh attempt ${attempt}/${retries}...`);
-      
-      const oauthUrl = `${AA_ORIGIN}/v2/oauth?client_id=${AA_CLIENT_SECRET}&client_secret=${AA_CLIENT_ID}`;
-      
-      const response = await fetch(oauthUrl, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json'
-        },
-        signal: AbortSignal.timeout(15000) // 15 second timeout
-      });
+  /**
+   * Automated OAuth token refresh - tries to get fresh token with retries
+   */
+  async refresh(retries = 3): Promise<boolean> {
+    const credentials = await this.getCredentials();
+    this.lastRefreshAttemptAt = new Date();
+
+    if (!credentials) {
+      console.log(`[${new Date().toISOString()}] Missing OAuth credentials - cannot refresh token`);
+      this.recordFailure('Missing OAuth credentials');
+      return false;
+    }
 
-      if (response.ok) {
-        const tokenData = await response.json();
-        
-        if (tokenData.access_token) {
-          const expiresIn = tokenData.expires_in || 3600;
-          tokenCache = {
-            access_token: tokenData.access_token,
-            expires_at: Date.now() + (expiresIn * 1000)
-          };
-          authMethod = 'oauth';
-          
-          console.log(`[${new Date().toISOString()}] ✅ OAuth token refreshed successfully (expires in ${Math.round(expiresIn / 60)} minutes)`);
-          return true;
+    let lastError = 'Unknown error';
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      try {
+        console.log(`[${new Date().toISOString()}] OAuth token refresh attempt ${attempt}/${retries}...`);
+
+        const oauthUrl = `${AA_ORIGIN}/v2/oauth?client_id=${credentials.clientSecret}&client_secret=${credentials.clientId}`;
+
+        const response = await fetch(oauthUrl, {
+          method: 'GET',
+          headers: {
+            'Accept': 'application/json'
+          },
+          signal: AbortSignal.timeout(15000) // 15 second timeout
+        });
+
+        if (response.ok) {
+          const tokenData = await response.json();
+
+          if (tokenData.access_token) {
+            const expiresIn = tokenData.expires_in || 3600;
+            this.token = {
+              accessToken: tokenData.access_token,
+              expiresAt: Date.now() + (expiresIn * 1000),
+              manual: false,
+            };
+            this.authMethod = 'oauth';
+            this.lastRefreshAt = new Date();
+            this.lastRefreshError = null;
+            this.consecutiveFailures = 0;
+
+            console.log(`[${new Date().toISOString()}] ✅ OAuth token refreshed successfully (expires in ${Math.round(expiresIn / 60)} minutes)`);
+            return true;
+          }
+          lastError = 'OAuth response did not include an access token';
+        } else {
+          const errorText = await response.text();
+          lastError = `HTTP ${response.status}: ${errorText}`;
+          console.log(`[${new Date().toISOString()}] OAuth refresh failed: ${response.status} - ${errorText}`);
+        }
+      } catch (error: any) {
+        lastError = error.message;
+        console.log(`[${new Date().toISOString()}] OAuth refresh attempt ${attempt} failed: ${error.message}`);
+
+        // Wait before retry (except on last attempt)
+        if (attempt < retries) {
+          await new Promise(resolve => setTimeout(resolve, 2000));
         }
-      } else {
-        const errorText = await response.text();
-        console.log(`[${new Date().toISOString()}] OAuth refresh failed: ${response.status} - ${errorText}`);
-      }
-    } catch (error: any) {
-      console.log(`[${new Date().toISOString()}] OAuth refresh attempt ${attempt} failed: ${error.message}`);
-      
-      // Wait before retry (except on last attempt)
-      if (attempt < retries) {
-        await new Promise(resolve => setTimeout(resolve, 2000));
       }
     }
+
+    console.log(`[${new Date().toISOString()}] ❌ OAuth token refresh failed after ${retries} attempts`);
+    this.recordFailure(lastError);
+    return false;
   }
-  
-  console.log(`[${new Date().toISOString()}] ❌ OAuth token refresh failed after ${retries} attempts`);
-  return false;
-}
 
-/**
- * Get authentication header with automated OAuth token refresh
- * Caches successful method and tokens to avoid unnecessary requests
- */
-async function getAuthHeader(debug = false): Promise<string> {
-  // Check if we have a valid cached OAuth token (with 5 min buffer)
-  if (authMethod === 'oauth' && tokenCache && tokenCache.expires_at > Date.now() + 300000) {
-    if (debug) {
-      console.log(`[${new Date().toISOString()}] Using cached OAuth token (expires in ${Math.round((tokenCache.expires_at - Date.now()) / 1000 / 60)} minutes)`);
+  /**
+   * Get authentication header with automated OAuth token refresh
+   * Caches successful method and tokens to avoid unnecessary requests
+   */
+  async getAuthHeader(debug = false): Promise<string> {
+    const credentials = await this.getCredentials();
+    if (!credentials) {
+      throw new Error('Missing Audience Acuity credentials');
     }
-    return `Bearer ${tokenCache.access_token}`;
-  }
-  
-  // If we have an expired or soon-to-expire OAuth token, try to refresh it
-  if (authMethod !== 'bearer' && (!tokenCache || tokenCache.expires_at <= Date.now() + 300000)) {
-    const refreshed = await refreshOAuthToken();
-    if (refreshed && tokenCache) {
+
+    // Check if we have a valid cached OAuth token (with 5 min buffer)
+    if (this.authMethod === 'oauth' && this.token && this.token.expiresAt > Date.now() + 300000) {
       if (debug) {
-        console.log(`[${new Date().toISOString()}] Using refreshed OAuth token`);
+        console.log(`[${new Date().toISOString()}] Using cached OAuth token (expires in ${Math.round((this.token.expiresAt - Date.now()) / 1000 / 60)} minutes)`);
+      }
+      return `Bearer ${this.token.accessToken}`;
+    }
+
+    // If we have an expired or soon-to-expire OAuth token, try to refresh it
+    if (this.authMethod !== 'bearer' && (!this.token || this.token.expiresAt <= Date.now() + 300000)) {
+      const refreshed = await this.refresh();
+      if (refreshed && this.token) {
+        if (debug) {
+          console.log(`[${new Date().toISOString()}] Using refreshed OAuth token`);
+        }
+        return `Bearer ${this.token.accessToken}`;
       }
-      return `Bearer ${tokenCache.access_token}`;
     }
+
+    // If we've determined that OAuth doesn't work, use custom Bearer token
+    if (this.authMethod === 'bearer') {
+      return await generateCustomBearerToken(credentials);
+    }
+
+    // Last resort: fall back to custom Bearer token method
+    console.log(`[${new Date().toISOString()}] OAuth unavailable, falling back to custom Bearer token`);
+    this.authMethod = 'bearer';
+    return await generateCustomBearerToken(credentials);
   }
-  
-  // If we've determined that OAuth doesn't work, use custom Bearer token
-  if (authMethod === 'bearer') {
-    return await generateCustomBearerToken(debug);
+
+  getStatus(): AudienceAcuityTokenStatus {
+    const expiresAt = this.token?.expiresAt ?? null;
+    return {
+      authMethod: this.authMethod,
+      hasToken: !!this.token,
+      manual: this.token?.manual ?? false,
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      expiresInMinutes: expiresAt ? Math.round((expiresAt - Date.now()) / 1000 / 60) : null,
+      lastRefreshAttemptAt: this.lastRefreshAttemptAt?.toISOString() || null,
+      lastRefreshAt: this.lastRefreshAt?.toISOString() || null,
+      lastRefreshError: this.lastRefreshError,
+      consecutiveFailures: this.consecutiveFailures,
+      credentialSource: audienceAcuityConfigService.getCachedCredentials()?.source || null,
+    };
   }
 
-  // Last resort: fall back to custom Bearer token method
-  console.log(`[${new Date().toISOString()}] OAuth unavailable, falling back to custom Bearer token`);
-  authMethod = 'bearer';
-  return await generateCustomBearerToken(debug);
+  private async getCredentials(): Promise<AudienceAcuityCredentials | null> {
+    const credentials = await audienceAcuityConfigService.getCredentials();
+    const version = audienceAcuityConfigService.getCredentialsVersion();
+    if (version !== this.credentialsVersion) {
+      // Credentials changed since the token was issued
+      this.token = null;
+      this.authMethod = null;
+      this.consecutiveFailures = 0;
+      this.lastRefreshError = null;
+      this.credentialsVersion = version;
+    }
+    return credentials;
+  }
+
+  private recordFailure(error: string): void {
+    this.lastRefreshError = error;
+    this.consecutiveFailures++;
+  }
+}
+
+export const audienceAcuityTokenManager = new AudienceAcuityTokenManager();
+
+export function setManualOAuthToken(accessToken: string, expiresIn: number = 3600): void {
+  audienceAcuityTokenManager.setManualToken(accessToken, expiresIn);
+}
+
+export function clearAuthCache(): void {
+  audienceAcuityTokenManager.clear();
+}
+
+export async function ensureValidOAuthToken(): Promise<boolean> {
+  return await audienceAcuityTokenManager.ensureValid();
+}
+
+/**
+ * Generate custom Bearer token (fallback method)
+ * Uses dynamic timestamp and MD5 hash for security
+ */
+async function generateCustomBearerToken(credentials: AudienceAcuityCredentials): Promise<string> {
+  const now = Date.now().toString(36);
+  const crypto = await import('crypto');
+  const stringToHash = `${now}${credentials.clientSecret}`;
+  const hash = crypto.createHash('md5').update(stringToHash).digest('hex');
+  return `Bearer ${credentials.clientId}${now}${hash}`;
 }
 
 /**
  * Direct API call to Audience Acuity for hash-based identity lookup using OAuth 2.0
  * @param {string} md5Hash - The MD5 hash to look up
+ * @param {number} templateId - Audience Acuity template that shapes the response
  * @returns {Promise<any>} - API response
  */
-async function callAudienceAcuityAPI(md5Hash: string): Promise<any> {
+async function callAudienceAcuityAPI(md5Hash: string, templateId: number): Promise<any> {
   const endpoints = [
-    `/v2/identities/byMd5?md5=${md5Hash}&template=${TEMPLATE_ID}`,
-    `/v2/identities/byHash?hash=${md5Hash}&template=${TEMPLATE_ID}`,
-    `/v2/identities/byEmail?email=${md5Hash}&template=${TEMPLATE_ID}`,
+    `/v2/identities/byMd5?md5=${md5Hash}&template=${templateId}`,
+    `/v2/identities/byHash?hash=${md5Hash}&template=${templateId}`,
+    `/v2/identities/byEmail?email=${md5Hash}&template=${templateId}`,
   ];
 
   // Get authentication header (OAuth or custom Bearer token)
-  const authHeader = await getAuthHeader(true); // Enable debug for troubleshooting
+  const authHeader = await audienceAcuityTokenManager.getAuthHeader(true); // Enable debug for troubleshooting
+  const authMethod = audienceAcuityTokenManager.getAuthMethod();
+
+  // Refuse straight away while the provider is known to be down
+  audienceAcuityCircuitBreaker.acquire();
 
   for (const endpoint of endpoints) {
+    let response: Response;
     try {
       const url = `${AA_ORIGIN}${endpoint}`;
       console.log(`[${new Date().toISOString()}] Trying Audience Acuity endpoint: ${endpoint} (${authMethod} auth)`);
       
-      const response = await fetch(url, {
+      response = await fetch(url, {
         method: 'GET',
         headers: {
           'Authorization': authHeader,
@@ -200,35 +286,47 @@ async function callAudienceAcuityAPI(md5Hash: string): Promise<any> {
         },
         signal: AbortSignal.timeout(25000) // 25 second timeout
       });
-
-      console.log(`[${new Date().toISOString()}] Audience Acuity response: ${response.status} ${response.statusText}`);
-      
-      if (response.ok) {
-        const data = await response.json();
-        console.log(`[${new Date().toISOString()}] Successfully got data from endpoint: ${endpoint}`);
-        return data;
-      } else if (response.status === 404) {
-        console.log(`[${new Date().toISOString()}] 404 from endpoint: ${endpoint} - trying next endpoint`);
-        continue; // Try next endpoint
-      } else {
-        const errorText = await response.text();
-        console.error(`[${new Date().toISOString()}] API error from ${endpoint}: ${response.status} - ${errorText}`);
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
-      }
     } catch (error: any) {
+      // Timeouts and unreachable hosts affect every endpoint alike, so don't try the rest
       if (error.name === 'TimeoutError') {
         console.error(`[${new Date().toISOString()}] Timeout for endpoint: ${endpoint}`);
+        audienceAcuityCircuitBreaker.recordFailure('timeout', `Timeout for ${endpoint}`);
         throw new Error(`API call timeout for ${endpoint}`);
       }
       console.error(`[${new Date().toISOString()}] Error calling ${endpoint}:`, error.message);
-      
-      // If this is the last endpoint, throw the error
-      if (endpoint === endpoints[endpoints.length - 1]) {
-        throw error;
-      }
+      audienceAcuityCircuitBreaker.recordFailure('network', error.message);
+      throw error;
+    }
+
+    console.log(`[${new Date().toISOString()}] Audience Acuity response: ${response.status} ${response.statusText}`);
+    
+    if (response.ok) {
+      audienceAcuityCircuitBreaker.recordSuccess();
+      const data = await response.json();
+      console.log(`[${new Date().toISOString()}] Successfully got data from endpoint: ${endpoint}`);
+      return data;
+    } else if (response.status === 404) {
+      console.log(`[${new Date().toISOString()}] 404 from endpoint: ${endpoint} - trying next endpoint`);
+      continue; // Try next endpoint
+    }
+
+    const errorText = await response.text();
+    console.error(`[${new Date().toISOString()}] API error from ${endpoint}: ${response.status} - ${errorText}`);
+
+    // Auth and server errors will fail on every endpoint - count them and stop
+    if (response.status === 401 || response.status === 403 || response.status >= 500) {
+      audienceAcuityCircuitBreaker.recordFailure(response.status >= 500 ? 'server_error' : 'auth', `HTTP ${response.status}: ${errorText}`);
+      throw new Error(`HTTP ${response.status}: ${errorText}`);
+    }
+
+    // Any other answer means the provider is up; the next endpoint may accept the request
+    audienceAcuityCircuitBreaker.recordSuccess();
+    if (endpoint === endpoints[endpoints.length - 1]) {
+      throw new Error(`HTTP ${response.status}: ${errorText}`);
     }
   }
   
+  audienceAcuityCircuitBreaker.recordSuccess();
   throw new Error('All Audience Acuity endpoints failed or returned 404');
 }
 
@@ -280,18 +378,20 @@ export interface AudienceAcuityEnrichment {
 /**
  * Enriches a visitor record by MD5 via Audience Acuity.
  * @param {string} md5 - The MD5 hash of the email
+ * @param options - templateId to use, or the CID whose template should be resolved
  * @returns {Promise<AudienceAcuityEnrichment|null>}
  */
-export async function enrichWithAudienceAcuity(md5: string): Promise<AudienceAcuityEnrichment | null> {
+export async function enrichWithAudienceAcuity(md5: string, options: { templateId?: number; cid?: string } = {}): Promise<AudienceAcuityEnrichment | null> {
   try {
     console.log(`[${new Date().toISOString()}] Starting enrichment for MD5: ${md5.substring(0, 8)}...`);
     
-    if (!AA_CLIENT_ID || !AA_CLIENT_SECRET) {
+    if (!(await audienceAcuityConfigService.getCredentials())) {
       throw new Error('Missing Audience Acuity credentials');
     }
     
     // Call the Audience Acuity API directly
-    const response = await callAudienceAcuityAPI(md5);
+    const templateId = options.templateId ?? await audienceAcuityConfigService.getTemplateId(options.cid);
+    const response = await callAudienceAcuityAPI(md5, templateId);
     
     if (response && Array.isArray(response) && response.length > 0) {
       console.log(`[${new Date().toISOString()}] Enrichment successful for MD5: ${md5.substring(0, 8)}... - Found ${response.length} results`);
@@ -333,6 +433,10 @@ export async function enrichWithAudienceAcuity(md5: string): Promise<AudienceAcu
     console.log(`[${new Date().toISOString()}] No enrichment data found for MD5: ${md5.substring(0, 8)}...`);
     return null;
   } catch (err: any) {
+    // Not a lookup result - the caller defers the record until the circuit re-tests
+    if (err instanceof CircuitOpenError) {
+      throw err;
+    }
     if (err.message?.includes('404') || err.message?.includes('All Audience Acuity endpoints failed')) {
       console.log(`[${new Date().toISOString()}] MD5 not found in Audience Acuity: ${md5.substring(0, 8)}...`);
       return null;
@@ -347,48 +451,61 @@ export async function enrichWithAudienceAcuity(md5: string): Promise<AudienceAcu
   }
 }
 
-/**
- * Maps Audience Acuity enrichment data to database fields
- * @param {AudienceAcuityEnrichment} enrichment 
- * @returns {Object} Database update fields
- */
-/**
- * Convert income text ranges to numeric values for database storage
- */
-function parseIncomeRange(income: string): number | null {
-  if (!income || typeof income !== 'string') return null;
-  
-  // Extract numbers from ranges like "$200K to $249K"
-  const match = income.match(/\$?(\d+)K?\s*to\s*\$?(\d+)K?/i);
-  if (match) {
-    const low = parseInt(match[1]) * (match[1].includes('K') ? 1000 : 1);
-    const high = parseInt(match[2]) * (match[2].includes('K') ? 1000 : 1);
-    return Math.round((low + high) / 2); // Return midpoint
-  }
-  
-  // Handle single values like "$100K" or "100000"
-  const singleMatch = income.match(/\$?(\d+)K?/i);
-  if (singleMatch) {
-    return parseInt(singleMatch[1]) * (income.includes('K') ? 1000 : 1);
-  }
-  
-  return null;
-}
-
 function safeTime(dateStr?: string | null): number {
   const t = dateStr ? Date.parse(dateStr) : NaN;
   return Number.isFinite(t) ? t : -Infinity;
 }
 
+// Ranking fields shared by provider emails and stored email candidates
+export interface RankableEmail {
+  qualityLevel?: number | null;
+  rankOrder?: number | null;
+  updateDate?: string | null;
+  registerDate?: string | null;
+  optIn?: boolean | null;
+}
+
 /**
- * Select the best email from Audience Acuity's emails list.
- * Priority:
+ * Sort comparator for email candidates, best first:
  * 1) lowest qualityLevel (0-4 scale, 0 = best, 4 = worst)
  * 2) lowest rankOrder (1 better than 2)
  * 3) most recent updateDate
  * 4) earliest registerDate (stable tie-breaker)
  * 5) optIn = true preferred
  */
+export function compareEmailCandidates(a: RankableEmail, b: RankableEmail): number {
+  const worstQuality = Number.POSITIVE_INFINITY; // sentinel beyond 4
+  const worstRank = Number.POSITIVE_INFINITY;
+
+  // 1) Quality Level (lower = better; 0–4 scale)
+  const qa = a.qualityLevel ?? worstQuality;
+  const qb = b.qualityLevel ?? worstQuality;
+  if (qa !== qb) return qa - qb;
+
+  // 2) Rank Order (lower = better)
+  const ra = a.rankOrder ?? worstRank;
+  const rb = b.rankOrder ?? worstRank;
+  if (ra !== rb) return ra - rb;
+
+  // 3) Update Date (newer = better)
+  const ua = safeTime(a.updateDate);
+  const ub = safeTime(b.updateDate);
+  if (ua !== ub) return ub - ua;
+
+  // 4) Registration Date (earlier = better)
+  const rga = safeTime(a.registerDate);
+  const rgb = safeTime(b.registerDate);
+  if (rga !== rgb) return rga - rgb;
+
+  // 5) Opt-in (true preferred)
+  const oa = a.optIn ? 1 : 0;
+  const ob = b.optIn ? 1 : 0;
+  return ob - oa;
+}
+
+/**
+ * Select the best email from Audience Acuity's emails list, ranked by compareEmailCandidates
+ */
 export function selectBestEmail(emails: AudienceAcuityEmail[] | undefined | null): {
   email: string | null;
   quality: number | null;
@@ -396,35 +513,7 @@ export function selectBestEmail(emails: AudienceAcuityEmail[] | undefined | null
 } | null {
   if (!emails || emails.length === 0) return null;
 
-  const worstQuality = Number.POSITIVE_INFINITY; // sentinel beyond 4
-  const worstRank = Number.POSITIVE_INFINITY;
-
-  const sorted = emails.slice().sort((a, b) => {
-    // 1) Quality Level (lower = better; 0–4 scale)
-    const qa = a.qualityLevel ?? worstQuality;
-    const qb = b.qualityLevel ?? worstQuality;
-    if (qa !== qb) return qa - qb;
-
-    // 2) Rank Order (lower = better)
-    const ra = a.rankOrder ?? worstRank;
-    const rb = b.rankOrder ?? worstRank;
-    if (ra !== rb) return ra - rb;
-
-    // 3) Update Date (newer = better)
-    const ua = safeTime(a.updateDate);
-    const ub = safeTime(b.updateDate);
-    if (ua !== ub) return ub - ua;
-
-    // 4) Registration Date (earlier = better)
-    const rga = safeTime(a.registerDate);
-    const rgb = safeTime(b.registerDate);
-    if (rga !== rgb) return rga - rgb;
-
-    // 5) Opt-in (true preferred)
-    const oa = a.optIn ? 1 : 0;
-    const ob = b.optIn ? 1 : 0;
-    return ob - oa;
-  });
+  const sorted = emails.slice().sort(compareEmailCandidates);
 
   const top = sorted[0];
   return {
@@ -466,65 +555,90 @@ function findMatchingEmail(emails: AudienceAcuityEmail[], originalMd5: string):
   return emails[0]?.email || null;
 }
 
-export function mapEnrichmentToDbFields(enrichment: AudienceAcuityEnrichment, originalMd5?: string) {
-  // Existing "primary email" logic stays as-is:
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+// Bump whenever normalizeAudienceAcuityEnrichment changes so archived payloads can be re-mapped
+export const AUDIENCE_ACUITY_MAPPER_VERSION = 3;
+
+/**
+ * Normalizes an Audience Acuity identity into the provider-neutral enrichment shape
+ */
+export function normalizeAudienceAcuityEnrichment(enrichment: AudienceAcuityEnrichment, originalMd5?: string): RealEstateEnrichmentData {
+  // Primary email is the one matching the hash we looked up
   const primaryEmail =
     originalMd5 && enrichment.emails
       ? findMatchingEmail(enrichment.emails, originalMd5)
       : (enrichment.emails && enrichment.emails[0] ? enrichment.emails[0].email : null);
 
-  // NEW: compute best email
   const best = selectBestEmail(enrichment.emails);
 
   return {
-    firstName: enrichment.firstName || null,
-    lastName: enrichment.lastName || null,
-    address: enrichment.address || null,
-    city: enrichment.city || null,
-    state: enrichment.state || null,
-    zip: enrichment.zip || null,
-    gender: enrichment.gender || null,
-    birthDate: enrichment.birthDate || null,
-    
-    email: primaryEmail || null,
-    
-    // 👇 NEW fields
-    bestEmail: best?.email ?? null,
-    bestEmailQuality: typeof best?.quality === "number" ? best.quality : null,
-    householdIncome: enrichment.data?.householdIncome || null,
-    homeOwnership: enrichment.data?.homeOwnership || null,
-    lengthOfResidence: enrichment.data?.lengthOfResidence || null,
-    age: enrichment.data?.age || null,
-    maritalStatus: enrichment.data?.maritalStatus || null,
-    householdPersons: enrichment.data?.householdPersons || null,
-    householdChildren: enrichment.data?.householdChildren || null,
-    mortgageLoanType: enrichment.data?.mortgageLoanType || null,
-    mortgageAmount: enrichment.data?.mortgageAmount || null,
-    mortgageAge: enrichment.data?.mortgageAge || null,
-    homePrice: enrichment.data?.homePrice || null,
-    homeValue: enrichment.data?.homeValue || null,
-    ips: enrichment.ips ? JSON.stringify(enrichment.ips) : null,
-    enrichmentStatus: "completed" as const,
-    updatedAt: new Date(),
+    hashedEmail: originalMd5,
+    firstName: enrichment.firstName || undefined,
+    lastName: enrichment.lastName || undefined,
+    address: enrichment.address || undefined,
+    city: enrichment.city || undefined,
+    state: enrichment.state || undefined,
+    zip: enrichment.zip || undefined,
+    gender: enrichment.gender || undefined,
+    birthDate: enrichment.birthDate || undefined,
+    email: primaryEmail || undefined,
+    bestEmail: best?.email ?? undefined,
+    bestEmailQuality: typeof best?.quality === "number" ? best.quality : undefined,
+    householdIncome: enrichment.data?.householdIncome || undefined,
+    homeOwnership: enrichment.data?.homeOwnership || undefined,
+    lengthOfResidence: toNumber(enrichment.data?.lengthOfResidence),
+    age: toNumber(enrichment.data?.age),
+    maritalStatus: enrichment.data?.maritalStatus || undefined,
+    householdPersons: toNumber(enrichment.data?.householdPersons),
+    householdChildren: toNumber(enrichment.data?.householdChildren),
+    mortgageLoanType: enrichment.data?.mortgageLoanType || undefined,
+    mortgageAmount: toNumber(enrichment.data?.mortgageAmount),
+    mortgageAge: toNumber(enrichment.data?.mortgageAge),
+    homePrice: toNumber(enrichment.data?.homePrice),
+    homeValue: toNumber(enrichment.data?.homeValue),
+    ips: enrichment.ips || undefined,
+    emailCandidates: (enrichment.emails || []).filter(candidate => candidate.email).map(candidate => ({
+      email: candidate.email,
+      md5: candidate.md5,
+      optIn: candidate.optIn,
+      qualityLevel: candidate.qualityLevel,
+      rankOrder: candidate.rankOrder,
+      registerDate: candidate.registerDate,
+      updateDate: candidate.updateDate,
+    })),
   };
 }
 
+export function hasAudienceAcuityCredentials(): boolean {
+  return !!audienceAcuityConfigService.getCachedCredentials();
+}
+
 /**
  * Test API credentials with OAuth 2.0 authentication
  * Used for troubleshooting OAuth and API connectivity issues
  */
-export async function testApiCredentials(): Promise<{ success: boolean; error?: string; details?: any }> {
+export async function testApiCredentials(options: { templateId?: number; cid?: string } = {}): Promise<{ success: boolean; error?: string; details?: any }> {
   try {
     console.log(`[${new Date().toISOString()}] Testing Audience Acuity OAuth 2.0 credentials...`);
     
-    if (!AA_CLIENT_ID || !AA_CLIENT_SECRET) {
+    const credentials = await audienceAcuityConfigService.getCredentials();
+    if (!credentials) {
       return { success: false, error: 'Missing OAuth credentials' };
     }
+    const templateId = options.templateId ?? await audienceAcuityConfigService.getTemplateId(options.cid);
 
     // Get authentication header (tries OAuth first, falls back to custom Bearer)
     let authHeader: string;
+    let authMethod: 'oauth' | 'bearer' | null;
     try {
-      authHeader = await getAuthHeader(true); // Enable debug
+      authHeader = await audienceAcuityTokenManager.getAuthHeader(true); // Enable debug
+      authMethod = audienceAcuityTokenManager.getAuthMethod();
       console.log(`[${new Date().toISOString()}] Authentication header obtained (method: ${authMethod})`);
     } catch (authError: any) {
       console.error(`[${new Date().toISOString()}] Authentication failed:`, authError.message);
@@ -533,15 +647,16 @@ export async function testApiCredentials(): Promise<{ success: boolean; error?:
         error: `Authentication failed: ${authError.message}`,
         details: {
           step: 'authentication',
-          clientId: AA_CLIENT_ID,
-          secretPreview: AA_CLIENT_SECRET?.substring(0, 8) + '***'
+          clientId: credentials.clientId,
+          credentialSource: credentials.source,
+          secretPreview: credentials.clientSecret.substring(0, 8) + '***'
         }
       };
     }
 
     // Test with a simple known MD5 hash using the preferred /byMd5 endpoint
     const testMd5 = '5d41402abc4b2a76b9719d911017c592'; // MD5 of 'hello'
-    const testEndpoint = `/v2/identities/byMd5?md5=${testMd5}&template=${TEMPLATE_ID}`;
+    const testEndpoint = `/v2/identities/byMd5?md5=${testMd5}&template=${templateId}`;
     const url = `${AA_ORIGIN}${testEndpoint}`;
     
     console.log(`[${new Date().toISOString()}] Testing endpoint: ${testEndpoint}`);
@@ -570,31 +685,34 @@ export async function testApiCredentials(): Promise<{ success: boolean; error?:
         details: {
           status: response.status,
           response: responseText,
-          clientId: AA_CLIENT_ID,
-          secretPreview: AA_CLIENT_SECRET?.substring(0, 8) + '***',
+          clientId: credentials.clientId,
+          credentialSource: credentials.source,
+          secretPreview: credentials.clientSecret.substring(0, 8) + '***',
           authMethod: authMethod
         }
       };
     } else if (response.status === 404) {
       // 404 is actually good - means authentication works but test MD5 not found
+      audienceAcuityCircuitBreaker.recordSuccess(); // A passing test closes an open circuit without waiting for the probe
       return { 
         success: true, 
         details: {
           status: response.status,
           message: `Authentication valid using ${authMethod} method (404 expected for test MD5)`,
           response: responseText,
-          template: TEMPLATE_ID,
+          template: templateId,
           authMethod: authMethod
         }
       };
     } else if (response.ok) {
+      audienceAcuityCircuitBreaker.recordSuccess();
       return { 
         success: true, 
         details: {
           status: response.status,
           message: `Authentication valid using ${authMethod} method and test MD5 found`,
           response: responseText,
-          template: TEMPLATE_ID,
+          template: templateId,
           authMethod: authMethod
         }
       };
@@ -605,7 +723,7 @@ export async function testApiCredentials(): Promise<{ success: boolean; error?:
         details: {
           status: response.status,
           response: responseText,
-          template: TEMPLATE_ID,
+          template: templateId,
           authMethod: authMethod
         }
       };
@@ -0,0 +1,298 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { emailSelectionService } from './emailSelectionService';
+import { homeEquityService } from './homeEquityService';
+import { householdIncomeService } from './householdIncomeService';
+import { leadScoringService } from './leadScoringService';
+import { mailchimpService } from './mailchimpService';
+import { handwryttenService } from './handwryttenService';
+import { segmentService } from './segmentService';
+import type { Campaign, CampaignAudience, CampaignChannelConfig, CampaignRecipient, EmailCapture } from '@shared/schema';
+
+export type CampaignChannel = 'mailchimp' | 'handwrytten';
+
+// campaigns.type -> the service that delivers it
+export const CAMPAIGN_CHANNELS: Record<string, CampaignChannel> = {
+  email: 'mailchimp',
+  handwritten: 'handwrytten',
+};
+
+// Listing query parameters an audience can filter on - all numeric
+export const AUDIENCE_FILTERS = [
+  'minLeadScore', 'minSellerScore', 'minBuyerScore', 'minRefinanceScore', 'minIntentScore',
+  'minEquityPercent', 'maxLoanToValue', 'minEstimatedEquity', 'minIncome', 'maxIncome',
+] as const;
+
+export interface CampaignDefinition {
+  type: string;
+  cid: string | null;
+  audience: unknown;
+  channelConfig: unknown;
+}
+
+export interface AudienceMember {
+  capture: EmailCapture;
+  email: string | null; // Selected address for email campaigns
+}
+
+export interface CampaignRunResult {
+  campaigns: number;
+  sent: number;
+  failed: number;
+}
+
+const SEND_BATCH_SIZE = 100;
+
+const hasAddress = (capture: EmailCapture) =>
+  !!(capture.firstName && capture.lastName && capture.address && capture.city && capture.state && capture.zip);
+
+/**
+ * Runs campaigns against an audience of enriched identities. A campaign is built as a draft, scheduled,
+ * then picked up once its scheduledAt passes: the audience is frozen into campaign_recipients, each
+ * recipient is delivered through Mailchimp or Handwrytten, and the campaign's stats are counted from
+ * the recipient rows.
+ */
+export class CampaignService {
+  private running = new Set<number>();
+
+  getChannel(campaign: Pick<Campaign, 'type'>): CampaignChannel | null {
+    return CAMPAIGN_CHANNELS[campaign.type] || null;
+  }
+
+  getAudience(campaign: Pick<Campaign, 'audience'>): CampaignAudience {
+    const audience = campaign.audience as CampaignAudience | null;
+    return { filters: audience?.filters || {} };
+  }
+
+  getChannelConfig(campaign: Pick<Campaign, 'channelConfig'>): CampaignChannelConfig {
+    return (campaign.channelConfig as CampaignChannelConfig | null) || {};
+  }
+
+  /**
+   * Check a campaign is complete enough to schedule. Returns an error message, or null.
+   */
+  validateDefinition(definition: CampaignDefinition): string | null {
+    const channel = CAMPAIGN_CHANNELS[definition.type];
+    if (!channel) return `type must be one of: ${Object.keys(CAMPAIGN_CHANNELS).join(', ')}`;
+    if (!definition.cid) return 'cid is required';
+
+    if (definition.audience !== undefined && definition.audience !== null) {
+      const filters = (definition.audience as any).filters;
+      if (typeof definition.audience !== 'object' || (filters !== undefined && (typeof filters !== 'object' || filters === null))) {
+        return 'audience must be an object with a filters object';
+      }
+      for (const [key, value] of Object.entries(filters || {})) {
+        if (!(AUDIENCE_FILTERS as readonly string[]).includes(key)) return `Unknown audience filter: ${key}`;
+        if (value === '' || isNaN(Number(value))) return `audience.filters.${key} must be a number`;
+      }
+    }
+
+    const config = (definition.channelConfig || {}) as Record<string, unknown>;
+    if (typeof config !== 'object') return 'channelConfig must be an object';
+    for (const [key, value] of Object.entries(config)) {
+      if (value !== undefined && value !== null && typeof value !== 'string') return `channelConfig.${key} must be a string`;
+    }
+    if (channel === 'mailchimp' && !(typeof config.mailchimpTag === 'string' && config.mailchimpTag.trim())) {
+      return 'channelConfig.mailchimpTag is required for email campaigns';
+    }
+    return null;
+  }
+
+  /**
+   * Check a campaign's segment belongs to its account. Returns an error message, or null.
+   */
+  async validateSegment(segmentId: unknown, cid: string | null): Promise<string | null> {
+    if (segmentId === undefined || segmentId === null) return null;
+    if (!Number.isInteger(segmentId)) return 'segmentId must be a segment ID';
+
+    const segment = await storage.getSegment(segmentId as number);
+    return segment && segment.cid === cid ? null : 'Segment not found for this account';
+  }
+
+  /**
+   * Identities the campaign would reach now: valid, enriched captures in the CID (or its segment)
+   * matching the audience filters and reachable on the campaign's channel.
+   */
+  async resolveAudience(campaign: Pick<Campaign, 'type' | 'cid' | 'segmentId' | 'audience'>): Promise<AudienceMember[]> {
+    if (!campaign.cid) return [];
+
+    const account = await storage.getCidAccount(campaign.cid);
+    if (!account) return [];
+
+    const segment = campaign.segmentId ? await storage.getSegment(campaign.segmentId) : undefined;
+    if (campaign.segmentId && !segment) return [];
+
+    const { filters } = this.getAudience(campaign);
+    const captures = segment ? await segmentService.getCaptures(segment) : await storage.getEmailCapturesByCid(campaign.cid);
+    const enriched = captures.filter(capture =>
+      capture.enrichmentStatus === 'completed' && (capture.trafficStatus === 'valid' || !capture.trafficStatus)
+    );
+    const matched = leadScoringService.applyListQuery(
+      householdIncomeService.applyListQuery(homeEquityService.applyListQuery(enriched, filters), filters),
+      filters
+    ).rows;
+
+    if (this.getChannel(campaign) === 'handwrytten') {
+      return matched.filter(hasAddress).map(capture => ({ capture, email: null }));
+    }
+
+    // Email campaigns go to the address the CID's selection strategy picks, skipping suppressed contacts
+    const reachable = matched.filter(capture => !mailchimpService.isSuppressedStatus(capture.mailchimpStatus));
+    const strategy = emailSelectionService.getStrategy(account);
+    const useCandidates = !emailSelectionService.isDefault(strategy);
+    const members: AudienceMember[] = [];
+
+    for (let i = 0; i < reachable.length; i += SEND_BATCH_SIZE) {
+      const batch = reachable.slice(i, i + SEND_BATCH_SIZE);
+      const candidates = useCandidates ? await storage.getEmailCandidates(batch.map(capture => capture.id)) : [];
+
+      for (const capture of batch) {
+        const email = emailSelectionService.resolveEmail(
+          capture,
+          candidates.filter(candidate => candidate.captureId === capture.id),
+          strategy
+        );
+        if (email) members.push({ capture, email });
+      }
+    }
+    return members;
+  }
+
+  async schedule(campaign: Campaign, scheduledAt: Date): Promise<Campaign | undefined> {
+    return await storage.updateCampaign(campaign.id, { status: 'scheduled', scheduledAt, lastError: null });
+  }
+
+  async unschedule(campaign: Campaign): Promise<Campaign | undefined> {
+    return await storage.updateCampaign(campaign.id, { status: 'draft' });
+  }
+
+  /**
+   * Start every campaign that is due and finish any a restart interrupted. Called by the scheduler.
+   */
+  async processDue(now: Date = new Date()): Promise<CampaignRunResult> {
+    const result: CampaignRunResult = { campaigns: 0, sent: 0, failed: 0 };
+
+    for (const campaign of await storage.getDueCampaigns(now)) {
+      if (this.running.has(campaign.id)) continue;
+
+      const run = await this.execute(campaign);
+      result.campaigns++;
+      result.sent += run.sent;
+      result.failed += run.failed;
+    }
+    return result;
+  }
+
+  /**
+   * Recount a campaign's recipients, delivery results and engagement into its stats columns
+   */
+  async refreshStats(campaignId: number): Promise<Campaign | undefined> {
+    const campaign = await storage.getCampaign(campaignId);
+    if (!campaign) return undefined;
+
+    // Cards have no open or click tracking, so their rates stay empty rather than reading 0%
+    const counts = await storage.getCampaignRecipientCounts(campaignId);
+    const tracked = this.getChannel(campaign) === 'mailchimp';
+    const rate = (count: number) => (tracked && counts.sent > 0 ? ((count / counts.sent) * 100).toFixed(2) : null);
+
+    return await storage.updateCampaign(campaignId, {
+      recipients: counts.total,
+      sentCount: counts.sent,
+      failedCount: counts.failed,
+      openRate: rate(counts.opened),
+      responseRate: rate(counts.clicked),
+    });
+  }
+
+  private async execute(campaign: Campaign): Promise<{ sent: number; failed: number }> {
+    const delivered = { sent: 0, failed: 0 };
+    this.running.add(campaign.id);
+
+    try {
+      // The audience is frozen when the campaign starts; a resumed campaign keeps its recipient list
+      const starting = campaign.status === 'scheduled';
+      if (starting || (await storage.getCampaignRecipientCounts(campaign.id)).total === 0) {
+        if (starting) {
+          await storage.updateCampaign(campaign.id, { status: 'in_progress', startedAt: new Date(), lastError: null });
+        }
+
+        const members = await this.resolveAudience(campaign);
+        await storage.createCampaignRecipients(members.map(({ capture, email }) => ({
+          campaignId: campaign.id,
+          captureId: capture.id,
+          cid: capture.cid,
+          email,
+        })));
+        await this.refreshStats(campaign.id);
+        logger.info('campaigns', `Campaign "${campaign.name}" started with ${members.length} recipients`, { campaignId: campaign.id }, campaign.cid || 'system', 'CAMPAIGN_STARTED');
+      }
+
+      // A run that stopped between marking a recipient sending and recording the result can't tell
+      // whether the send went out, so the recipient is failed rather than risk sending twice
+      for (const recipient of await storage.getCampaignRecipients(campaign.id, { status: 'sending' })) {
+        await storage.updateCampaignRecipient(recipient.id, { status: 'failed', error: 'Interrupted while sending - not retried' });
+      }
+
+      while (true) {
+        const pending = await storage.getCampaignRecipients(campaign.id, { status: 'pending', limit: SEND_BATCH_SIZE });
+        if (pending.length === 0) break;
+
+        for (const recipient of pending) {
+          // Read right before sending, so an unsubscribe that arrived after the audience was frozen is honored
+          const capture = recipient.captureId ? await storage.getEmailCaptureById(recipient.captureId) : undefined;
+          await storage.updateCampaignRecipient(recipient.id, { status: 'sending' });
+          const outcome = await this.deliver(campaign, recipient, capture);
+          await storage.updateCampaignRecipient(recipient.id, outcome);
+          if (outcome.status === 'sent') {
+            delivered.sent++;
+          } else {
+            delivered.failed++;
+          }
+        }
+        await this.refreshStats(campaign.id);
+      }
+
+      await storage.updateCampaign(campaign.id, { status: 'completed', completedAt: new Date() });
+      await this.refreshStats(campaign.id);
+      logger.info('campaigns', `Campaign "${campaign.name}" completed: ${delivered.sent} sent, ${delivered.failed} failed`, { campaignId: campaign.id, ...delivered }, campaign.cid || 'system', 'CAMPAIGN_COMPLETED');
+    } catch (error: any) {
+      // Left in progress - the next scheduler run resumes with the recipients still pending
+      await storage.updateCampaign(campaign.id, { lastError: error.message || String(error) });
+      logger.error('campaigns', `Campaign "${campaign.name}" failed`, error, campaign.cid || 'system', 'CAMPAIGN_ERROR');
+    } finally {
+      this.running.delete(campaign.id);
+    }
+    return delivered;
+  }
+
+  private async deliver(
+    campaign: Campaign,
+    recipient: CampaignRecipient,
+    capture: EmailCapture | undefined
+  ): Promise<Pick<CampaignRecipient, 'status' | 'externalId' | 'error' | 'sentAt'>> {
+    const failed = (error: string) => ({ status: 'failed', externalId: null, error, sentAt: null });
+    if (!capture) return failed('Identity no longer exists');
+
+    const config = this.getChannelConfig(campaign);
+    try {
+      if (this.getChannel(campaign) === 'handwrytten') {
+        const response = await handwryttenService.sendNote(capture, config.cardId || undefined, config.message || undefined, config.handwritingId || undefined);
+        return response.success
+          ? { status: 'sent', externalId: response.noteId ? String(response.noteId) : null, error: null, sentAt: new Date() }
+          : failed(response.message);
+      }
+
+      if (mailchimpService.isSuppressedStatus(capture.mailchimpStatus)) return failed(`Contact is ${capture.mailchimpStatus} in Mailchimp`);
+      if (!recipient.email) return failed('No email address');
+      const added = await mailchimpService.addContactWithCidTag(recipient.email, capture.firstName || '', capture.lastName || '', campaign.cid || undefined, capture);
+      const tagged = added && config.mailchimpTag ? await mailchimpService.tagContact(recipient.email, [config.mailchimpTag], campaign.cid || undefined) : added;
+      return tagged
+        ? { status: 'sent', externalId: mailchimpService.subscriberHash(recipient.email), error: null, sentAt: new Date() }
+        : failed(added ? 'Mailchimp rejected the tag' : 'Mailchimp rejected the contact');
+    } catch (error: any) {
+      return failed(error.message || String(error));
+    }
+  }
+}
+
+export const campaignService = new CampaignService();
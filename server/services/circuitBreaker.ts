@@ -0,0 +1,177 @@
+import { logger } from '../utils/logger';
+import { emailAlertService } from './emailAlertService';
+
+const PROBE_TIMEOUT_MS = 60 * 1000; // A probe that never reports back stops blocking after this
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// Failures that say the provider itself is unhealthy, as opposed to a bad request or a no-match
+export type CircuitFailureKind = 'auth' | 'server_error' | 'timeout' | 'network';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // Wait before the first half-open probe
+  maxCooldownMs: number; // Cooldown doubles after each failed probe, up to this
+}
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt: string | null;
+  nextProbeAt: string | null;
+  cooldownSeconds: number;
+  lastFailure: { kind: CircuitFailureKind; message: string; at: string } | null;
+  lastSuccessAt: string | null;
+  timesOpened: number;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly circuit: string, public readonly retryAt: Date) {
+    super(`${circuit} circuit is open - calls paused until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Stops calling a provider after repeated auth, 5xx or timeout failures. While open every call is
+ * refused; once the cooldown passes a single half-open probe is let through - success closes the
+ * circuit, failure re-opens it with a longer cooldown.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private cooldownMs: number;
+  private openedAt: Date | null = null;
+  private nextProbeAt: Date | null = null;
+  private probeStartedAt: Date | null = null;
+  private lastFailure: CircuitBreakerStatus['lastFailure'] = null;
+  private lastSuccessAt: Date | null = null;
+  private timesOpened = 0;
+
+  constructor(private readonly name: string, private readonly options: CircuitBreakerOptions) {
+    this.cooldownMs = options.cooldownMs;
+  }
+
+  /**
+   * When calls are refused, the time the next probe is allowed; null when calls may go ahead.
+   * Does not claim the half-open probe.
+   */
+  getBlockedUntil(): Date | null {
+    if (this.state === 'open' && this.nextProbeAt && this.nextProbeAt > new Date()) {
+      return this.nextProbeAt;
+    }
+    if (this.state === 'half_open' && this.probeStartedAt) {
+      const probeExpiresAt = new Date(this.probeStartedAt.getTime() + PROBE_TIMEOUT_MS);
+      return probeExpiresAt > new Date() ? probeExpiresAt : null;
+    }
+    return null;
+  }
+
+  /**
+   * Call before each provider request. Throws CircuitOpenError while open; after the cooldown the
+   * first caller becomes the half-open probe.
+   */
+  acquire(): void {
+    const blockedUntil = this.getBlockedUntil();
+    if (blockedUntil) {
+      throw new CircuitOpenError(this.name, blockedUntil);
+    }
+    if (this.state !== 'closed') {
+      this.state = 'half_open';
+      this.probeStartedAt = new Date();
+      console.log(`[${new Date().toISOString()}] ${this.name} circuit half-open - sending probe request`);
+    }
+  }
+
+  recordSuccess(): void {
+    const wasOpen = this.state !== 'closed';
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.cooldownMs = this.options.cooldownMs;
+    this.openedAt = null;
+    this.nextProbeAt = null;
+    this.probeStartedAt = null;
+    this.lastSuccessAt = new Date();
+
+    if (wasOpen) {
+      logger.info('circuit-breaker', `${this.name} circuit closed - provider responding again`, { timesOpened: this.timesOpened }, 'system', 'CIRCUIT_CLOSED');
+    }
+  }
+
+  recordFailure(kind: CircuitFailureKind, message: string): void {
+    this.consecutiveFailures++;
+    this.lastFailure = { kind, message: message.substring(0, 500), at: new Date().toISOString() };
+
+    if (this.state === 'half_open') {
+      // Probe failed - back off further before the next one
+      this.cooldownMs = Math.min(this.cooldownMs * 2, this.options.maxCooldownMs);
+      this.open(`half-open probe failed (${kind})`);
+    } else if (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold) {
+      this.open(`${this.consecutiveFailures} consecutive failures (latest: ${kind})`);
+    }
+  }
+
+  /**
+   * Close the circuit by hand, e.g. after fixing credentials
+   */
+  reset(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.cooldownMs = this.options.cooldownMs;
+    this.openedAt = null;
+    this.nextProbeAt = null;
+    this.probeStartedAt = null;
+    logger.info('circuit-breaker', `${this.name} circuit reset by an admin`, {}, 'system', 'CIRCUIT_RESET');
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.options.failureThreshold,
+      openedAt: this.openedAt?.toISOString() || null,
+      nextProbeAt: this.nextProbeAt?.toISOString() || null,
+      cooldownSeconds: Math.round(this.cooldownMs / 1000),
+      lastFailure: this.lastFailure,
+      lastSuccessAt: this.lastSuccessAt?.toISOString() || null,
+      timesOpened: this.timesOpened,
+    };
+  }
+
+  private open(reason: string): void {
+    const wasClosed = this.state === 'closed';
+    this.state = 'open';
+    this.probeStartedAt = null;
+    this.openedAt = wasClosed ? new Date() : this.openedAt;
+    this.nextProbeAt = new Date(Date.now() + this.cooldownMs);
+
+    if (!wasClosed) {
+      console.log(`[${new Date().toISOString()}] ${this.name} circuit re-opened: ${reason} - next probe at ${this.nextProbeAt.toISOString()}`);
+      return;
+    }
+
+    this.timesOpened++;
+    const details = { reason, lastFailure: this.lastFailure, nextProbeAt: this.nextProbeAt.toISOString() };
+    logger.error('circuit-breaker', `${this.name} circuit opened: ${reason}`, details, 'system', 'CIRCUIT_OPEN');
+    emailAlertService.sendLogAlert('ERROR', `${this.name} calls paused - circuit opened after ${reason}`, {
+      ...details,
+      recommendation: 'Check provider status and credentials - enrichment resumes automatically once a probe succeeds',
+    }).catch(error => {
+      console.error(`[${new Date().toISOString()}] Failed to send ${this.name} circuit alert:`, error);
+    });
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '');
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+export const audienceAcuityCircuitBreaker = new CircuitBreaker('Audience Acuity', {
+  failureThreshold: envNumber('AUDIENCE_ACUITY_BREAKER_THRESHOLD', 5),
+  cooldownMs: envNumber('AUDIENCE_ACUITY_BREAKER_COOLDOWN_SECONDS', 60) * 1000,
+  maxCooldownMs: 15 * 60 * 1000,
+});
@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+/**
+ * Encrypts provider credentials for storage in the database. The key comes from
+ * CREDENTIALS_ENCRYPTION_KEY; without it credentials can only be supplied through env vars.
+ */
+export class CredentialVault {
+  isConfigured(): boolean {
+    return !!process.env.CREDENTIALS_ENCRYPTION_KEY;
+  }
+
+  encrypt(value: Record<string, string>): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.getKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+  }
+
+  decrypt(payload: string): Record<string, string> {
+    const [version, iv, tag, ciphertext] = payload.split(':');
+    if (version !== VERSION || !iv || !tag || !ciphertext) {
+      throw new Error('Unrecognized encrypted credential format');
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8'));
+  }
+
+  private getKey(): Buffer {
+    const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('CREDENTIALS_ENCRYPTION_KEY must be set to store credentials in the database');
+    }
+    // Any length secret becomes a 32-byte key
+    return crypto.createHash('sha256').update(secret).digest();
+  }
+}
+
+export const credentialVault = new CredentialVault();
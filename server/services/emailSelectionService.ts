@@ -0,0 +1,99 @@
+import { storage } from '../storage';
+import { compareEmailCandidates } from './audienceAcuityService';
+import type { EmailCandidate, EmailCapture, EnrichmentEmailCandidate } from '@shared/schema';
+
+// Per-CID strategy stored in cidAccounts.settings.emailSelection
+export interface EmailSelectionStrategy {
+  optInOnly: boolean; // Only candidates the provider reports as opted in
+  maxQualityLevel: number | null; // Only candidates at this quality level or better (0 best - 4 worst), null = any
+  order: 'quality' | 'newest'; // Best quality first, or most recently updated first
+}
+
+type SelectableCandidate = Pick<EmailCandidate, 'email' | 'optIn' | 'qualityLevel' | 'rankOrder' | 'registerDate' | 'updateDate'>;
+
+const DEFAULT_STRATEGY: EmailSelectionStrategy = {
+  optInOnly: false,
+  maxQualityLevel: null,
+  order: 'quality',
+};
+
+function updatedTime(candidate: SelectableCandidate): number {
+  const time = candidate.updateDate ? Date.parse(candidate.updateDate) : NaN;
+  return Number.isFinite(time) ? time : 0;
+}
+
+/**
+ * Stores every email candidate the provider returns and picks the address outbound syncs use,
+ * according to the CID's selection strategy.
+ */
+export class EmailSelectionService {
+  getStrategy(account: any): EmailSelectionStrategy {
+    return { ...DEFAULT_STRATEGY, ...(account?.settings?.emailSelection || {}) };
+  }
+
+  isDefault(strategy: EmailSelectionStrategy): boolean {
+    return !strategy.optInOnly && strategy.maxQualityLevel === null && strategy.order === 'quality';
+  }
+
+  /**
+   * Best candidate allowed by the strategy, or null when none qualifies
+   */
+  selectEmail<T extends SelectableCandidate>(candidates: T[], strategy: EmailSelectionStrategy): T | null {
+    const allowed = candidates.filter(candidate =>
+      (!strategy.optInOnly || candidate.optIn === true) &&
+      (strategy.maxQualityLevel === null || (candidate.qualityLevel !== null && candidate.qualityLevel <= strategy.maxQualityLevel))
+    );
+
+    const sorted = allowed.sort((a, b) =>
+      strategy.order === 'newest'
+        ? updatedTime(b) - updatedTime(a) || compareEmailCandidates(a, b)
+        : compareEmailCandidates(a, b)
+    );
+    return sorted[0] || null;
+  }
+
+  /**
+   * Address to sync for a capture. The default strategy keeps the primary email; records enriched before
+   * candidates were stored are judged on the primary email alone, with no opt-in or quality data.
+   */
+  resolveEmail(capture: Pick<EmailCapture, 'email'>, candidates: SelectableCandidate[], strategy: EmailSelectionStrategy): string | null {
+    if (this.isDefault(strategy)) {
+      return capture.email;
+    }
+    if (candidates.length === 0) {
+      if (!capture.email) return null;
+      const primary = { email: capture.email, optIn: null, qualityLevel: null, rankOrder: null, registerDate: null, updateDate: null };
+      return this.selectEmail([primary], strategy)?.email || null;
+    }
+    return this.selectEmail(candidates, strategy)?.email || null;
+  }
+
+  /**
+   * Replace a capture's candidates with the ones from the latest enrichment
+   */
+  async saveCandidates(capture: Pick<EmailCapture, 'id' | 'cid' | 'hashedEmail'>, candidates: EnrichmentEmailCandidate[]): Promise<EmailCandidate[]> {
+    const hash = capture.hashedEmail.toLowerCase();
+    return await storage.replaceEmailCandidates(capture.id, candidates.map(candidate => ({
+      cid: capture.cid || 'default',
+      email: candidate.email,
+      md5: candidate.md5 || null,
+      isMatch: candidate.md5?.toLowerCase() === hash,
+      optIn: candidate.optIn ?? null,
+      qualityLevel: candidate.qualityLevel ?? null,
+      rankOrder: candidate.rankOrder ?? null,
+      registerDate: candidate.registerDate || null,
+      updateDate: candidate.updateDate || null,
+    })));
+  }
+
+  async updateStrategy(cid: string, updates: Partial<EmailSelectionStrategy>): Promise<any | undefined> {
+    const account = await storage.getCidAccount(cid);
+    if (!account) return undefined;
+
+    return await storage.updateCidAccountSettings(cid, {
+      emailSelection: { ...this.getStrategy(account), ...updates },
+    });
+  }
+}
+
+export const emailSelectionService = new EmailSelectionService();
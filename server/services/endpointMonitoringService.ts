@@ -1,4 +1,6 @@
 import { pixelEndpointService } from "./pixelEndpointService";
+import { visitorSourceService } from "./visitorSourceService";
+import { visitorSourceAdapters, type CsvDropAdapter } from "./visitorSourceAdapters";
 
 export class EndpointMonitoringService {
   private sphereDataUrl = "https://spheredatasolutionsgroup.com/_functions/pixelEndpoint";
@@ -97,40 +99,16 @@ export class EndpointMonitoringService {
   // Option 4: Email Export Processing
   async processEmailFile(filePath: string): Promise<{ processed: number; errors: number }> {
     const fs = await import('fs');
-    const readline = await import('readline');
 
     let processed = 0;
     let errors = 0;
 
     try {
-      const fileStream = fs.createReadStream(filePath);
-      const rl = readline.createInterface({
-        input: fileStream,
-        crlfDelay: Infinity
-      });
-
-      for await (const line of rl) {
-        if (line.trim() && !line.startsWith('md5,cid')) { // Skip header
-          try {
-            const [md5, cid, url, session_id, var1, var2, ts] = line.split(',');
-            
-            await pixelEndpointService.captureFromPixelEndpoint({
-              md5: md5?.trim(),
-              cid: cid?.trim(),
-              url: url?.trim(),
-              session_id: session_id?.trim(),
-              var1: var1?.trim(),
-              var2: var2?.trim(),
-              ts: ts?.trim()
-            });
-            
-            processed++;
-          } catch (error) {
-            console.error(`Failed to process line: ${line}`, error);
-            errors++;
-          }
-        }
-      }
+      // Drop files carry their own CID column, so records are routed per CID by the CSV drop source
+      const csvDrop = visitorSourceAdapters.csv_drop as CsvDropAdapter;
+      const result = await visitorSourceService.ingestRaw('csv_drop', await csvDrop.readFile(filePath), { trigger: 'csv_drop' });
+      processed = result.created + result.updated;
+      errors = result.errors;
 
       console.log(`File processing complete: ${processed} processed, ${errors} errors`);
       
@@ -0,0 +1,205 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { emailAlertService } from './emailAlertService';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+// Per-CID configuration stored in cidAccounts.settings.enrichmentBudget
+export interface EnrichmentBudgetSettings {
+  dailyCap: number | null; // Provider calls per UTC day, null = unlimited
+  monthlyCap: number | null; // Provider calls per UTC calendar month, null = unlimited
+  onCapReached: 'defer' | 'refuse'; // defer re-queues until the period resets, refuse marks the record failed
+  alertThresholds: number[]; // Percent of a cap that triggers an alert
+  alertState?: Record<string, number>; // Highest threshold already alerted per period key
+}
+
+export interface PeriodUsage {
+  used: number;
+  cap: number | null;
+  remaining: number | null;
+  percent: number | null;
+  cost: number;
+  resetsAt: string;
+}
+
+export interface EnrichmentUsage {
+  cid: string;
+  onCapReached: 'defer' | 'refuse';
+  alertThresholds: number[];
+  daily: PeriodUsage;
+  monthly: PeriodUsage;
+}
+
+export interface BudgetDecision {
+  allowed: boolean;
+  period?: BudgetPeriod;
+  action?: 'defer' | 'refuse';
+  resumeAt?: Date;
+}
+
+const DEFAULT_SETTINGS: EnrichmentBudgetSettings = {
+  dailyCap: null,
+  monthlyCap: null,
+  onCapReached: 'defer',
+  alertThresholds: [80, 100],
+};
+
+function periodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function nextPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function periodKey(period: BudgetPeriod, now: Date = new Date()): string {
+  const iso = periodStart(period, now).toISOString();
+  return `${period}:${period === 'daily' ? iso.substring(0, 10) : iso.substring(0, 7)}`;
+}
+
+/**
+ * Per-CID enrichment caps. Every provider call is written to the enrichment ledger; once a CID
+ * reaches its daily or monthly cap further lookups are deferred or refused until the period resets.
+ */
+export class EnrichmentBudgetService {
+  getSettings(account: any): EnrichmentBudgetSettings {
+    return { ...DEFAULT_SETTINGS, ...(account?.settings?.enrichmentBudget || {}) };
+  }
+
+  async getUsage(cid: string, account?: any): Promise<EnrichmentUsage> {
+    const settings = this.getSettings(account ?? await storage.getCidAccount(cid));
+    const [[daily], [monthly]] = await Promise.all([
+      storage.getEnrichmentUsage(periodStart('daily'), cid),
+      storage.getEnrichmentUsage(periodStart('monthly'), cid),
+    ]);
+
+    return {
+      cid,
+      onCapReached: settings.onCapReached,
+      alertThresholds: settings.alertThresholds,
+      daily: this.toPeriodUsage('daily', daily, settings.dailyCap),
+      monthly: this.toPeriodUsage('monthly', monthly, settings.monthlyCap),
+    };
+  }
+
+  /**
+   * Usage for every CID account, for the admin dashboard
+   */
+  async getAllUsage(): Promise<Array<EnrichmentUsage & { accountName: string | null }>> {
+    const [accounts, dailyRows, monthlyRows] = await Promise.all([
+      storage.getCidAccounts(),
+      storage.getEnrichmentUsage(periodStart('daily')),
+      storage.getEnrichmentUsage(periodStart('monthly')),
+    ]);
+
+    return accounts.map((account: any) => {
+      const settings = this.getSettings(account);
+      return {
+        cid: account.cid,
+        accountName: account.accountName,
+        onCapReached: settings.onCapReached,
+        alertThresholds: settings.alertThresholds,
+        daily: this.toPeriodUsage('daily', dailyRows.find(row => row.cid === account.cid), settings.dailyCap),
+        monthly: this.toPeriodUsage('monthly', monthlyRows.find(row => row.cid === account.cid), settings.monthlyCap),
+      };
+    });
+  }
+
+  /**
+   * Whether a CID may make another provider call right now
+   */
+  async checkBudget(cid: string): Promise<BudgetDecision> {
+    const account = await storage.getCidAccount(cid);
+    const settings = this.getSettings(account);
+    if (settings.dailyCap === null && settings.monthlyCap === null) {
+      return { allowed: true };
+    }
+
+    const usage = await this.getUsage(cid, account);
+    for (const period of ['monthly', 'daily'] as BudgetPeriod[]) {
+      const { used, cap } = usage[period];
+      if (cap !== null && used >= cap) {
+        return { allowed: false, period, action: settings.onCapReached, resumeAt: nextPeriodStart(period) };
+      }
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Write the ledger row for a provider call and alert on any newly crossed threshold
+   */
+  async recordCall(entry: { cid: string; hashedEmail: string; captureId?: number | null; provider: string; result: 'matched' | 'no_match' | 'error'; unitCost: number }): Promise<void> {
+    await storage.recordEnrichmentLedgerEntry({
+      ...entry,
+      captureId: entry.captureId ?? null,
+      unitCost: String(entry.unitCost),
+    });
+
+    try {
+      await this.checkThresholds(entry.cid);
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] Failed to check enrichment budget thresholds for CID ${entry.cid}:`, error);
+    }
+  }
+
+  async updateSettings(cid: string, updates: Partial<Omit<EnrichmentBudgetSettings, 'alertState'>>): Promise<any | undefined> {
+    const account = await storage.getCidAccount(cid);
+    if (!account) return undefined;
+
+    return await storage.updateCidAccountSettings(cid, {
+      enrichmentBudget: { ...this.getSettings(account), ...updates },
+    });
+  }
+
+  private toPeriodUsage(period: BudgetPeriod, row: { calls: number; cost: number } | undefined, cap: number | null): PeriodUsage {
+    const used = row?.calls || 0;
+    return {
+      used,
+      cap,
+      remaining: cap === null ? null : Math.max(cap - used, 0),
+      percent: cap === null || cap === 0 ? null : Math.round((used / cap) * 1000) / 10,
+      cost: Math.round((row?.cost || 0) * 100) / 100,
+      resetsAt: nextPeriodStart(period).toISOString(),
+    };
+  }
+
+  private async checkThresholds(cid: string): Promise<void> {
+    const account = await storage.getCidAccount(cid);
+    const settings = this.getSettings(account);
+    if (!account || (settings.dailyCap === null && settings.monthlyCap === null)) return;
+
+    const usage = await this.getUsage(cid, account);
+    const alertState = { ...(settings.alertState || {}) };
+    let changed = false;
+
+    for (const period of ['daily', 'monthly'] as BudgetPeriod[]) {
+      const { percent, used, cap } = usage[period];
+      if (percent === null) continue;
+
+      const key = periodKey(period);
+      const crossed = settings.alertThresholds.filter(threshold => percent >= threshold).sort((a, b) => b - a)[0];
+      if (crossed === undefined || (alertState[key] ?? 0) >= crossed) continue;
+
+      alertState[key] = crossed;
+      changed = true;
+
+      const message = `CID ${cid} has used ${percent}% of its ${period} enrichment cap (${used}/${cap})`;
+      const details = { cid, period, used, cap, threshold: crossed, onCapReached: settings.onCapReached };
+      logger.warning('enrichment-budget', message, details, cid, 'ENRICHMENT_BUDGET_THRESHOLD');
+      await emailAlertService.sendLogAlert(crossed >= 100 ? 'ERROR' : 'WARNING', message, details, cid);
+    }
+
+    if (changed) {
+      // Only keep state for the current periods
+      const current = [periodKey('daily'), periodKey('monthly')];
+      const pruned = Object.fromEntries(Object.entries(alertState).filter(([key]) => current.includes(key)));
+      await storage.updateCidAccountSettings(cid, { enrichmentBudget: { ...settings, alertState: pruned } });
+    }
+  }
+}
+
+export const enrichmentBudgetService = new EnrichmentBudgetService();
@@ -0,0 +1,132 @@
+import { storage } from '../storage';
+import { enrichmentBudgetService, type BudgetDecision } from './enrichmentBudgetService';
+import { CircuitOpenError } from './circuitBreaker';
+import type { EnrichmentProvider } from './enrichmentProviders';
+
+const DEFAULT_TTL_DAYS = 30;
+
+export interface CachedEnrichmentResult {
+  raw: any | null; // Provider response as returned by EnrichmentProvider.lookup
+  cached: boolean;
+  budget?: BudgetDecision; // Set when the CID's enrichment cap blocked the provider call
+  circuitOpenUntil?: Date; // Set when the provider's circuit breaker is open - no call was made
+}
+
+export interface EnrichmentFetchOptions {
+  bypassCache?: boolean;
+  cid?: string; // CID charged for the provider call (defaults to 'default')
+  captureId?: number;
+}
+
+export interface EnrichmentCacheStats {
+  ttlDays: number;
+  since: string;
+  hits: number;
+  misses: number;
+  bypassed: number;
+  hitRate: number; // Percentage of lookups served from cache since startup
+  entries: number;
+  freshEntries: number;
+  totalHits: number; // All-time hits recorded on cache rows
+}
+
+/**
+ * Cross-CID cache of raw provider responses keyed by provider cache key and MD5. The same hash seen on several client
+ * sites, or re-synced, is served from the cache until the entry expires.
+ * Only matches are cached - the Audience Acuity lookup returns null for both "no match" and
+ * provider errors, so a null answer is not safe to reuse.
+ */
+export class EnrichmentCacheService {
+  private hits = 0;
+  private misses = 0;
+  private bypassed = 0;
+  private since = new Date();
+
+  getTtlDays(): number {
+    const ttlDays = parseInt(process.env.ENRICHMENT_CACHE_TTL_DAYS || '');
+    return isNaN(ttlDays) || ttlDays < 0 ? DEFAULT_TTL_DAYS : ttlDays;
+  }
+
+  /**
+   * Returns the provider response for an MD5, from the cache when fresh unless bypassCache is set.
+   * Provider calls are checked against the CID's enrichment cap and written to the ledger.
+   */
+  async fetch(provider: EnrichmentProvider, md5: string, options: EnrichmentFetchOptions = {}): Promise<CachedEnrichmentResult> {
+    const ttlDays = provider.cacheable ? this.getTtlDays() : 0;
+    const cid = options.cid || 'default';
+    const context = { cid };
+    const cacheKey = ttlDays > 0 ? await provider.cacheKey(context) : provider.name;
+
+    if (options.bypassCache) {
+      this.bypassed++;
+    } else if (ttlDays > 0) {
+      const entry = await storage.getEnrichmentCacheEntry(cacheKey, md5);
+      if (entry && entry.expiresAt > new Date()) {
+        this.hits++;
+        await storage.recordEnrichmentCacheHit(entry.id);
+        console.log(`[${new Date().toISOString()}] Enrichment cache hit for MD5: ${md5.substring(0, 8)}... (fetched ${entry.fetchedAt.toISOString()})`);
+        return { raw: entry.response, cached: true };
+      }
+      this.misses++;
+    }
+
+    // Cache hits are still served while the provider is paused
+    const blockedUntil = provider.circuitBreaker?.getBlockedUntil();
+    if (blockedUntil) {
+      return { raw: null, cached: false, circuitOpenUntil: blockedUntil };
+    }
+
+    const budget = await enrichmentBudgetService.checkBudget(cid);
+    if (!budget.allowed) {
+      return { raw: null, cached: false, budget };
+    }
+
+    const ledgerEntry = { cid, hashedEmail: md5, captureId: options.captureId, provider: provider.name, unitCost: provider.unitCost };
+    let raw;
+    try {
+      raw = await provider.lookup(md5, context);
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        return { raw: null, cached: false, circuitOpenUntil: error.retryAt };
+      }
+      await enrichmentBudgetService.recordCall({ ...ledgerEntry, result: 'error' });
+      throw error;
+    }
+    await enrichmentBudgetService.recordCall({ ...ledgerEntry, result: raw ? 'matched' : 'no_match' });
+
+    if (raw && ttlDays > 0) {
+      try {
+        await storage.upsertEnrichmentCacheEntry({
+          provider: cacheKey,
+          hashedEmail: md5,
+          response: raw,
+          expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+        });
+      } catch (error) {
+        // A cache write failure must not fail the enrichment itself
+        console.error(`[${new Date().toISOString()}] Failed to cache enrichment for MD5 ${md5.substring(0, 8)}...:`, error);
+      }
+    }
+
+    return { raw, cached: false };
+  }
+
+  async getStats(): Promise<EnrichmentCacheStats> {
+    const summary = await storage.getEnrichmentCacheSummary();
+    const lookups = this.hits + this.misses;
+
+    return {
+      ttlDays: this.getTtlDays(),
+      since: this.since.toISOString(),
+      hits: this.hits,
+      misses: this.misses,
+      bypassed: this.bypassed,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 10 : 0,
+      entries: summary.entries,
+      freshEntries: summary.fresh,
+      totalHits: summary.totalHits,
+    };
+  }
+}
+
+export const enrichmentCacheService = new EnrichmentCacheService();
@@ -0,0 +1,194 @@
+import type { RealEstateEnrichmentData } from '@shared/schema';
+import {
+  AUDIENCE_ACUITY_MAPPER_VERSION,
+  enrichWithAudienceAcuity,
+  hasAudienceAcuityCredentials,
+  normalizeAudienceAcuityEnrichment,
+} from './audienceAcuityService';
+import { audienceAcuityConfigService, DEFAULT_AUDIENCE_ACUITY_TEMPLATE_ID } from './audienceAcuityConfigService';
+import { audienceAcuityCircuitBreaker, type CircuitBreaker } from './circuitBreaker';
+import {
+  MOCK_FIRST_NAMES,
+  MOCK_IDENTITY_OVERRIDES,
+  MOCK_INCOME_BANDS,
+  MOCK_LAST_NAMES,
+  MOCK_LOAN_TYPES,
+  MOCK_LOCATIONS,
+  MOCK_MARITAL_STATUSES,
+  MOCK_NO_MATCH_PREFIXES,
+  MOCK_STREETS,
+} from '../fixtures/mockEnrichmentFixtures';
+
+export type EnrichmentProviderName = 'audience_acuity' | 'mock';
+
+export interface EnrichmentLookupContext {
+  cid: string; // CID the lookup is made for - providers may pick per-CID settings from it
+}
+
+/**
+ * An identity data source. lookup returns the provider's raw response (what the enrichment
+ * cache stores) and normalize turns it into the provider-neutral enrichment shape.
+ */
+export interface EnrichmentProvider {
+  readonly name: EnrichmentProviderName;
+  readonly cacheable: boolean; // Whether responses cost enough to be worth caching
+  readonly unitCost: number; // Cost of one lookup, recorded in the enrichment ledger
+  readonly mapperVersion: number; // Version of normalize, archived with every raw payload
+  readonly circuitBreaker: CircuitBreaker | null; // Pauses lookups while the provider is failing
+  isConfigured(): boolean;
+  cacheKey(context: EnrichmentLookupContext): Promise<string>; // Responses are only shared between lookups with the same key
+  lookup(md5: string, context: EnrichmentLookupContext): Promise<any | null>; // null when the provider has no match
+  normalize(raw: any, md5: string): RealEstateEnrichmentData;
+}
+
+export class AudienceAcuityProvider implements EnrichmentProvider {
+  readonly name = 'audience_acuity' as const;
+  readonly cacheable = true;
+  readonly mapperVersion = AUDIENCE_ACUITY_MAPPER_VERSION;
+  readonly circuitBreaker = audienceAcuityCircuitBreaker;
+
+  get unitCost(): number {
+    const cost = parseFloat(process.env.AUDIENCE_ACUITY_UNIT_COST || '');
+    return isNaN(cost) ? 0 : cost;
+  }
+
+  isConfigured(): boolean {
+    return hasAudienceAcuityCredentials();
+  }
+
+  async cacheKey(context: EnrichmentLookupContext): Promise<string> {
+    // The template shapes the response. The built-in template keeps the plain key so existing entries stay valid.
+    const templateId = await audienceAcuityConfigService.getTemplateId(context.cid);
+    return templateId === DEFAULT_AUDIENCE_ACUITY_TEMPLATE_ID ? this.name : `${this.name}:${templateId}`;
+  }
+
+  async lookup(md5: string, context: EnrichmentLookupContext): Promise<any | null> {
+    return await enrichWithAudienceAcuity(md5, { cid: context.cid });
+  }
+
+  normalize(raw: any, md5: string): RealEstateEnrichmentData {
+    return normalizeAudienceAcuityEnrichment(raw, md5);
+  }
+}
+
+/**
+ * Fixture-driven provider for development and tests - no network, no credentials, and the same
+ * hash always resolves to the same fake identity
+ */
+export class MockEnrichmentProvider implements EnrichmentProvider {
+  readonly name = 'mock' as const;
+  readonly cacheable = false;
+  readonly unitCost = 0;
+  readonly mapperVersion = 2;
+  readonly circuitBreaker = null;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async cacheKey(): Promise<string> {
+    return this.name;
+  }
+
+  async lookup(md5: string): Promise<any | null> {
+    const hash = md5.toLowerCase();
+    if (hash in MOCK_IDENTITY_OVERRIDES) {
+      return MOCK_IDENTITY_OVERRIDES[hash];
+    }
+    if (!/^[0-9a-f]{32}$/.test(hash) || MOCK_NO_MATCH_PREFIXES.includes(hash[0])) {
+      return null;
+    }
+    return this.buildIdentity(hash);
+  }
+
+  normalize(raw: any, md5: string): RealEstateEnrichmentData {
+    return { ...raw, hashedEmail: md5 };
+  }
+
+  private buildIdentity(hash: string): RealEstateEnrichmentData {
+    // Each field reads its own slice of the hash so fields vary independently
+    const slice = (index: number, length: number = 2) => parseInt(hash.substring(index, index + length), 16);
+    const pick = <T>(list: readonly T[], index: number): T => list[slice(index) % list.length];
+
+    const firstName = pick(MOCK_FIRST_NAMES, 0);
+    const lastName = pick(MOCK_LAST_NAMES, 2);
+    const location = pick(MOCK_LOCATIONS, 4);
+    const email = `${firstName}.${lastName}.${hash.substring(0, 4)}@example.com`.toLowerCase();
+    const homePrice = 150000 + (slice(6, 3) % 600) * 1000;
+    const lengthOfResidence = 1 + (slice(9) % 20);
+    const isOwner = slice(11) % 4 !== 0;
+
+    return {
+      firstName,
+      lastName,
+      address: `${100 + (slice(13, 3) % 9800)} ${pick(MOCK_STREETS, 16)}`,
+      city: location.city,
+      state: location.state,
+      zip: location.zip,
+      gender: slice(18) % 2 === 0 ? 'M' : 'F',
+      birthDate: `${1950 + (slice(20) % 50)}-${String(1 + (slice(22) % 12)).padStart(2, '0')}-${String(1 + (slice(24) % 28)).padStart(2, '0')}`,
+      email,
+      bestEmail: email,
+      bestEmailQuality: slice(26) % 5,
+      emailCandidates: [
+        { email, md5: hash, optIn: slice(27) % 2 === 0, qualityLevel: slice(26) % 5, rankOrder: 1, updateDate: '2025-01-15' },
+        { email: `${firstName[0]}${lastName}${slice(28) % 100}@example.net`.toLowerCase(), optIn: true, qualityLevel: slice(29) % 5, rankOrder: 2, updateDate: '2024-06-01' },
+      ],
+      householdIncome: pick(MOCK_INCOME_BANDS, 28),
+      homeOwnership: isOwner ? 'Homeowner' : 'Renter',
+      lengthOfResidence,
+      age: 25 + (slice(30) % 50),
+      maritalStatus: pick(MOCK_MARITAL_STATUSES, 8),
+      householdPersons: 1 + (slice(10) % 5),
+      householdChildren: slice(12) % 4,
+      ...(isOwner ? {
+        homePrice,
+        homeValue: Math.round(homePrice * (1 + lengthOfResidence * 0.04)),
+        mortgageAmount: Math.round(homePrice * 0.8),
+        mortgageAge: lengthOfResidence,
+        mortgageLoanType: pick(MOCK_LOAN_TYPES, 14),
+      } : {}),
+    };
+  }
+}
+
+export const enrichmentProviders: Record<EnrichmentProviderName, EnrichmentProvider> = {
+  audience_acuity: new AudienceAcuityProvider(),
+  mock: new MockEnrichmentProvider(),
+};
+
+export function isEnrichmentProviderName(name: unknown): name is EnrichmentProviderName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(enrichmentProviders, name);
+}
+
+/**
+ * Whether a CID may be switched to a provider. Fixture data must never be stored as real enrichment
+ * for a live account, so the mock provider can't be chosen per CID in production.
+ */
+export function isSelectableProvider(name: EnrichmentProviderName): boolean {
+  return name !== 'mock' || process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * ENRICHMENT_PROVIDER picks the environment default. Without it, development falls back to the
+ * mock provider when Audience Acuity credentials are missing; production always uses Audience Acuity.
+ */
+export function getDefaultProviderName(): EnrichmentProviderName {
+  const configured = process.env.ENRICHMENT_PROVIDER;
+  if (isEnrichmentProviderName(configured)) {
+    return configured;
+  }
+  if (process.env.NODE_ENV !== 'production' && !hasAudienceAcuityCredentials()) {
+    return 'mock';
+  }
+  return 'audience_acuity';
+}
+
+/**
+ * Provider for a CID - settings.enrichmentProvider overrides the environment default, unless it is
+ * an override production doesn't allow
+ */
+export function getEnrichmentProvider(account?: { settings?: unknown } | null): EnrichmentProvider {
+  const override = (account?.settings as any)?.enrichmentProvider;
+  return enrichmentProviders[isEnrichmentProviderName(override) && isSelectableProvider(override) ? override : getDefaultProviderName()];
+}
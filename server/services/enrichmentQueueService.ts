@@ -0,0 +1,174 @@
+import os from 'os';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { ENRICHMENT_CONFIG, attemptEnrichment, markEnrichmentFailed, type EnrichmentAttemptResult } from './enrichmentService';
+import type { EmailCapture, EnrichmentJob } from '@shared/schema';
+
+type EnqueueableCapture = Pick<EmailCapture, 'id' | 'cid' | 'hashedEmail'> & Partial<Pick<EmailCapture, 'trafficStatus'>>;
+
+/**
+ * Durable enrichment queue backed by the enrichment_jobs table.
+ * Capture paths only enqueue; the worker leases jobs, calls the provider and
+ * reschedules transient failures with exponential backoff until they succeed
+ * or are marked dead.
+ */
+export class EnrichmentQueueService {
+  private workerId = `${os.hostname()}-${process.pid}`;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  /**
+   * Enqueue a single capture for enrichment
+   */
+  async enqueue(capture: EnqueueableCapture, source: string): Promise<EnrichmentJob | null> {
+    const [job] = await this.enqueueMany([capture], source);
+    return job || null;
+  }
+
+  /**
+   * Enqueue captures for enrichment, skipping any without an MD5, tagged as bot/off-domain traffic, or with a job already active
+   */
+  async enqueueMany(captures: EnqueueableCapture[], source: string, options: { refresh?: boolean; bypassCache?: boolean } = {}): Promise<EnrichmentJob[]> {
+    const jobs = captures
+      .filter(capture => capture.hashedEmail && (!capture.trafficStatus || capture.trafficStatus === 'valid'))
+      .map(capture => ({
+        captureId: capture.id,
+        cid: capture.cid || 'default',
+        hashedEmail: capture.hashedEmail!,
+        source,
+        maxAttempts: ENRICHMENT_CONFIG.MAX_RETRIES,
+        refresh: !!options.refresh,
+        bypassCache: !!options.bypassCache,
+      }));
+
+    const created = await storage.enqueueEnrichmentJobs(jobs);
+    if (created.length > 0) {
+      console.log(`[${new Date().toISOString()}] Enqueued ${created.length} enrichment jobs from ${source}`);
+    }
+    return created;
+  }
+
+  start(): void {
+    if (this.intervalId) return;
+
+    this.intervalId = setInterval(() => {
+      this.processBatch().catch(error => {
+        console.error(`[${new Date().toISOString()}] Enrichment queue worker error:`, error);
+      });
+    }, ENRICHMENT_CONFIG.WORKER_POLL_INTERVAL_MS);
+
+    console.log(`[${new Date().toISOString()}] Enrichment queue worker ${this.workerId} started`);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Process up to a batch of due jobs, leasing only as many as run concurrently at a time so no lease
+   * runs down while its job waits behind others
+   */
+  async processBatch(): Promise<number> {
+    if (this.isProcessing) return 0;
+    this.isProcessing = true;
+
+    try {
+      let processed = 0;
+      while (processed < ENRICHMENT_CONFIG.BATCH_SIZE) {
+        const jobs = await storage.claimEnrichmentJobs(this.workerId, ENRICHMENT_CONFIG.CONCURRENT_REQUESTS, ENRICHMENT_CONFIG.VISIBILITY_TIMEOUT_MS);
+        await Promise.allSettled(jobs.map(job => this.processJob(job)));
+        processed += jobs.length;
+        if (jobs.length < ENRICHMENT_CONFIG.CONCURRENT_REQUESTS) break;
+      }
+
+      return processed;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async processJob(job: EnrichmentJob): Promise<void> {
+    const capture = await storage.getEmailCaptureById(job.captureId);
+    if (!capture) {
+      await this.finish(job, 'dead', { lastError: 'Capture record not found' });
+      return;
+    }
+
+    let result: EnrichmentAttemptResult;
+    try {
+      result = await attemptEnrichment(capture, { bypassCache: job.bypassCache, refresh: job.refresh });
+    } catch (error: any) {
+      result = { success: false, retryable: true, error: error?.message || 'Unknown error' };
+    }
+
+    // Provider answered with no data - the job itself completed, the record is already marked failed
+    if (result.success || result.noData) {
+      await this.finish(job, 'succeeded', {
+        result: { enriched: result.success && !result.skipped, skipped: !!result.skipped, noData: !!result.noData, cached: !!result.cached, provider: result.provider || null },
+        lastError: null,
+      });
+      return;
+    }
+
+    const errorMessage = (result.error || 'Unknown error').substring(0, 500);
+
+    // Over the CID's enrichment cap or the provider circuit is open - park the job without using up an attempt
+    if (result.deferredUntil) {
+      await this.release(job, {
+        status: 'queued',
+        attempts: Math.max(job.attempts - 1, 0),
+        runAt: result.deferredUntil,
+        leasedBy: null,
+        leaseExpiresAt: null,
+        lastError: errorMessage,
+      });
+      return;
+    }
+
+    if (result.retryable && job.attempts < job.maxAttempts) {
+      const delayMs = ENRICHMENT_CONFIG.JOB_RETRY_DELAY_BASE * Math.pow(ENRICHMENT_CONFIG.RETRY_DELAY_MULTIPLIER, job.attempts - 1);
+      await this.release(job, {
+        status: 'failed',
+        runAt: new Date(Date.now() + delayMs),
+        leasedBy: null,
+        leaseExpiresAt: null,
+        lastError: errorMessage,
+      });
+      console.log(`[${new Date().toISOString()}] 🔄 Enrichment job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delayMs}ms`);
+      return;
+    }
+
+    // A refresh that keeps failing leaves previously enriched data in place
+    if (!(job.refresh && capture.enrichmentStatus === 'completed')) {
+      await markEnrichmentFailed(capture.id, errorMessage, job.attempts);
+    }
+    await this.finish(job, 'dead', { lastError: errorMessage });
+    logger.error('enrichment-queue', `Enrichment job ${job.id} is dead after ${job.attempts} attempts: ${errorMessage}`, { jobId: job.id, captureId: job.captureId }, job.cid, 'ENRICHMENT_JOB_DEAD');
+  }
+
+  private async finish(job: EnrichmentJob, status: 'succeeded' | 'dead', updates: Partial<EnrichmentJob>): Promise<void> {
+    await this.release(job, {
+      ...updates,
+      status,
+      leasedBy: null,
+      leaseExpiresAt: null,
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Write a job's outcome only while this worker still holds its lease - an expired lease may have
+   * been reclaimed, and the new holder's result wins
+   */
+  private async release(job: EnrichmentJob, updates: Partial<EnrichmentJob>): Promise<void> {
+    const written = await storage.updateEnrichmentJob(job.id, updates, this.workerId);
+    if (!written) {
+      console.warn(`[${new Date().toISOString()}] Enrichment job ${job.id} lease was reclaimed by another worker - result not recorded`);
+    }
+  }
+}
+
+export const enrichmentQueueService = new EnrichmentQueueService();
@@ -0,0 +1,106 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { enrichmentProviders, isEnrichmentProviderName } from './enrichmentProviders';
+import { diffCaptureFields, saveEmailCandidates, toCaptureFields } from './enrichmentService';
+import { leadScoringService } from './leadScoringService';
+import { homeEquityService, type HomeEquityAssumptions } from './homeEquityService';
+
+export interface RemapResult {
+  dryRun: boolean;
+  scanned: number;
+  changed: number;
+  unchanged: number;
+  errors: number;
+  fields: Record<string, number>; // How many records each field changed on
+  sample: Array<{ captureId: number; cid: string; hashedEmail: string; fromVersion: number | null; toVersion: number; changes: Record<string, { from: any; to: any }> }>;
+}
+
+const BATCH_SIZE = 200;
+const SAMPLE_SIZE = 50;
+
+/**
+ * Re-runs the current provider mapper over archived raw payloads, so a mapping fix reaches existing
+ * records without paying for another lookup. Only records with an archived payload can be re-mapped.
+ */
+export class EnrichmentRemapService {
+  private isRunning = false;
+
+  async remap(options: { cid?: string; dryRun?: boolean } = {}): Promise<RemapResult> {
+    if (this.isRunning) {
+      throw new Error('Enrichment re-map is already running');
+    }
+
+    const result: RemapResult = { dryRun: !!options.dryRun, scanned: 0, changed: 0, unchanged: 0, errors: 0, fields: {}, sample: [] };
+
+    this.isRunning = true;
+    try {
+      let afterCaptureId = 0;
+      const assumptionsByCid = new Map<string, HomeEquityAssumptions>();
+
+      while (true) {
+        const rows = await storage.getLatestEnrichmentPayloads({ cid: options.cid, afterCaptureId, limit: BATCH_SIZE });
+        if (rows.length === 0) break;
+        afterCaptureId = rows[rows.length - 1].payload.captureId;
+
+        for (const { payload, capture } of rows) {
+          result.scanned++;
+          try {
+            if (!isEnrichmentProviderName(payload.provider)) {
+              throw new Error(`Unknown enrichment provider: ${payload.provider}`);
+            }
+            const provider = enrichmentProviders[payload.provider];
+            const enrichment = provider.normalize(payload.payload, capture.hashedEmail);
+            const assumptions = assumptionsByCid.get(capture.cid) ?? homeEquityService.getAssumptions(await storage.getCidAccount(capture.cid));
+            assumptionsByCid.set(capture.cid, assumptions);
+            const captureFields = toCaptureFields(enrichment);
+            const fields = { ...captureFields, ...homeEquityService.calculate(captureFields, assumptions) };
+            const changes = diffCaptureFields(capture, fields);
+
+            if (Object.keys(changes).length === 0) {
+              result.unchanged++;
+              // Columns match, but a newer mapper may still add data kept outside them (email candidates)
+              if (!options.dryRun && capture.enrichmentMapperVersion !== provider.mapperVersion) {
+                await storage.updateEmailCapture(capture.id, { enrichmentMapperVersion: provider.mapperVersion });
+                await saveEmailCandidates(capture, enrichment);
+              }
+              continue;
+            }
+
+            result.changed++;
+            for (const field of Object.keys(changes)) {
+              result.fields[field] = (result.fields[field] || 0) + 1;
+            }
+            if (result.sample.length < SAMPLE_SIZE) {
+              result.sample.push({
+                captureId: capture.id,
+                cid: capture.cid,
+                hashedEmail: capture.hashedEmail,
+                fromVersion: capture.enrichmentMapperVersion,
+                toVersion: provider.mapperVersion,
+                changes,
+              });
+            }
+
+            if (!options.dryRun) {
+              await storage.updateEmailCapture(capture.id, { ...fields, enrichmentMapperVersion: provider.mapperVersion });
+              await saveEmailCandidates(capture, enrichment);
+              leadScoringService.queueRescore(capture.id);
+            }
+          } catch (error) {
+            result.errors++;
+            console.error(`[${new Date().toISOString()}] Failed to re-map enrichment for capture ${capture.id}:`, error);
+          }
+        }
+      }
+
+      if (!options.dryRun) {
+        logger.info('enrichment-remap', `Re-mapped ${result.changed} of ${result.scanned} archived enrichment payloads`, { cid: options.cid || null, fields: result.fields, errors: result.errors }, options.cid || 'system', 'ENRICHMENT_REMAP_COMPLETE');
+      }
+      return result;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+export const enrichmentRemapService = new EnrichmentRemapService();
@@ -1,13 +1,22 @@
 import { storage } from '../storage';
-import { enrichWithAudienceAcuity, mapEnrichmentToDbFields } from './audienceAcuityService';
+import { enrichmentCacheService } from './enrichmentCacheService';
+import { emailSelectionService } from './emailSelectionService';
+import { leadScoringService } from './leadScoringService';
+import { homeEquityService } from './homeEquityService';
+import { getEnrichmentProvider, type EnrichmentProvider, type EnrichmentProviderName } from './enrichmentProviders';
+import type { RealEstateEnrichmentData } from '@shared/schema';
+import { parseIncomeRange } from '@shared/incomeRange';
 
 // Enrichment configuration
-const ENRICHMENT_CONFIG = {
+export const ENRICHMENT_CONFIG = {
   MAX_RETRIES: 3,
   RETRY_DELAY_BASE: 1000, // 1 second base delay
   BATCH_SIZE: 10, // Process 10 records at a time
   CONCURRENT_REQUESTS: 3, // Max 3 concurrent API calls
   RETRY_DELAY_MULTIPLIER: 2, // Exponential backoff
+  JOB_RETRY_DELAY_BASE: 60 * 1000, // 1 minute base backoff for queued jobs
+  VISIBILITY_TIMEOUT_MS: 2 * 60 * 1000, // Running jobs are reclaimed if not finished within 2 minutes
+  WORKER_POLL_INTERVAL_MS: 5 * 1000, // Queue worker polls every 5 seconds
 };
 
 // Track enrichment statistics
@@ -51,6 +60,46 @@ function isRetryableError(error: any): boolean {
   return false; // Default to not retrying unknown errors
 }
 
+/**
+ * Maps normalized provider data to email_captures columns
+ */
+export function toCaptureFields(data: RealEstateEnrichmentData) {
+  const decimal = (value?: number) => typeof value === 'number' ? String(value) : null;
+  const income = parseIncomeRange(data.householdIncome);
+
+  return {
+    firstName: data.firstName || null,
+    lastName: data.lastName || null,
+    address: data.address || null,
+    city: data.city || null,
+    state: data.state || null,
+    zip: data.zip || null,
+    gender: data.gender || null,
+    birthDate: data.birthDate || null,
+    email: data.email || null,
+    bestEmail: data.bestEmail ?? null,
+    bestEmailQuality: typeof data.bestEmailQuality === 'number' ? data.bestEmailQuality : null,
+    householdIncome: data.householdIncome || null,
+    householdIncomeMin: income?.min ?? null,
+    householdIncomeMax: income?.max ?? null,
+    householdIncomeMidpoint: income?.midpoint ?? null,
+    homeOwnership: data.homeOwnership || null,
+    lengthOfResidence: data.lengthOfResidence ?? null,
+    age: data.age ?? null,
+    maritalStatus: data.maritalStatus || null,
+    householdPersons: data.householdPersons ?? null,
+    householdChildren: data.householdChildren ?? null,
+    mortgageLoanType: data.mortgageLoanType || null,
+    mortgageAmount: decimal(data.mortgageAmount),
+    mortgageAge: data.mortgageAge ?? null,
+    homePrice: decimal(data.homePrice),
+    homeValue: decimal(data.homeValue),
+    ips: data.ips ? JSON.stringify(data.ips) : null,
+    enrichmentStatus: "completed" as const,
+    updatedAt: new Date(),
+  };
+}
+
 /**
  * Sleep utility for retry delays
  */
@@ -58,16 +107,54 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+export interface EnrichmentAttemptResult {
+  success: boolean;
+  retryable: boolean;
+  skipped?: boolean;
+  noData?: boolean;
+  cached?: boolean; // Served from the enrichment cache instead of a provider call
+  provider?: EnrichmentProviderName;
+  deferredUntil?: Date; // CID hit its enrichment cap or the provider circuit is open - try again then
+  error?: string;
+}
+
+export interface EnrichmentOptions {
+  bypassCache?: boolean; // Admin override - always call the provider and refresh the cache
+  refresh?: boolean; // Re-enrich a completed/failed record and record what changed
+}
+
 /**
- * Enriches a single email capture record with retry logic
+ * Enrichment columns whose value differs between the current record and the new provider data.
+ * Numbers are compared by value so "350000.00" from the database matches 350000 from the provider.
+ */
+export function diffCaptureFields(capture: Record<string, any>, fields: Record<string, any>): Record<string, { from: any; to: any }> {
+  const changes: Record<string, { from: any; to: any }> = {};
+  const normalize = (value: any) => {
+    if (value === null || value === undefined || value === '') return null;
+    const number = Number(value);
+    return typeof value !== 'boolean' && !isNaN(number) ? number : String(value);
+  };
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (field === 'updatedAt' || field === 'enrichmentStatus' || field === 'enrichmentCheckedAt' || field === 'enrichmentMapperVersion') continue;
+    if (normalize(capture[field]) !== normalize(value)) {
+      changes[field] = { from: capture[field] ?? null, to: value ?? null };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Makes a single enrichment attempt for an email capture record without retrying.
+ * Provider errors are returned rather than written to the record so the caller
+ * (inline retry loop or queue worker) decides whether the failure is final.
  * @param capture - The email capture record to enrich
- * @param retryCount - Current retry attempt (default 0)
- * @returns Promise<{ success: boolean; retried: boolean; error?: string }>
+ * @param options - bypassCache forces a provider call
  */
-export async function enrichAndSave(capture: any, retryCount: number = 0): Promise<{ success: boolean; retried: boolean; error?: string }> {
-  // Skip if no hashed email
-  if (!capture.hashedEmail) {
-    return { success: true, retried: false };
+export async function attemptEnrichment(capture: any, options: EnrichmentOptions = {}): Promise<EnrichmentAttemptResult> {
+  // Skip if no hashed email or the hit was tagged as bot/off-domain traffic
+  if (!capture.hashedEmail || (capture.trafficStatus && capture.trafficStatus !== 'valid')) {
+    return { success: true, retryable: false, skipped: true };
   }
   
   // Check if record actually has enriched data, not just 'completed' status
@@ -76,63 +163,193 @@ export async function enrichAndSave(capture: any, retryCount: number = 0): Promi
     capture.firstName !== '' && capture.lastName !== '' && capture.email !== '' &&
     capture.firstName !== null && capture.lastName !== null && capture.email !== null;
     
-  if (capture.enrichmentStatus === 'completed' && hasActualEnrichedData) {
-    return { success: true, retried: false };
+  if (capture.enrichmentStatus === 'completed' && hasActualEnrichedData && !options.refresh) {
+    return { success: true, retryable: false, skipped: true };
   }
 
   const md5Short = capture.hashedEmail.substring(0, 8);
-  console.log(`[${new Date().toISOString()}] Starting enrichment for MD5: ${md5Short}... (ID: ${capture.id}) ${retryCount > 0 ? `(Retry ${retryCount}/${ENRICHMENT_CONFIG.MAX_RETRIES})` : ''}`);
 
   try {
-    // Get enrichment data from Audience Acuity
-    const enrichment = await enrichWithAudienceAcuity(capture.hashedEmail);
+    // The CID's provider answers, from the cache when the response is fresh
+    const account = await storage.getCidAccount(capture.cid || 'default');
+    const provider = getEnrichmentProvider(account);
+    const { raw, cached, budget, circuitOpenUntil } = await enrichmentCacheService.fetch(provider, capture.hashedEmail, {
+      ...options,
+      cid: capture.cid || 'default',
+      captureId: capture.id,
+    });
+
+    if (circuitOpenUntil) {
+      const error = `${provider.name} circuit open - enrichment paused`;
+      console.log(`[${new Date().toISOString()}] ⏸️ ${error}, deferring MD5 ${md5Short}... until ${circuitOpenUntil.toISOString()}`);
+      return { success: false, retryable: false, deferredUntil: circuitOpenUntil, error };
+    }
+
+    if (budget && !budget.allowed) {
+      const error = `${budget.period === 'daily' ? 'Daily' : 'Monthly'} enrichment cap reached for CID ${capture.cid}`;
+      console.log(`[${new Date().toISOString()}] ⏸️ ${error} - ${budget.action === 'defer' ? `deferring MD5 ${md5Short}... until ${budget.resumeAt?.toISOString()}` : `refusing MD5 ${md5Short}...`}`);
+      return budget.action === 'defer'
+        ? { success: false, retryable: false, deferredUntil: budget.resumeAt, error }
+        : { success: false, retryable: false, error };
+    }
     
-    if (enrichment) {
-      // Map enrichment data to database fields, passing original MD5 to match correct email
-      const enrichmentFields = mapEnrichmentToDbFields(enrichment, capture.hashedEmail);
-      
-      // Debug: Log the enrichment data being saved
-      // Debug: Enrichment data processing completed
+    const refresh = options.refresh && (capture.enrichmentStatus === 'completed' || capture.enrichmentStatus === 'failed');
+
+    if (raw) {
+      // Normalize the provider response, passing original MD5 to match correct email
+      const enrichment = provider.normalize(raw, capture.hashedEmail);
+      const captureFields = toCaptureFields(enrichment);
+      const enrichmentFields = {
+        ...captureFields,
+        ...homeEquityService.calculate(captureFields, homeEquityService.getAssumptions(account)),
+        enrichmentCheckedAt: new Date(),
+        enrichmentMapperVersion: provider.mapperVersion,
+      };
       
       // Update the database record with enriched data
       await storage.updateEmailCapture(capture.id, enrichmentFields);
-      
-      console.log(`[${new Date().toISOString()}] ✅ Successfully enriched MD5: ${md5Short}... (ID: ${capture.id}) ${retryCount > 0 ? `after ${retryCount} retries` : ''}`);
-      return { success: true, retried: retryCount > 0 };
+      await archivePayload(capture, provider, raw, cached);
+      await saveEmailCandidates(capture, enrichment);
+      leadScoringService.queueRescore(capture.id);
+
+      if (refresh) {
+        const changes = diffCaptureFields(capture, enrichmentFields);
+        const updated = Object.keys(changes).length > 0 || capture.enrichmentStatus !== 'completed';
+        await recordRefresh(capture, provider.name, updated ? 'updated' : 'unchanged', changes);
+      }
+      return { success: true, retryable: false, cached, provider: provider.name };
+    } else if (refresh && capture.enrichmentStatus === 'completed') {
+      // The provider lost the match - keep the data we have rather than downgrading the record
+      await storage.updateEmailCapture(capture.id, { enrichmentCheckedAt: new Date() });
+      await recordRefresh(capture, provider.name, 'no_data', {});
+
+      console.log(`[${new Date().toISOString()}] ⚠️ Refresh found no enrichment data for MD5: ${md5Short}... (ID: ${capture.id}), keeping existing data`);
+      return { success: false, retryable: false, noData: true, provider: provider.name, error: "No enrichment data available" };
     } else {
       // Mark as failed if no enrichment data found (don't retry - data not available)
       await storage.updateEmailCapture(capture.id, {
         enrichmentStatus: "failed",
         enrichmentError: "No enrichment data available",
+        enrichmentCheckedAt: new Date(),
         updatedAt: new Date(),
       });
+      if (refresh) {
+        await recordRefresh(capture, provider.name, 'no_data', {});
+      }
       
-      console.log(`[${new Date().toISOString()}] ❌ No enrichment data found for MD5: ${md5Short}... (ID: ${capture.id})`);
-      return { success: false, retried: false, error: "No enrichment data available" };
+      console.log(`[${new Date().toISOString()}] ❌ No enrichment data found for MD5: ${md5Short}... (ID: ${capture.id}, provider: ${provider.name})`);
+      return { success: false, retryable: false, noData: true, provider: provider.name, error: "No enrichment data available" };
     }
   } catch (error: any) {
     const errorMessage = error?.message || 'Unknown error';
     console.error(`[${new Date().toISOString()}] ❌ Enrichment error for MD5 ${md5Short}... (ID: ${capture.id}):`, errorMessage);
-    
-    // Check if error is retryable and we haven't exceeded max retries
-    if (isRetryableError(error) && retryCount < ENRICHMENT_CONFIG.MAX_RETRIES) {
-      const delayMs = ENRICHMENT_CONFIG.RETRY_DELAY_BASE * Math.pow(ENRICHMENT_CONFIG.RETRY_DELAY_MULTIPLIER, retryCount);
-      console.log(`[${new Date().toISOString()}] 🔄 Retrying enrichment for MD5 ${md5Short}... in ${delayMs}ms (attempt ${retryCount + 1}/${ENRICHMENT_CONFIG.MAX_RETRIES})`);
-      
-      await sleep(delayMs);
-      return await enrichAndSave(capture, retryCount + 1);
-    }
-    
-    // Mark as permanently failed
-    await storage.updateEmailCapture(capture.id, {
-      enrichmentStatus: "failed",
-      enrichmentError: errorMessage.substring(0, 500), // Limit error message length
-      retryCount: retryCount,
-      updatedAt: new Date(),
+    return { success: false, retryable: isRetryableError(error), error: errorMessage };
+  }
+}
+
+/**
+ * Keep the raw response so a mapper fix can be re-applied without another lookup - a failed write here must not fail the enrichment
+ */
+async function archivePayload(capture: any, provider: EnrichmentProvider, raw: any, cached: boolean): Promise<void> {
+  try {
+    await storage.recordEnrichmentPayload({
+      captureId: capture.id,
+      cid: capture.cid || 'default',
+      hashedEmail: capture.hashedEmail,
+      provider: provider.name,
+      mapperVersion: provider.mapperVersion,
+      payload: raw,
+      cached,
     });
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Failed to archive enrichment payload for capture ${capture.id}:`, error);
+  }
+}
+
+/**
+ * Replace the capture's stored email candidates - a failed write here must not fail the enrichment
+ */
+export async function saveEmailCandidates(capture: any, enrichment: RealEstateEnrichmentData): Promise<void> {
+  if (!enrichment.emailCandidates) return;
+  try {
+    await emailSelectionService.saveCandidates(capture, enrichment.emailCandidates);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Failed to save email candidates for capture ${capture.id}:`, error);
+  }
+}
+
+/**
+ * Audit row for a re-enrichment - a failed write here must not fail the enrichment itself
+ */
+async function recordRefresh(capture: any, provider: EnrichmentProviderName, outcome: 'updated' | 'unchanged' | 'no_data', changes: Record<string, { from: any; to: any }>): Promise<void> {
+  try {
+    await storage.recordEnrichmentRefresh({
+      captureId: capture.id,
+      cid: capture.cid || 'default',
+      hashedEmail: capture.hashedEmail,
+      provider,
+      previousStatus: capture.enrichmentStatus,
+      outcome,
+      changes,
+    });
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Failed to record enrichment refresh for capture ${capture.id}:`, error);
+  }
+}
+
+/**
+ * Marks an email capture record as permanently failed
+ */
+export async function markEnrichmentFailed(captureId: number, errorMessage: string, retryCount: number): Promise<void> {
+  await storage.updateEmailCapture(captureId, {
+    enrichmentStatus: "failed",
+    enrichmentError: errorMessage.substring(0, 500), // Limit error message length
+    retryCount: retryCount,
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Enriches a single email capture record with retry logic
+ * @param capture - The email capture record to enrich
+ * @param retryCount - Current retry attempt (default 0)
+ * @param options - bypassCache forces a provider call instead of serving a cached response
+ * @returns Promise<{ success: boolean; retried: boolean; error?: string }>
+ */
+export async function enrichAndSave(capture: any, retryCount: number = 0, options: EnrichmentOptions = {}): Promise<{ success: boolean; retried: boolean; error?: string }> {
+  const md5Short = capture.hashedEmail?.substring(0, 8);
+  if (capture.hashedEmail) {
+    console.log(`[${new Date().toISOString()}] Starting enrichment for MD5: ${md5Short}... (ID: ${capture.id}) ${retryCount > 0 ? `(Retry ${retryCount}/${ENRICHMENT_CONFIG.MAX_RETRIES})` : ''}`);
+  }
+
+  const result = await attemptEnrichment(capture, options);
+
+  if (result.success) {
+    if (!result.skipped) {
+      console.log(`[${new Date().toISOString()}] ✅ Successfully enriched MD5: ${md5Short}... (ID: ${capture.id}) ${retryCount > 0 ? `after ${retryCount} retries` : ''}`);
+    }
+    return { success: true, retried: retryCount > 0 };
+  }
+
+  // No data, or deferred by the CID's enrichment cap or an open provider circuit - the record stays pending for a later run
+  if (result.noData || result.deferredUntil) {
+    return { success: false, retried: false, error: result.error };
+  }
+
+  // Check if error is retryable and we haven't exceeded max retries
+  if (result.retryable && retryCount < ENRICHMENT_CONFIG.MAX_RETRIES) {
+    const delayMs = ENRICHMENT_CONFIG.RETRY_DELAY_BASE * Math.pow(ENRICHMENT_CONFIG.RETRY_DELAY_MULTIPLIER, retryCount);
+    console.log(`[${new Date().toISOString()}] 🔄 Retrying enrichment for MD5 ${md5Short}... in ${delayMs}ms (attempt ${retryCount + 1}/${ENRICHMENT_CONFIG.MAX_RETRIES})`);
     
-    return { success: false, retried: retryCount > 0, error: errorMessage };
+    await sleep(delayMs);
+    return await enrichAndSave(capture, retryCount + 1, options);
   }
+  
+  // Mark as permanently failed
+  const errorMessage = result.error || 'Unknown error';
+  await markEnrichmentFailed(capture.id, errorMessage, retryCount);
+  
+  return { success: false, retried: retryCount > 0, error: errorMessage };
 }
 
 /**
@@ -193,6 +410,11 @@ export async function batchEnrichAndSave(captures: any[]): Promise<EnrichmentSta
       return false;
     }
     
+    // Bot and off-domain hits are never enriched
+    if (capture.trafficStatus && capture.trafficStatus !== 'valid') {
+      return false;
+    }
+    
     // Check if enrichment is needed based on multiple criteria - same as bulk enrichment endpoint
     const hasNoEnrichmentStatus = !capture.enrichmentStatus;
     const hasFailedStatus = capture.enrichmentStatus === 'pending' || capture.enrichmentStatus === 'failed';
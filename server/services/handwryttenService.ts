@@ -1,5 +1,7 @@
 import axios from 'axios';
 import { storage } from '../storage';
+import { visitIntentService, type IntentTrigger } from './visitIntentService';
+import { segmentService } from './segmentService';
 
 interface HandwryttenRecipient {
   name: string;
@@ -257,6 +259,17 @@ export class HandwryttenService {
       
       // Get enriched contacts with complete address information for this CID
       const allContacts = cid ? await storage.getEmailCapturesByCid(cid) : await storage.getEmailCaptures();
+
+      // Each CID can hold cards back until a contact shows enough browsing intent
+      const accounts = cid ? [await storage.getCidAccount(cid)] : await storage.getCidAccounts();
+      const triggers = new Map<string, IntentTrigger>(
+        accounts.filter(Boolean).map((account: any) => [account.cid, visitIntentService.getOutreachTrigger(account, 'handwrytten')])
+      );
+      // ...and limit cards to a saved segment
+      const segmentMembers = new Map<string, Set<number> | null>();
+      for (const account of accounts.filter(Boolean)) {
+        segmentMembers.set(account.cid, await segmentService.getSyncMembers(account, 'handwrytten'));
+      }
       
       // Filter contacts that have complete address information and are enriched
       // AND apply delta sync logic - only process contacts that haven't been synced to Handwrytten yet
@@ -272,6 +285,12 @@ export class HandwryttenService {
           contact.zip;
         
         if (!hasCompleteData) return false;
+
+        const trigger = triggers.get(contact.cid);
+        if (trigger && !visitIntentService.meetsTrigger(contact, trigger)) return false;
+
+        const members = segmentMembers.get(contact.cid);
+        if (members && !members.has(contact.id)) return false;
         
         // Delta sync logic: Include if never synced to Handwrytten OR updated since last sync
         const neverSynced = !contact.handwryttenSyncedAt;
@@ -0,0 +1,163 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import type { EmailCapture } from '@shared/schema';
+
+// Per-CID assumptions stored in cidAccounts.settings.homeEquity
+export interface HomeEquityAssumptions {
+  interestRate: number; // Annual rate (%) used to amortize mortgageAmount
+  termYears: number; // Loan term the balance amortizes over
+}
+
+// Derived columns on email_captures - decimals are strings, as Drizzle reads them
+export interface HomeEquityFields {
+  estimatedLoanBalance: string | null;
+  estimatedEquity: string | null;
+  equityPercent: string | null;
+  loanToValue: string | null;
+  appreciationAmount: string | null;
+  appreciationPercent: string | null;
+}
+
+type EquityInputs = Partial<Pick<EmailCapture, 'homeValue' | 'homePrice' | 'mortgageAmount' | 'mortgageAge'>>;
+
+export interface HomeEquityRunResult {
+  accounts: number;
+  scanned: number;
+  updated: number;
+}
+
+const DEFAULT_ASSUMPTIONS: HomeEquityAssumptions = {
+  interestRate: 6.5,
+  termYears: 30,
+};
+
+const MIN_PROPERTY_VALUE = 1000; // Smaller values are placeholders, not prices
+const MAX_PERCENT = 9999.99; // Fits the percent columns
+
+// Query parameter -> the column it filters and whether it is a floor or a ceiling
+const LIST_FILTERS: Record<string, { field: keyof HomeEquityFields; bound: 'min' | 'max' }> = {
+  minEquityPercent: { field: 'equityPercent', bound: 'min' },
+  maxLoanToValue: { field: 'loanToValue', bound: 'max' },
+  minEstimatedEquity: { field: 'estimatedEquity', bound: 'min' },
+};
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+}
+
+const money = (value: number) => value.toFixed(2);
+const percent = (value: number) => Math.max(-MAX_PERCENT, Math.min(MAX_PERCENT, value)).toFixed(2);
+
+/**
+ * Estimated equity, loan-to-value, appreciation and remaining loan balance derived from the provider's
+ * home value, purchase price, mortgage amount and mortgage age. The balance amortizes the original
+ * mortgage amount over mortgageAge years at the CID's assumed rate and term.
+ */
+export class HomeEquityService {
+  getAssumptions(account: any): HomeEquityAssumptions {
+    return { ...DEFAULT_ASSUMPTIONS, ...(account?.settings?.homeEquity || {}) };
+  }
+
+  /**
+   * Remaining principal after mortgageAge years of payments. Without a mortgage age the amount is
+   * taken as the current balance.
+   */
+  estimateBalance(mortgageAmount: number, mortgageAge: number | null, assumptions: HomeEquityAssumptions): number {
+    if (mortgageAge === null || mortgageAge <= 0) return mortgageAmount;
+
+    const payments = Math.round(assumptions.termYears * 12);
+    const paid = Math.min(Math.round(mortgageAge * 12), payments);
+    const monthlyRate = assumptions.interestRate / 100 / 12;
+
+    if (monthlyRate === 0) {
+      return mortgageAmount * (1 - paid / payments);
+    }
+    const growth = Math.pow(1 + monthlyRate, payments);
+    return mortgageAmount * (growth - Math.pow(1 + monthlyRate, paid)) / (growth - 1);
+  }
+
+  calculate(capture: EquityInputs, assumptions: HomeEquityAssumptions): HomeEquityFields {
+    const homeValue = toNumber(capture.homeValue);
+    const homePrice = toNumber(capture.homePrice);
+    const mortgageAmount = toNumber(capture.mortgageAmount);
+    const hasValue = homeValue !== null && homeValue >= MIN_PROPERTY_VALUE;
+    const hasPrice = homePrice !== null && homePrice >= MIN_PROPERTY_VALUE;
+
+    const balance = mortgageAmount !== null && mortgageAmount >= 0
+      ? this.estimateBalance(mortgageAmount, capture.mortgageAge ?? null, assumptions)
+      : null;
+    const equity = hasValue && balance !== null ? homeValue - balance : null;
+
+    return {
+      estimatedLoanBalance: balance === null ? null : money(balance),
+      estimatedEquity: equity === null ? null : money(equity),
+      equityPercent: hasValue && equity !== null ? percent((equity / homeValue) * 100) : null,
+      loanToValue: hasValue && balance !== null ? percent((balance / homeValue) * 100) : null,
+      appreciationAmount: hasValue && hasPrice ? money(homeValue - homePrice) : null,
+      appreciationPercent: hasValue && hasPrice ? percent(((homeValue - homePrice) / homePrice) * 100) : null,
+    };
+  }
+
+  /**
+   * Apply ?minEquityPercent=50, ?maxLoanToValue=80 and ?minEstimatedEquity=100000 to a listing.
+   * Records without an estimate never match a filter.
+   */
+  applyListQuery<T extends Partial<Record<keyof HomeEquityFields, unknown>>>(rows: T[], query: Record<string, any>): T[] {
+    let filtered = rows;
+    for (const [param, { field, bound }] of Object.entries(LIST_FILTERS)) {
+      const limit = parseFloat(query[param]);
+      if (isNaN(limit)) continue;
+
+      filtered = filtered.filter(row => {
+        const value = toNumber(row[field]);
+        return value !== null && (bound === 'min' ? value >= limit : value <= limit);
+      });
+    }
+    return filtered;
+  }
+
+  /**
+   * Recompute the derived columns for one CID or every active CID, e.g. after the assumptions change
+   * or for records enriched before the columns existed. Only rows whose values change are written.
+   */
+  async run(options: { cid?: string } = {}): Promise<HomeEquityRunResult> {
+    const accounts = options.cid
+      ? [await storage.getCidAccount(options.cid)].filter(Boolean)
+      : (await storage.getCidAccounts()).filter((account: any) => account.status === 'active');
+
+    const result: HomeEquityRunResult = { accounts: accounts.length, scanned: 0, updated: 0 };
+
+    for (const account of accounts as any[]) {
+      const assumptions = this.getAssumptions(account);
+      const captures = await storage.getEmailCapturesByCid(account.cid);
+
+      for (const capture of captures) {
+        result.scanned++;
+        const fields = this.calculate(capture, assumptions);
+        const changed = (Object.keys(fields) as Array<keyof HomeEquityFields>)
+          .some(field => toNumber(capture[field]) !== toNumber(fields[field]));
+
+        if (changed) {
+          await storage.updateHomeEquityFields(capture.id, fields);
+          result.updated++;
+        }
+      }
+    }
+
+    logger.info('home-equity', `Recalculated equity estimates for ${result.updated} of ${result.scanned} identities`, { cid: options.cid || null }, options.cid || 'system', 'HOME_EQUITY_RECALCULATED');
+    return result;
+  }
+
+  async updateAssumptions(cid: string, updates: Partial<HomeEquityAssumptions>): Promise<any | undefined> {
+    const account = await storage.getCidAccount(cid);
+    if (!account) return undefined;
+
+    return await storage.updateCidAccountSettings(cid, {
+      homeEquity: { ...this.getAssumptions(account), ...updates },
+    });
+  }
+}
+
+export const homeEquityService = new HomeEquityService();
@@ -0,0 +1,86 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { parseIncomeRange } from '@shared/incomeRange';
+import type { EmailCapture } from '@shared/schema';
+
+export interface IncomeBackfillResult {
+  scanned: number;
+  parsed: number;
+  unparseable: number;
+}
+
+type IncomeRow = Partial<Pick<EmailCapture, 'householdIncomeMin' | 'householdIncomeMax' | 'householdIncomeMidpoint'>>;
+
+const BATCH_SIZE = 500;
+
+/**
+ * Numeric household income ranges. The provider's band label stays in householdIncome for display;
+ * min, max and midpoint columns are what filters and segments compare against.
+ */
+export class HouseholdIncomeService {
+  private isRunning = false;
+
+  /**
+   * Parse the label on every record that has one but no numeric range yet - records enriched before
+   * the range columns existed. Safe to run repeatedly.
+   */
+  async backfill(): Promise<IncomeBackfillResult> {
+    if (this.isRunning) {
+      throw new Error('Household income backfill is already running');
+    }
+
+    const result: IncomeBackfillResult = { scanned: 0, parsed: 0, unparseable: 0 };
+
+    this.isRunning = true;
+    try {
+      let afterId = 0;
+
+      while (true) {
+        const rows = await storage.getCapturesMissingIncomeRange(afterId, BATCH_SIZE);
+        if (rows.length === 0) break;
+        afterId = rows[rows.length - 1].id;
+
+        for (const row of rows) {
+          result.scanned++;
+          const range = parseIncomeRange(row.householdIncome);
+          if (!range) {
+            result.unparseable++;
+            continue;
+          }
+
+          await storage.updateIncomeRange(row.id, {
+            householdIncomeMin: range.min,
+            householdIncomeMax: range.max,
+            householdIncomeMidpoint: range.midpoint,
+          });
+          result.parsed++;
+        }
+      }
+
+      if (result.scanned > 0) {
+        logger.info('household-income', `Parsed income ranges for ${result.parsed} of ${result.scanned} records`, result, 'system', 'INCOME_BACKFILL_COMPLETE');
+      }
+      return result;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Apply ?minIncome=100000&maxIncome=250000 to a listing. A band matches when it overlaps the
+   * requested range; records without a parsed range never match.
+   */
+  applyListQuery<T extends IncomeRow>(rows: T[], query: Record<string, any>): T[] {
+    const minIncome = parseInt(query.minIncome);
+    const maxIncome = parseInt(query.maxIncome);
+    if (isNaN(minIncome) && isNaN(maxIncome)) return rows;
+
+    return rows.filter(row => {
+      if (row.householdIncomeMin === null || row.householdIncomeMin === undefined) return false;
+      const bandMax = row.householdIncomeMax ?? Number.MAX_SAFE_INTEGER;
+      return (isNaN(minIncome) || bandMax >= minIncome) && (isNaN(maxIncome) || row.householdIncomeMin <= maxIncome);
+    });
+  }
+}
+
+export const householdIncomeService = new HouseholdIncomeService();
@@ -0,0 +1,199 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import type { EmailCapture } from '@shared/schema';
+
+export interface DedupeResult {
+  dryRun: boolean;
+  groups: number;
+  merged: number;
+  errors: number;
+  sample: Array<{ cid: string; hashedEmail: string; survivorId: number; mergedIds: number[] }>;
+}
+
+// Identity fields a survivor inherits from a duplicate when its own value is empty
+const FILLABLE_FIELDS: Array<keyof EmailCapture> = [
+  'originalEmail', 'enrichmentData', 'firstName', 'lastName', 'address', 'city', 'state', 'zip',
+  'gender', 'birthDate', 'email', 'bestEmail', 'bestEmailQuality', 'mortgageLoanType', 'mortgageAmount',
+  'mortgageAge', 'householdIncome', 'householdIncomeMin', 'householdIncomeMax', 'householdIncomeMidpoint',
+  'homeOwnership', 'homePrice', 'homeValue', 'lengthOfResidence',
+  'estimatedLoanBalance', 'estimatedEquity', 'equityPercent', 'loanToValue', 'appreciationAmount', 'appreciationPercent',
+  'age', 'maritalStatus', 'householdPersons', 'householdChildren', 'ips', 'metadata',
+  'mailchimpSyncedAt', 'handwryttenSyncedAt',
+];
+
+// Visit fields follow whichever capture saw the latest hit
+const VISIT_FIELDS: Array<keyof EmailCapture> = ['url', 'lastPageViewed', 'sessionId', 'var1', 'var2', 'ts'];
+
+// Mailchimp status is never filled like the fields above - the most restrictive one in the group wins,
+// so merging away an unsubscribed or cleaned duplicate can't lift the suppression
+function statusRank(status: string | null): number {
+  if (status === 'cleaned') return 3;
+  if (status === 'unsubscribed') return 2;
+  return status ? 1 : 0;
+}
+
+const BATCH_SIZE = 200;
+const MAX_BATCHES = 500; // Guard against a group that keeps failing to merge
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function timeOf(date: Date | null): number {
+  return date ? new Date(date).getTime() : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Merges duplicate (hashedEmail, cid) captures left by ingestion paths that inserted on every hit.
+ * The capture with the richest enrichment survives, keeps the earliest capturedAt, and every merge
+ * is recorded in identity_merges with a snapshot of the deleted row.
+ */
+export class IdentityMergeService {
+  private isRunning = false;
+
+  /**
+   * Completed enrichment outranks everything, then the number of populated identity fields, then age
+   */
+  richness(capture: EmailCapture): number {
+    const populated = FILLABLE_FIELDS.filter(field => !isEmpty(capture[field])).length;
+    return (capture.enrichmentStatus === 'completed' ? 1000 : 0) + populated;
+  }
+
+  /**
+   * Order a duplicate group so the survivor comes first
+   */
+  rank(captures: EmailCapture[]): EmailCapture[] {
+    return [...captures].sort((a, b) => this.richness(b) - this.richness(a) || a.id - b.id);
+  }
+
+  /**
+   * Survivor updates for a group - earliest capturedAt, empty fields filled from richer duplicates first,
+   * visit fields from the most recently updated capture
+   */
+  planMerge(survivor: EmailCapture, duplicates: EmailCapture[]): { updates: Partial<EmailCapture>; fieldsFilled: Record<number, string[]> } {
+    const updates: Record<string, any> = {};
+    const fieldsFilled: Record<number, string[]> = {};
+
+    for (const duplicate of duplicates) {
+      fieldsFilled[duplicate.id] = [];
+      for (const field of FILLABLE_FIELDS) {
+        if (isEmpty(survivor[field]) && isEmpty(updates[field]) && !isEmpty(duplicate[field])) {
+          updates[field] = duplicate[field];
+          fieldsFilled[duplicate.id].push(field);
+        }
+      }
+    }
+
+    const group = [survivor, ...duplicates];
+    const earliest = group.reduce((min, capture) => timeOf(capture.capturedAt) < timeOf(min.capturedAt) ? capture : min);
+    if (earliest.id !== survivor.id && earliest.capturedAt) {
+      updates.capturedAt = earliest.capturedAt;
+    }
+
+    const restrictive = group.reduce((best, capture) => {
+      const rank = statusRank(capture.mailchimpStatus) - statusRank(best.mailchimpStatus);
+      return rank > 0 || (rank === 0 && (capture.mailchimpStatusAt?.getTime() || 0) > (best.mailchimpStatusAt?.getTime() || 0)) ? capture : best;
+    });
+    if (restrictive.id !== survivor.id) {
+      updates.mailchimpStatus = restrictive.mailchimpStatus;
+      updates.mailchimpStatusAt = restrictive.mailchimpStatusAt;
+      fieldsFilled[restrictive.id].push('mailchimpStatus', 'mailchimpStatusAt');
+    }
+
+    const latest = group.reduce((max, capture) => (capture.updatedAt?.getTime() || 0) > (max.updatedAt?.getTime() || 0) ? capture : max);
+    if (latest.id !== survivor.id) {
+      for (const field of VISIT_FIELDS) {
+        if (!isEmpty(latest[field])) {
+          updates[field] = latest[field];
+          fieldsFilled[latest.id].push(field);
+        }
+      }
+    }
+
+    return { updates: updates as Partial<EmailCapture>, fieldsFilled };
+  }
+
+  /**
+   * Merge one (hashedEmail, cid) group into its survivor
+   */
+  async mergeGroup(captureIds: number[], options: { reason: string; mergedBy?: string | null }): Promise<{ survivorId: number; mergedIds: number[] } | null> {
+    const captures = (await Promise.all(captureIds.map(id => storage.getEmailCaptureById(id))))
+      .filter((capture): capture is EmailCapture => !!capture);
+    if (captures.length < 2) return null;
+
+    const [survivor, ...duplicates] = this.rank(captures);
+    const { updates, fieldsFilled } = this.planMerge(survivor, duplicates);
+
+    await storage.mergeEmailCaptures(survivor.id, duplicates, updates, {
+      cid: survivor.cid,
+      hashedEmail: survivor.hashedEmail,
+      reason: options.reason,
+      mergedBy: options.mergedBy || null,
+    }, fieldsFilled);
+
+    return { survivorId: survivor.id, mergedIds: duplicates.map(duplicate => duplicate.id) };
+  }
+
+  /**
+   * One-time cleanup of existing duplicates. A dry run reports what would be merged without changing anything.
+   */
+  async dedupe(options: { cid?: string; dryRun?: boolean; mergedBy?: string | null } = {}): Promise<DedupeResult> {
+    if (this.isRunning) {
+      throw new Error('Identity dedupe is already running');
+    }
+
+    const result: DedupeResult = { dryRun: !!options.dryRun, groups: 0, merged: 0, errors: 0, sample: [] };
+
+    if (options.dryRun) {
+      const counts = await storage.countDuplicateCaptures(options.cid);
+      result.groups = counts.groups;
+      result.merged = counts.duplicates;
+
+      for (const group of await storage.getDuplicateCaptureGroups(options.cid, 20)) {
+        const captures = (await Promise.all(group.captureIds.map(id => storage.getEmailCaptureById(id))))
+          .filter((capture): capture is EmailCapture => !!capture);
+        // Captures deleted since the group query can leave nothing to merge
+        if (captures.length < 2) continue;
+
+        const [survivor, ...duplicates] = this.rank(captures);
+        result.sample.push({ cid: group.cid, hashedEmail: group.hashedEmail, survivorId: survivor.id, mergedIds: duplicates.map(d => d.id) });
+      }
+      return result;
+    }
+
+    this.isRunning = true;
+    try {
+      const failed = new Set<string>();
+
+      for (let batch = 0; batch < MAX_BATCHES; batch++) {
+        const groups = (await storage.getDuplicateCaptureGroups(options.cid, BATCH_SIZE + failed.size))
+          .filter(group => !failed.has(`${group.cid}:${group.hashedEmail}`));
+        if (groups.length === 0) break;
+
+        for (const group of groups) {
+          try {
+            const merged = await this.mergeGroup(group.captureIds, { reason: 'dedupe_job', mergedBy: options.mergedBy });
+            if (!merged) continue;
+
+            result.groups++;
+            result.merged += merged.mergedIds.length;
+            if (result.sample.length < 20) {
+              result.sample.push({ cid: group.cid, hashedEmail: group.hashedEmail, ...merged });
+            }
+          } catch (error: any) {
+            failed.add(`${group.cid}:${group.hashedEmail}`);
+            result.errors++;
+            logger.error('identity-merge', `Failed to merge duplicates for ${group.hashedEmail}`, error, group.cid, 'IDENTITY_MERGE_ERROR');
+          }
+        }
+      }
+
+      logger.info('identity-merge', `Merged ${result.merged} duplicate captures across ${result.groups} identities`, { cid: options.cid || null, errors: result.errors }, options.cid || 'system', 'IDENTITY_DEDUPE_COMPLETE');
+      return result;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+export const identityMergeService = new IdentityMergeService();
@@ -0,0 +1,39 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+
+export interface IdentityMetricsRunResult {
+  accounts: number;
+  identities: number;
+  computedAt: Date;
+}
+
+/**
+ * Field completeness counts per CID. Counts are aggregated from email_captures in SQL on a schedule
+ * rather than incremented on each capture, so they can't drift and every field is covered.
+ */
+export class IdentityMetricsService {
+  private isRunning = false;
+
+  async recompute(options: { cid?: string } = {}): Promise<IdentityMetricsRunResult> {
+    if (this.isRunning) {
+      throw new Error('Identity metrics recompute is already running');
+    }
+
+    this.isRunning = true;
+    try {
+      const metrics = await storage.recomputeIdentityMetrics(options.cid);
+      const result: IdentityMetricsRunResult = {
+        accounts: metrics.length,
+        identities: metrics.reduce((sum, row) => sum + (row.hashedEmails || 0), 0),
+        computedAt: metrics[0]?.computedAt || new Date(),
+      };
+
+      logger.info('identity-metrics', `Recomputed identity metrics for ${result.identities} identities across ${result.accounts} CID(s)`, { cid: options.cid || null }, options.cid || 'system', 'IDENTITY_METRICS_RECOMPUTED');
+      return result;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+export const identityMetricsService = new IdentityMetricsService();
@@ -0,0 +1,433 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import type { EmailCapture, LeadScoreBreakdown, LeadScoreFactor, LeadScoreType, PageView } from '@shared/schema';
+import { parseIncomeRange } from '@shared/incomeRange';
+import { visitIntentService, type UrlRule } from './visitIntentService';
+
+export type LeadScoreWeights = Record<LeadScoreType, Record<string, number>>;
+
+// Per-CID configuration stored in cidAccounts.settings.leadScoring
+export interface LeadScoringConfig {
+  weights: LeadScoreWeights; // Factor key -> relative weight, 0 turns a factor off
+}
+
+// Score columns the listing APIs can sort and filter on, with the matching min* query parameter
+export const LEAD_SCORE_FIELDS = {
+  leadScore: 'minLeadScore',
+  sellerScore: 'minSellerScore',
+  buyerScore: 'minBuyerScore',
+  refinanceScore: 'minRefinanceScore',
+  intentScore: 'minIntentScore',
+} as const;
+
+export type LeadScoreField = keyof typeof LEAD_SCORE_FIELDS;
+
+type ScoredRow = Partial<Record<LeadScoreField, number | null>>;
+
+export interface LeadScoreRunResult {
+  accounts: number;
+  scored: number;
+}
+
+interface ScoringInput {
+  capture: EmailCapture;
+  visits: PageView[]; // Page views inside the visit window, oldest first
+  now: Date;
+}
+
+interface FactorDefinition {
+  label: string;
+  defaultWeight: number;
+  evaluate(input: ScoringInput): { value: string | number | null; signal: number };
+}
+
+const VISIT_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 500;
+const RESCORE_DELAY_MS = 5000;
+
+// URL keywords that suggest what a visitor is researching
+const SELLER_PAGES = /sell|home-?value|valuation|home-?worth|market-?analysis|\bcma\b/i;
+const BUYER_PAGES = /listing|propert|for-?sale|search|\bbuy|open-?house|\bmls\b|\bidx\b/i;
+const REFINANCE_PAGES = /refinanc|\brefi\b|mortgage|rates?\b|loan|calculator|cash-?out|heloc/i;
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+}
+
+function equityRatio(capture: EmailCapture): number | null {
+  // Prefer the amortized estimate - mortgageAmount is the original loan
+  const equityPercent = toNumber(capture.equityPercent);
+  if (equityPercent !== null) return equityPercent / 100;
+
+  const homeValue = toNumber(capture.homeValue);
+  const mortgageAmount = toNumber(capture.mortgageAmount);
+  if (!homeValue || homeValue <= 0 || mortgageAmount === null) return null;
+  return (homeValue - mortgageAmount) / homeValue;
+}
+
+function visitPages(input: ScoringInput): Array<{ url: string; category: string | null }> {
+  const pages = input.visits
+    .filter(view => !!view.url)
+    .map(view => ({ url: view.url as string, category: view.category }));
+  if (pages.length > 0) return pages;
+
+  // Records captured before page views were kept only have the last page
+  const lastPage = input.capture.lastPageViewed || input.capture.url;
+  return lastPage ? [{ url: lastPage, category: null }] : [];
+}
+
+// Visits labelled with one of the categories by the CID's URL rules, or matching the keywords when unlabelled
+function pageVisits(categories: string[], pattern: RegExp, fullAt: number): FactorDefinition['evaluate'] {
+  return (input) => {
+    const count = visitPages(input).filter(page => page.category ? categories.includes(page.category) : pattern.test(page.url)).length;
+    return { value: count, signal: clamp(count / fullAt) };
+  };
+}
+
+const recency: FactorDefinition = {
+  label: 'Days since last visit',
+  defaultWeight: 10,
+  evaluate: ({ visits, capture, now }) => {
+    const lastVisit = visits.length > 0 ? visits[visits.length - 1].viewedAt : capture.capturedAt;
+    if (!lastVisit) return { value: null, signal: 0 };
+    const days = Math.floor((now.getTime() - new Date(lastVisit).getTime()) / DAY_MS);
+    return { value: days, signal: clamp(1 - days / VISIT_WINDOW_DAYS) };
+  },
+};
+
+const FACTORS: Record<LeadScoreType, Record<string, FactorDefinition>> = {
+  seller: {
+    tenure: {
+      label: 'Length of residence (years)',
+      defaultWeight: 20,
+      evaluate: ({ capture }) => ({ value: capture.lengthOfResidence, signal: clamp(((capture.lengthOfResidence ?? 0) - 3) / 7) }),
+    },
+    equity: {
+      label: 'Home equity',
+      defaultWeight: 20,
+      evaluate: ({ capture }) => {
+        const ratio = equityRatio(capture);
+        return { value: ratio === null ? null : `${Math.round(ratio * 100)}%`, signal: ratio === null ? 0 : clamp(ratio / 0.5) };
+      },
+    },
+    mortgageAge: {
+      label: 'Mortgage age (years)',
+      defaultWeight: 10,
+      evaluate: ({ capture }) => ({ value: capture.mortgageAge, signal: clamp(((capture.mortgageAge ?? 0) - 5) / 10) }),
+    },
+    lifeStage: {
+      label: 'Age',
+      defaultWeight: 10,
+      evaluate: ({ capture }) => ({ value: capture.age, signal: (capture.age ?? 0) >= 55 ? 1 : (capture.age ?? 0) >= 45 ? 0.5 : 0 }),
+    },
+    homeowner: {
+      label: 'Homeowner',
+      defaultWeight: 10,
+      evaluate: ({ capture }) => ({ value: capture.homeOwnership, signal: /own/i.test(capture.homeOwnership || '') ? 1 : 0 }),
+    },
+    sellerPages: {
+      label: 'Seller page visits',
+      defaultWeight: 20,
+      evaluate: pageVisits(['home_valuation'], SELLER_PAGES, 3),
+    },
+    recency,
+  },
+  buyer: {
+    renter: {
+      label: 'Renter',
+      defaultWeight: 20,
+      evaluate: ({ capture }) => ({ value: capture.homeOwnership, signal: /rent/i.test(capture.homeOwnership || '') ? 1 : 0 }),
+    },
+    income: {
+      label: 'Household income',
+      defaultWeight: 15,
+      evaluate: ({ capture }) => {
+        const income = capture.householdIncomeMidpoint ?? parseIncomeRange(capture.householdIncome)?.midpoint ?? null;
+        return { value: capture.householdIncome, signal: income === null ? 0 : clamp((income - 50000) / 100000) };
+      },
+    },
+    lifeStage: {
+      label: 'Age',
+      defaultWeight: 10,
+      evaluate: ({ capture }) => {
+        const age = capture.age ?? 0;
+        return { value: capture.age, signal: age >= 25 && age < 45 ? 1 : age >= 45 && age < 55 ? 0.5 : 0 };
+      },
+    },
+    household: {
+      label: 'Household',
+      defaultWeight: 10,
+      evaluate: ({ capture }) => ({
+        value: [capture.maritalStatus, capture.householdChildren ? `${capture.householdChildren} children` : null].filter(Boolean).join(', ') || null,
+        signal: (/married/i.test(capture.maritalStatus || '') ? 0.5 : 0) + ((capture.householdChildren ?? 0) > 0 ? 0.5 : 0),
+      }),
+    },
+    buyerPages: {
+      label: 'Listing page visits',
+      defaultWeight: 25,
+      evaluate: pageVisits(['listing_detail', 'search'], BUYER_PAGES, 5),
+    },
+    frequency: {
+      label: `Visits (last ${VISIT_WINDOW_DAYS} days)`,
+      defaultWeight: 10,
+      evaluate: ({ visits }) => ({ value: visits.length, signal: clamp(visits.length / 10) }),
+    },
+    recency,
+  },
+  refinance: {
+    mortgageAge: {
+      label: 'Mortgage age (years)',
+      defaultWeight: 20,
+      evaluate: ({ capture }) => {
+        const age = capture.mortgageAge;
+        return { value: age, signal: age === null ? 0 : age >= 2 && age <= 10 ? 1 : age > 10 ? 0.5 : 0 };
+      },
+    },
+    loanType: {
+      label: 'Loan type',
+      defaultWeight: 15,
+      evaluate: ({ capture }) => {
+        const type = capture.mortgageLoanType || '';
+        return { value: capture.mortgageLoanType, signal: /adjust|\barm\b|fha|\bva\b/i.test(type) ? 1 : /convention/i.test(type) ? 0.4 : 0 };
+      },
+    },
+    equity: {
+      label: 'Home equity',
+      defaultWeight: 20,
+      evaluate: ({ capture }) => {
+        const ratio = equityRatio(capture);
+        return { value: ratio === null ? null : `${Math.round(ratio * 100)}%`, signal: ratio === null ? 0 : clamp(ratio / 0.2) };
+      },
+    },
+    loanSize: {
+      label: 'Mortgage amount',
+      defaultWeight: 10,
+      evaluate: ({ capture }) => {
+        const amount = toNumber(capture.mortgageAmount);
+        return { value: amount, signal: amount === null ? 0 : clamp((amount - 100000) / 300000) };
+      },
+    },
+    refinancePages: {
+      label: 'Mortgage and rate page visits',
+      defaultWeight: 25,
+      evaluate: pageVisits(['mortgage_calculator'], REFINANCE_PAGES, 3),
+    },
+    recency,
+  },
+};
+
+const SCORE_TYPES = Object.keys(FACTORS) as LeadScoreType[];
+
+/**
+ * Ranks identities as likely sellers, buyers and refinancers from enrichment data and recent visits.
+ * Each score is a weighted average of 0-1 factor signals scaled to 0-100, and the factor breakdown
+ * is stored with it so agents can see why a lead scored the way it did. The browsing intent score is
+ * refreshed alongside, from the same visit window.
+ */
+export class LeadScoringService {
+  private pending = new Set<number>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  getDefaultWeights(): LeadScoreWeights {
+    return Object.fromEntries(SCORE_TYPES.map(type => [
+      type,
+      Object.fromEntries(Object.entries(FACTORS[type]).map(([key, factor]) => [key, factor.defaultWeight])),
+    ])) as LeadScoreWeights;
+  }
+
+  getConfig(account: any): LeadScoringConfig {
+    const defaults = this.getDefaultWeights();
+    const overrides = account?.settings?.leadScoring?.weights || {};
+    return {
+      weights: Object.fromEntries(SCORE_TYPES.map(type => [type, { ...defaults[type], ...(overrides[type] || {}) }])) as LeadScoreWeights,
+    };
+  }
+
+  /**
+   * Factor keys and labels per score, for the weights editor
+   */
+  getFactorCatalog(): Record<LeadScoreType, Array<{ key: string; label: string; defaultWeight: number }>> {
+    return Object.fromEntries(SCORE_TYPES.map(type => [
+      type,
+      Object.entries(FACTORS[type]).map(([key, factor]) => ({ key, label: factor.label, defaultWeight: factor.defaultWeight })),
+    ])) as Record<LeadScoreType, Array<{ key: string; label: string; defaultWeight: number }>>;
+  }
+
+  isFactor(type: string, key: string): boolean {
+    return type in FACTORS && key in FACTORS[type as LeadScoreType];
+  }
+
+  computeScores(capture: EmailCapture, visits: PageView[], weights: LeadScoreWeights, now: Date = new Date()): LeadScoreBreakdown {
+    const input: ScoringInput = { capture, visits, now };
+
+    return Object.fromEntries(SCORE_TYPES.map(type => {
+      const entries = Object.entries(FACTORS[type]);
+      const totalWeight = entries.reduce((sum, [key]) => sum + Math.max(weights[type][key] ?? 0, 0), 0);
+
+      const factors: LeadScoreFactor[] = entries.map(([key, factor]) => {
+        const weight = Math.max(weights[type][key] ?? 0, 0);
+        const { value, signal } = factor.evaluate(input);
+        const points = totalWeight > 0 ? (signal * weight * 100) / totalWeight : 0;
+        return { key, label: factor.label, value, signal: Math.round(signal * 100) / 100, weight, points: Math.round(points * 10) / 10 };
+      });
+
+      const score = Math.round(factors.reduce((sum, factor) => sum + factor.points, 0));
+      return [type, { score: Math.min(score, 100), factors: factors.sort((a, b) => b.points - a.points) }];
+    })) as LeadScoreBreakdown;
+  }
+
+  /**
+   * Apply ?sort=leadScore&order=desc&minSellerScore=60 style query parameters to a listing.
+   * sorted is false when no score sort was asked for, so callers keep their own default order.
+   */
+  applyListQuery<T extends ScoredRow>(rows: T[], query: Record<string, any>): { rows: T[]; sorted: boolean } {
+    let filtered = rows;
+    for (const [field, param] of Object.entries(LEAD_SCORE_FIELDS) as Array<[LeadScoreField, string]>) {
+      const min = parseInt(query[param]);
+      if (!isNaN(min)) {
+        filtered = filtered.filter(row => (row[field] ?? -1) >= min);
+      }
+    }
+
+    // Own keys only - "toString" or "constructor" must not pass as a sort field
+    const sort = query.sort as LeadScoreField;
+    if (typeof sort !== 'string' || !Object.prototype.hasOwnProperty.call(LEAD_SCORE_FIELDS, sort)) {
+      return { rows: filtered, sorted: false };
+    }
+
+    // Unscored rows always go last
+    const direction = query.order === 'asc' ? 1 : -1;
+    return {
+      rows: [...filtered].sort((a, b) => {
+        const left = a[sort] ?? null;
+        const right = b[sort] ?? null;
+        if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+        return (left - right) * direction;
+      }),
+      sorted: true,
+    };
+  }
+
+  async scoreCapture(captureId: number): Promise<LeadScoreBreakdown | undefined> {
+    const capture = await storage.getEmailCaptureById(captureId);
+    if (!capture) return undefined;
+
+    const account = await storage.getCidAccount(capture.cid);
+    const visits = await storage.getPageViewsForCaptures([capture.id], this.getVisitWindowStart());
+    const breakdown = this.computeScores(capture, visits, this.getConfig(account).weights);
+    await this.saveScores(capture.id, breakdown);
+    await this.saveIntent(capture.id, visits, visitIntentService.getRules(account));
+    return breakdown;
+  }
+
+  /**
+   * Rescore every valid identity in a CID, or in every active CID. Run nightly so visit recency decays.
+   */
+  async run(options: { cid?: string } = {}): Promise<LeadScoreRunResult> {
+    const accounts = options.cid
+      ? [await storage.getCidAccount(options.cid)].filter(Boolean)
+      : (await storage.getCidAccounts()).filter((account: any) => account.status === 'active');
+
+    const result: LeadScoreRunResult = { accounts: accounts.length, scored: 0 };
+    const since = this.getVisitWindowStart();
+    const now = new Date();
+
+    for (const account of accounts as any[]) {
+      const weights = this.getConfig(account).weights;
+      const rules = visitIntentService.getRules(account);
+      const captures = (await storage.getEmailCapturesByCid(account.cid)).filter(capture => capture.trafficStatus === 'valid' || !capture.trafficStatus);
+
+      for (let i = 0; i < captures.length; i += BATCH_SIZE) {
+        const batch = captures.slice(i, i + BATCH_SIZE);
+        const visitsByCapture = new Map<number, PageView[]>();
+        for (const view of await storage.getPageViewsForCaptures(batch.map(capture => capture.id), since)) {
+          visitsByCapture.set(view.captureId, [...(visitsByCapture.get(view.captureId) || []), view]);
+        }
+
+        for (const capture of batch) {
+          const visits = visitsByCapture.get(capture.id) || [];
+          await this.saveScores(capture.id, this.computeScores(capture, visits, weights, now));
+          await this.saveIntent(capture.id, visits, rules, now);
+          result.scored++;
+        }
+      }
+    }
+
+    logger.info('lead-scoring', `Scored ${result.scored} identities across ${result.accounts} CID(s)`, { cid: options.cid || null }, options.cid || 'system', 'LEAD_SCORING_COMPLETE');
+    return result;
+  }
+
+  /**
+   * Rescore an identity shortly after a new visit. Hits arrive in bursts, so ids are collected and
+   * scored together once the burst settles.
+   */
+  queueRescore(captureId: number): void {
+    this.pending.add(captureId);
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flushPending().catch(error => {
+        logger.error('lead-scoring', 'Failed to rescore queued leads', error, 'system', 'LEAD_RESCORE_ERROR');
+      });
+    }, RESCORE_DELAY_MS);
+    this.flushTimer.unref?.();
+  }
+
+  async updateWeights(cid: string, weights: Partial<Record<LeadScoreType, Record<string, number>>>): Promise<any | undefined> {
+    const account = await storage.getCidAccount(cid);
+    if (!account) return undefined;
+
+    const current = this.getConfig(account).weights;
+    return await storage.updateCidAccountSettings(cid, {
+      leadScoring: {
+        weights: Object.fromEntries(SCORE_TYPES.map(type => [type, { ...current[type], ...(weights[type] || {}) }])),
+      },
+    });
+  }
+
+  private async flushPending(): Promise<void> {
+    const captureIds = Array.from(this.pending);
+    this.pending.clear();
+
+    // One identity failing to score doesn't drop the rest of the burst
+    for (const captureId of captureIds) {
+      try {
+        await this.scoreCapture(captureId);
+      } catch (error) {
+        logger.error('lead-scoring', `Failed to rescore identity ${captureId}`, error, 'system', 'LEAD_RESCORE_ERROR');
+      }
+    }
+  }
+
+  private async saveScores(captureId: number, breakdown: LeadScoreBreakdown): Promise<void> {
+    await storage.updateLeadScores(captureId, {
+      sellerScore: breakdown.seller.score,
+      buyerScore: breakdown.buyer.score,
+      refinanceScore: breakdown.refinance.score,
+      leadScore: Math.max(breakdown.seller.score, breakdown.buyer.score, breakdown.refinance.score),
+      leadScoreFactors: breakdown,
+      leadScoredAt: new Date(),
+    });
+  }
+
+  private async saveIntent(captureId: number, visits: PageView[], rules: UrlRule[], now: Date = new Date()): Promise<void> {
+    const intent = visitIntentService.computeIntent(visits, rules, now);
+    await storage.updateIntentScore(captureId, {
+      intentScore: intent.score,
+      intentFactors: intent,
+      intentScoredAt: now,
+    });
+  }
+
+  private getVisitWindowStart(): Date {
+    return new Date(Date.now() - VISIT_WINDOW_DAYS * DAY_MS);
+  }
+}
+
+export const leadScoringService = new LeadScoringService();
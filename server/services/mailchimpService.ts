@@ -1,22 +1,275 @@
 import { storage } from '../storage';
+import { emailSelectionService } from './emailSelectionService';
+import { visitIntentService } from './visitIntentService';
+import { segmentService } from './segmentService';
+import { credentialVault } from './credentialVault';
+import type { EmailCapture, MailchimpMergeFieldMapping, MailchimpMergeSource } from '@shared/schema';
 import crypto from 'crypto';
 
+// The audience a contact is synced to - a CID's own, or the one set by MAILCHIMP_API_KEY and MAILCHIMP_LIST_ID
+export interface MailchimpAudience {
+  cid: string | null;
+  apiKey: string;
+  baseUrl: string;
+  listId: string;
+  mergeFields: Record<MailchimpMergeSource, string | null>;
+}
+
+// An open or click from a campaign's email activity report
+export interface MailchimpEmailActivity {
+  email: string;
+  action: 'open' | 'click';
+  timestamp: Date;
+  url: string | null;
+}
+
+export interface MailchimpMergeSourceDefinition {
+  label: string; // Also the merge field's name when it is created
+  defaultTag: string;
+  type: 'text' | 'number';
+}
+
+export const MAILCHIMP_MERGE_SOURCES: Record<MailchimpMergeSource, MailchimpMergeSourceDefinition> = {
+  address: { label: 'Street Address', defaultTag: 'VIQ_ADDR', type: 'text' },
+  city: { label: 'City', defaultTag: 'VIQ_CITY', type: 'text' },
+  zip: { label: 'ZIP Code', defaultTag: 'VIQ_ZIP', type: 'text' },
+  homeValue: { label: 'Home Value', defaultTag: 'VIQ_HVAL', type: 'number' },
+  estimatedEquity: { label: 'Estimated Equity', defaultTag: 'VIQ_EQUITY', type: 'number' },
+  householdIncome: { label: 'Household Income', defaultTag: 'VIQ_INCOME', type: 'text' },
+  leadScore: { label: 'Lead Score', defaultTag: 'VIQ_SCORE', type: 'number' },
+  lastPageViewed: { label: 'Last Page Viewed', defaultTag: 'VIQ_LASTPG', type: 'text' },
+};
+
+// Filled from the contact itself, so no identity field may be mapped onto them
+const RESERVED_MERGE_TAGS = ['EMAIL', 'FNAME', 'LNAME'];
+const MAX_TEXT_MERGE_LENGTH = 255;
+
+// Datacenter comes from the API key (e.g., "us1" from "xxxxx-us1")
+const baseUrlFor = (apiKey: string) => `https://${apiKey.split('-')[1] || 'us1'}.api.mailchimp.com/3.0`;
+
 export class MailchimpService {
   private apiKey: string;
-  private baseUrl: string;
   private listId: string;
+  // Audiences whose merge fields were checked this process, keyed by list and mapped tags
+  private preparedMergeFields = new Set<string>();
 
   constructor() {
     this.apiKey = process.env.MAILCHIMP_API_KEY || process.env.MAILCHIMP_KEY || "";
-    // Extract datacenter from API key (e.g., "us1" from "xxxxx-us1")
-    const datacenter = this.apiKey.split('-')[1] || 'us1';
-    this.baseUrl = `https://${datacenter}.api.mailchimp.com/3.0`;
     this.listId = process.env.MAILCHIMP_LIST_ID || "";
   }
 
+  getMergeFieldMapping(account?: any): Record<MailchimpMergeSource, string | null> {
+    const overrides = (account?.mailchimpMergeFields || {}) as MailchimpMergeFieldMapping;
+    return Object.fromEntries(
+      (Object.keys(MAILCHIMP_MERGE_SOURCES) as MailchimpMergeSource[]).map(source => [
+        source,
+        overrides[source] === undefined ? MAILCHIMP_MERGE_SOURCES[source].defaultTag : overrides[source],
+      ])
+    ) as Record<MailchimpMergeSource, string | null>;
+  }
+
+  /**
+   * Check a mapping from the settings editor. Returns an error message, or null.
+   */
+  validateMergeFieldMapping(mapping: unknown): string | null {
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) return 'mergeFields must be an object';
+
+    const used = new Set<string>();
+    for (const [source, tag] of Object.entries(mapping)) {
+      if (!(source in MAILCHIMP_MERGE_SOURCES)) return `Unknown merge field source: ${source}`;
+      if (tag === null) continue;
+      if (typeof tag !== 'string' || !/^[A-Z][A-Z0-9_]{0,9}$/.test(tag)) {
+        return `${source}: merge tags are 1 to 10 uppercase letters, digits or underscores, starting with a letter`;
+      }
+      if (RESERVED_MERGE_TAGS.includes(tag)) return `${source}: ${tag} is reserved`;
+      if (used.has(tag)) return `${tag} is mapped more than once`;
+      used.add(tag);
+    }
+    return null;
+  }
+
+  isValidApiKey(apiKey: string): boolean {
+    return /^[0-9a-f]{32}-[a-z]+[0-9]+$/i.test(apiKey);
+  }
+
+  /**
+   * The audience for a CID account, or null when neither the account nor the environment configures one
+   */
+  getAccountAudience(account?: any): MailchimpAudience | null {
+    let apiKey = this.apiKey;
+    if (account?.mailchimpCredentials) {
+      try {
+        apiKey = credentialVault.decrypt(account.mailchimpCredentials).apiKey || '';
+      } catch (error: any) {
+        // Never fall back to the shared key - the contacts would land in another client's audience
+        console.error(`[Mailchimp] Cannot decrypt the API key for CID ${account.cid}:`, error.message);
+        return null;
+      }
+    }
+
+    const listId = account?.mailchimpListId || this.listId;
+    if (!apiKey || !listId) return null;
+
+    return {
+      cid: account?.cid || null,
+      apiKey,
+      baseUrl: baseUrlFor(apiKey),
+      listId,
+      mergeFields: this.getMergeFieldMapping(account),
+    };
+  }
+
+  /**
+   * What the account settings editor shows - the API key itself never leaves the server
+   */
+  getAccountConfig(account: any) {
+    return {
+      listId: account.mailchimpListId || null,
+      hasApiKey: !!account.mailchimpCredentials,
+      defaultListId: this.listId || null,
+      configured: !!this.getAccountAudience(account),
+      mergeFields: this.getMergeFieldMapping(account),
+      sources: MAILCHIMP_MERGE_SOURCES,
+    };
+  }
+
+  async getAudience(cid?: string | null): Promise<MailchimpAudience | null> {
+    return this.getAccountAudience(cid ? await storage.getCidAccount(cid) : undefined);
+  }
+
+  private async requireAudience(cid?: string | null): Promise<MailchimpAudience> {
+    const audience = await this.getAudience(cid);
+    if (!audience) {
+      throw new Error(`Mailchimp API key or list ID not configured${cid ? ` for CID: ${cid}` : ''}`);
+    }
+    return audience;
+  }
+
+  /**
+   * CIDs that sync to a list, for matching webhook events to identities
+   */
+  async getCidsForList(listId: string): Promise<string[]> {
+    const accounts = await storage.getCidAccounts();
+    return accounts.filter((account: any) => (account.mailchimpListId || this.listId) === listId).map((account: any) => account.cid);
+  }
+
+  /**
+   * The audience a list belongs to - the account that set it as its own, or the shared one
+   */
+  async getListAudience(listId: string): Promise<MailchimpAudience | null> {
+    const accounts = await storage.getCidAccounts();
+    const account = accounts.find((account: any) => account.mailchimpListId === listId);
+    if (account) return this.getAccountAudience(account);
+    return listId === this.listId ? this.getAccountAudience() : null;
+  }
+
+  /**
+   * Opens and clicks on a sent campaign, oldest first, optionally only those after `since`
+   */
+  async getEmailActivity(audience: MailchimpAudience, mailchimpCampaignId: string, since?: Date): Promise<MailchimpEmailActivity[]> {
+    const pageSize = 1000;
+    const activity: MailchimpEmailActivity[] = [];
+
+    for (let offset = 0; ; offset += pageSize) {
+      const params = new URLSearchParams({ count: String(pageSize), offset: String(offset), fields: 'emails.email_address,emails.activity' });
+      if (since) params.set('since', since.toISOString());
+
+      const response = await fetch(`${audience.baseUrl}/reports/${encodeURIComponent(mailchimpCampaignId)}/email-activity?${params}`, {
+        headers: {
+          'Authorization': `apikey ${audience.apiKey}`,
+        },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch email activity for campaign ${mailchimpCampaignId}: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const emails: any[] = data.emails || [];
+      for (const member of emails) {
+        for (const event of member.activity || []) {
+          const timestamp = new Date(event.timestamp);
+          if ((event.action === 'open' || event.action === 'click') && member.email_address && !isNaN(timestamp.getTime())) {
+            activity.push({ email: member.email_address, action: event.action, timestamp, url: event.url || null });
+          }
+        }
+      }
+      if (emails.length < pageSize) break;
+    }
+
+    return activity.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Create any mapped merge field the audience doesn't have yet. Returns the tags created.
+   */
+  async ensureMergeFields(audience: MailchimpAudience): Promise<string[]> {
+    const mapped = (Object.keys(audience.mergeFields) as MailchimpMergeSource[]).filter(source => audience.mergeFields[source]);
+    const key = `${audience.baseUrl}/${audience.listId}:${mapped.map(source => audience.mergeFields[source]).sort().join(',')}`;
+    if (this.preparedMergeFields.has(key)) return [];
+
+    const response = await fetch(`${audience.baseUrl}/lists/${audience.listId}/merge-fields?count=1000&fields=merge_fields.tag`, {
+      headers: {
+        'Authorization': `apikey ${audience.apiKey}`,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch merge fields: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    const existing = new Set<string>((data.merge_fields || []).map((field: any) => field.tag));
+
+    const created: string[] = [];
+    for (const source of mapped) {
+      const tag = audience.mergeFields[source] as string;
+      if (existing.has(tag)) continue;
+
+      const createResponse = await fetch(`${audience.baseUrl}/lists/${audience.listId}/merge-fields`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `apikey ${audience.apiKey}`,
+        },
+        body: JSON.stringify({ tag, name: MAILCHIMP_MERGE_SOURCES[source].label, type: MAILCHIMP_MERGE_SOURCES[source].type, public: false }),
+      });
+      if (!createResponse.ok) {
+        const errorData = await createResponse.json().catch(() => ({}));
+        throw new Error(`Failed to create merge field ${tag}: ${errorData.detail || createResponse.statusText}`);
+      }
+      created.push(tag);
+    }
+
+    if (created.length > 0) {
+      console.log(`[Mailchimp] Created merge fields ${created.join(', ')} in audience ${audience.listId}`);
+    }
+    this.preparedMergeFields.add(key);
+    return created;
+  }
+
+  /**
+   * Merge field values for a contact - fields the capture has no value for are left out rather than blanked
+   */
+  buildMergeFields(audience: MailchimpAudience, capture?: EmailCapture): Record<string, string | number> {
+    const fields: Record<string, string | number> = {};
+    if (!capture) return fields;
+
+    for (const source of Object.keys(audience.mergeFields) as MailchimpMergeSource[]) {
+      const tag = audience.mergeFields[source];
+      const value = capture[source];
+      if (!tag || value === null || value === undefined || value === '') continue;
+
+      if (MAILCHIMP_MERGE_SOURCES[source].type === 'number') {
+        const number = Number(value);
+        if (isFinite(number)) fields[tag] = number;
+      } else {
+        fields[tag] = String(value).slice(0, MAX_TEXT_MERGE_LENGTH);
+      }
+    }
+    return fields;
+  }
+
   async syncContactsByCid(cid?: string): Promise<{ success: boolean; synced: number; errors: number; cidSynced: string[] }> {
-    if (!this.apiKey || !this.listId) {
-      throw new Error("Mailchimp API key or list ID not configured");
+    if (cid) {
+      await this.requireAudience(cid);
     }
 
     console.log(`[Mailchimp] Starting sync for CID: ${cid || 'all CIDs'}`);
@@ -44,16 +297,33 @@ export class MailchimpService {
           continue;
         }
         
-        console.log(`[Mailchimp] ✅ Processing active CID: ${cidAccount.cid} (${cidAccount.accountName})`);
+        const audience = this.getAccountAudience(cidAccount);
+        if (!audience) {
+          console.log(`[Mailchimp] ❌ Skipping CID ${cidAccount.cid} (${cidAccount.accountName}) - no Mailchimp audience configured`);
+          continue;
+        }
+        
+        console.log(`[Mailchimp] ✅ Processing active CID: ${cidAccount.cid} (${cidAccount.accountName}) into audience ${audience.listId}`);
         
         try {
           // Get enriched contacts for this CID that haven't been synced to Mailchimp yet
           // OR have been updated since last Mailchimp sync (delta sync logic)
           const contacts = await storage.getEmailCapturesByCid(cidAccount.cid);
+          const trigger = visitIntentService.getOutreachTrigger(cidAccount, 'mailchimp');
+          const segmentMembers = await segmentService.getSyncMembers(cidAccount, 'mailchimp');
           const enrichedContacts = contacts.filter(c => {
             // Must have email and name data
             const hasRequiredData = c.email && (c.firstName || c.lastName);
             if (!hasRequiredData) return false;
+
+            // Contacts below the CID's intent trigger wait until their browsing qualifies them
+            if (!visitIntentService.meetsTrigger(c, trigger)) return false;
+
+            // Contacts who unsubscribed or bounced stay out of the audience
+            if (this.isSuppressedStatus(c.mailchimpStatus)) return false;
+
+            // A CID can limit the sync to a saved segment
+            if (segmentMembers && !segmentMembers.has(c.id)) return false;
             
             // Include if never synced to Mailchimp OR updated since last sync
             const neverSynced = !c.mailchimpSyncedAt;
@@ -73,22 +343,39 @@ export class MailchimpService {
             continue;
           }
 
+          await this.ensureMergeFields(audience);
+
           let cidSyncedCount = 0;
+          let cidSkippedCount = 0;
+          
+          // The CID's email selection strategy decides which candidate address is synced
+          const strategy = emailSelectionService.getStrategy(cidAccount);
+          const useCandidates = !emailSelectionService.isDefault(strategy);
           
           // Process contacts in batches for better performance
           const batchSize = 100;
           for (let i = 0; i < enrichedContacts.length; i += batchSize) {
             const batch = enrichedContacts.slice(i, i + batchSize);
+            const candidates = useCandidates ? await storage.getEmailCandidates(batch.map(contact => contact.id)) : [];
             
             for (const contact of batch) {
-              if (!contact.email) continue;
+              const email = emailSelectionService.resolveEmail(
+                contact,
+                candidates.filter(candidate => candidate.captureId === contact.id),
+                strategy
+              );
+              if (!email) {
+                cidSkippedCount++;
+                continue;
+              }
               
               try {
-                const success = await this.addContactWithCidTag(
-                  contact.email,
+                const success = await this.upsertMember(
+                  audience,
+                  email,
                   contact.firstName || '',
                   contact.lastName || '',
-                  cidAccount.cid
+                  contact
                 );
                 
                 if (success) {
@@ -107,7 +394,7 @@ export class MailchimpService {
                   totalErrors++;
                 }
               } catch (error) {
-                console.error(`[Mailchimp] Error syncing contact ${contact.email} for CID ${cidAccount.cid}:`, error);
+                console.error(`[Mailchimp] Error syncing contact ${email} for CID ${cidAccount.cid}:`, error);
                 totalErrors++;
               }
             }
@@ -118,7 +405,7 @@ export class MailchimpService {
             }
           }
           
-          console.log(`[Mailchimp] Completed CID ${cidAccount.cid}: ${cidSyncedCount} contacts synced`);
+          console.log(`[Mailchimp] Completed CID ${cidAccount.cid}: ${cidSyncedCount} contacts synced${cidSkippedCount > 0 ? `, ${cidSkippedCount} skipped with no email allowed by the selection strategy` : ''}`);
           if (cidSyncedCount > 0) {
             cidsSynced.push(cidAccount.cid);
           }
@@ -142,15 +429,22 @@ export class MailchimpService {
     }
   }
 
-  async addContactWithCidTag(email: string, firstName?: string, lastName?: string, cid?: string): Promise<boolean> {
-    if (!this.apiKey || !this.listId) {
-      throw new Error("Mailchimp API key or list ID not configured");
+  /**
+   * Add or update a contact in the CID's audience, tagged with the CID. With a capture, its property
+   * data is sent through the mapped merge fields.
+   */
+  async addContactWithCidTag(email: string, firstName?: string, lastName?: string, cid?: string, capture?: EmailCapture): Promise<boolean> {
+    const audience = await this.requireAudience(cid);
+    if (capture) {
+      await this.ensureMergeFields(audience);
     }
+    return this.upsertMember(audience, email, firstName, lastName, capture);
+  }
+
+  private async upsertMember(audience: MailchimpAudience, email: string, firstName?: string, lastName?: string, capture?: EmailCapture): Promise<boolean> {
+    const cid = audience.cid;
 
     try {
-      // Create MD5 hash of email for Mailchimp subscriber ID
-      const subscriberHash = crypto.createHash('md5').update(email.toLowerCase()).digest('hex');
-      
       // Prepare member data with CID tag
       const memberData: any = {
         email_address: email,
@@ -158,6 +452,7 @@ export class MailchimpService {
         merge_fields: {
           FNAME: firstName || '',
           LNAME: lastName || '',
+          ...this.buildMergeFields(audience, capture),
         },
       };
 
@@ -167,11 +462,11 @@ export class MailchimpService {
       }
 
       // Use PUT to create or update contact
-      const response = await fetch(`${this.baseUrl}/lists/${this.listId}/members/${subscriberHash}`, {
+      const response = await fetch(`${audience.baseUrl}/lists/${audience.listId}/members/${this.subscriberHash(email)}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `apikey ${this.apiKey}`,
+          'Authorization': `apikey ${audience.apiKey}`,
         },
         body: JSON.stringify(memberData),
       });
@@ -190,19 +485,87 @@ export class MailchimpService {
     }
   }
 
+  subscriberHash(email: string): string {
+    return crypto.createHash('md5').update(email.toLowerCase()).digest('hex');
+  }
+
+  /**
+   * Unsubscribed and cleaned (bounced) members must not be emailed or re-added
+   */
+  isSuppressedStatus(status: string | null | undefined): boolean {
+    return status === 'unsubscribed' || status === 'cleaned';
+  }
+
+  /**
+   * Add tags to an existing member. Tags sent with the member PUT only apply when the member is new.
+   */
+  async tagContact(email: string, tags: string[], cid?: string): Promise<boolean> {
+    const audience = await this.requireAudience(cid);
+
+    try {
+      const response = await fetch(`${audience.baseUrl}/lists/${audience.listId}/members/${this.subscriberHash(email)}/tags`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `apikey ${audience.apiKey}`,
+        },
+        body: JSON.stringify({ tags: tags.map(name => ({ name, status: 'active' })) }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error(`[Mailchimp] Failed to tag contact ${email}: ${response.status} ${response.statusText}`, errorData);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error(`[Mailchimp] Error tagging contact ${email}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * A member's subscription status (subscribed, unsubscribed, cleaned, pending), or null when the
+   * address isn't on the list or Mailchimp can't be reached.
+   */
+  async getMemberStatus(email: string, cid?: string): Promise<string | null> {
+    const audience = await this.getAudience(cid);
+    if (!audience) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${audience.baseUrl}/lists/${audience.listId}/members/${this.subscriberHash(email)}?fields=status`, {
+        headers: {
+          'Authorization': `apikey ${audience.apiKey}`,
+        },
+      });
+
+      if (!response.ok) {
+        return null;
+      }
+      const data = await response.json();
+      return data.status || null;
+    } catch (error) {
+      console.error(`[Mailchimp] Error fetching member status for ${email}:`, error);
+      return null;
+    }
+  }
+
   async addContact(email: string, firstName?: string, lastName?: string): Promise<boolean> {
     return this.addContactWithCidTag(email, firstName, lastName);
   }
 
-  async getStatus(): Promise<{ connected: boolean; totalContacts: number; pendingSync: number }> {
-    if (!this.apiKey || !this.listId) {
+  async getStatus(cid?: string): Promise<{ connected: boolean; totalContacts: number; pendingSync: number; audienceName?: string }> {
+    const audience = await this.getAudience(cid);
+    if (!audience) {
       return { connected: false, totalContacts: 0, pendingSync: 0 };
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/lists/${this.listId}`, {
+      const response = await fetch(`${audience.baseUrl}/lists/${audience.listId}`, {
         headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
+          'Authorization': `Bearer ${audience.apiKey}`,
         },
       });
 
@@ -215,6 +578,7 @@ export class MailchimpService {
         connected: true,
         totalContacts: data.stats?.member_count || 0,
         pendingSync: 0,
+        audienceName: data.name,
       };
     } catch (error) {
       console.error("Mailchimp status error:", error);
@@ -222,15 +586,13 @@ export class MailchimpService {
     }
   }
 
-  async getTags(): Promise<{ tags: Array<{ id: number; name: string; member_count: number }> }> {
-    if (!this.apiKey || !this.listId) {
-      throw new Error("Mailchimp API key or list ID not configured");
-    }
+  async getTags(cid?: string): Promise<{ tags: Array<{ id: number; name: string; member_count: number }> }> {
+    const audience = await this.requireAudience(cid);
 
     try {
-      const response = await fetch(`${this.baseUrl}/lists/${this.listId}/segments?type=static&count=1000`, {
+      const response = await fetch(`${audience.baseUrl}/lists/${audience.listId}/segments?type=static&count=1000`, {
         headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
+          'Authorization': `Bearer ${audience.apiKey}`,
         },
       });
 
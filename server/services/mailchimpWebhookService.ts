@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { mailchimpService } from './mailchimpService';
+import { campaignService } from './campaignService';
+import type { CampaignRecipient, EmailCapture, EmailEngagementType } from '@shared/schema';
+
+export const MAILCHIMP_WEBHOOK_TYPES: EmailEngagementType[] = [
+  'subscribe', 'unsubscribe', 'cleaned', 'profile', 'upemail', 'campaign',
+];
+
+// Member status each list event leaves the contact in
+const STATUS_BY_TYPE: Partial<Record<EmailEngagementType, string>> = {
+  subscribe: 'subscribed',
+  unsubscribe: 'unsubscribed',
+  cleaned: 'cleaned',
+};
+
+// Opens and clicks are credited to the latest send to the address within this window, and
+// campaigns are polled for them this long after they were sent
+const ATTRIBUTION_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MailchimpWebhookEvent {
+  type: EmailEngagementType;
+  firedAt: Date;
+  data: Record<string, any>;
+}
+
+export interface MailchimpActivityPullResult {
+  campaigns: number; // Recent campaigns polled
+  events: number; // Opens and clicks recorded
+  failed: number; // Campaigns whose report couldn't be read
+}
+
+export interface MailchimpWebhookResult {
+  type: EmailEngagementType;
+  identities: number; // Captures the event was linked to
+  campaignId: number | null; // Campaign credited with an open or click
+}
+
+// Bracketed key segments that would write through to Object.prototype instead of the data object
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+// Mailchimp sends fired_at as "2024-03-26 21:35:57" in UTC
+const parseFiredAt = (value: unknown): Date => {
+  if (typeof value !== 'string') return new Date();
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+  return isNaN(date.getTime()) ? new Date() : date;
+};
+
+/**
+ * Handles Mailchimp audience webhooks: status changes (subscribe, unsubscribe, cleaned) update each
+ * matching identity's mailchimpStatus, which keeps suppressed contacts out of syncs, campaigns and
+ * sequences. Audience webhooks don't report opens or clicks, so those are pulled from the email activity
+ * report of each recent campaign and credited to the campaign send they followed. Every event is kept in
+ * email_engagements. Mailchimp doesn't sign webhooks, so the URL carries a shared secret instead.
+ */
+export class MailchimpWebhookService {
+  isConfigured(): boolean {
+    return !!process.env.MAILCHIMP_WEBHOOK_SECRET;
+  }
+
+  verifySecret(provided: unknown): boolean {
+    const secret = process.env.MAILCHIMP_WEBHOOK_SECRET;
+    if (!secret || typeof provided !== 'string') return false;
+
+    // Hashing first gives equal-length buffers for the constant-time compare
+    const expected = crypto.createHash('sha256').update(secret).digest();
+    const actual = crypto.createHash('sha256').update(provided).digest();
+    return crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Read an event from Mailchimp's form body (`data[merges][FNAME]` style keys) or a JSON body with a
+   * nested data object. Returns null for event types we don't handle.
+   */
+  parse(body: any): MailchimpWebhookEvent | null {
+    if (!body || !MAILCHIMP_WEBHOOK_TYPES.includes(body.type)) return null;
+
+    const data: Record<string, any> = body.data && typeof body.data === 'object' ? { ...body.data } : {};
+    for (const [key, value] of Object.entries(body)) {
+      const path = key.startsWith('data[') ? key.slice(4).match(/\[([^\]]*)\]/g) : null;
+      if (!path) continue;
+
+      const names = path.map(part => part.slice(1, -1));
+      if (names.some(name => UNSAFE_KEYS.has(name))) continue;
+      let target = data;
+      for (const name of names.slice(0, -1)) {
+        target[name] = target[name] && typeof target[name] === 'object' ? target[name] : {};
+        target = target[name];
+      }
+      target[names[names.length - 1]] = value;
+    }
+
+    return { type: body.type, firedAt: parseFiredAt(body.fired_at), data };
+  }
+
+  async handle(event: MailchimpWebhookEvent): Promise<MailchimpWebhookResult> {
+    const { type, firedAt, data } = event;
+    // upemail events report the address the contact is changing from
+    const email = (text(data.email) || text(data.old_email))?.toLowerCase() || null;
+
+    // Each CID can have its own audience, so only identities synced to the event's list are affected
+    const listId = text(data.list_id);
+    const listCids = listId ? await mailchimpService.getCidsForList(listId) : null;
+
+    const recipient = (type === 'open' || type === 'click') && email ? await this.creditCampaign(type, email, firedAt, listCids) : undefined;
+    const matched = (email ? await storage.getEmailCapturesByAddress(email) : [])
+      .filter(capture => !listCids || listCids.includes(capture.cid || ''));
+    // The same address can be an identity in several CIDs - an open only belongs to the one that was sent to
+    const captures = recipient ? matched.filter(capture => capture.id === recipient.captureId) : matched;
+
+    const status = STATUS_BY_TYPE[type];
+    if (status) {
+      await this.updateStatus(captures, status, firedAt);
+    }
+
+    const engagement = {
+      campaignRecipientId: recipient?.id ?? null,
+      eventType: type,
+      email,
+      listId,
+      mailchimpCampaignId: text(data.campaign_id) || (type === 'campaign' ? text(data.id) : null),
+      reason: text(data.reason),
+      url: text(data.url),
+      data,
+      firedAt,
+    };
+    await storage.createEmailEngagements(captures.length > 0
+      ? captures.map(capture => ({ ...engagement, captureId: capture.id, cid: capture.cid }))
+      : [{ ...engagement, captureId: null, cid: null }]);
+
+    return { type, identities: captures.length, campaignId: recipient?.campaignId ?? null };
+  }
+
+  /**
+   * Record the opens and clicks on every campaign sent in the attribution window, continuing from the
+   * latest one already recorded for it
+   */
+  async pullCampaignActivity(): Promise<MailchimpActivityPullResult> {
+    const campaigns = await storage.getRecentMailchimpCampaigns(new Date(Date.now() - ATTRIBUTION_WINDOW_DAYS * DAY_MS));
+    const result: MailchimpActivityPullResult = { campaigns: campaigns.length, events: 0, failed: 0 };
+
+    for (const campaign of campaigns) {
+      const audience = await mailchimpService.getListAudience(campaign.listId);
+      if (!audience) continue;
+
+      try {
+        const activity = await mailchimpService.getEmailActivity(audience, campaign.mailchimpCampaignId, campaign.lastActivityAt || undefined);
+        for (const item of activity) {
+          // Events at the resume point itself can be returned again
+          if (campaign.lastActivityAt && item.timestamp <= campaign.lastActivityAt) continue;
+
+          await this.handle({
+            type: item.action,
+            firedAt: item.timestamp,
+            data: { email: item.email, list_id: campaign.listId, campaign_id: campaign.mailchimpCampaignId, url: item.url },
+          });
+          result.events++;
+        }
+      } catch (error: any) {
+        result.failed++;
+        logger.error('mailchimp-activity', `Failed to pull activity for Mailchimp campaign ${campaign.mailchimpCampaignId}`, error, audience.cid || 'system', 'MAILCHIMP_ACTIVITY_ERROR');
+      }
+    }
+    return result;
+  }
+
+  private async creditCampaign(type: 'open' | 'click', email: string, firedAt: Date, cids: string[] | null): Promise<CampaignRecipient | undefined> {
+    const windowStart = new Date(firedAt.getTime() - ATTRIBUTION_WINDOW_DAYS * DAY_MS);
+    const recipient = await storage.getLatestSentCampaignRecipient(email, mailchimpService.subscriberHash(email), windowStart, firedAt, cids || undefined);
+    if (!recipient) return undefined;
+
+    // A click means the email was opened, even when the open pixel was blocked
+    await storage.updateCampaignRecipient(recipient.id, {
+      openedAt: recipient.openedAt || firedAt,
+      clickedAt: type === 'click' ? recipient.clickedAt || firedAt : recipient.clickedAt,
+    });
+    await campaignService.refreshStats(recipient.campaignId);
+    return recipient;
+  }
+
+  private async updateStatus(captures: EmailCapture[], status: string, firedAt: Date): Promise<void> {
+    // Retries can arrive out of order - an older event never overwrites a newer status
+    const current = captures.filter(capture => !capture.mailchimpStatusAt || capture.mailchimpStatusAt <= firedAt);
+    if (current.length === 0) return;
+
+    await storage.setMailchimpStatus(current.map(capture => capture.id), status, firedAt);
+    if (mailchimpService.isSuppressedStatus(status)) {
+      for (const capture of current) {
+        logger.info('mailchimp-webhook', `Identity ${capture.id} is ${status} in Mailchimp`, { captureId: capture.id, status }, capture.cid || 'system', 'MAILCHIMP_SUPPRESSED');
+      }
+    }
+  }
+}
+
+export const mailchimpWebhookService = new MailchimpWebhookService();
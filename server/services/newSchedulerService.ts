@@ -2,6 +2,12 @@ import { makeJob, getJobStatus, JobKey } from './scheduler';
 import { scheduledSyncService } from './scheduledSyncService';
 import { handwryttenService } from './handwryttenService';
 import { mailchimpService } from './mailchimpService';
+import { reEnrichmentService } from './reEnrichmentService';
+import { leadScoringService } from './leadScoringService';
+import { identityMetricsService } from './identityMetricsService';
+import { campaignService } from './campaignService';
+import { sequenceService } from './sequenceService';
+import { mailchimpWebhookService } from './mailchimpWebhookService';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
 
@@ -94,6 +100,94 @@ async function runHandwrytten() {
   }
 }
 
+async function runReEnrichment() {
+  try {
+    const result = await reEnrichmentService.run();
+    return {
+      ok: true,
+      message: result.enqueued > 0
+        ? `Enqueued ${result.enqueued} stale records across ${result.accounts.length} CID(s)`
+        : 'No stale records due for re-enrichment',
+      count: result.enqueued
+    };
+  } catch (error: any) {
+    logger.error('re-enrichment', 'Re-enrichment run failed', error, 'system', 'RE_ENRICHMENT_ERROR');
+    return { ok: false, message: error.message, count: 0 };
+  }
+}
+
+async function runLeadScoring() {
+  try {
+    const result = await leadScoringService.run();
+    return {
+      ok: true,
+      message: `Scored ${result.scored} identities across ${result.accounts} CID(s)`,
+      count: result.scored
+    };
+  } catch (error: any) {
+    logger.error('lead-scoring', 'Lead scoring run failed', error, 'system', 'LEAD_SCORING_ERROR');
+    return { ok: false, message: error.message, count: 0 };
+  }
+}
+
+async function runIdentityMetrics() {
+  try {
+    const result = await identityMetricsService.recompute();
+    return {
+      ok: true,
+      message: `Recomputed metrics for ${result.identities} identities across ${result.accounts} CID(s)`,
+      count: result.identities
+    };
+  } catch (error: any) {
+    logger.error('identity-metrics', 'Identity metrics recompute failed', error, 'system', 'IDENTITY_METRICS_ERROR');
+    return { ok: false, message: error.message, count: 0 };
+  }
+}
+
+async function runCampaigns() {
+  try {
+    const result = await campaignService.processDue();
+    return {
+      ok: true,
+      message: result.campaigns > 0
+        ? `Ran ${result.campaigns} campaign(s): ${result.sent} sent, ${result.failed} failed`
+        : 'No campaigns due',
+      count: result.sent
+    };
+  } catch (error: any) {
+    logger.error('campaigns', 'Campaign run failed', error, 'system', 'CAMPAIGN_RUN_ERROR');
+    return { ok: false, message: error.message, count: 0 };
+  }
+}
+
+async function runSequences() {
+  try {
+    const result = await sequenceService.advance();
+    return {
+      ok: true,
+      message: `Ran ${result.advanced} sequence step(s): ${result.sent} sent, ${result.skipped} skipped, ${result.failed} failed; ${result.exited} exited, ${result.enrolled} enrolled`,
+      count: result.sent
+    };
+  } catch (error: any) {
+    logger.error('sequences', 'Sequence run failed', error, 'system', 'SEQUENCE_RUN_ERROR');
+    return { ok: false, message: error.message, count: 0 };
+  }
+}
+
+async function runMailchimpActivity() {
+  try {
+    const result = await mailchimpWebhookService.pullCampaignActivity();
+    return {
+      ok: result.failed === 0,
+      message: `Recorded ${result.events} open(s) and click(s) from ${result.campaigns} campaign(s)${result.failed > 0 ? `, ${result.failed} failed` : ''}`,
+      count: result.events
+    };
+  } catch (error: any) {
+    logger.error('mailchimp-activity', 'Mailchimp activity pull failed', error, 'system', 'MAILCHIMP_ACTIVITY_ERROR');
+    return { ok: false, message: error.message, count: 0 };
+  }
+}
+
 // Initialize the new scheduler
 export function initializeNewScheduler() {
   console.log('[Enhanced Scheduler] Initializing with proper Central Time handling');
@@ -122,10 +216,64 @@ export function initializeNewScheduler() {
     mode: 'Delta Sync' 
   });
   
+  // Re-enrichment: Daily at 2:00 AM Central Time, after the nightly Mailchimp sync
+  makeJob({ 
+    key: 'reEnrichment', 
+    cron: '0 2 * * *', 
+    handler: runReEnrichment, 
+    mode: 'Delta Sync' 
+  });
+  
+  // Lead scoring: Daily at 3:00 AM Central Time, so visit recency decays and refreshed data is picked up
+  makeJob({ 
+    key: 'leadScoring', 
+    cron: '0 3 * * *', 
+    handler: runLeadScoring, 
+    mode: 'Delta Sync' 
+  });
+  
+  // Identity metrics: Hourly at half past, recounted from email_captures
+  makeJob({ 
+    key: 'identityMetrics', 
+    cron: '30 * * * *', 
+    handler: runIdentityMetrics, 
+    mode: 'Full Sync' 
+  });
+  
+  // Campaigns: Every 5 minutes, starting scheduled campaigns whose time has passed
+  makeJob({ 
+    key: 'campaigns', 
+    cron: '*/5 * * * *', 
+    handler: runCampaigns, 
+    mode: 'Delta Sync' 
+  });
+  
+  // Sequences: Every 15 minutes, enrolling segment members and running steps that are due
+  makeJob({ 
+    key: 'sequences', 
+    cron: '*/15 * * * *', 
+    handler: runSequences, 
+    mode: 'Delta Sync' 
+  });
+  
+  // Mailchimp activity: Hourly at :45, pulling opens and clicks from the reports of recent campaigns
+  makeJob({ 
+    key: 'mailchimpActivity', 
+    cron: '45 * * * *', 
+    handler: runMailchimpActivity, 
+    mode: 'Delta Sync' 
+  });
+  
   console.log('[Enhanced Scheduler] All sync jobs scheduled successfully');
   console.log('✓ SpherePixel: Hourly 8AM-8PM Central (data capture & enrichment)');
   console.log('✓ Handwrytten: Hourly 8AM-8PM Central (handwritten notes)'); 
   console.log('✓ Mailchimp: Daily 12AM Central (email marketing)');
+  console.log('✓ Re-enrichment: Daily 2AM Central (stale identity refresh)');
+  console.log('✓ Lead scoring: Daily 3AM Central (seller, buyer and refinance scores)');
+  console.log('✓ Identity metrics: Hourly at :30 (field completeness per CID)');
+  console.log('✓ Campaigns: Every 5 minutes (scheduled Mailchimp and Handwrytten campaigns)');
+  console.log('✓ Sequences: Every 15 minutes (drip steps and exit conditions)');
+  console.log('✓ Mailchimp activity: Hourly at :45 (campaign opens and clicks)');
 }
 
 // Get status for all jobs
@@ -133,7 +281,13 @@ export function getAllSyncStatus() {
   return {
     spherePixel: getJobStatus('spherePixel'),
     mailchimp: getJobStatus('mailchimp'),
-    handwrytten: getJobStatus('handwrytten')
+    handwrytten: getJobStatus('handwrytten'),
+    reEnrichment: getJobStatus('reEnrichment'),
+    leadScoring: getJobStatus('leadScoring'),
+    identityMetrics: getJobStatus('identityMetrics'),
+    campaigns: getJobStatus('campaigns'),
+    sequences: getJobStatus('sequences'),
+    mailchimpActivity: getJobStatus('mailchimpActivity')
   };
 }
 
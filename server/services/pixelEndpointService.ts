@@ -1,5 +1,8 @@
 import { storage } from "../storage";
-import { enrichAndSave } from "./enrichmentService";
+import { enrichmentQueueService } from "./enrichmentQueueService";
+import { leadScoringService } from "./leadScoringService";
+import { trafficFilterService } from "./trafficFilterService";
+import { visitIntentService } from "./visitIntentService";
 
 export class PixelEndpointService {
   private baseUrl = "https://spheredatasolutionsgroup.com/_functions/pixelEndpoint";
@@ -12,9 +15,11 @@ export class PixelEndpointService {
     var1?: string;
     var2?: string;
     ts?: string;
-  }): Promise<any> {
+    userAgent?: string;
+    ipAddress?: string;
+  }, source: string = 'pixel_endpoint'): Promise<any> {
     try {
-      const { md5, cid, url, session_id, var1, var2, ts } = params;
+      const { md5, cid, url, session_id, var1, var2, ts, userAgent, ipAddress } = params;
 
       // If MD5 hash is provided, process it
       if (md5 && md5.length === 32) {
@@ -25,65 +30,85 @@ export class PixelEndpointService {
           throw new Error("CID is required for pixel endpoint captures");
         }
 
-        // Auto-create CID account if it doesn't exist
-        await storage.upsertCidAccount({
-          cid,
-          accountName: `Account ${cid}`,
-          description: `Auto-created from pixel endpoint`,
-          status: "active"
-        });
+        // Only accept captures for provisioned accounts
+        const account = await storage.getCidAccount(cid);
+        if (!account || account.status !== "active") {
+          throw new Error(`Unknown or inactive CID: ${cid}`);
+        }
 
-        // Create email capture record with CID and all pixel endpoint fields
-        const capture = await storage.createEmailCapture({
+        // Tag bot and off-domain hits so they are kept for reporting but never enriched
+        const traffic = trafficFilterService.classify({ account, url, userAgent, ipAddress });
+
+        // Upsert the identity by (md5, cid) - repeat hits refresh the visit fields on the existing record
+        const { capture, created } = await storage.upsertEmailCapture({
           originalEmail: `hashed_${md5}`, // Placeholder since we only have hash
           hashedEmail: md5,
           cid, // Separate by CID
           userId: "pixel_endpoint", // System user for pixel captures
           source: "pixel_endpoint",
           url, // Store URL directly in database field
+          lastPageViewed: url,
           sessionId: session_id, // Store session_id directly in database field
           var1, // Store var1 directly in database field
           var2, // Store var2 directly in database field
           ts, // Store timestamp directly in database field
+          trafficStatus: traffic.status,
+          trafficFlags: traffic.reasons.length > 0 ? traffic.reasons : null,
           metadata: {
             pixel_endpoint_capture: true,
             captured_at: new Date().toISOString()
           }
-        });
+        }, traffic.status === 'valid' ? {
+          url: url || undefined,
+          lastPageViewed: url || undefined,
+          sessionId: session_id || undefined,
+          var1: var1 || undefined,
+          var2: var2 || undefined,
+          ts: ts || undefined,
+          // A valid hit clears a rejected or suspicious tag from an earlier hit
+          trafficStatus: 'valid',
+          trafficFlags: null,
+        } : undefined);
 
-        // Start enrichment process with the MD5 hash
-        try {
-          const enrichmentData = await audienceAcuityService.enrichEmail(md5);
-          await storage.updateEmailCaptureEnrichment(capture.id, enrichmentData);
-          
-          // Update identity metrics
-          const currentMetrics = await storage.getIdentityMetrics();
-          const updates = {
-            hashedEmails: (currentMetrics?.hashedEmails || 0) + 1,
-            contactEmail: enrichmentData?.contact_email ? (currentMetrics?.contactEmail || 0) + 1 : (currentMetrics?.contactEmail || 0),
-            geographicData: enrichmentData?.address ? (currentMetrics?.geographicData || 0) + 1 : (currentMetrics?.geographicData || 0),
-            age: enrichmentData?.age ? (currentMetrics?.age || 0) + 1 : (currentMetrics?.age || 0),
-            phoneNumber: enrichmentData?.phone ? (currentMetrics?.phoneNumber || 0) + 1 : (currentMetrics?.phoneNumber || 0),
-            householdIncome: enrichmentData?.income ? (currentMetrics?.householdIncome || 0) + 1 : (currentMetrics?.householdIncome || 0),
+        if (traffic.status !== 'valid') {
+          console.log(`Tagged ${traffic.status} pixel hit for CID ${cid} (${traffic.reasons.join(', ')}) - skipping enrichment`);
+          return {
+            success: true,
+            captureId: capture.id,
+            hashedEmail: md5,
+            processed: false,
+            trafficStatus: traffic.status,
+            reasons: traffic.reasons
           };
-          await storage.updateIdentityMetrics(updates);
-          
-          console.log(`Successfully enriched pixel endpoint MD5: ${md5}`);
-          
-        } catch (enrichmentError) {
-          console.error("Pixel endpoint enrichment failed:", enrichmentError);
-          // Still update metrics for the captured hash
-          const currentMetrics = await storage.getIdentityMetrics();
-          await storage.updateIdentityMetrics({
-            hashedEmails: (currentMetrics?.hashedEmails || 0) + 1,
-          });
+        }
+
+        // Append the hit to the visitor's page view history
+        await storage.recordPageView({
+          captureId: capture.id,
+          cid,
+          hashedEmail: md5,
+          sessionId: session_id || null,
+          url: url || null,
+          var1: var1 || null,
+          var2: var2 || null,
+          source,
+          category: visitIntentService.categorize(url, visitIntentService.getRules(account)),
+          viewedAt: ts ? new Date(ts) : new Date(),
+        });
+        leadScoringService.queueRescore(capture.id);
+
+        // Queue enrichment for identities that haven't been enriched yet, including ones first seen as
+        // rejected or suspicious traffic - the enrichment worker calls the provider
+        if (created || capture.enrichmentStatus === 'pending') {
+          await enrichmentQueueService.enqueue(capture, 'pixel_endpoint');
         }
 
         return {
           success: true,
           captureId: capture.id,
           hashedEmail: md5,
-          processed: true
+          processed: true,
+          created
         };
       }
 
@@ -112,36 +137,6 @@ export class PixelEndpointService {
       }
     }, intervalMs);
   }
-
-  // Real-time webhook handler for Sphere Data Solutions
-  async processWebhookData(webhookData: {
-    md5_emails: Array<{
-      md5: string;
-      cid: string;
-      timestamp: string;
-      metadata?: any;
-    }>;
-  }): Promise<{ processed: number; errors: number }> {
-    let processed = 0;
-    let errors = 0;
-
-    for (const emailData of webhookData.md5_emails) {
-      try {
-        await this.captureFromPixelEndpoint({
-          md5: emailData.md5,
-          cid: emailData.cid,
-          ts: emailData.timestamp,
-          ...emailData.metadata
-        });
-        processed++;
-      } catch (error) {
-        console.error(`Failed to process webhook email ${emailData.md5}:`, error);
-        errors++;
-      }
-    }
-
-    return { processed, errors };
-  }
 }
 
 export const pixelEndpointService = new PixelEndpointService();
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { storage, type StaleEnrichmentCutoffs } from '../storage';
+import { logger } from '../utils/logger';
+import { enrichmentQueueService } from './enrichmentQueueService';
+
+// Per-CID refresh policy stored in cidAccounts.settings.reEnrichment
+export interface ReEnrichmentPolicy {
+  enabled: boolean;
+  completedAfterDays: number | null; // Re-enrich completed records this long after the last provider check, null = never
+  failedAfterDays: number | null; // Retry failed records this long after the last provider check, null = never
+  maxPerRun: number; // Records enqueued per CID per scheduled run
+}
+
+export interface ReEnrichmentRunResult {
+  dryRun: boolean;
+  enqueued: number;
+  accounts: Array<{ cid: string; due: { completed: number; failed: number }; enqueued: number }>;
+}
+
+const DEFAULT_POLICY: ReEnrichmentPolicy = {
+  enabled: false,
+  completedAfterDays: 180,
+  failedAfterDays: 30,
+  maxPerRun: 100,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Re-enriches records whose provider data has gone stale. Due records are enqueued as refresh jobs
+ * (cache bypassed) and every refresh writes an enrichment_refreshes row with the fields that changed.
+ */
+export class ReEnrichmentService {
+  private isRunning = false;
+
+  getPolicy(account: any): ReEnrichmentPolicy {
+    return { ...DEFAULT_POLICY, ...(account?.settings?.reEnrichment || {}) };
+  }
+
+  getCutoffs(policy: ReEnrichmentPolicy, now: Date = new Date()): StaleEnrichmentCutoffs {
+    return {
+      completedBefore: policy.completedAfterDays === null ? null : new Date(now.getTime() - policy.completedAfterDays * DAY_MS),
+      failedBefore: policy.failedAfterDays === null ? null : new Date(now.getTime() - policy.failedAfterDays * DAY_MS),
+    };
+  }
+
+  /**
+   * Enqueue due records for every active CID with an enabled policy, or for one CID on demand.
+   * A dry run only counts what is due.
+   */
+  async run(options: { cid?: string; dryRun?: boolean } = {}): Promise<ReEnrichmentRunResult> {
+    if (this.isRunning && !options.dryRun) {
+      throw new Error('Re-enrichment is already running');
+    }
+
+    const accounts = options.cid
+      ? [await storage.getCidAccount(options.cid)].filter(Boolean)
+      : (await storage.getCidAccounts()).filter((account: any) => account.status === 'active' && this.getPolicy(account).enabled);
+
+    const result: ReEnrichmentRunResult = { dryRun: !!options.dryRun, enqueued: 0, accounts: [] };
+
+    if (!options.dryRun) this.isRunning = true;
+    try {
+      for (const account of accounts as any[]) {
+        const policy = this.getPolicy(account);
+        const cutoffs = this.getCutoffs(policy);
+        const due = await storage.countStaleEnrichmentCaptures(account.cid, cutoffs);
+        let enqueued = 0;
+
+        if (!options.dryRun && due.completed + due.failed > 0) {
+          const captures = await storage.getStaleEnrichmentCaptures(account.cid, cutoffs, policy.maxPerRun);
+          const jobs = await enrichmentQueueService.enqueueMany(captures, 're_enrichment', { refresh: true, bypassCache: true });
+          enqueued = jobs.length;
+        }
+
+        result.enqueued += enqueued;
+        result.accounts.push({ cid: account.cid, due, enqueued });
+      }
+
+      if (!options.dryRun) {
+        logger.info('re-enrichment', `Enqueued ${result.enqueued} stale records for re-enrichment across ${result.accounts.length} CID(s)`, { accounts: result.accounts }, options.cid || 'system', 'RE_ENRICHMENT_COMPLETE');
+      }
+      return result;
+    } finally {
+      if (!options.dryRun) this.isRunning = false;
+    }
+  }
+
+  async updatePolicy(cid: string, updates: Partial<ReEnrichmentPolicy>): Promise<any | undefined> {
+    const account = await storage.getCidAccount(cid);
+    if (!account) return undefined;
+
+    return await storage.updateCidAccountSettings(cid, {
+      reEnrichment: { ...this.getPolicy(account), ...updates },
+    });
+  }
+}
+
+export const reEnrichmentService = new ReEnrichmentService();
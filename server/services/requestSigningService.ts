@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+
+// off: accept everything, monitor: log rejections but still accept, enforce: reject
+export type SignatureEnforcementMode = 'off' | 'monitor' | 'enforce';
+
+export interface SignedRequest {
+  cid?: string;
+  signature?: string;
+  timestamp?: string; // Unix seconds
+  payload: string; // Canonical query string for pixel hits, raw body for webhooks
+  endpoint: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SignatureCheckResult {
+  accepted: boolean;
+  valid: boolean;
+  mode: SignatureEnforcementMode;
+  reason?: string;
+  account?: any;
+}
+
+const SIGNATURE_TOLERANCE_SECONDS = 300; // Requests older or newer than 5 minutes are rejected
+const SIGNATURE_QUERY_PARAMS = ['sig', 'sig_ts'];
+
+/**
+ * Verifies HMAC-SHA256 signatures on pixel and webhook requests using the
+ * per-CID signing secret. Signatures cover `${timestamp}.${payload}` and each
+ * signature is only accepted once within the tolerance window.
+ */
+export class RequestSigningService {
+  private seenSignatures: Map<string, number> = new Map();
+  private lastPrune = Date.now();
+
+  generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  sign(secret: string, timestamp: string, payload: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  }
+
+  /**
+   * Builds the signed payload for a pixel hit - query parameters sorted by name, excluding the signature itself
+   */
+  canonicalizeQuery(query: Record<string, any>): string {
+    return Object.keys(query)
+      .filter(key => !SIGNATURE_QUERY_PARAMS.includes(key) && query[key] !== undefined)
+      .sort()
+      .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(String(query[key]))}`)
+      .join('&');
+  }
+
+  getEnforcementMode(account?: any): SignatureEnforcementMode {
+    const mode = account?.settings?.signatureEnforcement || process.env.REQUEST_SIGNING_MODE || 'monitor';
+    return ['off', 'monitor', 'enforce'].includes(mode) ? mode : 'monitor';
+  }
+
+  /**
+   * Verifies a request and decides whether to accept it under the CID's enforcement mode.
+   * Rejected attempts are written to system_logs.
+   */
+  async check(request: SignedRequest): Promise<SignatureCheckResult> {
+    const account = request.cid ? await storage.getCidAccount(request.cid) : undefined;
+    const mode = this.getEnforcementMode(account);
+    const reason = this.verify(request, account);
+
+    if (!reason) {
+      return { accepted: true, valid: true, mode, account };
+    }
+
+    const accepted = mode !== 'enforce';
+    if (mode !== 'off') {
+      await this.logRejection(request, reason, mode, accepted);
+    }
+
+    return { accepted, valid: false, mode, reason, account };
+  }
+
+  private verify(request: SignedRequest, account: any): string | undefined {
+    if (!request.cid) return 'missing_cid';
+    if (!account) return 'unknown_cid';
+    if (account.status !== 'active') return 'inactive_cid';
+    if (!request.signature || !request.timestamp) return 'unsigned';
+    if (!account.signingSecret) return 'no_signing_secret';
+
+    const timestamp = parseInt(request.timestamp);
+    if (isNaN(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      return 'stale_timestamp';
+    }
+
+    const expected = Buffer.from(this.sign(account.signingSecret, request.timestamp, request.payload), 'hex');
+    const provided = Buffer.from(request.signature, 'hex');
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      return 'bad_signature';
+    }
+
+    this.pruneSeenSignatures();
+    const replayKey = `${request.cid}:${request.signature}`;
+    if (this.seenSignatures.has(replayKey)) {
+      return 'replayed';
+    }
+    this.seenSignatures.set(replayKey, Date.now() + SIGNATURE_TOLERANCE_SECONDS * 1000);
+
+    return undefined;
+  }
+
+  private pruneSeenSignatures(): void {
+    const now = Date.now();
+    if (now - this.lastPrune < 60 * 1000) return;
+
+    this.seenSignatures.forEach((expiresAt, key) => {
+      if (expiresAt < now) this.seenSignatures.delete(key);
+    });
+    this.lastPrune = now;
+  }
+
+  private async logRejection(request: SignedRequest, reason: string, mode: SignatureEnforcementMode, accepted: boolean): Promise<void> {
+    try {
+      await storage.createSystemLog({
+        eventType: 'WARNING',
+        source: 'request-signing',
+        eventCode: accepted ? 'SIGNATURE_INVALID_ACCEPTED' : 'SIGNATURE_REJECTED',
+        message: `${accepted ? 'Accepted' : 'Rejected'} ${request.endpoint} request with invalid signature: ${reason}`,
+        details: { reason, mode, endpoint: request.endpoint },
+        cid: request.cid || null,
+        ipAddress: request.ipAddress || null,
+        userAgent: request.userAgent || null,
+      });
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] Failed to log signature rejection:`, error);
+    }
+  }
+}
+
+export const requestSigningService = new RequestSigningService();
@@ -1,8 +1,7 @@
 import * as cron from 'node-cron';
 // import parseExpression from 'cron-parser'; // Temporary disable due to import issues
-import axios from 'axios';
 import { storage } from '../storage';
-import { enrichAndSave } from './enrichmentService';
+import { visitorSourceService } from './visitorSourceService';
 import { mailchimpService } from './mailchimpService';
 import { logger } from '../utils/logger';
 
@@ -46,7 +45,7 @@ export class ScheduledSyncService {
     this.isRunning = true;
     let totalSynced = 0;
     let totalErrors = 0;
-    const newlySyncedRecords = []; // Track newly synced records for enrichment
+    let newlySyncedCount = 0; // New identities are queued for enrichment by the source sync
 
     try {
       logger.info('sync-service', 'Starting automated nightly sync process', {}, 'system', 'SYNC_BEGIN');
@@ -76,99 +75,13 @@ export class ScheduledSyncService {
       }
 
       for (const account of activeAccounts) {
-        try {
-          const cid = account.cid;
-          console.log(`[${new Date().toISOString()}] Syncing active CID: ${cid} (${account.accountName})`);
+        console.log(`[${new Date().toISOString()}] Syncing active CID: ${account.cid} (${account.accountName})`);
 
-          // 1. Get last synced timestamp from sync_log for delta sync
-          const syncLog = await storage.getSyncLog(cid);
-          const lastSyncedAt = syncLog?.lastSyncedAt?.toISOString() || null;
-
-          // 2. Build endpoint URL with delta sync parameter
-          let endpoint = `https://spheredsgpixel.com/pixelEndpoint?cid=${encodeURIComponent(cid)}`;
-          if (lastSyncedAt) {
-            endpoint += `&since=${encodeURIComponent(lastSyncedAt)}`;
-          }
-
-          console.log(`[${new Date().toISOString()}] Fetching from: ${endpoint} (since: ${lastSyncedAt || "FULL SYNC"})`);
-
-          // 3. Fetch records from the endpoint with delta sync
-          const response = await axios.get(endpoint, {
-            headers: { 
-              'Accept': 'application/json',
-              'User-Agent': 'VisitorIQ-Pro/1.0'
-            },
-            timeout: 30000 // 30 second timeout
-          });
-
-          if (Array.isArray(response.data)) {
-            let maxTs = lastSyncedAt;
-            let syncCount = 0;
-
-            // 4. Upsert each visitor record with proper field mapping
-            for (const record of response.data) {
-              // Skip records without required fields
-              if (!record.md5 || !record.ts) {
-                console.warn(`Skipping record without md5 or ts:`, record);
-                continue;
-              }
-
-              try {
-                // Check for existing record
-                const existing = await storage.getEmailCaptureByHashAndCid(record.md5, cid);
-
-                // Prepare upsert data (map Worker fields to DB fields)
-                const captureData = {
-                  hashedEmail: record.md5,
-                  cid: record.cid || cid, // Use record CID or account CID
-                  url: record.url || null,
-                  lastPageViewed: record.url || null, // Populate lastPageViewed with the captured URL
-                  ts: record.ts,
-                  var1: record.var || null, // Worker 'var' field → 'var1'
-                  sessionId: record.gtmcb || null, // Worker 'gtmcb' field → 'sessionId'
-                  source: "pixel_endpoint",
-                  capturedAt: new Date(),
-                  updatedAt: new Date(),
-                };
-
-                let newCapture;
-                if (!existing) {
-                  newCapture = await storage.createEmailCapture(captureData);
-                  newlySyncedRecords.push(newCapture); // Track new records for enrichment
-                  console.log(`Created new capture for MD5: ${record.md5.substring(0, 8)}...`);
-                } else {
-                  await storage.updateEmailCapture(existing.id, captureData);
-                  newCapture = { ...existing, ...captureData, id: existing.id };
-                  console.log(`Updated existing capture for MD5: ${record.md5.substring(0, 8)}...`);
-                }
-
-                syncCount++;
-                totalSynced++;
-
-                // Track highest timestamp for sync_log update
-                if (!maxTs || new Date(record.ts) > new Date(maxTs)) {
-                  maxTs = record.ts;
-                }
-              } catch (recordError) {
-                console.error(`Error processing record ${record.md5}:`, recordError);
-                totalErrors++;
-              }
-            }
-
-            // 5. Update sync_log table with new lastSyncedAt and sync count
-            // Always update sync timestamp even if no records were processed (for display purposes)
-            const syncTimestamp = maxTs || new Date().toISOString();
-            await storage.upsertSyncLog(cid, syncTimestamp, syncCount);
-            console.log(`[${new Date().toISOString()}] Updated sync log for CID: ${cid}, records: ${syncCount}, timestamp: ${syncTimestamp}`);
-
-            console.log(`[${new Date().toISOString()}] Synced ${syncCount} records for CID: ${cid}`);
-          } else {
-            console.warn(`[${new Date().toISOString()}] Unexpected response format for CID: ${cid}`, response.data);
-          }
-        } catch (error) {
-          console.error(`[${new Date().toISOString()}] Sync failed for CID ${account.cid}:`, error);
-          totalErrors++;
-        }
+        // Pull from every visitor source configured for this CID - new identities are queued for enrichment
+        const result = await visitorSourceService.syncCid(account.cid, { trigger: 'scheduled_sync' });
+        totalSynced += result.created + result.updated;
+        totalErrors += result.errors;
+        newlySyncedCount += result.newCaptures.length;
       }
 
       // Store sync results
@@ -181,21 +94,7 @@ export class ScheduledSyncService {
 
       logger.info('sync-service', `Nightly sync completed. Total synced: ${totalSynced}, Errors: ${totalErrors}`, { totalSynced, totalErrors }, 'system', 'SYNC_COMPLETE');
       
-      // Trigger batch enrichment for newly synced records only
-      if (newlySyncedRecords.length > 0) {
-        logger.info('enrichment-service', `Triggering batch enrichment for ${newlySyncedRecords.length} newly synced records`, { recordCount: newlySyncedRecords.length }, 'system', 'ENRICH_START');
-        try {
-          const { batchEnrichAndSave } = await import('./enrichmentService');
-          
-          batchEnrichAndSave(newlySyncedRecords).then(stats => {
-            logger.info('enrichment-service', `Nightly enrichment completed: ${stats.enriched} enriched, ${stats.failed} failed`, stats, 'system', 'ENRICH_COMPLETE');
-          }).catch(error => {
-            logger.error('enrichment-service', 'Error in nightly batch enrichment', error, 'system', 'ENRICH_ERROR');
-          });
-        } catch (error) {
-          logger.error('enrichment-service', 'Error setting up batch enrichment', error, 'system', 'ENRICH_SETUP_ERROR');
-        }
-      } else {
+      if (newlySyncedCount === 0) {
         logger.info('sync-service', 'No new records captured during sync - no enrichment needed', {}, 'system', 'SYNC_NO_ENRICH');
       }
       
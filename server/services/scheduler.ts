@@ -1,7 +1,7 @@
 import { CronJob } from 'cron';
 import { DateTime } from 'luxon';
 
-export type JobKey = 'spherePixel' | 'mailchimp' | 'handwrytten';
+export type JobKey = 'spherePixel' | 'mailchimp' | 'handwrytten' | 'reEnrichment' | 'leadScoring' | 'identityMetrics' | 'campaigns' | 'sequences' | 'mailchimpActivity';
 type RunResult = { ok: boolean; message: string; count?: number };
 
 export interface JobDef {
@@ -0,0 +1,171 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import type { OutreachChannel } from './visitIntentService';
+import {
+  SEGMENT_FIELDS,
+  SEGMENT_LIMITS,
+  SEGMENT_OPERATORS,
+  type EmailCapture,
+  type Segment,
+  type SegmentGroup,
+} from '@shared/schema';
+
+// Per-channel segment stored in cidAccounts.settings.syncSegments - null syncs every qualifying contact
+export type SyncSegments = Record<OutreachChannel, number | null>;
+
+const DEFAULT_SYNC_SEGMENTS: SyncSegments = { mailchimp: null, handwrytten: null };
+
+const isScalar = (value: unknown, type: string) =>
+  type === 'number'
+    ? typeof value === 'number' && isFinite(value)
+    : (typeof value === 'string' && value.trim() !== '') || (typeof value === 'number' && isFinite(value));
+
+/**
+ * Saved audiences within a CID. A segment's definition is a rule tree of field conditions and page
+ * visit rules; storage compiles it to SQL, so counts and member lists come straight from the database.
+ */
+export class SegmentService {
+  getDefinition(segment: Pick<Segment, 'definition'>): SegmentGroup {
+    return segment.definition as SegmentGroup;
+  }
+
+  /**
+   * Check a rule tree from the editor. Returns an error message for the first bad rule, or null.
+   */
+  validateDefinition(definition: unknown): string | null {
+    let count = 0;
+
+    const check = (rule: any, path: string, depth: number): string | null => {
+      if (!rule || typeof rule !== 'object' || Array.isArray(rule)) return `${path} must be an object`;
+      if (++count > SEGMENT_LIMITS.maxRules) return `A segment can have at most ${SEGMENT_LIMITS.maxRules} rules`;
+
+      if (rule.type === 'group') {
+        if (depth > SEGMENT_LIMITS.maxDepth) return `${path}: groups can nest at most ${SEGMENT_LIMITS.maxDepth} levels`;
+        if (rule.combinator !== 'and' && rule.combinator !== 'or') return `${path}: combinator must be "and" or "or"`;
+        if (rule.negate !== undefined && typeof rule.negate !== 'boolean') return `${path}: negate must be true or false`;
+        if (!Array.isArray(rule.rules)) return `${path}: rules must be an array`;
+        for (let index = 0; index < rule.rules.length; index++) {
+          const error = check(rule.rules[index], `${path}.rules[${index}]`, depth + 1);
+          if (error) return error;
+        }
+        return null;
+      }
+
+      if (rule.type === 'condition') {
+        const field = typeof rule.field === 'string' && Object.prototype.hasOwnProperty.call(SEGMENT_FIELDS, rule.field)
+          ? SEGMENT_FIELDS[rule.field]
+          : undefined;
+        if (!field) return `${path}: unknown field "${rule.field}"`;
+        if (!SEGMENT_OPERATORS[field.type].includes(rule.op)) {
+          return `${path}: ${rule.field} supports ${SEGMENT_OPERATORS[field.type].join(', ')}`;
+        }
+
+        if (field.type === 'boolean') {
+          return typeof rule.value === 'boolean' ? null : `${path}: value must be true or false`;
+        }
+        if (rule.op === 'is_set' || rule.op === 'is_not_set') return null;
+        if (rule.op === 'in' || rule.op === 'not_in') {
+          if (!Array.isArray(rule.value) || rule.value.length === 0 || rule.value.length > SEGMENT_LIMITS.maxListValues) {
+            return `${path}: value must be a list of 1 to ${SEGMENT_LIMITS.maxListValues} values`;
+          }
+          return rule.value.every((value: unknown) => isScalar(value, field.type)) ? null : `${path}: every value must be a ${field.type}`;
+        }
+        if (rule.op === 'between') {
+          const valid = Array.isArray(rule.value) && rule.value.length === 2 && rule.value.every((value: unknown) => isScalar(value, 'number'));
+          return valid ? null : `${path}: value must be [min, max]`;
+        }
+        return isScalar(rule.value, field.type) ? null : `${path}: value must be a ${field.type}`;
+      }
+
+      if (rule.type === 'visit') {
+        if (rule.category !== undefined && (typeof rule.category !== 'string' || !/^[a-z0-9_]{1,50}$/.test(rule.category))) {
+          return `${path}: category must be lowercase letters, digits and underscores`;
+        }
+        if (rule.urlContains !== undefined && (typeof rule.urlContains !== 'string' || rule.urlContains.trim() === '')) {
+          return `${path}: urlContains must be a non-empty string`;
+        }
+        if (rule.withinDays !== undefined && !(typeof rule.withinDays === 'number' && rule.withinDays > 0 && rule.withinDays <= 3650)) {
+          return `${path}: withinDays must be between 1 and 3650`;
+        }
+        if (rule.minCount !== undefined && !(Number.isInteger(rule.minCount) && rule.minCount >= 1 && rule.minCount <= 1000)) {
+          return `${path}: minCount must be a whole number between 1 and 1000`;
+        }
+        return null;
+      }
+
+      return `${path}: type must be "group", "condition" or "visit"`;
+    };
+
+    if (!definition || (definition as any).type !== 'group') return 'definition must be a group';
+    return check(definition, 'definition', 1);
+  }
+
+  async preview(cid: string, definition: SegmentGroup): Promise<number> {
+    return await storage.countSegmentCaptures(cid, definition);
+  }
+
+  /**
+   * Count a saved segment's members and remember the count for the segment list
+   */
+  async count(segment: Segment): Promise<Segment | undefined> {
+    const count = await storage.countSegmentCaptures(segment.cid, this.getDefinition(segment));
+    return await storage.updateSegment(segment.id, { lastCount: count, lastCountedAt: new Date() });
+  }
+
+  async getCaptures(segment: Segment): Promise<EmailCapture[]> {
+    return await storage.getSegmentCaptures(segment.cid, this.getDefinition(segment));
+  }
+
+  getSyncSegments(account: any): SyncSegments {
+    return { ...DEFAULT_SYNC_SEGMENTS, ...(account?.settings?.syncSegments || {}) };
+  }
+
+  async updateSyncSegments(cid: string, updates: Partial<SyncSegments>): Promise<any | undefined> {
+    const account = await storage.getCidAccount(cid);
+    if (!account) return undefined;
+
+    return await storage.updateCidAccountSettings(cid, {
+      syncSegments: { ...this.getSyncSegments(account), ...updates },
+    });
+  }
+
+  /**
+   * IDs of the captures a channel's sync is limited to, or null when the CID syncs without a segment
+   */
+  async getSyncMembers(account: any, channel: OutreachChannel): Promise<Set<number> | null> {
+    const segmentId = this.getSyncSegments(account)[channel];
+    if (!segmentId) return null;
+
+    const segment = await storage.getSegment(segmentId);
+    if (!segment || segment.cid !== account.cid) {
+      // Nothing is synced rather than everything - the setting should be fixed, not worked around
+      logger.warning('segments', `Sync segment ${segmentId} for ${channel} is missing`, { segmentId, channel }, account.cid, 'SYNC_SEGMENT_MISSING');
+      return new Set();
+    }
+    return new Set(await storage.getSegmentCaptureIds(segment.cid, this.getDefinition(segment)));
+  }
+
+  /**
+   * Delete a segment, unless an active campaign is built on it. Syncs limited to it go back to
+   * syncing without a segment.
+   */
+  async remove(segment: Segment): Promise<{ deleted: boolean; message?: string }> {
+    const active = (await storage.getCampaignsBySegment(segment.id)).filter(campaign => campaign.status !== 'completed');
+    if (active.length > 0) {
+      return { deleted: false, message: `Segment is used by campaign "${active[0].name}"` };
+    }
+
+    const account = await storage.getCidAccount(segment.cid);
+    const syncSegments = this.getSyncSegments(account);
+    const cleared = (Object.keys(syncSegments) as OutreachChannel[]).filter(channel => syncSegments[channel] === segment.id);
+    if (account && cleared.length > 0) {
+      await this.updateSyncSegments(segment.cid, Object.fromEntries(cleared.map(channel => [channel, null])));
+    }
+
+    await storage.deleteSegment(segment.id);
+    logger.info('segments', `Deleted segment "${segment.name}"`, { segmentId: segment.id, clearedSyncs: cleared }, segment.cid, 'SEGMENT_DELETED');
+    return { deleted: true };
+  }
+}
+
+export const segmentService = new SegmentService();
@@ -0,0 +1,303 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { emailSelectionService } from './emailSelectionService';
+import { mailchimpService } from './mailchimpService';
+import { handwryttenService } from './handwryttenService';
+import { segmentService } from './segmentService';
+import type {
+  EmailCapture,
+  Sequence,
+  SequenceEnrollment,
+  SequenceExitConditions,
+  SequenceExitReason,
+  SequenceStep,
+  SequenceStepResult,
+} from '@shared/schema';
+
+export interface SequenceRunResult {
+  enrolled: number;
+  advanced: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+  exited: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ADVANCE_BATCH_SIZE = 200;
+const MAX_STEPS = 20;
+const MAX_DAY = 365;
+
+const hasAddress = (capture: EmailCapture) =>
+  !!(capture.firstName && capture.lastName && capture.address && capture.city && capture.state && capture.zip);
+
+/**
+ * Drip sequences: an identity is enrolled once per sequence, then each step - a Mailchimp tag or a
+ * Handwrytten card - runs its configured number of days after enrollment. The scheduler advances due
+ * enrollments, first checking the sequence's exit conditions, and records every step on the enrollment.
+ */
+export class SequenceService {
+  private isRunning = false;
+
+  getSteps(sequence: Pick<Sequence, 'steps'>): SequenceStep[] {
+    return (sequence.steps as SequenceStep[] | null) || [];
+  }
+
+  getExitConditions(sequence: Pick<Sequence, 'exitConditions'>): SequenceExitConditions {
+    return (sequence.exitConditions as SequenceExitConditions | null) || {};
+  }
+
+  /**
+   * Check steps from the editor. Returns an error message for the first bad step, or null.
+   */
+  validateSteps(steps: unknown): string | null {
+    if (!Array.isArray(steps) || steps.length === 0) return 'steps must be a non-empty array';
+    if (steps.length > MAX_STEPS) return `A sequence can have at most ${MAX_STEPS} steps`;
+
+    let previousDay = 0;
+    for (let index = 0; index < steps.length; index++) {
+      const step = steps[index];
+      const position = `Step ${index + 1}`;
+      if (!step || typeof step !== 'object') return `${position} must be an object`;
+      if (typeof step.day !== 'number' || step.day < 0 || step.day > MAX_DAY) return `${position}: day must be between 0 and ${MAX_DAY}`;
+      if (step.day < previousDay) return `${position}: steps must be in day order`;
+      previousDay = step.day;
+
+      if (step.channel !== 'mailchimp' && step.channel !== 'handwrytten') return `${position}: channel must be "mailchimp" or "handwrytten"`;
+      for (const key of ['mailchimpTag', 'cardId', 'message', 'handwritingId']) {
+        if (step[key] !== undefined && step[key] !== null && typeof step[key] !== 'string') return `${position}: ${key} must be a string`;
+      }
+      if (step.channel === 'mailchimp' && !(typeof step.mailchimpTag === 'string' && step.mailchimpTag.trim())) {
+        return `${position}: mailchimpTag is required for Mailchimp steps`;
+      }
+      if (step.onlyIfNoReturnVisit !== undefined && typeof step.onlyIfNoReturnVisit !== 'boolean') {
+        return `${position}: onlyIfNoReturnVisit must be true or false`;
+      }
+    }
+    return null;
+  }
+
+  validateExitConditions(conditions: unknown): string | null {
+    if (conditions === undefined || conditions === null) return null;
+    if (typeof conditions !== 'object' || Array.isArray(conditions)) return 'exitConditions must be an object';
+
+    const { newVisit, visitCategory, unsubscribe } = conditions as Record<string, unknown>;
+    if (newVisit !== undefined && typeof newVisit !== 'boolean') return 'exitConditions.newVisit must be true or false';
+    if (unsubscribe !== undefined && typeof unsubscribe !== 'boolean') return 'exitConditions.unsubscribe must be true or false';
+    if (visitCategory !== undefined && visitCategory !== null && (typeof visitCategory !== 'string' || !/^[a-z0-9_]{1,50}$/.test(visitCategory))) {
+      return 'exitConditions.visitCategory must be lowercase letters, digits and underscores';
+    }
+    return null;
+  }
+
+  /**
+   * Enroll identities from the sequence's CID. Identities already enrolled, even ones that have
+   * finished, are skipped. Returns how many were enrolled.
+   */
+  async enroll(sequence: Sequence, captures: Array<Pick<EmailCapture, 'id' | 'cid'>>, now: Date = new Date()): Promise<number> {
+    const [first] = this.getSteps(sequence);
+    if (!first) return 0;
+
+    const enrolled = await storage.createSequenceEnrollments(
+      captures
+        .filter(capture => capture.cid === sequence.cid)
+        .map(capture => ({
+          sequenceId: sequence.id,
+          captureId: capture.id,
+          cid: sequence.cid,
+          enrolledAt: now,
+          nextRunAt: new Date(now.getTime() + first.day * DAY_MS),
+        }))
+    );
+
+    if (enrolled > 0) {
+      logger.info('sequences', `Enrolled ${enrolled} identities in "${sequence.name}"`, { sequenceId: sequence.id }, sequence.cid, 'SEQUENCE_ENROLLED');
+    }
+    return enrolled;
+  }
+
+  async stop(enrollment: SequenceEnrollment, reason: SequenceExitReason): Promise<SequenceEnrollment | undefined> {
+    return await storage.updateSequenceEnrollment(enrollment.id, {
+      status: 'exited',
+      exitReason: reason,
+      nextRunAt: null,
+      finishedAt: new Date(),
+    });
+  }
+
+  /**
+   * Re-time active enrollments after a sequence's steps change. Each keeps its position; one whose
+   * position is now past the last step is completed.
+   */
+  async reschedule(sequence: Sequence): Promise<void> {
+    const steps = this.getSteps(sequence);
+
+    for (const enrollment of await storage.getSequenceEnrollments(sequence.id, { status: 'active' })) {
+      const step = steps[enrollment.currentStep];
+      const enrolledAt = enrollment.enrolledAt || new Date();
+      await storage.updateSequenceEnrollment(enrollment.id, step
+        ? { nextRunAt: new Date(enrolledAt.getTime() + step.day * DAY_MS) }
+        : { status: 'completed', nextRunAt: null, finishedAt: new Date() });
+    }
+  }
+
+  /**
+   * Enroll new segment members into running sequences, then run every step that is due. Called by
+   * the scheduler.
+   */
+  async advance(now: Date = new Date()): Promise<SequenceRunResult> {
+    if (this.isRunning) {
+      throw new Error('Sequence run is already in progress');
+    }
+
+    this.isRunning = true;
+    const result: SequenceRunResult = { enrolled: 0, advanced: 0, sent: 0, skipped: 0, failed: 0, exited: 0 };
+
+    try {
+      const running = await storage.getActiveSequences();
+      const sequences = new Map(running.map(sequence => [sequence.id, sequence]));
+
+      for (const sequence of running) {
+        if (!sequence.segmentId) continue;
+
+        const segment = await storage.getSegment(sequence.segmentId);
+        if (!segment) continue;
+
+        const enrolled = new Set(await storage.getEnrolledCaptureIds(sequence.id));
+        const members = await storage.getSegmentCaptureIds(segment.cid, segmentService.getDefinition(segment));
+        result.enrolled += await this.enroll(
+          sequence,
+          members.filter(id => !enrolled.has(id)).map(id => ({ id, cid: segment.cid })),
+          now
+        );
+      }
+
+      // An enrollment that errors stays due; seen stops it being picked up again in this run
+      const seen = new Set<number>();
+      const accounts = new Map<string, any>();
+
+      while (true) {
+        const due = (await storage.getDueSequenceEnrollments(now, ADVANCE_BATCH_SIZE)).filter(enrollment => !seen.has(enrollment.id));
+        if (due.length === 0) break;
+
+        for (const enrollment of due) {
+          seen.add(enrollment.id);
+          const sequence = sequences.get(enrollment.sequenceId) || await storage.getSequence(enrollment.sequenceId);
+          if (!sequence) continue;
+          sequences.set(sequence.id, sequence);
+
+          if (!accounts.has(sequence.cid)) {
+            accounts.set(sequence.cid, await storage.getCidAccount(sequence.cid));
+          }
+
+          try {
+            const outcome = await this.advanceEnrollment(sequence, enrollment, accounts.get(sequence.cid), now);
+            if (outcome === 'exited') {
+              result.exited++;
+            } else {
+              result.advanced++;
+              result[outcome]++;
+            }
+          } catch (error) {
+            logger.error('sequences', `Failed to advance enrollment ${enrollment.id} in "${sequence.name}"`, error, sequence.cid, 'SEQUENCE_STEP_ERROR');
+          }
+        }
+      }
+
+      logger.info('sequences', `Sequence run: ${result.advanced} steps (${result.sent} sent, ${result.skipped} skipped, ${result.failed} failed), ${result.exited} exited, ${result.enrolled} enrolled`, { ...result }, 'system', 'SEQUENCES_ADVANCED');
+      return result;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async advanceEnrollment(
+    sequence: Sequence,
+    enrollment: SequenceEnrollment,
+    account: any,
+    now: Date
+  ): Promise<SequenceStepResult['status'] | 'exited'> {
+    const steps = this.getSteps(sequence);
+    const step = steps[enrollment.currentStep];
+    const capture = await storage.getEmailCaptureById(enrollment.captureId);
+    const enrolledAt = enrollment.enrolledAt || now;
+
+    if (!step || !capture) {
+      await storage.updateSequenceEnrollment(enrollment.id, { status: 'completed', nextRunAt: null, finishedAt: now });
+      return 'skipped';
+    }
+
+    const exitConditions = this.getExitConditions(sequence);
+    const email = await this.resolveEmail(capture, account);
+
+    if (exitConditions.newVisit && await storage.hasPageViewSince(capture.id, enrolledAt, exitConditions.visitCategory || undefined)) {
+      await this.stop(enrollment, 'new_visit');
+      return 'exited';
+    }
+    // The webhook keeps mailchimpStatus current; the API is only asked when it hasn't reported yet
+    const unsubscribed = mailchimpService.isSuppressedStatus(capture.mailchimpStatus)
+      || (!capture.mailchimpStatus && !!email && mailchimpService.isSuppressedStatus(await mailchimpService.getMemberStatus(email, sequence.cid)));
+    if (exitConditions.unsubscribe && unsubscribed) {
+      await this.stop(enrollment, 'unsubscribed');
+      return 'exited';
+    }
+
+    const stepResult = step.onlyIfNoReturnVisit && await storage.hasPageViewSince(capture.id, enrolledAt)
+      ? { status: 'skipped' as const, externalId: null, detail: 'Returned to the site' }
+      : await this.runStep(step, capture, email, sequence.cid);
+
+    const history = (enrollment.history as SequenceStepResult[] | null) || [];
+    const nextStep = enrollment.currentStep + 1;
+    const next = steps[nextStep];
+
+    await storage.updateSequenceEnrollment(enrollment.id, {
+      history: [...history, { step: enrollment.currentStep, channel: step.channel, at: now.toISOString(), ...stepResult }],
+      currentStep: nextStep,
+      lastStepAt: now,
+      ...(next
+        ? { nextRunAt: new Date(enrolledAt.getTime() + next.day * DAY_MS) }
+        : { status: 'completed', nextRunAt: null, finishedAt: now }),
+    });
+    return stepResult.status;
+  }
+
+  private async runStep(
+    step: SequenceStep,
+    capture: EmailCapture,
+    email: string | null,
+    cid: string
+  ): Promise<Pick<SequenceStepResult, 'status' | 'externalId' | 'detail'>> {
+    try {
+      if (step.channel === 'handwrytten') {
+        if (!hasAddress(capture)) return { status: 'skipped', externalId: null, detail: 'No mailing address' };
+
+        const response = await handwryttenService.sendNote(capture, step.cardId || undefined, step.message || undefined, step.handwritingId || undefined);
+        return response.success
+          ? { status: 'sent', externalId: response.noteId ? String(response.noteId) : null, detail: null }
+          : { status: 'failed', externalId: null, detail: response.message };
+      }
+
+      if (!email) return { status: 'skipped', externalId: null, detail: 'No email address' };
+      if (mailchimpService.isSuppressedStatus(capture.mailchimpStatus)) {
+        return { status: 'skipped', externalId: null, detail: `Contact is ${capture.mailchimpStatus} in Mailchimp` };
+      }
+
+      const added = await mailchimpService.addContactWithCidTag(email, capture.firstName || '', capture.lastName || '', cid, capture);
+      const tagged = added && step.mailchimpTag ? await mailchimpService.tagContact(email, [step.mailchimpTag], cid) : added;
+      return tagged
+        ? { status: 'sent', externalId: mailchimpService.subscriberHash(email), detail: null }
+        : { status: 'failed', externalId: null, detail: added ? 'Mailchimp rejected the tag' : 'Mailchimp rejected the contact' };
+    } catch (error: any) {
+      return { status: 'failed', externalId: null, detail: error.message || String(error) };
+    }
+  }
+
+  // The address the CID's selection strategy picks, as the Mailchimp sync would send
+  private async resolveEmail(capture: EmailCapture, account: any): Promise<string | null> {
+    const strategy = emailSelectionService.getStrategy(account);
+    const candidates = emailSelectionService.isDefault(strategy) ? [] : await storage.getEmailCandidates([capture.id]);
+    return emailSelectionService.resolveEmail(capture, candidates, strategy);
+  }
+}
+
+export const sequenceService = new SequenceService();
@@ -0,0 +1,142 @@
+export type TrafficStatus = 'valid' | 'suspicious' | 'rejected';
+
+export interface TrafficClassification {
+  status: TrafficStatus;
+  reasons: string[];
+}
+
+// Crawlers, prerender services and headless browsers that fire the pixel without a real visitor
+const BOT_USER_AGENT_PATTERNS: RegExp[] = [
+  /bot\b/i,
+  /crawl/i,
+  /spider/i,
+  /slurp/i,
+  /mediapartners/i,
+  /facebookexternalhit/i,
+  /prerender/i,
+  /headlesschrome/i,
+  /phantomjs/i,
+  /puppeteer/i,
+  /playwright/i,
+  /lighthouse/i,
+  /pingdom/i,
+  /uptimerobot/i,
+  /curl\//i,
+  /wget\//i,
+  /python-requests/i,
+  /axios\//i,
+  /go-http-client/i,
+];
+
+// Published crawler ranges (Googlebot, Bingbot, Applebot, Yandex, Baidu)
+const BOT_IP_RANGES: string[] = [
+  '66.249.64.0/19',
+  '64.233.160.0/19',
+  '157.55.39.0/24',
+  '207.46.13.0/24',
+  '40.77.167.0/24',
+  '17.58.96.0/19',
+  '5.255.250.0/24',
+  '180.76.15.0/24',
+];
+
+function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    const octet = parseInt(part, 10);
+    if (isNaN(octet) || octet < 0 || octet > 255) return null;
+    value = (value << 8) + octet;
+  }
+  return value >>> 0;
+}
+
+function ipInRange(ip: string, cidr: string): boolean {
+  const [rangeIp, bits] = cidr.split('/');
+  const ipValue = ipv4ToInt(ip);
+  const rangeValue = ipv4ToInt(rangeIp);
+  if (ipValue === null || rangeValue === null) return false;
+
+  const mask = parseInt(bits, 10) === 0 ? 0 : (~0 << (32 - parseInt(bits, 10))) >>> 0;
+  return (ipValue & mask) === (rangeValue & mask);
+}
+
+function hostnameOf(value: string): string | null {
+  try {
+    const url = value.includes('://') ? value : `https://${value}`;
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Classifies pixel hits before they are enriched. Off-domain URLs and known bots are
+ * rejected, hits that look automated but can't be confirmed are marked suspicious.
+ */
+export class TrafficFilterService {
+  /**
+   * Allowed domains come from settings.allowedDomains, falling back to the account website
+   */
+  getAllowedDomains(account: any): string[] {
+    const configured: string[] = account?.settings?.allowedDomains || [];
+    const domains = configured.length > 0 ? configured : (account?.website ? [account.website] : []);
+
+    return domains
+      .map(domain => hostnameOf(domain))
+      .filter((domain): domain is string => !!domain);
+  }
+
+  isAllowedUrl(url: string, allowedDomains: string[]): boolean {
+    const hostname = hostnameOf(url);
+    if (!hostname) return false;
+
+    return allowedDomains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+  }
+
+  isBotUserAgent(userAgent: string): boolean {
+    return BOT_USER_AGENT_PATTERNS.some(pattern => pattern.test(userAgent));
+  }
+
+  isBotIp(ipAddress: string): boolean {
+    const ip = ipAddress.replace(/^::ffff:/, '');
+    return BOT_IP_RANGES.some(range => ipInRange(ip, range));
+  }
+
+  /**
+   * userAgent and ipAddress are only checked when the capture path provides them
+   */
+  classify(params: { account: any; url?: string; userAgent?: string; ipAddress?: string }): TrafficClassification {
+    const rejected: string[] = [];
+    const suspicious: string[] = [];
+
+    const allowedDomains = this.getAllowedDomains(params.account);
+    if (params.url && allowedDomains.length > 0 && !this.isAllowedUrl(params.url, allowedDomains)) {
+      rejected.push('domain_not_allowed');
+    }
+
+    if (params.userAgent !== undefined) {
+      if (!params.userAgent.trim()) {
+        suspicious.push('empty_user_agent');
+      } else if (this.isBotUserAgent(params.userAgent)) {
+        rejected.push('bot_user_agent');
+      }
+    }
+
+    if (params.ipAddress && this.isBotIp(params.ipAddress)) {
+      rejected.push('bot_ip');
+    }
+
+    if (rejected.length > 0) {
+      return { status: 'rejected', reasons: [...rejected, ...suspicious] };
+    }
+    if (suspicious.length > 0) {
+      return { status: 'suspicious', reasons: suspicious };
+    }
+    return { status: 'valid', reasons: [] };
+  }
+}
+
+export const trafficFilterService = new TrafficFilterService();
@@ -0,0 +1,249 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import type { EmailCapture, IntentBreakdown, PageView } from '@shared/schema';
+
+// Per-CID rule stored in cidAccounts.settings.urlRules - the first matching rule labels a visit
+export interface UrlRule {
+  match: 'prefix' | 'regex';
+  pattern: string; // Path prefix ("/listings/") or a regex tested against the full URL
+  category: string;
+  weight?: number; // How much a visit in this category counts towards frequency, default 1
+}
+
+export type OutreachChannel = 'mailchimp' | 'handwrytten';
+
+// Per-channel condition stored in cidAccounts.settings.intentTriggers - contacts must meet it to be synced
+export interface IntentTrigger {
+  minIntentScore: number | null;
+  categories: string[]; // At least one visit in one of these categories, empty for any
+}
+
+export interface ReclassifyResult {
+  urls: number;
+  updated: number;
+}
+
+export const URL_CATEGORIES = ['listing_detail', 'home_valuation', 'mortgage_calculator', 'contact', 'search'] as const;
+
+// Used until a CID saves its own rules
+const DEFAULT_URL_RULES: UrlRule[] = [
+  { match: 'regex', pattern: 'home-?(value|valuation|worth)|what-?is-?my-?home|\\bcma\\b', category: 'home_valuation', weight: 2 },
+  { match: 'regex', pattern: 'mortgage-?calculator|affordability|payment-?calculator|refinanc', category: 'mortgage_calculator', weight: 1.5 },
+  { match: 'regex', pattern: '/(listings?|propert(y|ies)|homes-for-sale)/[^/?#]+', category: 'listing_detail', weight: 1.5 },
+  { match: 'regex', pattern: '/(search|listings?|propert(y|ies)|homes-for-sale)/?([?#]|$)', category: 'search' },
+  { match: 'regex', pattern: '/(contact|schedule|book|get-in-touch)', category: 'contact', weight: 2 },
+];
+
+const DEFAULT_TRIGGER: IntentTrigger = { minIntentScore: null, categories: [] };
+
+const VISIT_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENCY_HALF_LIFE_DAYS = 7;
+const FULL_FREQUENCY = 10; // Weighted visits for a full frequency signal
+const FULL_VARIETY = 4; // Distinct categories for a full variety signal
+const UNCLASSIFIED_WEIGHT = 0.5;
+
+// How the three signals combine into the 0-100 score
+const COMPONENT_WEIGHTS = { recency: 0.4, frequency: 0.35, variety: 0.25 };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url.includes('://') ? url : `https://${url}`).pathname.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+/**
+ * Labels page views with a CID's URL rules and scores how actively an identity is browsing. The
+ * intent score blends how recently, how often and across how many categories the visitor has been
+ * active over the last 30 days.
+ */
+export class VisitIntentService {
+  private compiled = new Map<string, RegExp | null>();
+
+  getRules(account: any): UrlRule[] {
+    const rules = account?.settings?.urlRules;
+    return Array.isArray(rules) ? rules : DEFAULT_URL_RULES;
+  }
+
+  getDefaultRules(): UrlRule[] {
+    return DEFAULT_URL_RULES;
+  }
+
+  /**
+   * Check rules from the editor. Returns an error message for the first bad rule, or null.
+   */
+  validateRules(rules: unknown): string | null {
+    if (!Array.isArray(rules)) return 'rules must be an array';
+
+    for (let index = 0; index < rules.length; index++) {
+      const rule = rules[index];
+      const position = `Rule ${index + 1}`;
+      if (!rule || typeof rule !== 'object') return `${position} must be an object`;
+      if (rule.match !== 'prefix' && rule.match !== 'regex') return `${position}: match must be "prefix" or "regex"`;
+      if (typeof rule.pattern !== 'string' || rule.pattern.trim() === '') return `${position}: pattern is required`;
+      if (typeof rule.category !== 'string' || !/^[a-z0-9_]{1,50}$/.test(rule.category)) {
+        return `${position}: category must be lowercase letters, digits and underscores`;
+      }
+      if (rule.weight !== undefined && rule.weight !== null && (typeof rule.weight !== 'number' || isNaN(rule.weight) || rule.weight < 0 || rule.weight > 10)) {
+        return `${position}: weight must be a number between 0 and 10`;
+      }
+      if (rule.match === 'regex' && !this.compile(rule.pattern)) {
+        return `${position}: invalid regular expression`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The first rule that matches the URL, or null. Prefix rules compare against the lowercased path,
+   * regex rules against the full URL, case-insensitively.
+   */
+  classify(url: string | null | undefined, rules: UrlRule[]): UrlRule | null {
+    if (!url) return null;
+
+    const path = pathOf(url);
+    for (const rule of rules) {
+      const matched = rule.match === 'prefix'
+        ? path.startsWith(rule.pattern.toLowerCase())
+        : this.compile(rule.pattern)?.test(url) ?? false;
+      if (matched) return rule;
+    }
+    return null;
+  }
+
+  categorize(url: string | null | undefined, rules: UrlRule[]): string | null {
+    return this.classify(url, rules)?.category ?? null;
+  }
+
+  computeIntent(visits: Array<Pick<PageView, 'url' | 'category' | 'viewedAt'>>, rules: UrlRule[], now: Date = new Date()): IntentBreakdown {
+    const weights = new Map(rules.map(rule => [rule.category, rule.weight ?? 1]));
+    const categories: Record<string, number> = {};
+    let weightedVisits = 0;
+    let lastVisit: Date | null = null;
+
+    for (const visit of visits) {
+      const category = visit.category ?? this.categorize(visit.url, rules);
+      if (category) {
+        categories[category] = (categories[category] || 0) + 1;
+        weightedVisits += weights.get(category) ?? 1;
+      } else {
+        weightedVisits += UNCLASSIFIED_WEIGHT;
+      }
+
+      const viewedAt = new Date(visit.viewedAt);
+      if (!lastVisit || viewedAt > lastVisit) lastVisit = viewedAt;
+    }
+
+    const daysSince = lastVisit ? Math.max(0, (now.getTime() - lastVisit.getTime()) / DAY_MS) : null;
+    const recency = daysSince === null || daysSince > VISIT_WINDOW_DAYS ? 0 : Math.pow(0.5, daysSince / RECENCY_HALF_LIFE_DAYS);
+    const frequency = Math.min(1, weightedVisits / FULL_FREQUENCY);
+    const variety = Math.min(1, Object.keys(categories).length / FULL_VARIETY);
+
+    const score = visits.length === 0 ? 0 : Math.round(100 * (
+      COMPONENT_WEIGHTS.recency * recency +
+      COMPONENT_WEIGHTS.frequency * frequency +
+      COMPONENT_WEIGHTS.variety * variety
+    ));
+
+    return {
+      score,
+      recency: round2(recency),
+      frequency: round2(frequency),
+      variety: round2(variety),
+      lastVisitAt: lastVisit ? lastVisit.toISOString() : null,
+      visits: visits.length,
+      categories,
+    };
+  }
+
+  getOutreachTrigger(account: any, channel: OutreachChannel): IntentTrigger {
+    return { ...DEFAULT_TRIGGER, ...(account?.settings?.intentTriggers?.[channel] || {}) };
+  }
+
+  /**
+   * Whether a contact qualifies for outreach on a channel. Unscored contacts fail a minimum score.
+   */
+  meetsTrigger(capture: Pick<EmailCapture, 'intentScore' | 'intentFactors'>, trigger: IntentTrigger): boolean {
+    if (trigger.minIntentScore !== null && (capture.intentScore ?? -1) < trigger.minIntentScore) {
+      return false;
+    }
+    if (trigger.categories.length > 0) {
+      const visited = (capture.intentFactors as IntentBreakdown | null)?.categories || {};
+      return trigger.categories.some(category => (visited[category] || 0) > 0);
+    }
+    return true;
+  }
+
+  async updateRules(cid: string, rules: UrlRule[] | null): Promise<any | undefined> {
+    const account = await storage.getCidAccount(cid);
+    if (!account) return undefined;
+
+    // null goes back to the defaults
+    return await storage.updateCidAccountSettings(cid, {
+      urlRules: rules && rules.map(({ match, pattern, category, weight }) => ({
+        match,
+        pattern: pattern.trim(),
+        category,
+        ...(weight === undefined || weight === null ? {} : { weight }),
+      })),
+    });
+  }
+
+  async updateTriggers(cid: string, triggers: Partial<Record<OutreachChannel, Partial<IntentTrigger>>>): Promise<any | undefined> {
+    const account = await storage.getCidAccount(cid);
+    if (!account) return undefined;
+
+    return await storage.updateCidAccountSettings(cid, {
+      intentTriggers: {
+        mailchimp: { ...this.getOutreachTrigger(account, 'mailchimp'), ...(triggers.mailchimp || {}) },
+        handwrytten: { ...this.getOutreachTrigger(account, 'handwrytten'), ...(triggers.handwrytten || {}) },
+      },
+    });
+  }
+
+  /**
+   * Re-label a CID's stored page views after its rules change. Each distinct URL is classified once
+   * and only URLs whose category changes are written.
+   */
+  async reclassify(cid: string): Promise<ReclassifyResult> {
+    const rules = this.getRules(await storage.getCidAccount(cid));
+    const result: ReclassifyResult = { urls: 0, updated: 0 };
+    const categories = new Map<string, string | null>();
+    const stored = new Map<string, Set<string | null>>();
+
+    for (const { url, category } of await storage.getDistinctPageViewUrls(cid)) {
+      if (!categories.has(url)) categories.set(url, this.categorize(url, rules));
+      stored.set(url, (stored.get(url) || new Set()).add(category));
+    }
+
+    for (const [url, category] of Array.from(categories.entries())) {
+      result.urls++;
+      const current = stored.get(url) || new Set();
+      if (current.size === 1 && current.has(category)) continue;
+      result.updated += await storage.setPageViewCategory(cid, url, category);
+    }
+
+    logger.info('visit-intent', `Reclassified ${result.updated} page views across ${result.urls} URLs`, { cid }, cid, 'URL_RULES_RECLASSIFIED');
+    return result;
+  }
+
+  private compile(pattern: string): RegExp | null {
+    const cached = this.compiled.get(pattern);
+    if (cached !== undefined) return cached;
+
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(pattern, 'i');
+    } catch {
+      // Reported by validateRules; an unparseable pattern never matches
+    }
+    this.compiled.set(pattern, regex);
+    return regex;
+  }
+}
+
+export const visitIntentService = new VisitIntentService();
@@ -0,0 +1,333 @@
+import axios from 'axios';
+import csvParser from 'csv-parser';
+import fs from 'fs';
+import path from 'path';
+
+export type VisitorSourceType = 'cloudflare_worker' | 'wix' | 'csv_drop' | 'webhook';
+
+// Per-CID source configuration stored in cidAccounts.settings.visitorSources
+export interface VisitorSourceConfig {
+  type: VisitorSourceType;
+  enabled: boolean;
+  endpoint?: string; // Overrides the adapter's default pull URL
+  directory?: string; // Drop folder for csv_drop sources
+  pageSize?: number; // Records requested per page from paged sources
+}
+
+export interface VisitorSourcePageRequest {
+  cursor: string | null; // Committed position - fetch records after this
+  page: number; // 1-based page within the cursor window
+  limit: number;
+}
+
+// A visitor hit normalized from any source
+export interface VisitorRecord {
+  md5: string;
+  cid: string;
+  url?: string | null;
+  sessionId?: string | null;
+  var1?: string | null;
+  var2?: string | null;
+  ts?: string | null;
+}
+
+export interface VisitorSourcePage {
+  records: VisitorRecord[];
+  nextCursor: string | null; // Latest position in this page - committed once the window is finished
+  hasMore: boolean;
+}
+
+/**
+ * A feed of visitor hits. Pull sources page through the feed from a cursor;
+ * push sources (webhook) only map records delivered to us.
+ */
+export interface VisitorSourceAdapter {
+  readonly type: VisitorSourceType;
+  readonly captureSource: string; // Value stored on emailCaptures.source for new identities
+  readonly supportsReplay: boolean; // Whether the feed can be re-read from an earlier cursor
+  mapRecord(raw: any, cid: string): VisitorRecord | null;
+  fetchPage?(cid: string, request: VisitorSourcePageRequest, config: VisitorSourceConfig): Promise<VisitorSourcePage>;
+  commitPage?(cid: string, page: VisitorSourcePage, config: VisitorSourceConfig): Promise<void>;
+}
+
+/**
+ * Returns the later of two cursors - timestamps compare as dates, anything else (file names) as strings
+ */
+export function laterCursor(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+
+  const aTime = new Date(a).getTime();
+  const bTime = new Date(b).getTime();
+  if (!isNaN(aTime) && !isNaN(bTime)) {
+    return bTime > aTime ? b : a;
+  }
+  return b > a ? b : a;
+}
+
+/**
+ * Returns the latest record timestamp, used as the delta cursor for timestamp-based feeds
+ */
+function latestTimestamp(records: VisitorRecord[]): string | null {
+  let latest: string | null = null;
+  for (const record of records) {
+    if (record.ts && !isNaN(new Date(record.ts).getTime())) {
+      latest = laterCursor(latest, record.ts);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Builds a paged delta URL - ?cid=&since=&page=&limit=
+ */
+function pagedUrl(baseUrl: string, cid: string, request: VisitorSourcePageRequest): string {
+  let url = `${baseUrl}?cid=${encodeURIComponent(cid)}`;
+  if (request.cursor) {
+    url += `&since=${encodeURIComponent(request.cursor)}`;
+  }
+  return `${url}&page=${request.page}&limit=${request.limit}`;
+}
+
+const CSV_COLUMNS = ['md5', 'cid', 'url', 'session_id', 'var1', 'var2', 'ts'];
+
+function toCount(value: unknown): number | null {
+  const count = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof count === 'number' && Number.isFinite(count) ? count : null;
+}
+
+/**
+ * Whether a wrapped page has a successor, from the source's own paging fields: hasMore, a next
+ * cursor or page, totalPages, or total with the page size the source applied. A page size we only
+ * asked for is not used with total, since the source may cap it lower.
+ */
+function pageHasMore(data: any, request: VisitorSourcePageRequest, count: number): boolean {
+  if (typeof data.hasMore === 'boolean') return data.hasMore;
+
+  for (const key of ['nextCursor', 'next_cursor', 'nextPage', 'next_page', 'next']) {
+    if (key in data) return data[key] !== null && data[key] !== '' && data[key] !== false;
+  }
+
+  const totalPages = toCount(data.totalPages ?? data.total_pages);
+  if (totalPages !== null) return request.page < totalPages;
+
+  const total = toCount(data.total ?? data.totalCount ?? data.total_count);
+  const pageSize = toCount(data.limit ?? data.pageSize ?? data.page_size);
+  if (total !== null && pageSize) return request.page * pageSize < total;
+
+  // No paging fields - keep going until the source returns an empty page
+  return count > 0;
+}
+
+/**
+ * Paged feeds either return { records | items, ...paging fields } or a bare array. A bare array
+ * carries no paging fields, so a full page is the only sign another one follows.
+ */
+function unwrapPage(data: any, request: VisitorSourcePageRequest): { rawRecords: any[] | null; hasMore: boolean } {
+  if (Array.isArray(data)) {
+    return { rawRecords: data, hasMore: data.length >= request.limit };
+  }
+  const rawRecords = data?.records || data?.items;
+  if (Array.isArray(rawRecords)) {
+    return { rawRecords, hasMore: pageHasMore(data, request, rawRecords.length) };
+  }
+  return { rawRecords: null, hasMore: false };
+}
+
+function mapAll(adapter: VisitorSourceAdapter, rawRecords: any[], cid: string): VisitorRecord[] {
+  return rawRecords
+    .map(raw => adapter.mapRecord(raw, cid))
+    .filter((record): record is VisitorRecord => record !== null);
+}
+
+/**
+ * Cloudflare worker at spheredsgpixel.com - returns a JSON array of hits for a CID since a timestamp
+ */
+export class CloudflareWorkerAdapter implements VisitorSourceAdapter {
+  readonly type = 'cloudflare_worker' as const;
+  readonly captureSource = 'pixel_endpoint';
+  readonly supportsReplay = true;
+  private baseUrl = 'https://spheredsgpixel.com/pixelEndpoint';
+
+  mapRecord(raw: any, cid: string): VisitorRecord | null {
+    if (!raw?.md5) return null;
+    return {
+      md5: raw.md5,
+      cid: raw.cid || cid,
+      url: raw.url || null,
+      ts: raw.ts || null,
+      var1: raw.var || null, // Worker 'var' field → 'var1'
+      sessionId: raw.gtmcb || null, // Worker 'gtmcb' field → 'sessionId'
+    };
+  }
+
+  async fetchPage(cid: string, request: VisitorSourcePageRequest, config: VisitorSourceConfig): Promise<VisitorSourcePage> {
+    const endpoint = pagedUrl(config.endpoint || this.baseUrl, cid, request);
+
+    console.log(`[${new Date().toISOString()}] Fetching from: ${endpoint} (since: ${request.cursor || "FULL SYNC"})`);
+
+    const response = await axios.get(endpoint, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'VisitorIQ-Pro/1.0'
+      },
+      timeout: 30000 // 30 second timeout
+    });
+
+    if (typeof response.data === 'string' && response.data.startsWith('GIF89a')) {
+      throw new Error(`Worker returned a GIF pixel instead of JSON for CID ${cid} - the worker must return a JSON array when queried with ?cid=`);
+    }
+
+    let { rawRecords, hasMore } = unwrapPage(response.data, request);
+    if (!rawRecords && response.data?.md5) {
+      rawRecords = [response.data];
+    }
+    if (!rawRecords) {
+      throw new Error(`Unexpected worker response format for CID ${cid}`);
+    }
+
+    const records = mapAll(this, rawRecords, cid);
+    return { records, nextCursor: latestTimestamp(records), hasMore };
+  }
+}
+
+/**
+ * Wix pixelEndpoint function - same hit fields, wrapped in items/records or a single received object
+ */
+export class WixAdapter implements VisitorSourceAdapter {
+  readonly type = 'wix' as const;
+  readonly captureSource = 'wix';
+  readonly supportsReplay = true;
+  private baseUrl = 'https://www.spheredatasolutionsgroup.com/_functions/pixelEndpoint';
+
+  mapRecord(raw: any, cid: string): VisitorRecord | null {
+    const md5 = raw?.md5 || raw?.received?.md5;
+    if (!md5) return null;
+    const fields = raw.received || raw;
+    return {
+      md5,
+      cid: fields.cid || cid,
+      url: fields.url || null,
+      sessionId: fields.session_id || fields.sessionId || null,
+      var1: fields.var1 || null,
+      var2: fields.var2 || null,
+      ts: fields.ts || fields.timestamp || null,
+    };
+  }
+
+  async fetchPage(cid: string, request: VisitorSourcePageRequest, config: VisitorSourceConfig): Promise<VisitorSourcePage> {
+    const response = await axios.get(pagedUrl(config.endpoint || this.baseUrl, cid, request), {
+      timeout: 10000, // 10 second timeout
+      headers: {
+        'User-Agent': 'VisitorIQ-Pro/1.0'
+      }
+    });
+
+    const data = response.data;
+    const { rawRecords, hasMore } = unwrapPage(data, request);
+
+    const records = mapAll(this, rawRecords || (data ? [data] : []), cid);
+    return { records, nextCursor: latestTimestamp(records), hasMore };
+  }
+}
+
+/**
+ * CSV drop folder - one file per page, renamed to *_processed.csv once ingested
+ */
+export class CsvDropAdapter implements VisitorSourceAdapter {
+  readonly type = 'csv_drop' as const;
+  readonly captureSource = 'csv_drop';
+  readonly supportsReplay = false; // Drop files are renamed once ingested
+
+  mapRecord(raw: any, cid: string): VisitorRecord | null {
+    if (!raw?.md5) return null;
+    return {
+      md5: raw.md5,
+      cid: raw.cid || cid,
+      url: raw.url || null,
+      sessionId: raw.session_id || null,
+      var1: raw.var1 || null,
+      var2: raw.var2 || null,
+      ts: raw.ts || null,
+    };
+  }
+
+  /**
+   * Reads a drop file with columns md5,cid,url,session_id,var1,var2,ts. Quoted fields may contain
+   * commas, quotes and line breaks; the header row is optional.
+   */
+  async readFile(filePath: string): Promise<any[]> {
+    const rows: any[] = [];
+
+    await new Promise((resolve, reject) => {
+      fs.createReadStream(filePath)
+        .pipe(csvParser({ headers: CSV_COLUMNS, mapValues: ({ value }) => value.trim() }))
+        .on('data', (row: any) => {
+          // Skip the header row and blank lines
+          if (row.md5 !== 'md5' && Object.values(row).some(value => value)) rows.push(row);
+        })
+        .on('end', resolve)
+        .on('error', reject);
+    });
+
+    return rows;
+  }
+
+  private pendingFiles(directory: string): string[] {
+    if (!fs.existsSync(directory)) return [];
+    return fs.readdirSync(directory)
+      .filter(file => file.endsWith('.csv') && !file.endsWith('_processed.csv'))
+      .sort();
+  }
+
+  async fetchPage(cid: string, _request: VisitorSourcePageRequest, config: VisitorSourceConfig): Promise<VisitorSourcePage> {
+    if (!config.directory) {
+      throw new Error(`No drop folder configured for CID ${cid}`);
+    }
+
+    const files = this.pendingFiles(config.directory);
+    if (files.length === 0) {
+      return { records: [], nextCursor: null, hasMore: false };
+    }
+
+    const records = mapAll(this, await this.readFile(path.join(config.directory, files[0])), cid);
+    return { records, nextCursor: files[0], hasMore: files.length > 1 };
+  }
+
+  async commitPage(_cid: string, page: VisitorSourcePage, config: VisitorSourceConfig): Promise<void> {
+    if (!config.directory || !page.nextCursor) return;
+
+    const filePath = path.join(config.directory, page.nextCursor);
+    fs.renameSync(filePath, filePath.replace(/\.csv$/, '_processed.csv'));
+  }
+}
+
+/**
+ * Sphere Data Solutions webhook - pushes md5_emails entries, nothing to pull
+ */
+export class WebhookAdapter implements VisitorSourceAdapter {
+  readonly type = 'webhook' as const;
+  readonly captureSource = 'webhook';
+  readonly supportsReplay = false;
+
+  mapRecord(raw: any, cid: string): VisitorRecord | null {
+    if (!raw?.md5) return null;
+    const metadata = raw.metadata || {};
+    return {
+      md5: raw.md5,
+      cid: raw.cid || cid,
+      url: metadata.url || null,
+      sessionId: metadata.session_id || null,
+      var1: metadata.var1 || null,
+      var2: metadata.var2 || null,
+      ts: raw.timestamp || null,
+    };
+  }
+}
+
+export const visitorSourceAdapters: Record<VisitorSourceType, VisitorSourceAdapter> = {
+  cloudflare_worker: new CloudflareWorkerAdapter(),
+  wix: new WixAdapter(),
+  csv_drop: new CsvDropAdapter(),
+  webhook: new WebhookAdapter(),
+};
@@ -0,0 +1,333 @@
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { enrichmentQueueService } from './enrichmentQueueService';
+import { leadScoringService } from './leadScoringService';
+import { trafficFilterService } from './trafficFilterService';
+import { visitIntentService } from './visitIntentService';
+import {
+  laterCursor,
+  visitorSourceAdapters,
+  type VisitorRecord,
+  type VisitorSourceAdapter,
+  type VisitorSourceConfig,
+  type VisitorSourceType,
+} from './visitorSourceAdapters';
+import type { EmailCapture, SyncCursor } from '@shared/schema';
+
+export interface IngestResult {
+  created: number;
+  updated: number;
+  errors: number;
+  newCaptures: EmailCapture[]; // Created, or tagged until this hit - both are queued for enrichment
+}
+
+export interface SourceSyncResult extends IngestResult {
+  cid: string;
+  sources: Array<{ type: VisitorSourceType; records: number; error?: string }>;
+}
+
+const MAX_PAGES_PER_SYNC = 50; // Guard against a source that always reports more pages
+const SYNC_PAGE_LIMIT = 500; // Records requested per page unless the source config overrides pageSize
+
+// CIDs without explicit configuration keep pulling from the Cloudflare worker
+const DEFAULT_SOURCES: VisitorSourceConfig[] = [{ type: 'cloudflare_worker', enabled: true }];
+
+function toDate(ts?: string | null): Date {
+  const date = ts ? new Date(ts) : new Date();
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Pulls visitor hits from each CID's configured sources and ingests pushed hits,
+ * upserting identities, appending page views and queueing new identities for enrichment.
+ */
+export class VisitorSourceService {
+  getSourceConfigs(account: any): VisitorSourceConfig[] {
+    const configured: VisitorSourceConfig[] | undefined = account?.settings?.visitorSources;
+    return configured && configured.length > 0 ? configured : DEFAULT_SOURCES;
+  }
+
+  /**
+   * Sync every enabled pull source for a CID, paging from the stored cursor
+   */
+  async syncCid(cid: string, options: { trigger: string; userId?: string }): Promise<SourceSyncResult> {
+    const result: SourceSyncResult = { cid, created: 0, updated: 0, errors: 0, newCaptures: [], sources: [] };
+
+    const account = await storage.getCidAccount(cid);
+    if (!account || account.status !== 'active') {
+      return result;
+    }
+
+    for (const config of this.getSourceConfigs(account)) {
+      const adapter = visitorSourceAdapters[config.type];
+      if (!config.enabled || !adapter?.fetchPage) continue;
+
+      let records = 0;
+      try {
+        // A window is every page after the committed cursor. The cursor only advances once the
+        // window is exhausted, so a sync interrupted mid-window resumes from the saved page.
+        const state = await this.getCursor(cid, config.type);
+        const limit = config.pageSize || SYNC_PAGE_LIMIT;
+        let page = state.page;
+        let windowCursor = state.windowCursor;
+        let created = 0;
+        let pages = 0;
+        let hasMore = true;
+
+        while (hasMore && pages < MAX_PAGES_PER_SYNC) {
+          const fetched = await adapter.fetchPage(cid, { cursor: state.cursor, page, limit }, config);
+          const ingested = await this.ingestRecords(account, adapter, fetched.records, options.userId);
+
+          result.created += ingested.created;
+          result.updated += ingested.updated;
+          result.errors += ingested.errors;
+          result.newCaptures.push(...ingested.newCaptures);
+          records += fetched.records.length;
+          created += ingested.created;
+
+          await adapter.commitPage?.(cid, fetched, config);
+          windowCursor = laterCursor(windowCursor, fetched.nextCursor);
+          hasMore = fetched.hasMore && fetched.records.length > 0;
+          pages++;
+
+          if (hasMore) {
+            page++;
+            await storage.upsertSyncCursor(cid, config.type, { page, windowCursor, lastError: null });
+          }
+        }
+
+        if (hasMore) {
+          console.log(`[${new Date().toISOString()}] ${config.type} sync for CID ${cid} stopped at page ${page}, resuming next run`);
+        }
+
+        await this.saveCursor(cid, config.type, state, {
+          cursor: hasMore ? state.cursor : (windowCursor || state.cursor),
+          page: hasMore ? page : 1,
+          windowCursor: hasMore ? windowCursor : null,
+          records,
+          created,
+        });
+
+        result.sources.push({ type: config.type, records });
+        console.log(`[${new Date().toISOString()}] Synced ${records} records from ${config.type} for CID: ${cid}`);
+      } catch (error: any) {
+        result.errors++;
+        result.sources.push({ type: config.type, records, error: error.message });
+        await storage.upsertSyncCursor(cid, config.type, { lastError: error.message?.substring(0, 500) || 'Unknown error' });
+        logger.error('sync-service', `Sync from ${config.type} failed for CID ${cid}: ${error.message}`, { source: config.type }, cid, 'SOURCE_SYNC_ERROR');
+      }
+    }
+
+    await this.queueEnrichment(result.newCaptures, options.trigger);
+    return result;
+  }
+
+  /**
+   * Count the records a replay from the given cursor would pull, without ingesting them
+   */
+  async previewReplay(cid: string, type: VisitorSourceType, from: string | null): Promise<{ records: number; pages: number; capped: boolean }> {
+    const { adapter, config } = await this.getReplayableSource(cid, type);
+    const limit = config.pageSize || SYNC_PAGE_LIMIT;
+    let records = 0;
+    let pages = 0;
+    let hasMore = true;
+
+    while (hasMore && pages < MAX_PAGES_PER_SYNC) {
+      const fetched = await adapter.fetchPage!(cid, { cursor: from, page: pages + 1, limit }, config);
+      records += fetched.records.length;
+      hasMore = fetched.hasMore && fetched.records.length > 0;
+      pages++;
+    }
+
+    return { records, pages, capped: hasMore };
+  }
+
+  /**
+   * Rewind a source cursor so the next sync re-reads the feed from `from` (null replays the full history)
+   */
+  async resetCursor(cid: string, type: VisitorSourceType, from: string | null): Promise<SyncCursor> {
+    await this.getReplayableSource(cid, type);
+    return await storage.upsertSyncCursor(cid, type, { cursor: from, page: 1, windowCursor: null, lastError: null });
+  }
+
+  private async getReplayableSource(cid: string, type: VisitorSourceType): Promise<{ adapter: VisitorSourceAdapter; config: VisitorSourceConfig }> {
+    const adapter = visitorSourceAdapters[type];
+    if (!adapter?.fetchPage || !adapter.supportsReplay) {
+      throw new Error(`Source ${type} does not support replay`);
+    }
+
+    const account = await storage.getCidAccount(cid);
+    if (!account) {
+      throw new Error(`CID account not found: ${cid}`);
+    }
+
+    const config = this.getSourceConfigs(account).find(source => source.type === type) || { type, enabled: true };
+    return { adapter, config };
+  }
+
+  /**
+   * Ingest records delivered to us (webhook, uploaded drop file). Records are grouped by their CID
+   * and records for unknown or inactive CIDs are counted as errors.
+   */
+  async ingestRaw(type: VisitorSourceType, rawRecords: any[], options: { trigger: string; defaultCid?: string }): Promise<IngestResult> {
+    const adapter = visitorSourceAdapters[type];
+    const result: IngestResult = { created: 0, updated: 0, errors: 0, newCaptures: [] };
+
+    const recordsByCid = new Map<string, VisitorRecord[]>();
+    for (const raw of rawRecords) {
+      const record = adapter.mapRecord(raw, options.defaultCid || '');
+      if (!record || !record.cid) {
+        result.errors++;
+        continue;
+      }
+      recordsByCid.set(record.cid, [...(recordsByCid.get(record.cid) || []), record]);
+    }
+
+    for (const [cid, records] of Array.from(recordsByCid.entries())) {
+      const account = await storage.getCidAccount(cid);
+      if (!account || account.status !== 'active') {
+        console.warn(`[${new Date().toISOString()}] Ignoring ${records.length} ${type} records for unknown or inactive CID: ${cid}`);
+        result.errors += records.length;
+        continue;
+      }
+
+      const ingested = await this.ingestRecords(account, adapter, records);
+      result.created += ingested.created;
+      result.updated += ingested.updated;
+      result.errors += ingested.errors;
+      result.newCaptures.push(...ingested.newCaptures);
+    }
+
+    await this.queueEnrichment(result.newCaptures, options.trigger);
+    return result;
+  }
+
+  /**
+   * Upsert identities by (hashedEmail, cid) and append each hit to page_views
+   */
+  private async ingestRecords(account: any, adapter: VisitorSourceAdapter, records: VisitorRecord[], userId?: string): Promise<IngestResult> {
+    const result: IngestResult = { created: 0, updated: 0, errors: 0, newCaptures: [] };
+
+    for (const record of records) {
+      try {
+        const cid = account.cid;
+        const traffic = trafficFilterService.classify({ account, url: record.url || undefined });
+        const insertData = {
+          hashedEmail: record.md5,
+          cid,
+          url: record.url || null,
+          lastPageViewed: record.url || null, // Populate lastPageViewed with the captured URL
+          ts: record.ts || null,
+          var1: record.var1 || null,
+          var2: record.var2 || null,
+          sessionId: record.sessionId || null,
+          source: adapter.captureSource,
+          userId: userId || null,
+          trafficStatus: traffic.status,
+          trafficFlags: traffic.reasons.length > 0 ? traffic.reasons : null,
+          capturedAt: toDate(record.ts),
+          enrichmentStatus: 'pending'
+        };
+
+        // Existing identities get the latest visit data, but only from valid hits
+        const { capture, created, previous } = await storage.upsertEmailCapture(insertData, traffic.status === 'valid' ? {
+          url: record.url || undefined,
+          lastPageViewed: record.url || undefined,
+          ts: record.ts || undefined,
+          var1: record.var1 || undefined,
+          var2: record.var2 || undefined,
+          sessionId: record.sessionId || undefined,
+          // A valid hit clears a rejected or suspicious tag from an earlier hit
+          trafficStatus: 'valid',
+          trafficFlags: null,
+        } : undefined);
+        const captureId = capture.id;
+
+        if (created) {
+          result.created++;
+          result.newCaptures.push(capture);
+        } else if (traffic.status === 'valid') {
+          result.updated++;
+          // Enrichment skipped the identity while it was tagged, so it is queued now
+          if (previous?.trafficStatus && previous.trafficStatus !== 'valid' && capture.enrichmentStatus === 'pending') {
+            result.newCaptures.push(capture);
+          }
+        }
+
+        // Append the hit to the visitor's page view history
+        if (traffic.status === 'valid') {
+          await storage.recordPageView({
+            captureId,
+            cid,
+            hashedEmail: record.md5,
+            sessionId: record.sessionId || null,
+            url: record.url || null,
+            var1: record.var1 || null,
+            var2: record.var2 || null,
+            source: adapter.type,
+            category: visitIntentService.categorize(record.url, visitIntentService.getRules(account)),
+            viewedAt: toDate(record.ts),
+          });
+          leadScoringService.queueRescore(captureId);
+        }
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] Error processing ${adapter.type} record ${record.md5}:`, error);
+        result.errors++;
+      }
+    }
+
+    return result;
+  }
+
+  private async queueEnrichment(newCaptures: EmailCapture[], trigger: string): Promise<void> {
+    if (newCaptures.length === 0) return;
+
+    try {
+      const jobs = await enrichmentQueueService.enqueueMany(newCaptures, trigger);
+      logger.info('enrichment-service', `Queued ${jobs.length} newly synced records for enrichment`, { recordCount: newCaptures.length, queued: jobs.length, trigger }, 'system', 'ENRICH_QUEUED');
+    } catch (error) {
+      logger.error('enrichment-service', 'Error queueing enrichment for synced records', error, 'system', 'ENRICH_QUEUE_ERROR');
+    }
+  }
+
+  /**
+   * Cursor row for a CID source. Worker cursors created before sync_cursors existed are seeded from sync_log.
+   */
+  async getCursor(cid: string, type: VisitorSourceType): Promise<Pick<SyncCursor, 'cursor' | 'page' | 'windowCursor' | 'totalRecords'>> {
+    const existing = await storage.getSyncCursor(cid, type);
+    if (existing) {
+      return existing;
+    }
+
+    let cursor: string | null = null;
+    if (type === 'cloudflare_worker') {
+      const syncLogEntry = await storage.getSyncLog(cid);
+      cursor = syncLogEntry?.lastSyncedAt?.toISOString() || null;
+    }
+    return { cursor, page: 1, windowCursor: null, totalRecords: 0 };
+  }
+
+  private async saveCursor(
+    cid: string,
+    type: VisitorSourceType,
+    previous: Pick<SyncCursor, 'totalRecords'>,
+    run: { cursor: string | null; page: number; windowCursor: string | null; records: number; created: number }
+  ): Promise<void> {
+    await storage.upsertSyncCursor(cid, type, {
+      cursor: run.cursor,
+      page: run.page,
+      windowCursor: run.windowCursor,
+      lastRunAt: new Date(),
+      lastRunRecords: run.records,
+      totalRecords: (previous.totalRecords || 0) + run.records,
+      lastError: null,
+    });
+
+    if (type === 'cloudflare_worker') {
+      // sync_log drives the sync status display - always update even if no records were processed
+      await storage.upsertSyncLog(cid, run.cursor || new Date().toISOString(), run.created);
+    }
+  }
+}
+
+export const visitorSourceService = new VisitorSourceService();
@@ -2,26 +2,182 @@ import {
   users,
   emailCaptures,
   campaigns,
+  campaignRecipients,
+  emailEngagements,
+  segments,
+  sequences,
+  sequenceEnrollments,
   apiIntegrations,
   identityMetrics,
   cidAccounts,
   syncLog,
   systemLogs,
+  enrichmentJobs,
+  pageViews,
+  syncCursors,
+  identityMerges,
+  enrichmentCache,
+  enrichmentLedger,
+  enrichmentRefreshes,
+  enrichmentPayloads,
+  emailCandidates,
   type User,
   type UpsertUser,
   type EmailCapture,
   type InsertEmailCapture,
   type Campaign,
   type InsertCampaign,
+  type CampaignRecipient,
+  type InsertCampaignRecipient,
+  type CampaignRecipientStatus,
+  type EmailEngagement,
+  type MailchimpMergeFieldMapping,
+  type InsertEmailEngagement,
+  type Segment,
+  type InsertSegment,
+  type SegmentRule,
+  type SegmentGroup,
+  type SegmentCondition,
+  type SegmentVisitRule,
+  type Sequence,
+  type InsertSequence,
+  type SequenceEnrollment,
+  type InsertSequenceEnrollment,
+  type SequenceEnrollmentStatus,
+  SEGMENT_FIELDS,
   type ApiIntegration,
   type IdentityMetrics,
   type SyncLog,
   type InsertSyncLog,
+  type SyncCursor,
   type SystemLog,
   type InsertSystemLog,
+  type EnrichmentJob,
+  type InsertEnrichmentJob,
+  type PageView,
+  type InsertPageView,
+  type IdentityMerge,
+  type EnrichmentCacheEntry,
+  type EnrichmentLedgerEntry,
+  type InsertEnrichmentLedgerEntry,
+  type EnrichmentRefresh,
+  type EnrichmentPayload,
+  type EmailCandidate,
+  type InsertEmailCandidate,
+  type InsertEnrichmentPayload,
+  type InsertEnrichmentRefresh,
+  type InsertIdentityMerge,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, sql, and, gte, lte } from "drizzle-orm";
+import { eq, desc, sql, and, or, gt, gte, lte, lt, inArray, notInArray, isNull, isNotNull, getTableColumns, type SQL } from "drizzle-orm";
+
+// Count columns on identity_metrics
+const IDENTITY_METRIC_FIELDS = [
+  'geographicData', 'propertyOwnership', 'propertyValue', 'mortgageStatus', 'moveInDate', 'realEstateInterest',
+  'hashedEmails', 'contactEmail', 'age', 'phoneNumber', 'householdIncome', 'familySize', 'maritalStatus', 'purchaseHistory',
+] as const;
+
+const EMAIL_CAPTURE_COLUMNS = getTableColumns(emailCaptures);
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+// Field names come from request bodies, so inherited keys like "constructor" must not resolve
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// SQL for a SEGMENT_FIELDS key - derived fields are computed here, the rest are email_captures columns
+function segmentFieldSql(field: string): SQL {
+  switch (field) {
+    case 'homeowner':
+      return sql`coalesce(${emailCaptures.homeOwnership} ilike '%own%' and ${emailCaptures.homeOwnership} not ilike '%unknown%', false)`;
+    case 'hasPhone':
+      return sql`coalesce(${emailCaptures.enrichmentData}->>'phone', '') <> ''`;
+    case 'hasMailingAddress':
+      return sql`(coalesce(${emailCaptures.address}, '') <> '' and coalesce(${emailCaptures.city}, '') <> '' and coalesce(${emailCaptures.state}, '') <> '' and coalesce(${emailCaptures.zip}, '') <> '')`;
+    case 'enriched':
+      return sql`coalesce(${emailCaptures.enrichmentStatus} = 'completed', false)`;
+    case 'daysSinceCapture':
+      return sql`(extract(epoch from now() - ${emailCaptures.capturedAt}) / 86400)`;
+    case 'daysSinceLastVisit':
+      return sql`(select extract(epoch from now() - max(${pageViews.viewedAt})) / 86400 from ${pageViews} where ${pageViews.captureId} = ${emailCaptures.id})`;
+    case 'visitCount':
+      return sql`(select count(*)::int from ${pageViews} where ${pageViews.captureId} = ${emailCaptures.id})`;
+  }
+
+  const column = hasOwn(SEGMENT_FIELDS, field) && hasOwn(EMAIL_CAPTURE_COLUMNS, field)
+    ? EMAIL_CAPTURE_COLUMNS[field as keyof typeof EMAIL_CAPTURE_COLUMNS]
+    : undefined;
+  if (!column) {
+    throw new Error(`Unknown segment field: ${field}`);
+  }
+  return sql`${column}`;
+}
+
+function compileSegmentCondition(rule: SegmentCondition): SQL {
+  const type = hasOwn(SEGMENT_FIELDS, rule.field) ? SEGMENT_FIELDS[rule.field].type : undefined;
+  const field = segmentFieldSql(rule.field);
+
+  if (type === 'boolean') {
+    return rule.value === false ? sql`not ${field}` : field;
+  }
+
+  // Strings compare case-insensitively
+  const target = type === 'string' ? sql`lower(${field})` : field;
+  const param = (value: unknown) => (type === 'string' ? sql`${String(value).toLowerCase()}` : sql`${Number(value)}`);
+  const values = Array.isArray(rule.value) ? rule.value : [rule.value];
+  const list = sql.join(values.map(param), sql`, `);
+
+  switch (rule.op) {
+    case 'eq': return sql`${target} = ${param(rule.value)}`;
+    case 'neq': return sql`${target} is distinct from ${param(rule.value)}`;
+    case 'in': return sql`${target} in (${list})`;
+    case 'not_in': return sql`(${target} is null or ${target} not in (${list}))`;
+    case 'contains': return sql`${target} like ${`%${escapeLike(String(rule.value).toLowerCase())}%`}`;
+    case 'starts_with': return sql`${target} like ${`${escapeLike(String(rule.value).toLowerCase())}%`}`;
+    case 'gt': return sql`${target} > ${param(rule.value)}`;
+    case 'gte': return sql`${target} >= ${param(rule.value)}`;
+    case 'lt': return sql`${target} < ${param(rule.value)}`;
+    case 'lte': return sql`${target} <= ${param(rule.value)}`;
+    case 'between': return sql`${target} between ${param(values[0])} and ${param(values[1])}`;
+    case 'is_set': return type === 'string' ? sql`coalesce(${field}, '') <> ''` : sql`${field} is not null`;
+    case 'is_not_set': return type === 'string' ? sql`coalesce(${field}, '') = ''` : sql`${field} is null`;
+  }
+  throw new Error(`Unknown segment operator: ${rule.op}`);
+}
+
+function compileSegmentVisit(rule: SegmentVisitRule): SQL {
+  const conditions: SQL[] = [sql`${pageViews.captureId} = ${emailCaptures.id}`];
+  if (rule.category) conditions.push(sql`${pageViews.category} = ${rule.category}`);
+  if (rule.urlContains) conditions.push(sql`${pageViews.url} ilike ${`%${escapeLike(rule.urlContains)}%`}`);
+  if (rule.withinDays) conditions.push(sql`${pageViews.viewedAt} >= now() - ${rule.withinDays} * interval '1 day'`);
+
+  const where = sql.join(conditions, sql` and `);
+  return (rule.minCount ?? 1) <= 1
+    ? sql`exists (select 1 from ${pageViews} where ${where})`
+    : sql`(select count(*) from ${pageViews} where ${where}) >= ${rule.minCount}`;
+}
+
+// A segment rule tree as a WHERE condition on email_captures. Rules are checked by segmentService first.
+function compileSegmentRule(rule: SegmentRule): SQL {
+  if (rule.type === 'condition') return compileSegmentCondition(rule);
+  if (rule.type === 'visit') return compileSegmentVisit(rule);
+
+  const combined = rule.rules.length === 0
+    ? sql`true`
+    : sql`(${sql.join(rule.rules.map(compileSegmentRule), rule.combinator === 'or' ? sql` or ` : sql` and `)})`;
+  // Comparisons against missing values are null - a negated group still excludes them
+  return rule.negate ? sql`not coalesce(${combined}, false)` : combined;
+}
+
+// Segment members are the CID's captures, excluding rejected traffic
+function segmentWhere(cid: string, definition: SegmentGroup): SQL {
+  return sql`${emailCaptures.cid} = ${cid} and coalesce(${emailCaptures.trafficStatus}, 'valid') <> 'rejected' and ${compileSegmentRule(definition)}`;
+}
+
+// Records last checked by a provider before these dates are due for re-enrichment (null = never)
+export interface StaleEnrichmentCutoffs {
+  completedBefore: Date | null;
+  failedBefore: Date | null;
+}
 
 export interface IStorage {
   // User operations
@@ -37,11 +193,17 @@ export interface IStorage {
   
   // Email capture operations
   createEmailCapture(capture: InsertEmailCapture): Promise<EmailCapture>;
+  upsertEmailCapture(capture: InsertEmailCapture, updates?: Partial<EmailCapture>): Promise<{ capture: EmailCapture; created: boolean; previous?: EmailCapture }>;
   getEmailCaptures(userId?: string, cid?: string): Promise<EmailCapture[]>;
   getEmailCapturesByCid(cid: string): Promise<EmailCapture[]>;
   getEmailCapturesByDateRange(cid: string, fromDate?: Date, toDate?: Date): Promise<EmailCapture[]>;
   getEmailCaptureByHashAndCid(hashedEmail: string, cid: string): Promise<EmailCapture | undefined>;
   getEmailCaptureById(id: number): Promise<EmailCapture | undefined>;
+  updateLeadScores(id: number, scores: Pick<EmailCapture, 'sellerScore' | 'buyerScore' | 'refinanceScore' | 'leadScore' | 'leadScoreFactors' | 'leadScoredAt'>): Promise<void>;
+  updateIntentScore(id: number, intent: Pick<EmailCapture, 'intentScore' | 'intentFactors' | 'intentScoredAt'>): Promise<void>;
+  updateHomeEquityFields(id: number, fields: Pick<EmailCapture, 'estimatedLoanBalance' | 'estimatedEquity' | 'equityPercent' | 'loanToValue' | 'appreciationAmount' | 'appreciationPercent'>): Promise<void>;
+  getCapturesMissingIncomeRange(afterId: number, limit: number): Promise<Array<Pick<EmailCapture, 'id' | 'householdIncome'>>>;
+  updateIncomeRange(id: number, range: Pick<EmailCapture, 'householdIncomeMin' | 'householdIncomeMax' | 'householdIncomeMidpoint'>): Promise<void>;
   updateEmailCapture(id: number, updates: any): Promise<void>;
   updateEmailCaptureEnrichment(id: number, enrichmentData: any): Promise<void>;
   
@@ -56,7 +218,8 @@ export interface IStorage {
     email?: string;
     website?: string;
     ownerId?: number; 
-    status?: string 
+    status?: string;
+    signingSecret?: string;
   }): Promise<any>;
   updateCidAccount(id: number, updates: {
     cid?: string;
@@ -71,20 +234,69 @@ export interface IStorage {
   }): Promise<any>;
   getCidAccounts(userId?: number): Promise<any[]>;
   getCidAccount(cid: string): Promise<any | undefined>;
+  setCidSigningSecret(cid: string, signingSecret: string): Promise<any | undefined>;
+  setCidMailchimpConfig(cid: string, updates: { mailchimpListId?: string | null; mailchimpCredentials?: string | null; mailchimpMergeFields?: MailchimpMergeFieldMapping | null }): Promise<any | undefined>;
+  updateCidAccountSettings(cid: string, settings: Record<string, any>): Promise<any | undefined>;
   updateCidAccountHandwryttenSettings(cid: string, handwryttenMessage: string, handwryttenSignature: string, returnAddress?: any): Promise<any>;
   
   // Campaign operations
   createCampaign(campaign: InsertCampaign): Promise<Campaign>;
   getCampaigns(userId?: number): Promise<Campaign[]>;
   updateCampaignStatus(id: number, status: string): Promise<void>;
+  getCampaign(id: number): Promise<Campaign | undefined>;
+  updateCampaign(id: number, updates: Partial<Omit<Campaign, 'id' | 'createdAt'>>): Promise<Campaign | undefined>;
+  getDueCampaigns(now: Date): Promise<Campaign[]>;
+  createCampaignRecipients(recipients: InsertCampaignRecipient[]): Promise<number>;
+  getCampaignRecipients(campaignId: number, filters?: { status?: CampaignRecipientStatus; limit?: number }): Promise<CampaignRecipient[]>;
+  updateCampaignRecipient(id: number, updates: Partial<Omit<CampaignRecipient, 'id' | 'campaignId'>>): Promise<void>;
+  getCampaignRecipientCounts(campaignId: number): Promise<{ total: number; pending: number; sent: number; failed: number; opened: number; clicked: number }>;
+  getCampaignsBySegment(segmentId: number): Promise<Campaign[]>;
+  
+  // Segment operations
+  getSegments(cids?: string[]): Promise<Segment[]>;
+  getSegment(id: number): Promise<Segment | undefined>;
+  createSegment(segment: InsertSegment): Promise<Segment>;
+  updateSegment(id: number, updates: Partial<Omit<Segment, 'id' | 'createdAt'>>): Promise<Segment | undefined>;
+  deleteSegment(id: number): Promise<void>;
+  getSegmentCaptures(cid: string, definition: SegmentGroup): Promise<EmailCapture[]>;
+  getSegmentCaptureIds(cid: string, definition: SegmentGroup): Promise<number[]>;
+  countSegmentCaptures(cid: string, definition: SegmentGroup): Promise<number>;
+  
+  // Sequence operations
+  getSequences(cids?: string[]): Promise<Sequence[]>;
+  getSequence(id: number): Promise<Sequence | undefined>;
+  getActiveSequences(): Promise<Sequence[]>;
+  createSequence(sequence: InsertSequence): Promise<Sequence>;
+  updateSequence(id: number, updates: Partial<Omit<Sequence, 'id' | 'createdAt'>>): Promise<Sequence | undefined>;
+  deleteSequence(id: number): Promise<void>;
+  createSequenceEnrollments(enrollments: InsertSequenceEnrollment[]): Promise<number>;
+  getEnrolledCaptureIds(sequenceId: number): Promise<number[]>;
+  getDueSequenceEnrollments(now: Date, limit: number): Promise<SequenceEnrollment[]>;
+  getSequenceEnrollment(id: number): Promise<SequenceEnrollment | undefined>;
+  getSequenceEnrollments(sequenceId: number, filters?: { status?: SequenceEnrollmentStatus; limit?: number }): Promise<SequenceEnrollment[]>;
+  getSequenceEnrollmentsByCapture(captureId: number): Promise<SequenceEnrollment[]>;
+  updateSequenceEnrollment(id: number, updates: Partial<Omit<SequenceEnrollment, 'id' | 'sequenceId' | 'captureId'>>): Promise<SequenceEnrollment | undefined>;
+  getSequenceEnrollmentCounts(sequenceId: number): Promise<{ total: number; active: number; completed: number; exited: number }>;
+  
+  // Email engagement operations
+  getEmailCapturesByAddress(email: string): Promise<EmailCapture[]>;
+  setMailchimpStatus(captureIds: number[], status: string, at: Date): Promise<void>;
+  resetMailchimpSync(cid: string): Promise<number>;
+  getLatestSentCampaignRecipient(email: string, externalId: string, sentAfter: Date, sentBefore: Date, cids?: string[]): Promise<CampaignRecipient | undefined>;
+  createEmailEngagements(engagements: InsertEmailEngagement[]): Promise<number>;
+  getRecentMailchimpCampaigns(sentAfter: Date): Promise<Array<{ mailchimpCampaignId: string; listId: string; lastActivityAt: Date | null }>>;
+  getEmailEngagements(captureId: number, limit?: number): Promise<EmailEngagement[]>;
+  getEmailEngagementCounts(captureId: number): Promise<Record<string, number>>;
   
   // API integration operations
   getApiIntegrations(): Promise<ApiIntegration[]>;
   updateApiIntegration(name: string, updates: Partial<ApiIntegration>): Promise<void>;
+  getApiIntegration(name: string): Promise<ApiIntegration | undefined>;
+  upsertApiIntegration(name: string, updates: Partial<ApiIntegration>): Promise<ApiIntegration>;
   
   // Identity metrics operations
   getIdentityMetrics(cid?: string): Promise<IdentityMetrics | undefined>;
-  updateIdentityMetrics(metrics: Partial<IdentityMetrics>, cid?: string): Promise<void>;
+  recomputeIdentityMetrics(cid?: string): Promise<IdentityMetrics[]>;
   
   // Access control helpers
   getUserAccessibleCids(userId: number): Promise<string[]>;
@@ -93,11 +305,65 @@ export interface IStorage {
   // Sync log operations for delta sync
   getSyncLog(cid: string): Promise<SyncLog | undefined>;
   upsertSyncLog(cid: string, lastSyncedAt: string, recordCount: number): Promise<SyncLog>;
+  getSyncCursor(cid: string, source: string): Promise<SyncCursor | undefined>;
+  getSyncCursors(cid?: string): Promise<SyncCursor[]>;
+  upsertSyncCursor(cid: string, source: string, updates: Partial<Omit<SyncCursor, 'id' | 'cid' | 'source' | 'createdAt'>>): Promise<SyncCursor>;
   
   // System logs operations
   createSystemLog(log: Omit<InsertSystemLog, 'timestamp' | 'createdAt'>): Promise<SystemLog>;
   getSystemLogs(limit?: number, eventType?: string, source?: string, cid?: string): Promise<SystemLog[]>;
   getSystemLogsByDateRange(fromDate: Date, toDate: Date, eventType?: string, source?: string): Promise<SystemLog[]>;
+  
+  // Enrichment job queue operations
+  enqueueEnrichmentJobs(jobs: InsertEnrichmentJob[]): Promise<EnrichmentJob[]>;
+  claimEnrichmentJobs(workerId: string, limit: number, visibilityTimeoutMs: number): Promise<EnrichmentJob[]>;
+  updateEnrichmentJob(id: number, updates: Partial<EnrichmentJob>, leasedBy?: string): Promise<boolean>;
+  getEnrichmentJobs(filters?: { status?: string; cid?: string; limit?: number }): Promise<EnrichmentJob[]>;
+  getEnrichmentJobCounts(cid?: string): Promise<Record<string, number>>;
+  retryEnrichmentJobs(filters: { ids?: number[]; status?: string; cid?: string; bypassCache?: boolean }): Promise<number>;
+  purgeEnrichmentJobs(filters: { status: string; cid?: string; olderThan?: Date }): Promise<number>;
+  
+  // Page view operations
+  recordPageView(view: InsertPageView): Promise<PageView | undefined>;
+  getPageViewsByCaptureId(captureId: number): Promise<PageView[]>;
+  getPageViewsForCaptures(captureIds: number[], since: Date): Promise<PageView[]>;
+  hasPageViewSince(captureId: number, since: Date, category?: string): Promise<boolean>;
+  getDistinctPageViewUrls(cid: string): Promise<Array<{ url: string; category: string | null }>>;
+  setPageViewCategory(cid: string, url: string, category: string | null): Promise<number>;
+
+
+  // Enrichment cache operations
+  getEnrichmentCacheEntry(provider: string, hashedEmail: string): Promise<EnrichmentCacheEntry | undefined>;
+  upsertEnrichmentCacheEntry(entry: { provider: string; hashedEmail: string; response: any; expiresAt: Date }): Promise<EnrichmentCacheEntry>;
+  recordEnrichmentCacheHit(id: number): Promise<void>;
+  getEnrichmentCacheSummary(): Promise<{ entries: number; fresh: number; totalHits: number }>;
+
+  // Enrichment ledger operations
+  recordEnrichmentLedgerEntry(entry: InsertEnrichmentLedgerEntry): Promise<EnrichmentLedgerEntry>;
+  getEnrichmentUsage(since: Date, cid?: string): Promise<Array<{ cid: string; calls: number; cost: number }>>;
+
+  // Re-enrichment operations
+  getStaleEnrichmentCaptures(cid: string, cutoffs: StaleEnrichmentCutoffs, limit: number): Promise<Array<Pick<EmailCapture, 'id' | 'cid' | 'hashedEmail' | 'trafficStatus' | 'enrichmentStatus'>>>;
+  countStaleEnrichmentCaptures(cid: string, cutoffs: StaleEnrichmentCutoffs): Promise<{ completed: number; failed: number }>;
+  recordEnrichmentRefresh(refresh: InsertEnrichmentRefresh): Promise<EnrichmentRefresh>;
+  getEnrichmentRefreshes(filters?: { cid?: string; captureId?: number; outcome?: string; limit?: number }): Promise<EnrichmentRefresh[]>;
+
+  // Enrichment payload archive operations
+  recordEnrichmentPayload(payload: InsertEnrichmentPayload): Promise<EnrichmentPayload>;
+  getLatestEnrichmentPayloads(filters: { cid?: string; afterCaptureId?: number; limit: number }): Promise<Array<{ payload: EnrichmentPayload; capture: EmailCapture }>>;
+
+  // Email candidate operations
+  replaceEmailCandidates(captureId: number, candidates: Omit<InsertEmailCandidate, 'captureId'>[]): Promise<EmailCandidate[]>;
+  getEmailCandidates(captureIds: number[]): Promise<EmailCandidate[]>;
+
+  // Identity dedupe operations
+  getDuplicateCaptureGroups(cid?: string, limit?: number): Promise<Array<{ cid: string; hashedEmail: string; captureIds: number[] }>>;
+  countDuplicateCaptures(cid?: string): Promise<{ groups: number; duplicates: number }>;
+  mergeEmailCaptures(survivorId: number, duplicates: EmailCapture[], survivorUpdates: Partial<EmailCapture>, audit: Omit<InsertIdentityMerge, 'survivorId' | 'mergedCaptureId' | 'mergedSnapshot' | 'pageViewsMoved'>, fieldsFilled: Record<number, string[]>): Promise<IdentityMerge[]>;
+  getIdentityMerges(filters?: { cid?: string; survivorId?: number; limit?: number }): Promise<IdentityMerge[]>;
+  
+  // Traffic quality operations
+  getTrafficStatusCounts(since?: Date): Promise<Array<{ cid: string; trafficStatus: string; count: number }>>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -181,6 +447,40 @@ export class DatabaseStorage implements IStorage {
     return emailCapture;
   }
 
+  /**
+   * Idempotent capture for a (hashedEmail, cid) identity - returns the existing row (with updates applied) or inserts a new one
+   */
+  async upsertEmailCapture(capture: InsertEmailCapture, updates?: Partial<EmailCapture>): Promise<{ capture: EmailCapture; created: boolean; previous?: EmailCapture }> {
+    const cid = capture.cid || 'default';
+
+    return await db.transaction(async (tx) => {
+      // email_captures has no unique (hashed_email, cid) constraint while legacy duplicates exist,
+      // so concurrent hits for the same identity are serialized with an advisory lock instead
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${cid} || ':' || ${capture.hashedEmail}))`);
+
+      const [existing] = await tx.select().from(emailCaptures)
+        .where(and(eq(emailCaptures.hashedEmail, capture.hashedEmail), eq(emailCaptures.cid, cid)))
+        .orderBy(emailCaptures.id)
+        .limit(1);
+
+      if (!existing) {
+        const [created] = await tx.insert(emailCaptures).values({ ...capture, cid }).returning();
+        return { capture: created, created: true };
+      }
+
+      if (!updates || Object.keys(updates).length === 0) {
+        return { capture: existing, created: false, previous: existing };
+      }
+
+      const [updated] = await tx
+        .update(emailCaptures)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(emailCaptures.id, existing.id))
+        .returning();
+      return { capture: updated, created: false, previous: existing };
+    });
+  }
+
   async getEmailCaptures(userId?: string, cid?: string): Promise<EmailCapture[]> {
     if (userId && cid) {
       return await db.select().from(emailCaptures)
@@ -260,6 +560,50 @@ export class DatabaseStorage implements IStorage {
       .where(eq(emailCaptures.id, id));
   }
 
+  // Scores are derived data - leaving updatedAt alone keeps delta syncs from re-sending every rescored contact
+  async updateLeadScores(id: number, scores: Pick<EmailCapture, 'sellerScore' | 'buyerScore' | 'refinanceScore' | 'leadScore' | 'leadScoreFactors' | 'leadScoredAt'>): Promise<void> {
+    await db
+      .update(emailCaptures)
+      .set(scores)
+      .where(eq(emailCaptures.id, id));
+  }
+
+  async updateIntentScore(id: number, intent: Pick<EmailCapture, 'intentScore' | 'intentFactors' | 'intentScoredAt'>): Promise<void> {
+    await db
+      .update(emailCaptures)
+      .set(intent)
+      .where(eq(emailCaptures.id, id));
+  }
+
+  // Recalculated estimates, not new data - updatedAt stays put like updateLeadScores
+  async updateHomeEquityFields(id: number, fields: Pick<EmailCapture, 'estimatedLoanBalance' | 'estimatedEquity' | 'equityPercent' | 'loanToValue' | 'appreciationAmount' | 'appreciationPercent'>): Promise<void> {
+    await db
+      .update(emailCaptures)
+      .set(fields)
+      .where(eq(emailCaptures.id, id));
+  }
+
+  // Records with an income label that has not been parsed into the numeric range columns
+  async getCapturesMissingIncomeRange(afterId: number, limit: number): Promise<Array<Pick<EmailCapture, 'id' | 'householdIncome'>>> {
+    return await db
+      .select({ id: emailCaptures.id, householdIncome: emailCaptures.householdIncome })
+      .from(emailCaptures)
+      .where(and(
+        gt(emailCaptures.id, afterId),
+        isNotNull(emailCaptures.householdIncome),
+        isNull(emailCaptures.householdIncomeMidpoint)
+      ))
+      .orderBy(emailCaptures.id)
+      .limit(limit);
+  }
+
+  async updateIncomeRange(id: number, range: Pick<EmailCapture, 'householdIncomeMin' | 'householdIncomeMax' | 'householdIncomeMidpoint'>): Promise<void> {
+    await db
+      .update(emailCaptures)
+      .set(range)
+      .where(eq(emailCaptures.id, id));
+  }
+
   async updateEmailCaptureEnrichment(id: number, enrichmentData: any): Promise<void> {
     await db
       .update(emailCaptures)
@@ -301,6 +645,363 @@ export class DatabaseStorage implements IStorage {
       .where(eq(campaigns.id, id));
   }
 
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    const [campaign] = await db.select().from(campaigns).where(eq(campaigns.id, id));
+    return campaign;
+  }
+
+  async updateCampaign(id: number, updates: Partial<Omit<Campaign, 'id' | 'createdAt'>>): Promise<Campaign | undefined> {
+    const [campaign] = await db
+      .update(campaigns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(campaigns.id, id))
+      .returning();
+    return campaign;
+  }
+
+  // Scheduled campaigns whose time has come, plus any left in progress by a restart
+  async getDueCampaigns(now: Date): Promise<Campaign[]> {
+    return await db
+      .select()
+      .from(campaigns)
+      .where(or(
+        and(eq(campaigns.status, 'scheduled'), lte(campaigns.scheduledAt, now)),
+        eq(campaigns.status, 'in_progress'),
+      ))
+      .orderBy(campaigns.scheduledAt);
+  }
+
+  // Identities already on the campaign are skipped, so building the list again is safe
+  async createCampaignRecipients(recipients: InsertCampaignRecipient[]): Promise<number> {
+    let created = 0;
+    // Chunked to stay under the bind parameter limit for large audiences
+    for (let i = 0; i < recipients.length; i += 1000) {
+      const inserted = await db
+        .insert(campaignRecipients)
+        .values(recipients.slice(i, i + 1000))
+        .onConflictDoNothing()
+        .returning({ id: campaignRecipients.id });
+      created += inserted.length;
+    }
+    return created;
+  }
+
+  async getCampaignRecipients(campaignId: number, filters: { status?: CampaignRecipientStatus; limit?: number } = {}): Promise<CampaignRecipient[]> {
+    const query = db
+      .select()
+      .from(campaignRecipients)
+      .where(and(
+        eq(campaignRecipients.campaignId, campaignId),
+        filters.status ? eq(campaignRecipients.status, filters.status) : undefined,
+      ))
+      .orderBy(campaignRecipients.id);
+    return filters.limit ? await query.limit(filters.limit) : await query;
+  }
+
+  async updateCampaignRecipient(id: number, updates: Partial<Omit<CampaignRecipient, 'id' | 'campaignId'>>): Promise<void> {
+    await db
+      .update(campaignRecipients)
+      .set(updates)
+      .where(eq(campaignRecipients.id, id));
+  }
+
+  async getCampaignRecipientCounts(campaignId: number): Promise<{ total: number; pending: number; sent: number; failed: number; opened: number; clicked: number }> {
+    const [counts] = await db
+      .select({
+        total: sql<number>`count(*)::int`,
+        pending: sql<number>`count(*) filter (where ${campaignRecipients.status} = 'pending')::int`,
+        sent: sql<number>`count(*) filter (where ${campaignRecipients.status} = 'sent')::int`,
+        failed: sql<number>`count(*) filter (where ${campaignRecipients.status} = 'failed')::int`,
+        opened: sql<number>`count(*) filter (where ${campaignRecipients.openedAt} is not null)::int`,
+        clicked: sql<number>`count(*) filter (where ${campaignRecipients.clickedAt} is not null)::int`,
+      })
+      .from(campaignRecipients)
+      .where(eq(campaignRecipients.campaignId, campaignId));
+    return counts;
+  }
+
+  async getCampaignsBySegment(segmentId: number): Promise<Campaign[]> {
+    return await db.select().from(campaigns).where(eq(campaigns.segmentId, segmentId));
+  }
+
+  // Segment operations
+  async getSegments(cids?: string[]): Promise<Segment[]> {
+    if (cids && cids.length === 0) return [];
+    return await db
+      .select()
+      .from(segments)
+      .where(cids ? inArray(segments.cid, cids) : undefined)
+      .orderBy(segments.cid, segments.name);
+  }
+
+  async getSegment(id: number): Promise<Segment | undefined> {
+    const [segment] = await db.select().from(segments).where(eq(segments.id, id));
+    return segment;
+  }
+
+  async createSegment(segment: InsertSegment): Promise<Segment> {
+    const [newSegment] = await db.insert(segments).values(segment).returning();
+    return newSegment;
+  }
+
+  async updateSegment(id: number, updates: Partial<Omit<Segment, 'id' | 'createdAt'>>): Promise<Segment | undefined> {
+    const [segment] = await db
+      .update(segments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(segments.id, id))
+      .returning();
+    return segment;
+  }
+
+  async deleteSegment(id: number): Promise<void> {
+    await db.delete(segments).where(eq(segments.id, id));
+  }
+
+  async getSegmentCaptures(cid: string, definition: SegmentGroup): Promise<EmailCapture[]> {
+    return await db.select().from(emailCaptures)
+      .where(segmentWhere(cid, definition))
+      .orderBy(desc(emailCaptures.createdAt));
+  }
+
+  async getSegmentCaptureIds(cid: string, definition: SegmentGroup): Promise<number[]> {
+    const rows = await db.select({ id: emailCaptures.id }).from(emailCaptures).where(segmentWhere(cid, definition));
+    return rows.map(row => row.id);
+  }
+
+  async countSegmentCaptures(cid: string, definition: SegmentGroup): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(emailCaptures)
+      .where(segmentWhere(cid, definition));
+    return result?.count || 0;
+  }
+
+  // Sequence operations
+  async getSequences(cids?: string[]): Promise<Sequence[]> {
+    if (cids && cids.length === 0) return [];
+    return await db
+      .select()
+      .from(sequences)
+      .where(cids ? inArray(sequences.cid, cids) : undefined)
+      .orderBy(sequences.cid, sequences.name);
+  }
+
+  async getSequence(id: number): Promise<Sequence | undefined> {
+    const [sequence] = await db.select().from(sequences).where(eq(sequences.id, id));
+    return sequence;
+  }
+
+  async getActiveSequences(): Promise<Sequence[]> {
+    return await db.select().from(sequences).where(eq(sequences.status, 'active'));
+  }
+
+  async createSequence(sequence: InsertSequence): Promise<Sequence> {
+    const [newSequence] = await db.insert(sequences).values(sequence).returning();
+    return newSequence;
+  }
+
+  async updateSequence(id: number, updates: Partial<Omit<Sequence, 'id' | 'createdAt'>>): Promise<Sequence | undefined> {
+    const [sequence] = await db
+      .update(sequences)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(sequences.id, id))
+      .returning();
+    return sequence;
+  }
+
+  async deleteSequence(id: number): Promise<void> {
+    await db.delete(sequences).where(eq(sequences.id, id));
+  }
+
+  // An identity is enrolled in a sequence at most once - repeats are skipped
+  async createSequenceEnrollments(enrollments: InsertSequenceEnrollment[]): Promise<number> {
+    let created = 0;
+    for (let i = 0; i < enrollments.length; i += 1000) {
+      const inserted = await db
+        .insert(sequenceEnrollments)
+        .values(enrollments.slice(i, i + 1000))
+        .onConflictDoNothing()
+        .returning({ id: sequenceEnrollments.id });
+      created += inserted.length;
+    }
+    return created;
+  }
+
+  async getEnrolledCaptureIds(sequenceId: number): Promise<number[]> {
+    const rows = await db
+      .select({ captureId: sequenceEnrollments.captureId })
+      .from(sequenceEnrollments)
+      .where(eq(sequenceEnrollments.sequenceId, sequenceId));
+    return rows.map(row => row.captureId);
+  }
+
+  // Active enrollments whose next step is due, in sequences that are running for active accounts
+  async getDueSequenceEnrollments(now: Date, limit: number): Promise<SequenceEnrollment[]> {
+    return await db
+      .select()
+      .from(sequenceEnrollments)
+      .where(and(
+        eq(sequenceEnrollments.status, 'active'),
+        lte(sequenceEnrollments.nextRunAt, now),
+        inArray(sequenceEnrollments.sequenceId, db
+          .select({ id: sequences.id })
+          .from(sequences)
+          .innerJoin(cidAccounts, eq(cidAccounts.cid, sequences.cid))
+          .where(and(eq(sequences.status, 'active'), eq(cidAccounts.status, 'active')))),
+      ))
+      .orderBy(sequenceEnrollments.nextRunAt)
+      .limit(limit);
+  }
+
+  async getSequenceEnrollment(id: number): Promise<SequenceEnrollment | undefined> {
+    const [enrollment] = await db.select().from(sequenceEnrollments).where(eq(sequenceEnrollments.id, id));
+    return enrollment;
+  }
+
+  async getSequenceEnrollments(sequenceId: number, filters: { status?: SequenceEnrollmentStatus; limit?: number } = {}): Promise<SequenceEnrollment[]> {
+    const query = db
+      .select()
+      .from(sequenceEnrollments)
+      .where(and(
+        eq(sequenceEnrollments.sequenceId, sequenceId),
+        filters.status ? eq(sequenceEnrollments.status, filters.status) : undefined,
+      ))
+      .orderBy(desc(sequenceEnrollments.enrolledAt));
+    return filters.limit ? await query.limit(filters.limit) : await query;
+  }
+
+  async getSequenceEnrollmentsByCapture(captureId: number): Promise<SequenceEnrollment[]> {
+    return await db
+      .select()
+      .from(sequenceEnrollments)
+      .where(eq(sequenceEnrollments.captureId, captureId))
+      .orderBy(desc(sequenceEnrollments.enrolledAt));
+  }
+
+  async updateSequenceEnrollment(id: number, updates: Partial<Omit<SequenceEnrollment, 'id' | 'sequenceId' | 'captureId'>>): Promise<SequenceEnrollment | undefined> {
+    const [enrollment] = await db
+      .update(sequenceEnrollments)
+      .set(updates)
+      .where(eq(sequenceEnrollments.id, id))
+      .returning();
+    return enrollment;
+  }
+
+  async getSequenceEnrollmentCounts(sequenceId: number): Promise<{ total: number; active: number; completed: number; exited: number }> {
+    const [counts] = await db
+      .select({
+        total: sql<number>`count(*)::int`,
+        active: sql<number>`count(*) filter (where ${sequenceEnrollments.status} = 'active')::int`,
+        completed: sql<number>`count(*) filter (where ${sequenceEnrollments.status} = 'completed')::int`,
+        exited: sql<number>`count(*) filter (where ${sequenceEnrollments.status} = 'exited')::int`,
+      })
+      .from(sequenceEnrollments)
+      .where(eq(sequenceEnrollments.sequenceId, sequenceId));
+    return counts;
+  }
+
+  // Email engagement operations
+  async getEmailCapturesByAddress(email: string): Promise<EmailCapture[]> {
+    // The synced address may be a provider candidate rather than the capture's own email
+    const address = email.trim().toLowerCase();
+    return await db
+      .select()
+      .from(emailCaptures)
+      .where(or(
+        sql`lower(${emailCaptures.email}) = ${address}`,
+        inArray(emailCaptures.id, db
+          .select({ id: emailCandidates.captureId })
+          .from(emailCandidates)
+          .where(sql`lower(${emailCandidates.email}) = ${address}`)),
+      ));
+  }
+
+  async setMailchimpStatus(captureIds: number[], status: string, at: Date): Promise<void> {
+    if (captureIds.length === 0) return;
+
+    // updatedAt is left alone so a status change doesn't queue the contact for another sync
+    await db
+      .update(emailCaptures)
+      .set({ mailchimpStatus: status, mailchimpStatusAt: at })
+      .where(inArray(emailCaptures.id, captureIds));
+  }
+
+  async resetMailchimpSync(cid: string): Promise<number> {
+    const reset = await db
+      .update(emailCaptures)
+      .set({ mailchimpSyncedAt: null })
+      .where(and(eq(emailCaptures.cid, cid), isNotNull(emailCaptures.mailchimpSyncedAt)))
+      .returning({ id: emailCaptures.id });
+    return reset.length;
+  }
+
+  async getLatestSentCampaignRecipient(email: string, externalId: string, sentAfter: Date, sentBefore: Date, cids?: string[]): Promise<CampaignRecipient | undefined> {
+    if (cids && cids.length === 0) return undefined;
+
+    const [recipient] = await db
+      .select()
+      .from(campaignRecipients)
+      .where(and(
+        eq(campaignRecipients.status, 'sent'),
+        or(eq(campaignRecipients.externalId, externalId), sql`lower(${campaignRecipients.email}) = ${email.trim().toLowerCase()}`),
+        gte(campaignRecipients.sentAt, sentAfter),
+        lte(campaignRecipients.sentAt, sentBefore),
+        cids ? inArray(campaignRecipients.cid, cids) : undefined,
+      ))
+      .orderBy(desc(campaignRecipients.sentAt))
+      .limit(1);
+    return recipient;
+  }
+
+  async createEmailEngagements(engagements: InsertEmailEngagement[]): Promise<number> {
+    if (engagements.length === 0) return 0;
+
+    const inserted = await db.insert(emailEngagements).values(engagements).returning({ id: emailEngagements.id });
+    return inserted.length;
+  }
+
+  async getRecentMailchimpCampaigns(sentAfter: Date): Promise<Array<{ mailchimpCampaignId: string; listId: string; lastActivityAt: Date | null }>> {
+    // Campaigns are known from their campaign webhook; the latest open or click pulled is where the next pull starts
+    const rows = await db
+      .select({
+        mailchimpCampaignId: emailEngagements.mailchimpCampaignId,
+        listId: emailEngagements.listId,
+        lastActivityAt: sql<Date | null>`(
+          select max(activity.fired_at) from ${emailEngagements} activity
+          where activity.mailchimp_campaign_id = ${emailEngagements.mailchimpCampaignId}
+            and activity.event_type in ('open', 'click')
+        )`.mapWith(emailEngagements.firedAt),
+      })
+      .from(emailEngagements)
+      .where(and(
+        eq(emailEngagements.eventType, 'campaign'),
+        gte(emailEngagements.firedAt, sentAfter),
+        isNotNull(emailEngagements.mailchimpCampaignId),
+        isNotNull(emailEngagements.listId),
+      ))
+      .groupBy(emailEngagements.mailchimpCampaignId, emailEngagements.listId);
+
+    return rows.map(row => ({ ...row, mailchimpCampaignId: row.mailchimpCampaignId!, listId: row.listId! }));
+  }
+
+  async getEmailEngagements(captureId: number, limit: number = 100): Promise<EmailEngagement[]> {
+    return await db
+      .select()
+      .from(emailEngagements)
+      .where(eq(emailEngagements.captureId, captureId))
+      .orderBy(desc(emailEngagements.firedAt))
+      .limit(limit);
+  }
+
+  async getEmailEngagementCounts(captureId: number): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ eventType: emailEngagements.eventType, count: sql<number>`count(*)::int` })
+      .from(emailEngagements)
+      .where(eq(emailEngagements.captureId, captureId))
+      .groupBy(emailEngagements.eventType);
+    return Object.fromEntries(rows.map(row => [row.eventType, row.count]));
+  }
+
   // API integration operations
   async getApiIntegrations(): Promise<ApiIntegration[]> {
     return await db.select().from(apiIntegrations);
@@ -316,6 +1017,33 @@ export class DatabaseStorage implements IStorage {
       .where(eq(apiIntegrations.name, name));
   }
 
+  async getApiIntegration(name: string): Promise<ApiIntegration | undefined> {
+    const [integration] = await db
+      .select()
+      .from(apiIntegrations)
+      .where(eq(apiIntegrations.name, name))
+      .limit(1);
+    return integration;
+  }
+
+  async upsertApiIntegration(name: string, updates: Partial<ApiIntegration>): Promise<ApiIntegration> {
+    const existing = await this.getApiIntegration(name);
+    if (existing) {
+      const [integration] = await db
+        .update(apiIntegrations)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(apiIntegrations.id, existing.id))
+        .returning();
+      return integration;
+    }
+
+    const [integration] = await db
+      .insert(apiIntegrations)
+      .values({ ...updates, name })
+      .returning();
+    return integration;
+  }
+
   // CID account operations
   async upsertCidAccount(account: { 
     cid: string; 
@@ -337,6 +1065,7 @@ export class DatabaseStorage implements IStorage {
     returnCity?: string;
     returnState?: string;
     returnZip?: string;
+    signingSecret?: string;
   }): Promise<any> {
     // Build Handwrytten settings object if any are provided
     const handwryttenSettings = (account.handwryttenSender || account.handwritingId || account.handwryttenTemplate || account.returnCompany || account.returnAddress1 || account.returnCity) ? {
@@ -369,6 +1098,8 @@ export class DatabaseStorage implements IStorage {
         ownerId: account.ownerId,
         status: account.status || 'active',
         settings: handwryttenSettings,
+        signingSecret: account.signingSecret,
+        signingSecretRotatedAt: account.signingSecret ? new Date() : undefined,
         createdAt: new Date(),
         updatedAt: new Date(),
       })
@@ -404,6 +1135,43 @@ export class DatabaseStorage implements IStorage {
     return account;
   }
 
+  async setCidSigningSecret(cid: string, signingSecret: string): Promise<any | undefined> {
+    const [account] = await db
+      .update(cidAccounts)
+      .set({
+        signingSecret,
+        signingSecretRotatedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(cidAccounts.cid, cid))
+      .returning();
+    return account;
+  }
+
+  async setCidMailchimpConfig(cid: string, updates: { mailchimpListId?: string | null; mailchimpCredentials?: string | null; mailchimpMergeFields?: MailchimpMergeFieldMapping | null }): Promise<any | undefined> {
+    const [account] = await db
+      .update(cidAccounts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(cidAccounts.cid, cid))
+      .returning();
+    return account;
+  }
+
+  async updateCidAccountSettings(cid: string, settings: Record<string, any>): Promise<any | undefined> {
+    const cidAccount = await this.getCidAccount(cid);
+    if (!cidAccount) return undefined;
+
+    const [updatedAccount] = await db
+      .update(cidAccounts)
+      .set({
+        settings: { ...((cidAccount.settings as any) || {}), ...settings },
+        updatedAt: new Date(),
+      })
+      .where(eq(cidAccounts.cid, cid))
+      .returning();
+    return updatedAccount;
+  }
+
   async updateCidAccount(id: number, updates: {
     cid?: string;
     accountName?: string;
@@ -484,88 +1252,77 @@ export class DatabaseStorage implements IStorage {
     const allMetrics = await db.select().from(identityMetrics);
     if (allMetrics.length === 0) return undefined;
     
-    // Aggregate metrics from all CIDs
-    const aggregated = allMetrics.reduce((acc, metric) => ({
-      id: 0,
-      cid: 'all',
-      geographicData: (acc.geographicData || 0) + (metric.geographicData || 0),
-      propertyOwnership: (acc.propertyOwnership || 0) + (metric.propertyOwnership || 0),
-      propertyValue: (acc.propertyValue || 0) + (metric.propertyValue || 0),
-      mortgageStatus: (acc.mortgageStatus || 0) + (metric.mortgageStatus || 0),
-      moveInDate: (acc.moveInDate || 0) + (metric.moveInDate || 0),
-      realEstateInterest: (acc.realEstateInterest || 0) + (metric.realEstateInterest || 0),
-      hashedEmails: (acc.hashedEmails || 0) + (metric.hashedEmails || 0),
-      contactEmail: (acc.contactEmail || 0) + (metric.contactEmail || 0),
-      age: (acc.age || 0) + (metric.age || 0),
-      phoneNumber: (acc.phoneNumber || 0) + (metric.phoneNumber || 0),
-      householdIncome: (acc.householdIncome || 0) + (metric.householdIncome || 0),
-      familySize: (acc.familySize || 0) + (metric.familySize || 0),
-      maritalStatus: (acc.maritalStatus || 0) + (metric.maritalStatus || 0),
-      purchaseHistory: (acc.purchaseHistory || 0) + (metric.purchaseHistory || 0),
-      updatedAt: new Date(),
-    }), {
+    // Sum the counts; the oldest computedAt is how fresh the totals are
+    return allMetrics.reduce((acc, metric) => {
+      const summed = Object.fromEntries(IDENTITY_METRIC_FIELDS.map(field => [field, (acc[field] || 0) + (metric[field] || 0)]));
+      return {
+        ...acc,
+        ...summed,
+        computedAt: acc.computedAt && metric.computedAt ? (acc.computedAt < metric.computedAt ? acc.computedAt : metric.computedAt) : null,
+        updatedAt: acc.updatedAt && metric.updatedAt && acc.updatedAt > metric.updatedAt ? acc.updatedAt : metric.updatedAt,
+      };
+    }, {
+      ...Object.fromEntries(IDENTITY_METRIC_FIELDS.map(field => [field, 0])),
       id: 0,
       cid: 'all',
-      geographicData: 0,
-      propertyOwnership: 0,
-      propertyValue: 0,
-      mortgageStatus: 0,
-      moveInDate: 0,
-      realEstateInterest: 0,
-      hashedEmails: 0,
-      contactEmail: 0,
-      age: 0,
-      phoneNumber: 0,
-      householdIncome: 0,
-      familySize: 0,
-      maritalStatus: 0,
-      purchaseHistory: 0,
-      updatedAt: new Date(),
-    });
-    
-    return aggregated;
+      computedAt: allMetrics[0].computedAt,
+      updatedAt: allMetrics[0].updatedAt,
+    } as IdentityMetrics);
   }
 
-  async updateIdentityMetrics(metrics: Partial<IdentityMetrics>, cid: string = 'default'): Promise<void> {
-    await db
-      .insert(identityMetrics)
-      .values({
-        cid,
-        geographicData: metrics.geographicData || 0,
-        propertyOwnership: metrics.propertyOwnership || 0,
-        propertyValue: metrics.propertyValue || 0,
-        mortgageStatus: metrics.mortgageStatus || 0,
-        moveInDate: metrics.moveInDate || 0,
-        realEstateInterest: metrics.realEstateInterest || 0,
-        hashedEmails: metrics.hashedEmails || 0,
-        contactEmail: metrics.contactEmail || 0,
-        age: metrics.age || 0,
-        phoneNumber: metrics.phoneNumber || 0,
-        householdIncome: metrics.householdIncome || 0,
-        familySize: metrics.familySize || 0,
-        maritalStatus: metrics.maritalStatus || 0,
-        purchaseHistory: metrics.purchaseHistory || 0,
+  // Field completeness per CID counted in one pass over email_captures. Rejected traffic is left out.
+  async recomputeIdentityMetrics(cid?: string): Promise<IdentityMetrics[]> {
+    const present = (column: any) => sql<number>`count(*) filter (where nullif(${column}::text, '') is not null)::int`;
+
+    const counts = await db
+      .select({
+        cid: emailCaptures.cid,
+        hashedEmails: sql<number>`count(*)::int`,
+        contactEmail: present(emailCaptures.email),
+        geographicData: sql<number>`count(*) filter (where nullif(${emailCaptures.zip}, '') is not null or (nullif(${emailCaptures.city}, '') is not null and nullif(${emailCaptures.state}, '') is not null))::int`,
+        propertyOwnership: present(emailCaptures.homeOwnership),
+        propertyValue: present(emailCaptures.homeValue),
+        mortgageStatus: sql<number>`count(*) filter (where ${emailCaptures.mortgageAmount} is not null or nullif(${emailCaptures.mortgageLoanType}, '') is not null)::int`,
+        moveInDate: present(emailCaptures.lengthOfResidence),
+        // Visited at least one page a URL rule labelled
+        realEstateInterest: sql<number>`count(*) filter (where exists (select 1 from ${pageViews} where ${pageViews.captureId} = ${emailCaptures.id} and ${pageViews.category} is not null))::int`,
+        age: present(emailCaptures.age),
+        // No phone column yet - counted from the stored provider payload
+        phoneNumber: sql<number>`count(*) filter (where nullif(${emailCaptures.enrichmentData} ->> 'phone', '') is not null)::int`,
+        householdIncome: present(emailCaptures.householdIncome),
+        familySize: present(emailCaptures.householdPersons),
+        maritalStatus: present(emailCaptures.maritalStatus),
+        purchaseHistory: present(emailCaptures.homePrice),
       })
-      .onConflictDoUpdate({
-        target: identityMetrics.cid,
-        set: {
-          geographicData: metrics.geographicData || 0,
-          propertyOwnership: metrics.propertyOwnership || 0,
-          propertyValue: metrics.propertyValue || 0,
-          mortgageStatus: metrics.mortgageStatus || 0,
-          moveInDate: metrics.moveInDate || 0,
-          realEstateInterest: metrics.realEstateInterest || 0,
-          hashedEmails: metrics.hashedEmails || 0,
-          contactEmail: metrics.contactEmail || 0,
-          age: metrics.age || 0,
-          phoneNumber: metrics.phoneNumber || 0,
-          householdIncome: metrics.householdIncome || 0,
-          familySize: metrics.familySize || 0,
-          maritalStatus: metrics.maritalStatus || 0,
-          purchaseHistory: metrics.purchaseHistory || 0,
-          updatedAt: new Date(),
-        },
-      });
+      .from(emailCaptures)
+      .where(and(
+        cid ? eq(emailCaptures.cid, cid) : undefined,
+        or(isNull(emailCaptures.trafficStatus), sql`${emailCaptures.trafficStatus} <> 'rejected'`),
+      ))
+      .groupBy(emailCaptures.cid);
+
+    const computedAt = new Date();
+    const rows = cid && counts.length === 0
+      ? [{ cid, ...Object.fromEntries(IDENTITY_METRIC_FIELDS.map(field => [field, 0])) }]
+      : counts;
+
+    const saved: IdentityMetrics[] = [];
+    for (const row of rows) {
+      const values = { ...row, computedAt, updatedAt: computedAt };
+      const [metrics] = await db
+        .insert(identityMetrics)
+        .values(values)
+        .onConflictDoUpdate({ target: identityMetrics.cid, set: values })
+        .returning();
+      saved.push(metrics);
+    }
+
+    // A full run also drops rows for CIDs that no longer have identities
+    if (!cid) {
+      const cids = saved.map(metrics => metrics.cid);
+      await db.delete(identityMetrics).where(cids.length > 0 ? notInArray(identityMetrics.cid, cids) : undefined);
+    }
+    return saved;
   }
 
   // Sync log operations for delta sync optimization
@@ -596,6 +1353,41 @@ export class DatabaseStorage implements IStorage {
     return log;
   }
 
+  async getSyncCursor(cid: string, source: string): Promise<SyncCursor | undefined> {
+    const [cursor] = await db
+      .select()
+      .from(syncCursors)
+      .where(and(eq(syncCursors.cid, cid), eq(syncCursors.source, source)));
+    return cursor;
+  }
+
+  async getSyncCursors(cid?: string): Promise<SyncCursor[]> {
+    return await db
+      .select()
+      .from(syncCursors)
+      .where(cid ? eq(syncCursors.cid, cid) : undefined)
+      .orderBy(syncCursors.cid, syncCursors.source);
+  }
+
+  async upsertSyncCursor(cid: string, source: string, updates: Partial<Omit<SyncCursor, 'id' | 'cid' | 'source' | 'createdAt'>>): Promise<SyncCursor> {
+    const [cursor] = await db
+      .insert(syncCursors)
+      .values({
+        cid,
+        source,
+        ...updates,
+      })
+      .onConflictDoUpdate({
+        target: [syncCursors.cid, syncCursors.source],
+        set: {
+          ...updates,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return cursor;
+  }
+
   // System logs operations
   async createSystemLog(log: Omit<InsertSystemLog, 'timestamp' | 'createdAt'>): Promise<SystemLog> {
     const [newLog] = await db
@@ -649,6 +1441,553 @@ export class DatabaseStorage implements IStorage {
     
     return logs;
   }
+
+  // Enrichment job queue operations
+  async enqueueEnrichmentJobs(jobs: InsertEnrichmentJob[]): Promise<EnrichmentJob[]> {
+    if (jobs.length === 0) return [];
+
+    // Skip captures that already have a job waiting or in flight
+    const captureIds = jobs.map(job => job.captureId);
+    const activeJobs = await db.select({ captureId: enrichmentJobs.captureId }).from(enrichmentJobs)
+      .where(and(
+        inArray(enrichmentJobs.captureId, captureIds),
+        inArray(enrichmentJobs.status, ['queued', 'running', 'failed'])
+      ));
+    const activeCaptureIds = new Set(activeJobs.map(job => job.captureId));
+    const newJobs = jobs.filter(job => !activeCaptureIds.has(job.captureId));
+
+    if (newJobs.length === 0) return [];
+
+    return await db
+      .insert(enrichmentJobs)
+      .values(newJobs)
+      .returning();
+  }
+
+  async claimEnrichmentJobs(workerId: string, limit: number, visibilityTimeoutMs: number): Promise<EnrichmentJob[]> {
+    const now = new Date();
+
+    // Jobs become visible when their backoff has elapsed, or when a previous worker's lease expired
+    const claimable = db.select({ id: enrichmentJobs.id }).from(enrichmentJobs)
+      .where(or(
+        and(inArray(enrichmentJobs.status, ['queued', 'failed']), lte(enrichmentJobs.runAt, now)),
+        and(eq(enrichmentJobs.status, 'running'), lt(enrichmentJobs.leaseExpiresAt, now))
+      ))
+      .orderBy(enrichmentJobs.runAt)
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(enrichmentJobs)
+      .set({
+        status: 'running',
+        attempts: sql`${enrichmentJobs.attempts} + 1`,
+        leasedBy: workerId,
+        leaseExpiresAt: new Date(now.getTime() + visibilityTimeoutMs),
+        updatedAt: now,
+      })
+      .where(inArray(enrichmentJobs.id, claimable))
+      .returning();
+  }
+
+  async updateEnrichmentJob(id: number, updates: Partial<EnrichmentJob>, leasedBy?: string): Promise<boolean> {
+    // With leasedBy, nothing is written once the lease has passed to another worker
+    const updated = await db
+      .update(enrichmentJobs)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(enrichmentJobs.id, id), leasedBy ? eq(enrichmentJobs.leasedBy, leasedBy) : undefined))
+      .returning({ id: enrichmentJobs.id });
+    return updated.length > 0;
+  }
+
+  async getEnrichmentJobs(filters: { status?: string; cid?: string; limit?: number } = {}): Promise<EnrichmentJob[]> {
+    let conditions = [];
+
+    if (filters.status) {
+      conditions.push(eq(enrichmentJobs.status, filters.status));
+    }
+    if (filters.cid) {
+      conditions.push(eq(enrichmentJobs.cid, filters.cid));
+    }
+
+    return await db
+      .select()
+      .from(enrichmentJobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(enrichmentJobs.updatedAt))
+      .limit(filters.limit || 100);
+  }
+
+  async getEnrichmentJobCounts(cid?: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: enrichmentJobs.status, count: sql<number>`count(*)::int` })
+      .from(enrichmentJobs)
+      .where(cid ? eq(enrichmentJobs.cid, cid) : undefined)
+      .groupBy(enrichmentJobs.status);
+
+    const counts: Record<string, number> = { queued: 0, running: 0, succeeded: 0, failed: 0, dead: 0 };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  async retryEnrichmentJobs(filters: { ids?: number[]; status?: string; cid?: string; bypassCache?: boolean }): Promise<number> {
+    let conditions = [inArray(enrichmentJobs.status, ['failed', 'dead'])];
+
+    if (filters.ids && filters.ids.length > 0) {
+      conditions.push(inArray(enrichmentJobs.id, filters.ids));
+    }
+    if (filters.status) {
+      conditions.push(eq(enrichmentJobs.status, filters.status));
+    }
+    if (filters.cid) {
+      conditions.push(eq(enrichmentJobs.cid, filters.cid));
+    }
+
+    const retried = await db
+      .update(enrichmentJobs)
+      .set({
+        status: 'queued',
+        attempts: 0,
+        bypassCache: !!filters.bypassCache,
+        runAt: new Date(),
+        leasedBy: null,
+        leaseExpiresAt: null,
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(and(...conditions))
+      .returning({ id: enrichmentJobs.id });
+    return retried.length;
+  }
+
+  async purgeEnrichmentJobs(filters: { status: string; cid?: string; olderThan?: Date }): Promise<number> {
+    let conditions = [eq(enrichmentJobs.status, filters.status)];
+
+    if (filters.cid) {
+      conditions.push(eq(enrichmentJobs.cid, filters.cid));
+    }
+    if (filters.olderThan) {
+      conditions.push(lte(enrichmentJobs.updatedAt, filters.olderThan));
+    }
+
+    const purged = await db
+      .delete(enrichmentJobs)
+      .where(and(...conditions))
+      .returning({ id: enrichmentJobs.id });
+    return purged.length;
+  }
+
+  // Page view operations
+  async recordPageView(view: InsertPageView): Promise<PageView | undefined> {
+    // The same hit can be delivered more than once (delta sync overlap, webhook retries)
+    const [pageView] = await db
+      .insert(pageViews)
+      .values(view)
+      .onConflictDoNothing()
+      .returning();
+    return pageView;
+  }
+
+  async getPageViewsByCaptureId(captureId: number): Promise<PageView[]> {
+    return await db
+      .select()
+      .from(pageViews)
+      .where(eq(pageViews.captureId, captureId))
+      .orderBy(pageViews.viewedAt);
+  }
+
+  async hasPageViewSince(captureId: number, since: Date, category?: string): Promise<boolean> {
+    const [view] = await db
+      .select({ id: pageViews.id })
+      .from(pageViews)
+      .where(and(
+        eq(pageViews.captureId, captureId),
+        gt(pageViews.viewedAt, since),
+        category ? eq(pageViews.category, category) : undefined,
+      ))
+      .limit(1);
+    return !!view;
+  }
+
+  async getPageViewsForCaptures(captureIds: number[], since: Date): Promise<PageView[]> {
+    if (captureIds.length === 0) return [];
+
+    return await db
+      .select()
+      .from(pageViews)
+      .where(and(inArray(pageViews.captureId, captureIds), gte(pageViews.viewedAt, since)))
+      .orderBy(pageViews.viewedAt);
+  }
+
+  // One row per URL/category pair, so reclassifying after a rule change touches each URL once
+  async getDistinctPageViewUrls(cid: string): Promise<Array<{ url: string; category: string | null }>> {
+    const rows = await db
+      .selectDistinct({ url: pageViews.url, category: pageViews.category })
+      .from(pageViews)
+      .where(and(eq(pageViews.cid, cid), isNotNull(pageViews.url)));
+    return rows.filter((row): row is { url: string; category: string | null } => row.url !== null);
+  }
+
+  async setPageViewCategory(cid: string, url: string, category: string | null): Promise<number> {
+    const updated = await db
+      .update(pageViews)
+      .set({ category })
+      .where(and(eq(pageViews.cid, cid), eq(pageViews.url, url)))
+      .returning({ id: pageViews.id });
+    return updated.length;
+  }
+
+  // Enrichment cache operations
+  async getEnrichmentCacheEntry(provider: string, hashedEmail: string): Promise<EnrichmentCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(enrichmentCache)
+      .where(and(eq(enrichmentCache.provider, provider), eq(enrichmentCache.hashedEmail, hashedEmail)));
+    return entry;
+  }
+
+  async upsertEnrichmentCacheEntry(entry: { provider: string; hashedEmail: string; response: any; expiresAt: Date }): Promise<EnrichmentCacheEntry> {
+    const now = new Date();
+    const [cached] = await db
+      .insert(enrichmentCache)
+      .values({ ...entry, fetchedAt: now })
+      .onConflictDoUpdate({
+        target: [enrichmentCache.provider, enrichmentCache.hashedEmail],
+        set: {
+          response: entry.response,
+          expiresAt: entry.expiresAt,
+          fetchedAt: now,
+          updatedAt: now,
+        },
+      })
+      .returning();
+    return cached;
+  }
+
+  async recordEnrichmentCacheHit(id: number): Promise<void> {
+    await db
+      .update(enrichmentCache)
+      .set({
+        hitCount: sql`${enrichmentCache.hitCount} + 1`,
+        lastHitAt: new Date(),
+      })
+      .where(eq(enrichmentCache.id, id));
+  }
+
+  async getEnrichmentCacheSummary(): Promise<{ entries: number; fresh: number; totalHits: number }> {
+    const [summary] = await db
+      .select({
+        entries: sql<number>`count(*)::int`,
+        fresh: sql<number>`count(*) filter (where ${enrichmentCache.expiresAt} > now())::int`,
+        totalHits: sql<number>`coalesce(sum(${enrichmentCache.hitCount}), 0)::int`,
+      })
+      .from(enrichmentCache);
+    return summary;
+  }
+
+  // Enrichment ledger operations
+  async recordEnrichmentLedgerEntry(entry: InsertEnrichmentLedgerEntry): Promise<EnrichmentLedgerEntry> {
+    const [ledgerEntry] = await db
+      .insert(enrichmentLedger)
+      .values(entry)
+      .returning();
+    return ledgerEntry;
+  }
+
+  async getEnrichmentUsage(since: Date, cid?: string): Promise<Array<{ cid: string; calls: number; cost: number }>> {
+    return await db
+      .select({
+        cid: enrichmentLedger.cid,
+        calls: sql<number>`count(*)::int`,
+        cost: sql<number>`coalesce(sum(${enrichmentLedger.unitCost}), 0)::float`,
+      })
+      .from(enrichmentLedger)
+      .where(cid
+        ? and(eq(enrichmentLedger.cid, cid), gte(enrichmentLedger.createdAt, since))
+        : gte(enrichmentLedger.createdAt, since))
+      .groupBy(enrichmentLedger.cid);
+  }
+
+  // Re-enrichment operations
+  private staleEnrichmentCondition(cid: string, cutoffs: StaleEnrichmentCutoffs) {
+    // Records enriched before enrichment_checked_at existed fall back to when they were captured
+    const checkedAt = sql`coalesce(${emailCaptures.enrichmentCheckedAt}, ${emailCaptures.capturedAt})`;
+    const due = [];
+    if (cutoffs.completedBefore) {
+      due.push(and(eq(emailCaptures.enrichmentStatus, 'completed'), sql`${checkedAt} < ${cutoffs.completedBefore.toISOString()}`));
+    }
+    if (cutoffs.failedBefore) {
+      due.push(and(eq(emailCaptures.enrichmentStatus, 'failed'), sql`${checkedAt} < ${cutoffs.failedBefore.toISOString()}`));
+    }
+
+    return and(
+      eq(emailCaptures.cid, cid),
+      sql`coalesce(${emailCaptures.trafficStatus}, 'valid') = 'valid'`,
+      due.length > 0 ? or(...due) : sql`false`,
+      // Leave records that already have a job waiting or in flight to that job
+      sql`not exists (select 1 from ${enrichmentJobs} where ${enrichmentJobs.captureId} = ${emailCaptures.id} and ${enrichmentJobs.status} in ('queued', 'running', 'failed'))`
+    );
+  }
+
+  async getStaleEnrichmentCaptures(cid: string, cutoffs: StaleEnrichmentCutoffs, limit: number): Promise<Array<Pick<EmailCapture, 'id' | 'cid' | 'hashedEmail' | 'trafficStatus' | 'enrichmentStatus'>>> {
+    return await db
+      .select({
+        id: emailCaptures.id,
+        cid: emailCaptures.cid,
+        hashedEmail: emailCaptures.hashedEmail,
+        trafficStatus: emailCaptures.trafficStatus,
+        enrichmentStatus: emailCaptures.enrichmentStatus,
+      })
+      .from(emailCaptures)
+      .where(this.staleEnrichmentCondition(cid, cutoffs))
+      .orderBy(sql`coalesce(${emailCaptures.enrichmentCheckedAt}, ${emailCaptures.capturedAt})`)
+      .limit(limit);
+  }
+
+  async countStaleEnrichmentCaptures(cid: string, cutoffs: StaleEnrichmentCutoffs): Promise<{ completed: number; failed: number }> {
+    const [counts] = await db
+      .select({
+        completed: sql<number>`count(*) filter (where ${emailCaptures.enrichmentStatus} = 'completed')::int`,
+        failed: sql<number>`count(*) filter (where ${emailCaptures.enrichmentStatus} = 'failed')::int`,
+      })
+      .from(emailCaptures)
+      .where(this.staleEnrichmentCondition(cid, cutoffs));
+    return counts;
+  }
+
+  async recordEnrichmentRefresh(refresh: InsertEnrichmentRefresh): Promise<EnrichmentRefresh> {
+    const [row] = await db
+      .insert(enrichmentRefreshes)
+      .values(refresh)
+      .returning();
+    return row;
+  }
+
+  async getEnrichmentRefreshes(filters: { cid?: string; captureId?: number; outcome?: string; limit?: number } = {}): Promise<EnrichmentRefresh[]> {
+    const conditions = [];
+    if (filters.cid) conditions.push(eq(enrichmentRefreshes.cid, filters.cid));
+    if (filters.captureId) conditions.push(eq(enrichmentRefreshes.captureId, filters.captureId));
+    if (filters.outcome) conditions.push(eq(enrichmentRefreshes.outcome, filters.outcome));
+
+    return await db
+      .select()
+      .from(enrichmentRefreshes)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(enrichmentRefreshes.createdAt))
+      .limit(filters.limit || 100);
+  }
+
+  // Enrichment payload archive operations
+  async recordEnrichmentPayload(payload: InsertEnrichmentPayload): Promise<EnrichmentPayload> {
+    const [row] = await db
+      .insert(enrichmentPayloads)
+      .values(payload)
+      .returning();
+    return row;
+  }
+
+  async getLatestEnrichmentPayloads(filters: { cid?: string; afterCaptureId?: number; limit: number }): Promise<Array<{ payload: EnrichmentPayload; capture: EmailCapture }>> {
+    const conditions = [];
+    if (filters.cid) conditions.push(eq(enrichmentPayloads.cid, filters.cid));
+    if (filters.afterCaptureId) conditions.push(sql`${enrichmentPayloads.captureId} > ${filters.afterCaptureId}`);
+
+    // Most recent payload per capture, paged by capture id
+    return await db
+      .selectDistinctOn([enrichmentPayloads.captureId], { payload: enrichmentPayloads, capture: emailCaptures })
+      .from(enrichmentPayloads)
+      .innerJoin(emailCaptures, eq(emailCaptures.id, enrichmentPayloads.captureId))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(enrichmentPayloads.captureId, desc(enrichmentPayloads.createdAt))
+      .limit(filters.limit);
+  }
+
+  // Email candidate operations
+  async replaceEmailCandidates(captureId: number, candidates: Omit<InsertEmailCandidate, 'captureId'>[]): Promise<EmailCandidate[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(emailCandidates).where(eq(emailCandidates.captureId, captureId));
+      if (candidates.length === 0) return [];
+
+      return await tx
+        .insert(emailCandidates)
+        .values(candidates.map(candidate => ({ ...candidate, captureId })))
+        .onConflictDoNothing()
+        .returning();
+    });
+  }
+
+  async getEmailCandidates(captureIds: number[]): Promise<EmailCandidate[]> {
+    if (captureIds.length === 0) return [];
+
+    return await db
+      .select()
+      .from(emailCandidates)
+      .where(inArray(emailCandidates.captureId, captureIds))
+      .orderBy(emailCandidates.captureId, emailCandidates.id);
+  }
+
+  // Identity dedupe operations
+  async getDuplicateCaptureGroups(cid?: string, limit: number = 500): Promise<Array<{ cid: string; hashedEmail: string; captureIds: number[] }>> {
+    return await db
+      .select({
+        cid: emailCaptures.cid,
+        hashedEmail: emailCaptures.hashedEmail,
+        captureIds: sql<number[]>`array_agg(${emailCaptures.id} order by ${emailCaptures.id})`,
+      })
+      .from(emailCaptures)
+      .where(cid ? eq(emailCaptures.cid, cid) : undefined)
+      .groupBy(emailCaptures.cid, emailCaptures.hashedEmail)
+      .having(sql`count(*) > 1`)
+      .limit(limit);
+  }
+
+  async countDuplicateCaptures(cid?: string): Promise<{ groups: number; duplicates: number }> {
+    const groups = db
+      .select({ size: sql<number>`count(*)`.as('size') })
+      .from(emailCaptures)
+      .where(cid ? eq(emailCaptures.cid, cid) : undefined)
+      .groupBy(emailCaptures.cid, emailCaptures.hashedEmail)
+      .having(sql`count(*) > 1`)
+      .as('groups');
+
+    const [result] = await db
+      .select({
+        groups: sql<number>`count(*)::int`,
+        duplicates: sql<number>`coalesce(sum(${groups.size} - 1), 0)::int`,
+      })
+      .from(groups);
+    return result;
+  }
+
+  /**
+   * Fold duplicate captures into the survivor in one transaction: update the survivor, move page views
+   * and enrichment jobs across, record an audit row per duplicate and delete the duplicates
+   */
+  async mergeEmailCaptures(
+    survivorId: number,
+    duplicates: EmailCapture[],
+    survivorUpdates: Partial<EmailCapture>,
+    audit: Omit<InsertIdentityMerge, 'survivorId' | 'mergedCaptureId' | 'mergedSnapshot' | 'pageViewsMoved'>,
+    fieldsFilled: Record<number, string[]>
+  ): Promise<IdentityMerge[]> {
+    return await db.transaction(async (tx) => {
+      if (Object.keys(survivorUpdates).length > 0) {
+        await tx
+          .update(emailCaptures)
+          .set({ ...survivorUpdates, updatedAt: new Date() })
+          .where(eq(emailCaptures.id, survivorId));
+      }
+
+      const merges: IdentityMerge[] = [];
+      for (const duplicate of duplicates) {
+        // Copy rather than re-point so views already recorded on the survivor don't violate the unique hit key
+        const moved = await tx.execute(sql`
+          insert into ${pageViews} (capture_id, cid, hashed_email, session_id, url, var1, var2, source, category, viewed_at, created_at)
+          select ${survivorId}, cid, hashed_email, session_id, url, var1, var2, source, category, viewed_at, created_at
+          from ${pageViews} where capture_id = ${duplicate.id}
+          on conflict do nothing
+        `);
+
+        await tx
+          .update(enrichmentJobs)
+          .set({ captureId: survivorId, updatedAt: new Date() })
+          .where(eq(enrichmentJobs.captureId, duplicate.id));
+
+        await tx
+          .update(enrichmentRefreshes)
+          .set({ captureId: survivorId })
+          .where(eq(enrichmentRefreshes.captureId, duplicate.id));
+
+        await tx
+          .update(enrichmentPayloads)
+          .set({ captureId: survivorId })
+          .where(eq(enrichmentPayloads.captureId, duplicate.id));
+
+        // Candidates the survivor already has stay behind and go with the duplicate
+        await tx.execute(sql`
+          update ${emailCandidates} set capture_id = ${survivorId}
+          where capture_id = ${duplicate.id}
+            and not exists (
+              select 1 from ${emailCandidates} existing
+              where existing.capture_id = ${survivorId} and existing.email = ${emailCandidates}.email
+            )
+        `);
+
+        // When both were sent the same campaign, the duplicate's send is kept with its capture cleared
+        await tx.execute(sql`
+          update ${campaignRecipients} set capture_id = ${survivorId}
+          where capture_id = ${duplicate.id}
+            and not exists (
+              select 1 from ${campaignRecipients} existing
+              where existing.capture_id = ${survivorId} and existing.campaign_id = ${campaignRecipients}.campaign_id
+            )
+        `);
+
+        // The survivor's own enrollment wins when both are in the same sequence
+        await tx.execute(sql`
+          update ${sequenceEnrollments} set capture_id = ${survivorId}
+          where capture_id = ${duplicate.id}
+            and not exists (
+              select 1 from ${sequenceEnrollments} existing
+              where existing.capture_id = ${survivorId} and existing.sequence_id = ${sequenceEnrollments}.sequence_id
+            )
+        `);
+
+        await tx
+          .update(emailEngagements)
+          .set({ captureId: survivorId })
+          .where(eq(emailEngagements.captureId, duplicate.id));
+
+        const [merge] = await tx
+          .insert(identityMerges)
+          .values({
+            ...audit,
+            survivorId,
+            mergedCaptureId: duplicate.id,
+            mergedSnapshot: duplicate,
+            fieldsFilled: fieldsFilled[duplicate.id] || [],
+            pageViewsMoved: moved.rowCount || 0,
+          })
+          .returning();
+        merges.push(merge);
+      }
+
+      // Page views, candidates and enrollments the survivor already had are removed by the cascade
+      await tx.delete(emailCaptures).where(inArray(emailCaptures.id, duplicates.map(duplicate => duplicate.id)));
+      return merges;
+    });
+  }
+
+  async getIdentityMerges(filters: { cid?: string; survivorId?: number; limit?: number } = {}): Promise<IdentityMerge[]> {
+    const conditions = [];
+    if (filters.cid) conditions.push(eq(identityMerges.cid, filters.cid));
+    if (filters.survivorId) conditions.push(eq(identityMerges.survivorId, filters.survivorId));
+
+    return await db
+      .select()
+      .from(identityMerges)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(identityMerges.createdAt))
+      .limit(filters.limit || 100);
+  }
+
+  // Traffic quality operations
+  async getTrafficStatusCounts(since?: Date): Promise<Array<{ cid: string; trafficStatus: string; count: number }>> {
+    const rows = await db
+      .select({
+        cid: emailCaptures.cid,
+        trafficStatus: sql<string>`coalesce(${emailCaptures.trafficStatus}, 'valid')`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(emailCaptures)
+      .where(since ? gte(emailCaptures.capturedAt, since) : undefined)
+      .groupBy(emailCaptures.cid, sql`coalesce(${emailCaptures.trafficStatus}, 'valid')`);
+    return rows;
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,41 @@
+// Household income band parsed from the provider's label, in whole dollars
+export interface IncomeRange {
+  min: number;
+  max: number | null; // null for open-ended bands such as "$250K+"
+  midpoint: number; // The lower bound for open-ended bands
+}
+
+const AMOUNT_PATTERN = /\$?\s*(\d[\d,]*(?:\.\d+)?)\s*([KM])?/gi;
+
+/**
+ * Parse an income band label such as "$200K to $249K", "$50,000 - $74,999", "Less than $15K" or
+ * "$250K+". A band's upper bound written in thousands covers that whole thousand, so "$249K" means
+ * up to $249,999 and adjacent bands do not overlap.
+ */
+export function parseIncomeRange(label: string | null | undefined): IncomeRange | null {
+  if (!label || typeof label !== 'string') return null;
+
+  const amounts = Array.from(label.matchAll(AMOUNT_PATTERN)).slice(0, 2).map(match => {
+    const unit = match[2]?.toUpperCase();
+    const multiplier = unit === 'M' ? 1_000_000 : unit === 'K' ? 1000 : 1;
+    return { value: Math.round(parseFloat(match[1].replace(/,/g, '')) * multiplier), multiplier };
+  });
+  if (amounts.length === 0) return null;
+
+  const [low, high] = amounts;
+  const upperBound = (amount: { value: number; multiplier: number }) => amount.value + amount.multiplier - 1;
+
+  if (high) {
+    const min = Math.min(low.value, high.value);
+    const max = upperBound(low.value > high.value ? low : high);
+    return { min, max, midpoint: Math.round((min + max) / 2) };
+  }
+  if (/less|under|below|up to|</i.test(label)) {
+    const max = upperBound(low) - low.multiplier; // "Less than $15K" stops just under $15,000
+    return { min: 0, max, midpoint: Math.round(max / 2) };
+  }
+  if (/\+|over|above|more|plus|greater/i.test(label)) {
+    return { min: low.value, max: null, midpoint: low.value };
+  }
+  return { min: low.value, max: low.value, midpoint: low.value };
+}
@@ -9,6 +9,7 @@ import {
   integer,
   boolean,
   decimal,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -59,6 +60,11 @@ export const cidAccounts = pgTable("cid_accounts", {
   ownerId: integer("owner_id").references(() => users.id), // User who owns this CID
   status: varchar("status").notNull().default("active"), // active, inactive, suspended
   settings: jsonb("settings").default({}), // Business-specific configuration
+  signingSecret: varchar("signing_secret"), // HMAC secret used to verify pixel and webhook requests
+  signingSecretRotatedAt: timestamp("signing_secret_rotated_at"),
+  mailchimpListId: varchar("mailchimp_list_id"), // Audience this CID syncs to - MAILCHIMP_LIST_ID when empty
+  mailchimpCredentials: text("mailchimp_credentials"), // API key encrypted by credentialVault - MAILCHIMP_API_KEY when empty
+  mailchimpMergeFields: jsonb("mailchimp_merge_fields"), // MailchimpMergeFieldMapping - default tags when empty
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -80,6 +86,24 @@ export const syncLog = pgTable("sync_log", {
   index("idx_sync_log_last_synced").on(table.lastSyncedAt),
 ]);
 
+// Sync cursors table - resumable position per CID and visitor source (paged backfills, replays)
+export const syncCursors = pgTable("sync_cursors", {
+  id: serial("id").primaryKey(),
+  cid: varchar("cid").notNull(),
+  source: varchar("source").notNull(), // cloudflare_worker, wix, csv_drop
+  cursor: varchar("cursor"), // Committed position - records after this have not been ingested
+  page: integer("page").notNull().default(1), // Next page to fetch within the current window
+  windowCursor: varchar("window_cursor"), // Latest position seen in a window that is still being paged
+  lastRunAt: timestamp("last_run_at"),
+  lastRunRecords: integer("last_run_records").default(0),
+  totalRecords: integer("total_records").default(0),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("uq_sync_cursors_cid_source").on(table.cid, table.source),
+]);
+
 // Email captures table with comprehensive real estate data
 export const emailCaptures = pgTable("email_captures", {
   id: serial("id").primaryKey(),
@@ -95,6 +119,8 @@ export const emailCaptures = pgTable("email_captures", {
   enrichmentData: jsonb("enrichment_data"),
   enrichmentError: varchar("enrichment_error"), // Store error message for failed enrichments
   retryCount: integer("retry_count").default(0), // Track number of retry attempts
+  enrichmentCheckedAt: timestamp("enrichment_checked_at"), // Last time a provider answered for this record - drives re-enrichment
+  enrichmentMapperVersion: integer("enrichment_mapper_version"), // Provider mapper version that produced the identity columns
   
   // Real Estate Identity Data Fields
   firstName: varchar("first_name"),
@@ -115,9 +141,19 @@ export const emailCaptures = pgTable("email_captures", {
   mortgageAmount: decimal("mortgage_amount", { precision: 12, scale: 2 }),
   mortgageAge: integer("mortgage_age"), // Years
   householdIncome: varchar("household_income"), // Store as text from Audience Acuity (e.g., "$200K to $249K")
+  householdIncomeMin: integer("household_income_min"), // Parsed from the band label by parseIncomeRange
+  householdIncomeMax: integer("household_income_max"), // null for open-ended bands ("$250K+")
+  householdIncomeMidpoint: integer("household_income_midpoint"),
   homeOwnership: varchar("home_ownership"),
   homePrice: decimal("home_price", { precision: 12, scale: 2 }),
   homeValue: decimal("home_value", { precision: 12, scale: 2 }),
+  // Estimates derived from the mortgage and value fields by homeEquityService
+  estimatedLoanBalance: decimal("estimated_loan_balance", { precision: 12, scale: 2 }),
+  estimatedEquity: decimal("estimated_equity", { precision: 12, scale: 2 }),
+  equityPercent: decimal("equity_percent", { precision: 6, scale: 2 }), // Equity as a % of home value
+  loanToValue: decimal("loan_to_value", { precision: 6, scale: 2 }), // %
+  appreciationAmount: decimal("appreciation_amount", { precision: 12, scale: 2 }), // Home value minus purchase price
+  appreciationPercent: decimal("appreciation_percent", { precision: 6, scale: 2 }),
   lengthOfResidence: integer("length_of_residence"), // Years
   age: integer("age"),
   maritalStatus: varchar("marital_status"),
@@ -135,9 +171,28 @@ export const emailCaptures = pgTable("email_captures", {
   ts: varchar("ts"), // Timestamp from pixel endpoint
   ips: text("ips"), // IP addresses from Audience Acuity enrichment
   
+  // Traffic quality - bot and off-domain hits are tagged instead of enriched
+  trafficStatus: varchar("traffic_status").default("valid"), // valid, suspicious, rejected
+  trafficFlags: jsonb("traffic_flags"), // Reasons the hit was flagged (bot_user_agent, domain_not_allowed, ...)
+  
+  // Lead scores (0-100) from leadScoringService - factor breakdown per score in leadScoreFactors
+  sellerScore: integer("seller_score"),
+  buyerScore: integer("buyer_score"),
+  refinanceScore: integer("refinance_score"),
+  leadScore: integer("lead_score"), // Highest of the three, for a single "best leads" ordering
+  leadScoreFactors: jsonb("lead_score_factors"),
+  leadScoredAt: timestamp("lead_scored_at"),
+  
+  // Browsing intent (0-100) from visitIntentService - recency, frequency and variety of classified visits
+  intentScore: integer("intent_score"),
+  intentFactors: jsonb("intent_factors"),
+  intentScoredAt: timestamp("intent_scored_at"),
+  
   // Sync tracking fields
   mailchimpSyncedAt: timestamp("mailchimp_synced_at"), // Track when contact was last synced to Mailchimp
   handwryttenSyncedAt: timestamp("handwrytten_synced_at"), // Track when contact was last synced to Handwrytten
+  mailchimpStatus: varchar("mailchimp_status"), // subscribed, unsubscribed, cleaned - reported by the Mailchimp webhook
+  mailchimpStatusAt: timestamp("mailchimp_status_at"),
   
   capturedAt: timestamp("captured_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -147,6 +202,18 @@ export const emailCaptures = pgTable("email_captures", {
   index("idx_email_captures_hashed_email_cid").on(table.hashedEmail, table.cid),
   index("idx_email_captures_email").on(table.email),
   index("idx_email_captures_captured_at").on(table.capturedAt),
+  index("idx_email_captures_cid_traffic_status").on(table.cid, table.trafficStatus),
+  index("idx_email_captures_cid_enrichment_status").on(table.cid, table.enrichmentStatus, table.enrichmentCheckedAt),
+  index("idx_email_captures_cid_income_midpoint").on(table.cid, table.householdIncomeMidpoint),
+  index("idx_email_captures_cid_income_min").on(table.cid, table.householdIncomeMin),
+  index("idx_email_captures_cid_equity_percent").on(table.cid, table.equityPercent),
+  index("idx_email_captures_cid_loan_to_value").on(table.cid, table.loanToValue),
+  index("idx_email_captures_cid_estimated_equity").on(table.cid, table.estimatedEquity),
+  index("idx_email_captures_cid_lead_score").on(table.cid, table.leadScore),
+  index("idx_email_captures_cid_seller_score").on(table.cid, table.sellerScore),
+  index("idx_email_captures_cid_buyer_score").on(table.cid, table.buyerScore),
+  index("idx_email_captures_cid_refinance_score").on(table.cid, table.refinanceScore),
+  index("idx_email_captures_cid_intent_score").on(table.cid, table.intentScore),
 ]);
 
 // API integrations table
@@ -158,26 +225,96 @@ export const apiIntegrations = pgTable("api_integrations", {
   dailyRequests: integer("daily_requests").default(0),
   successRate: decimal("success_rate", { precision: 5, scale: 2 }),
   config: jsonb("config"),
+  encryptedCredentials: text("encrypted_credentials"), // AES-256-GCM encrypted provider credentials, never returned by the API
+  credentialsUpdatedAt: timestamp("credentials_updated_at"),
+  credentialsUpdatedBy: varchar("credentials_updated_by"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Segments table - saved audiences within a CID, defined by a rule tree over email_captures
+export const segments = pgTable("segments", {
+  id: serial("id").primaryKey(),
+  cid: varchar("cid").notNull(),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  definition: jsonb("definition").notNull(), // SegmentGroup
+  userId: varchar("user_id").references(() => users.id),
+  lastCount: integer("last_count"), // Matches when the segment was last counted
+  lastCountedAt: timestamp("last_counted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_segments_cid").on(table.cid),
+]);
+
 // Campaigns table
 export const campaigns = pgTable("campaigns", {
   id: serial("id").primaryKey(),
   name: varchar("name").notNull(),
-  type: varchar("type").notNull(), // email, handwritten
+  type: varchar("type").notNull(), // email (sent through Mailchimp), handwritten (sent through Handwrytten)
   userId: varchar("user_id").references(() => users.id),
+  cid: varchar("cid"), // Account whose identities make up the audience
+  segmentId: integer("segment_id").references(() => segments.id, { onDelete: "set null" }), // Saved audience, narrowed by audience.filters
+  audience: jsonb("audience"), // CampaignAudience
+  channelConfig: jsonb("channel_config"), // CampaignChannelConfig - Mailchimp tag or Handwrytten card and message
   recipients: integer("recipients").default(0),
+  sentCount: integer("sent_count").default(0),
+  failedCount: integer("failed_count").default(0),
   status: varchar("status").default("draft"), // draft, scheduled, in_progress, completed
   openRate: decimal("open_rate", { precision: 5, scale: 2 }),
   responseRate: decimal("response_rate", { precision: 5, scale: 2 }),
+  lastError: text("last_error"),
   scheduledAt: timestamp("scheduled_at"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_campaigns_status_scheduled_at").on(table.status, table.scheduledAt),
+]);
+
+// Campaign recipients table - one row per identity a campaign targeted, with its delivery result
+export const campaignRecipients = pgTable("campaign_recipients", {
+  id: serial("id").primaryKey(),
+  campaignId: integer("campaign_id").notNull().references(() => campaigns.id, { onDelete: "cascade" }),
+  captureId: integer("capture_id").references(() => emailCaptures.id, { onDelete: "set null" }),
+  cid: varchar("cid").notNull(),
+  email: varchar("email"), // Address sent to (email campaigns)
+  status: varchar("status").notNull().default("pending"), // pending, sending, sent, failed
+  externalId: varchar("external_id"), // Handwrytten order id or Mailchimp subscriber hash
+  error: text("error"),
+  sentAt: timestamp("sent_at"),
+  openedAt: timestamp("opened_at"),
+  clickedAt: timestamp("clicked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("uq_campaign_recipients_campaign_capture").on(table.campaignId, table.captureId),
+  index("idx_campaign_recipients_campaign_status").on(table.campaignId, table.status),
+  index("idx_campaign_recipients_capture").on(table.captureId),
+]);
 
-// Identity resolution metrics table - now CID-specific
+// Email engagements table - one row per Mailchimp webhook event, linked to the identity it concerns
+export const emailEngagements = pgTable("email_engagements", {
+  id: serial("id").primaryKey(),
+  captureId: integer("capture_id").references(() => emailCaptures.id, { onDelete: "set null" }),
+  cid: varchar("cid"),
+  campaignRecipientId: integer("campaign_recipient_id").references(() => campaignRecipients.id, { onDelete: "set null" }), // Send an open or click is credited to
+  eventType: varchar("event_type").notNull(), // subscribe, unsubscribe, cleaned, profile, upemail, campaign, open, click
+  email: varchar("email"), // Empty for campaign events
+  listId: varchar("list_id"),
+  mailchimpCampaignId: varchar("mailchimp_campaign_id"),
+  reason: varchar("reason"), // Unsubscribe or clean reason (manual, abuse, hard)
+  url: text("url"), // Clicked link
+  data: jsonb("data"), // Event payload as Mailchimp sent it
+  firedAt: timestamp("fired_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_email_engagements_capture_fired_at").on(table.captureId, table.firedAt),
+  index("idx_email_engagements_cid_fired_at").on(table.cid, table.firedAt),
+]);
+
+// Identity resolution metrics table - field completeness counts per CID, recomputed from email_captures
 export const identityMetrics = pgTable("identity_metrics", {
   id: serial("id").primaryKey(),
   cid: varchar("cid").notNull().default("default"), // Each CID has its own metrics
@@ -195,9 +332,10 @@ export const identityMetrics = pgTable("identity_metrics", {
   familySize: integer("family_size").default(0),
   maritalStatus: integer("marital_status").default(0),
   purchaseHistory: integer("purchase_history").default(0),
+  computedAt: timestamp("computed_at"), // When identityMetricsService last aggregated these from email_captures
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
-  index("idx_identity_metrics_cid").on(table.cid),
+  unique("uq_identity_metrics_cid").on(table.cid),
 ]);
 
 // System logs table - comprehensive activity logging
@@ -223,24 +361,262 @@ export const systemLogs = pgTable("system_logs", {
   index("idx_system_logs_user_id").on(table.userId),
 ]);
 
+// Enrichment jobs table - durable queue so capture paths only enqueue and a worker does the provider calls
+export const enrichmentJobs = pgTable("enrichment_jobs", {
+  id: serial("id").primaryKey(),
+  captureId: integer("capture_id").notNull().references(() => emailCaptures.id, { onDelete: "cascade" }),
+  cid: varchar("cid").notNull(),
+  hashedEmail: varchar("hashed_email").notNull(),
+  source: varchar("source"), // Capture path that enqueued the job (email_capture, pixel_endpoint, scheduled_sync, ...)
+  status: varchar("status").notNull().default("queued"), // queued, running, succeeded, failed, dead
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  bypassCache: boolean("bypass_cache").notNull().default(false), // Skip the enrichment cache and call the provider
+  refresh: boolean("refresh").notNull().default(false), // Re-enrich an already enriched/failed record and record what changed
+  runAt: timestamp("run_at").notNull().defaultNow(), // Job is not visible to workers before this time (backoff)
+  leasedBy: varchar("leased_by"), // Worker that currently holds the job
+  leaseExpiresAt: timestamp("lease_expires_at"), // Visibility timeout - job is reclaimed if the worker dies
+  lastError: text("last_error"),
+  result: jsonb("result"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_enrichment_jobs_status_run_at").on(table.status, table.runAt),
+  index("idx_enrichment_jobs_capture").on(table.captureId),
+  index("idx_enrichment_jobs_cid").on(table.cid),
+]);
+
+// Enrichment cache table - raw provider response per MD5, shared across CIDs so repeat hashes don't cost another lookup
+export const enrichmentCache = pgTable("enrichment_cache", {
+  id: serial("id").primaryKey(),
+  hashedEmail: varchar("hashed_email").notNull(),
+  provider: varchar("provider").notNull().default("audience_acuity"), // Provider cache key - audience_acuity:<templateId> for non-default templates
+  response: jsonb("response").notNull(), // Raw provider enrichment as returned by the provider
+  fetchedAt: timestamp("fetched_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  hitCount: integer("hit_count").notNull().default(0),
+  lastHitAt: timestamp("last_hit_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("uq_enrichment_cache_provider_hash").on(table.provider, table.hashedEmail),
+  index("idx_enrichment_cache_expires_at").on(table.expiresAt),
+]);
+
+// Enrichment ledger table - one row per provider call (cache hits are free and not recorded), drives per-CID caps
+export const enrichmentLedger = pgTable("enrichment_ledger", {
+  id: serial("id").primaryKey(),
+  cid: varchar("cid").notNull(),
+  hashedEmail: varchar("hashed_email").notNull(),
+  captureId: integer("capture_id"), // Null for manual lookups not tied to a capture
+  provider: varchar("provider").notNull(),
+  result: varchar("result").notNull(), // matched, no_match, error
+  unitCost: decimal("unit_cost", { precision: 10, scale: 4 }).notNull().default("0"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_enrichment_ledger_cid_created_at").on(table.cid, table.createdAt),
+]);
+
+// Enrichment payloads table - every raw provider response applied to a capture, so mapping fixes can be re-run without another lookup
+export const enrichmentPayloads = pgTable("enrichment_payloads", {
+  id: serial("id").primaryKey(),
+  captureId: integer("capture_id").notNull().references(() => emailCaptures.id, { onDelete: "cascade" }),
+  cid: varchar("cid").notNull(),
+  hashedEmail: varchar("hashed_email").notNull(),
+  provider: varchar("provider").notNull(),
+  mapperVersion: integer("mapper_version").notNull(), // Mapper version in use when the payload was applied
+  payload: jsonb("payload").notNull(), // Raw provider response as returned by EnrichmentProvider.lookup
+  cached: boolean("cached").notNull().default(false), // Served from the enrichment cache rather than a provider call
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_enrichment_payloads_capture_created_at").on(table.captureId, table.createdAt),
+  index("idx_enrichment_payloads_cid").on(table.cid),
+]);
+
+// Email candidates table - every email the provider returned for a capture, replaced on each enrichment
+export const emailCandidates = pgTable("email_candidates", {
+  id: serial("id").primaryKey(),
+  captureId: integer("capture_id").notNull().references(() => emailCaptures.id, { onDelete: "cascade" }),
+  cid: varchar("cid").notNull(),
+  email: varchar("email").notNull(),
+  md5: varchar("md5"),
+  isMatch: boolean("is_match").notNull().default(false), // MD5 matches the hash that was looked up
+  optIn: boolean("opt_in"),
+  qualityLevel: integer("quality_level"), // 0 (best) to 4 (worst)
+  rankOrder: integer("rank_order"),
+  registerDate: varchar("register_date"),
+  updateDate: varchar("update_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("uq_email_candidates_capture_email").on(table.captureId, table.email),
+  index("idx_email_candidates_capture").on(table.captureId),
+]);
+
+// Enrichment refreshes table - what changed each time a record was re-enriched by the refresh policy
+export const enrichmentRefreshes = pgTable("enrichment_refreshes", {
+  id: serial("id").primaryKey(),
+  captureId: integer("capture_id").notNull().references(() => emailCaptures.id, { onDelete: "cascade" }),
+  cid: varchar("cid").notNull(),
+  hashedEmail: varchar("hashed_email").notNull(),
+  provider: varchar("provider"),
+  previousStatus: varchar("previous_status"), // completed or failed before the refresh
+  outcome: varchar("outcome").notNull(), // updated, unchanged, no_data
+  changes: jsonb("changes"), // { field: { from, to } } for every field the refresh changed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_enrichment_refreshes_capture").on(table.captureId),
+  index("idx_enrichment_refreshes_cid_created_at").on(table.cid, table.createdAt),
+]);
+
+// Page views table - one row per pixel/webhook/worker hit so the full browsing journey is kept
+export const pageViews = pgTable("page_views", {
+  id: serial("id").primaryKey(),
+  captureId: integer("capture_id").notNull().references(() => emailCaptures.id, { onDelete: "cascade" }),
+  cid: varchar("cid").notNull(),
+  hashedEmail: varchar("hashed_email").notNull(),
+  sessionId: varchar("session_id"),
+  url: text("url"),
+  var1: varchar("var1"),
+  var2: varchar("var2"),
+  source: varchar("source"), // pixel_endpoint, webhook, worker_sync, website_sync
+  category: varchar("category"), // URL rule category (listing_detail, home_valuation, ...), null when no rule matched
+  viewedAt: timestamp("viewed_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("uq_page_views_capture_session_viewed_at").on(table.captureId, table.sessionId, table.viewedAt).nullsNotDistinct(),
+  index("idx_page_views_capture_viewed_at").on(table.captureId, table.viewedAt),
+  index("idx_page_views_cid_viewed_at").on(table.cid, table.viewedAt),
+  index("idx_page_views_cid_category").on(table.cid, table.category),
+]);
+
+// Sequences table - multi-step drips; each step tags the contact in Mailchimp or sends a Handwrytten card
+export const sequences = pgTable("sequences", {
+  id: serial("id").primaryKey(),
+  cid: varchar("cid").notNull(),
+  name: varchar("name").notNull(),
+  status: varchar("status").notNull().default("paused"), // active, paused
+  steps: jsonb("steps").notNull(), // SequenceStep[]
+  exitConditions: jsonb("exit_conditions"), // SequenceExitConditions
+  segmentId: integer("segment_id").references(() => segments.id, { onDelete: "set null" }), // Members are enrolled automatically
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_sequences_cid").on(table.cid),
+]);
+
+// Sequence enrollments table - one identity's progress through a sequence
+export const sequenceEnrollments = pgTable("sequence_enrollments", {
+  id: serial("id").primaryKey(),
+  sequenceId: integer("sequence_id").notNull().references(() => sequences.id, { onDelete: "cascade" }),
+  captureId: integer("capture_id").notNull().references(() => emailCaptures.id, { onDelete: "cascade" }),
+  cid: varchar("cid").notNull(),
+  status: varchar("status").notNull().default("active"), // active, completed, exited
+  currentStep: integer("current_step").notNull().default(0), // Index of the next step to run
+  nextRunAt: timestamp("next_run_at"), // When the next step is due, null once finished
+  history: jsonb("history").default([]), // SequenceStepResult[]
+  exitReason: varchar("exit_reason"), // new_visit, unsubscribed, manual
+  enrolledAt: timestamp("enrolled_at").defaultNow(),
+  lastStepAt: timestamp("last_step_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  unique("uq_sequence_enrollments_sequence_capture").on(table.sequenceId, table.captureId),
+  index("idx_sequence_enrollments_status_next_run").on(table.status, table.nextRunAt),
+  index("idx_sequence_enrollments_capture").on(table.captureId),
+]);
+
+// Identity merges table - audit trail of duplicate (hashed_email, cid) captures folded into a survivor
+export const identityMerges = pgTable("identity_merges", {
+  id: serial("id").primaryKey(),
+  cid: varchar("cid").notNull(),
+  hashedEmail: varchar("hashed_email").notNull(),
+  survivorId: integer("survivor_id").notNull(), // Capture that was kept
+  mergedCaptureId: integer("merged_capture_id").notNull(), // Capture that was deleted (no FK - the row is gone)
+  mergedSnapshot: jsonb("merged_snapshot").notNull(), // Full row of the deleted capture
+  fieldsFilled: jsonb("fields_filled"), // Survivor fields copied from the merged capture
+  pageViewsMoved: integer("page_views_moved").default(0),
+  reason: varchar("reason").notNull().default("dedupe_job"),
+  mergedBy: varchar("merged_by"), // Admin user id, or null for system runs
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_identity_merges_cid_hashed_email").on(table.cid, table.hashedEmail),
+  index("idx_identity_merges_survivor").on(table.survivorId),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   emailCaptures: many(emailCaptures),
   campaigns: many(campaigns),
 }));
 
-export const emailCapturesRelations = relations(emailCaptures, ({ one }) => ({
+export const emailCapturesRelations = relations(emailCaptures, ({ one, many }) => ({
   user: one(users, {
     fields: [emailCaptures.userId],
     references: [users.id],
   }),
+  pageViews: many(pageViews),
+  engagements: many(emailEngagements),
 }));
 
-export const campaignsRelations = relations(campaigns, ({ one }) => ({
+export const pageViewsRelations = relations(pageViews, ({ one }) => ({
+  capture: one(emailCaptures, {
+    fields: [pageViews.captureId],
+    references: [emailCaptures.id],
+  }),
+}));
+
+export const campaignsRelations = relations(campaigns, ({ one, many }) => ({
   user: one(users, {
     fields: [campaigns.userId],
     references: [users.id],
   }),
+  segment: one(segments, {
+    fields: [campaigns.segmentId],
+    references: [segments.id],
+  }),
+  recipients: many(campaignRecipients),
+}));
+
+export const campaignRecipientsRelations = relations(campaignRecipients, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [campaignRecipients.campaignId],
+    references: [campaigns.id],
+  }),
+  capture: one(emailCaptures, {
+    fields: [campaignRecipients.captureId],
+    references: [emailCaptures.id],
+  }),
+}));
+
+export const emailEngagementsRelations = relations(emailEngagements, ({ one }) => ({
+  capture: one(emailCaptures, {
+    fields: [emailEngagements.captureId],
+    references: [emailCaptures.id],
+  }),
+  campaignRecipient: one(campaignRecipients, {
+    fields: [emailEngagements.campaignRecipientId],
+    references: [campaignRecipients.id],
+  }),
+}));
+
+export const sequencesRelations = relations(sequences, ({ one, many }) => ({
+  segment: one(segments, {
+    fields: [sequences.segmentId],
+    references: [segments.id],
+  }),
+  enrollments: many(sequenceEnrollments),
+}));
+
+export const sequenceEnrollmentsRelations = relations(sequenceEnrollments, ({ one }) => ({
+  sequence: one(sequences, {
+    fields: [sequenceEnrollments.sequenceId],
+    references: [sequences.id],
+  }),
+  capture: one(emailCaptures, {
+    fields: [sequenceEnrollments.captureId],
+    references: [emailCaptures.id],
+  }),
 }));
 
 // Schemas
@@ -306,16 +682,43 @@ export const insertEmailCaptureSchema = createInsertSchema(emailCaptures).pick({
   householdChildren: true,
   lastPageViewed: true,
   url: true,
+  sessionId: true,
+  var1: true,
+  var2: true,
+  ts: true,
+  metadata: true,
+  trafficStatus: true,
+  trafficFlags: true,
 });
 
 export const insertCampaignSchema = createInsertSchema(campaigns).pick({
   name: true,
   type: true,
   userId: true,
-  recipients: true,
+  cid: true,
+  segmentId: true,
+  audience: true,
+  channelConfig: true,
   scheduledAt: true,
 });
 
+export const insertSegmentSchema = createInsertSchema(segments).pick({
+  cid: true,
+  name: true,
+  description: true,
+  definition: true,
+  userId: true,
+});
+
+export const insertSequenceSchema = createInsertSchema(sequences).pick({
+  cid: true,
+  name: true,
+  steps: true,
+  exitConditions: true,
+  segmentId: true,
+  userId: true,
+});
+
 export const insertSystemLogSchema = createInsertSchema(systemLogs).pick({
   eventType: true,
   source: true,
@@ -336,14 +739,179 @@ export type User = typeof users.$inferSelect;
 // Sync log types
 export type SyncLog = typeof syncLog.$inferSelect;
 export type InsertSyncLog = typeof syncLog.$inferInsert;
+export type SyncCursor = typeof syncCursors.$inferSelect;
+export type InsertSyncCursor = typeof syncCursors.$inferInsert;
 export type EmailCapture = typeof emailCaptures.$inferSelect;
 export type InsertEmailCapture = z.infer<typeof insertEmailCaptureSchema>;
 export type Campaign = typeof campaigns.$inferSelect;
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type CampaignStatus = 'draft' | 'scheduled' | 'in_progress' | 'completed';
+export type CampaignRecipient = typeof campaignRecipients.$inferSelect;
+export type InsertCampaignRecipient = typeof campaignRecipients.$inferInsert;
+export type CampaignRecipientStatus = 'pending' | 'sending' | 'sent' | 'failed';
+export type EmailEngagement = typeof emailEngagements.$inferSelect;
+export type InsertEmailEngagement = typeof emailEngagements.$inferInsert;
+export type EmailEngagementType = 'subscribe' | 'unsubscribe' | 'cleaned' | 'profile' | 'upemail' | 'campaign' | 'open' | 'click';
+export type Segment = typeof segments.$inferSelect;
+export type InsertSegment = z.infer<typeof insertSegmentSchema>;
+export type Sequence = typeof sequences.$inferSelect;
+export type InsertSequence = z.infer<typeof insertSequenceSchema>;
+export type SequenceStatus = 'active' | 'paused';
+export type SequenceEnrollment = typeof sequenceEnrollments.$inferSelect;
+export type InsertSequenceEnrollment = typeof sequenceEnrollments.$inferInsert;
+export type SequenceEnrollmentStatus = 'active' | 'completed' | 'exited';
+export type SequenceExitReason = 'new_visit' | 'unsubscribed' | 'manual';
 export type ApiIntegration = typeof apiIntegrations.$inferSelect;
 export type IdentityMetrics = typeof identityMetrics.$inferSelect;
 export type SystemLog = typeof systemLogs.$inferSelect;
 export type InsertSystemLog = typeof systemLogs.$inferInsert;
+export type EnrichmentJob = typeof enrichmentJobs.$inferSelect;
+export type InsertEnrichmentJob = typeof enrichmentJobs.$inferInsert;
+export type EnrichmentJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'dead';
+export type EnrichmentCacheEntry = typeof enrichmentCache.$inferSelect;
+export type InsertEnrichmentCacheEntry = typeof enrichmentCache.$inferInsert;
+export type EnrichmentLedgerEntry = typeof enrichmentLedger.$inferSelect;
+export type InsertEnrichmentLedgerEntry = typeof enrichmentLedger.$inferInsert;
+export type EnrichmentPayload = typeof enrichmentPayloads.$inferSelect;
+export type InsertEnrichmentPayload = typeof enrichmentPayloads.$inferInsert;
+export type EmailCandidate = typeof emailCandidates.$inferSelect;
+export type InsertEmailCandidate = typeof emailCandidates.$inferInsert;
+export type EnrichmentRefresh = typeof enrichmentRefreshes.$inferSelect;
+export type InsertEnrichmentRefresh = typeof enrichmentRefreshes.$inferInsert;
+export type PageView = typeof pageViews.$inferSelect;
+export type InsertPageView = typeof pageViews.$inferInsert;
+export type IdentityMerge = typeof identityMerges.$inferSelect;
+export type InsertIdentityMerge = typeof identityMerges.$inferInsert;
+
+// Stored in campaigns.audience - filters use the listing query parameters (minLeadScore, minIntentScore,
+// minEquityPercent, maxLoanToValue, minIncome, ...)
+export interface CampaignAudience {
+  filters: Record<string, string>;
+}
+
+// Stored in campaigns.channelConfig
+export interface CampaignChannelConfig {
+  mailchimpTag?: string; // Tag applied to each recipient - a Mailchimp automation or campaign sends to it
+  cardId?: string; // Handwrytten card
+  message?: string; // Handwrytten message template ({firstName}, {lastName}, {city}, ...)
+  handwritingId?: string;
+}
+
+// Identity field -> Mailchimp merge tag it is sent as; null stops sending the field
+export type MailchimpMergeSource =
+  | 'address' | 'city' | 'zip' | 'homeValue' | 'estimatedEquity' | 'householdIncome' | 'leadScore' | 'lastPageViewed';
+export type MailchimpMergeFieldMapping = Partial<Record<MailchimpMergeSource, string | null>>;
+
+// One step of a sequence, stored in sequences.steps
+export interface SequenceStep {
+  day: number; // Days after enrollment the step is due - steps are in day order
+  channel: 'mailchimp' | 'handwrytten';
+  mailchimpTag?: string;
+  cardId?: string;
+  message?: string; // Handwrytten message template ({firstName}, {lastName}, {city}, ...)
+  handwritingId?: string;
+  onlyIfNoReturnVisit?: boolean; // Skipped when the identity has visited since enrolling
+}
+
+// Stored in sequences.exitConditions - a manual stop is always possible
+export interface SequenceExitConditions {
+  newVisit?: boolean; // Exit on a page view after enrolling
+  visitCategory?: string; // Only visits in this category count as a new visit
+  unsubscribe?: boolean; // Exit once the contact is unsubscribed or cleaned in Mailchimp
+}
+
+// Appended to sequenceEnrollments.history as each step runs
+export interface SequenceStepResult {
+  step: number;
+  channel: SequenceStep['channel'];
+  status: 'sent' | 'skipped' | 'failed';
+  at: string;
+  externalId?: string | null; // Handwrytten order id or Mailchimp subscriber hash
+  detail?: string | null; // Why a step was skipped or failed
+}
+
+// Segment rule tree, stored in segments.definition. The root is a group; groups nest up to
+// SEGMENT_LIMITS.maxDepth levels.
+export interface SegmentGroup {
+  type: 'group';
+  combinator: 'and' | 'or';
+  negate?: boolean; // Match identities the group does NOT match
+  rules: SegmentRule[];
+}
+
+// Compares one SEGMENT_FIELDS field - string comparisons ignore case
+export interface SegmentCondition {
+  type: 'condition';
+  field: string;
+  op: SegmentOperator;
+  value?: string | number | boolean | Array<string | number>; // Arrays for in/not_in, [min, max] for between
+}
+
+// Matches identities with page views - every set criterion must hold for the same views
+export interface SegmentVisitRule {
+  type: 'visit';
+  category?: string; // URL rule category (listing_detail, home_valuation, ...)
+  urlContains?: string;
+  withinDays?: number;
+  minCount?: number; // Default 1
+}
+
+export type SegmentRule = SegmentGroup | SegmentCondition | SegmentVisitRule;
+
+export type SegmentFieldType = 'string' | 'number' | 'boolean';
+
+export type SegmentOperator =
+  | 'eq' | 'neq' | 'in' | 'not_in' | 'contains' | 'starts_with'
+  | 'gt' | 'gte' | 'lt' | 'lte' | 'between'
+  | 'is_set' | 'is_not_set';
+
+export const SEGMENT_OPERATORS: Record<SegmentFieldType, SegmentOperator[]> = {
+  string: ['eq', 'neq', 'in', 'not_in', 'contains', 'starts_with', 'is_set', 'is_not_set'],
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'not_in', 'is_set', 'is_not_set'],
+  boolean: ['eq'],
+};
+
+// Fields a segment condition can test. Derived fields are computed in SQL from other columns or page views.
+export const SEGMENT_FIELDS: Record<string, { label: string; type: SegmentFieldType; derived?: boolean }> = {
+  zip: { label: 'ZIP Code', type: 'string' },
+  city: { label: 'City', type: 'string' },
+  state: { label: 'State', type: 'string' },
+  homeOwnership: { label: 'Home Ownership', type: 'string' },
+  maritalStatus: { label: 'Marital Status', type: 'string' },
+  gender: { label: 'Gender', type: 'string' },
+  mortgageLoanType: { label: 'Mortgage Loan Type', type: 'string' },
+  householdIncome: { label: 'Household Income Band', type: 'string' },
+  source: { label: 'Capture Source', type: 'string' },
+  homeValue: { label: 'Current Home Value', type: 'number' },
+  homePrice: { label: 'Home Purchase Price', type: 'number' },
+  mortgageAmount: { label: 'Mortgage Amount', type: 'number' },
+  mortgageAge: { label: 'Mortgage Age (Years)', type: 'number' },
+  lengthOfResidence: { label: 'Length of Residence (Years)', type: 'number' },
+  age: { label: 'Age', type: 'number' },
+  householdPersons: { label: 'Household Size', type: 'number' },
+  householdChildren: { label: 'Number of Children', type: 'number' },
+  householdIncomeMin: { label: 'Household Income (Min)', type: 'number' },
+  householdIncomeMax: { label: 'Household Income (Max)', type: 'number' },
+  householdIncomeMidpoint: { label: 'Household Income (Midpoint)', type: 'number' },
+  estimatedEquity: { label: 'Estimated Equity', type: 'number' },
+  equityPercent: { label: 'Equity %', type: 'number' },
+  loanToValue: { label: 'Loan-to-Value %', type: 'number' },
+  appreciationPercent: { label: 'Appreciation %', type: 'number' },
+  leadScore: { label: 'Lead Score', type: 'number' },
+  sellerScore: { label: 'Seller Score', type: 'number' },
+  buyerScore: { label: 'Buyer Score', type: 'number' },
+  refinanceScore: { label: 'Refinance Score', type: 'number' },
+  intentScore: { label: 'Intent Score', type: 'number' },
+  homeowner: { label: 'Is Homeowner', type: 'boolean', derived: true },
+  hasPhone: { label: 'Has Phone', type: 'boolean', derived: true },
+  hasMailingAddress: { label: 'Has Mailing Address', type: 'boolean', derived: true },
+  enriched: { label: 'Enriched', type: 'boolean', derived: true },
+  daysSinceCapture: { label: 'Days Since Captured', type: 'number', derived: true },
+  daysSinceLastVisit: { label: 'Days Since Last Visit', type: 'number', derived: true },
+  visitCount: { label: 'Total Page Views', type: 'number', derived: true },
+};
+
+export const SEGMENT_LIMITS = { maxDepth: 4, maxRules: 50, maxListValues: 200 };
 
 // Real Estate specific enrichment data structure
 export interface RealEstateEnrichmentData {
@@ -358,11 +926,13 @@ export interface RealEstateEnrichmentData {
   gender?: string;
   birthDate?: string;
   email?: string;
+  bestEmail?: string;
+  bestEmailQuality?: number;
   hashedEmail?: string;
   mortgageLoanType?: string;
   mortgageAmount?: number;
   mortgageAge?: number;
-  householdIncome?: number;
+  householdIncome?: string; // Band label as reported by the provider, e.g. "$200K to $249K"
   homeOwnership?: string;
   homePrice?: number;
   homeValue?: number;
@@ -371,9 +941,48 @@ export interface RealEstateEnrichmentData {
   maritalStatus?: string;
   householdPersons?: number;
   householdChildren?: number;
+  ips?: string[];
+  emailCandidates?: EnrichmentEmailCandidate[]; // Every email the provider returned, not just the selected one
   url?: string;
 }
 
+// One email address the provider associates with an identity
+export interface EnrichmentEmailCandidate {
+  email: string;
+  md5?: string;
+  optIn?: boolean;
+  qualityLevel?: number; // 0 (best) to 4 (worst)
+  rankOrder?: number; // Lower is better
+  registerDate?: string;
+  updateDate?: string;
+}
+
+export type LeadScoreType = 'seller' | 'buyer' | 'refinance';
+
+// One input to a lead score: signal is 0-1, points = signal * weight scaled so a score's points sum to it
+export interface LeadScoreFactor {
+  key: string;
+  label: string;
+  value: string | number | null; // The input the signal came from, for display
+  signal: number;
+  weight: number;
+  points: number;
+}
+
+// Stored in emailCaptures.leadScoreFactors
+export type LeadScoreBreakdown = Record<LeadScoreType, { score: number; factors: LeadScoreFactor[] }>;
+
+// Stored in emailCaptures.intentFactors - each component is 0-1
+export interface IntentBreakdown {
+  score: number;
+  recency: number;
+  frequency: number;
+  variety: number;
+  lastVisitAt: string | null;
+  visits: number;
+  categories: Record<string, number>; // Category -> visits in the window
+}
+
 // Business type specific field configurations
 export const BUSINESS_TYPE_FIELDS = {
   real_estate: [
@@ -390,14 +999,26 @@ export const BUSINESS_TYPE_FIELDS = {
     { key: 'email', label: 'Email Address' },
     { key: 'bestEmail', label: 'Best Email' },
     { key: 'bestEmailQuality', label: 'Best Email Quality' },
+    { key: 'leadScore', label: 'Lead Score' },
+    { key: 'sellerScore', label: 'Seller Score' },
+    { key: 'buyerScore', label: 'Buyer Score' },
+    { key: 'refinanceScore', label: 'Refinance Score' },
+    { key: 'intentScore', label: 'Intent Score' },
     { key: 'hashedEmail', label: 'Hashed Email' },
     { key: 'mortgageLoanType', label: 'Mortgage Loan Type' },
     { key: 'mortgageAmount', label: 'Mortgage Amount' },
     { key: 'mortgageAge', label: 'Mortgage Age (Years)' },
     { key: 'householdIncome', label: 'Household Income' },
+    { key: 'householdIncomeMidpoint', label: 'Household Income (Midpoint)' },
     { key: 'homeOwnership', label: 'Home Ownership' },
     { key: 'homePrice', label: 'Home Purchase Price' },
     { key: 'homeValue', label: 'Current Home Value' },
+    { key: 'estimatedEquity', label: 'Estimated Equity' },
+    { key: 'equityPercent', label: 'Equity %' },
+    { key: 'loanToValue', label: 'Loan-to-Value %' },
+    { key: 'estimatedLoanBalance', label: 'Estimated Loan Balance' },
+    { key: 'appreciationAmount', label: 'Appreciation Since Purchase' },
+    { key: 'appreciationPercent', label: 'Appreciation %' },
     { key: 'lengthOfResidence', label: 'Length of Residence (Years)' },
     { key: 'age', label: 'Age' },
     { key: 'maritalStatus', label: 'Marital Status' },